@@ -8,13 +8,19 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Suppliers from "@/pages/suppliers";
+import SupplierDetail from "@/pages/supplier-detail";
 import Products from "@/pages/products";
 import Quotations from "@/pages/quotations";
 import Analytics from "@/pages/analytics";
 import PurchaseOrders from "@/pages/purchase-orders";
+import Invoices from "@/pages/invoices";
 import Settings from "@/pages/settings";
 import Chat from "@/pages/chat";
 import Audit from "@/pages/audit";
+import CostCenters from "@/pages/cost-centers";
+import QuotationComparison from "@/pages/quotation-comparison";
+import SupplierPortal from "@/pages/supplier-portal";
+import SupplierOnboarding from "@/pages/supplier-onboarding";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -22,15 +28,22 @@ function Router() {
 
   return (
     <Switch>
+      {/* Public: suppliers open their quotation and registration links without logging in */}
+      <Route path="/portal/:token" component={SupplierPortal} />
+      <Route path="/cadastro/:token" component={SupplierOnboarding} />
       {isLoading || !isAuthenticated ? (
         <Route path="/" component={Landing} />
       ) : (
         <>
           <Route path="/" component={Dashboard} />
           <Route path="/suppliers" component={Suppliers} />
+          <Route path="/suppliers/:id" component={SupplierDetail} />
           <Route path="/products" component={Products} />
           <Route path="/quotations" component={Quotations} />
+          <Route path="/quotations/:id/comparison" component={QuotationComparison} />
           <Route path="/purchase-orders" component={PurchaseOrders} />
+          <Route path="/invoices" component={Invoices} />
+          <Route path="/cost-centers" component={CostCenters} />
           <Route path="/analytics" component={Analytics} />
           <Route path="/chat" component={Chat} />
           <Route path="/audit" component={Audit} />
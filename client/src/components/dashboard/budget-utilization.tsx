@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Link } from "wouter";
+
+const monthNames = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+export default function BudgetUtilization() {
+  const { data: utilization = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/dashboard/budget-utilization"],
+  });
+
+  const getUtilizationColor = (percentage: number) => {
+    if (percentage >= 100) return 'text-red-600';
+    if (percentage >= 80) return 'text-yellow-600';
+    return 'text-green-600';
+  };
+
+  const formatPeriod = (row: any) => row.month ? `${monthNames[row.month - 1]}/${row.year}` : `${row.year}`;
+
+  return (
+    <Card className="bg-white rounded-lg shadow-sm border border-gray-100">
+      <CardHeader className="p-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-gray-900">Orçamento por Centro de Custo</CardTitle>
+          <Link href="/cost-centers">
+            <a className="text-sm text-primary hover:underline">Ver todos</a>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {isLoading ? (
+          [...Array(3)].map((_, i) => (
+            <div key={i} className="animate-pulse space-y-2">
+              <div className="h-4 bg-gray-200 rounded w-40"></div>
+              <div className="h-2 bg-gray-200 rounded"></div>
+            </div>
+          ))
+        ) : utilization.length > 0 ? (
+          utilization.map((row: any) => (
+            <div key={row.costCenterId} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">
+                  {row.code} - {row.name}
+                  <span className="text-xs text-gray-500 ml-2">{formatPeriod(row)}</span>
+                </span>
+                <span className={`font-semibold ${getUtilizationColor(row.utilization)}`}>
+                  {row.utilization.toLocaleString('pt-BR')}%
+                </span>
+              </div>
+              <Progress value={Math.min(row.utilization, 100)} />
+              <p className="text-xs text-gray-500">
+                Comprometido R$ {row.committed.toLocaleString('pt-BR')} • Consumido R$ {row.consumed.toLocaleString('pt-BR')} • Disponível R$ {row.available.toLocaleString('pt-BR')} de R$ {row.amount.toLocaleString('pt-BR')}
+              </p>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-8">
+            <span className="material-icons text-4xl text-gray-300 mb-2">account_balance</span>
+            <p className="text-gray-500">Nenhum orçamento cadastrado para o período</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
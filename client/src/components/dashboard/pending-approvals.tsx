@@ -75,6 +75,9 @@ export default function PendingApprovals() {
                   <p className="text-xs mt-1">
                     {calculateDaysUntilExpiry(approval.createdAt)}
                   </p>
+                  {approval.onBehalfOfName && (
+                    <p className="text-xs text-gray-500 mt-1">Em nome de {approval.onBehalfOfName}</p>
+                  )}
                 </div>
                 <Link href={`/quotations?id=${approval.id}`}>
                   <a className="p-1 hover:opacity-80">
@@ -13,6 +13,7 @@ export default function RecentQuotations() {
       'aguardando_aprovacao': { variant: 'outline' as const, label: 'Aguardando', className: 'bg-yellow-100 text-yellow-800' },
       'aprovado': { variant: 'default' as const, label: 'Aprovado', className: 'bg-green-100 text-green-800' },
       'em_cotacao': { variant: 'secondary' as const, label: 'Em Cotação', className: 'bg-blue-100 text-blue-800' },
+      'cotacao_encerrada': { variant: 'secondary' as const, label: 'Cotação Encerrada', className: 'bg-purple-100 text-purple-800' },
       'rejeitado': { variant: 'destructive' as const, label: 'Rejeitado', className: 'bg-red-100 text-red-800' },
       'rascunho': { variant: 'outline' as const, label: 'Rascunho', className: 'bg-gray-100 text-gray-800' }
     };
@@ -0,0 +1,2 @@
+export { InvoiceStatusBadge, MatchIssueList, matchIssueLabels } from './invoice-status-badge';
+export { NfeImportDialog } from './nfe-import-dialog';
@@ -0,0 +1,49 @@
+import { Badge } from "@/components/ui/badge";
+
+const invoiceStatusStyles: Record<string, { label: string; className: string }> = {
+  divergente: { label: 'Divergente', className: 'bg-orange-100 text-orange-800' },
+  a_pagar: { label: 'A Pagar', className: 'bg-blue-100 text-blue-800' },
+  pago: { label: 'Pago', className: 'bg-green-100 text-green-800' },
+  cancelado: { label: 'Cancelado', className: 'bg-gray-200 text-gray-800' },
+};
+
+export const matchIssueLabels: Record<string, string> = {
+  item_nao_pedido: 'Item não consta no pedido',
+  quantidade_excedente: 'Quantidade faturada maior que a pedida',
+  quantidade_nao_recebida: 'Quantidade faturada maior que a recebida',
+  preco_divergente: 'Preço unitário diferente do pedido',
+  total_divergente: 'Total da nota difere da soma dos itens',
+};
+
+export function InvoiceStatusBadge({ status }: { status: string }) {
+  const style = invoiceStatusStyles[status] ?? { label: status, className: 'bg-gray-100 text-gray-800' };
+  return (
+    <Badge className={`px-2 py-1 text-xs font-medium rounded-full ${style.className}`}>
+      {style.label}
+    </Badge>
+  );
+}
+
+// Lists the three-way match findings stored on an invoice
+export function MatchIssueList({ issues }: { issues: any[] }) {
+  if (!issues?.length) return null;
+
+  const formatValue = (issue: any, value: number) =>
+    issue.type === 'preco_divergente' || issue.type === 'total_divergente'
+      ? new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+      : value.toLocaleString('pt-BR');
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {issues.map((issue: any, index: number) => (
+        <li key={index} className="flex items-start space-x-2 text-orange-800">
+          <span className="material-icons text-sm">warning</span>
+          <span>
+            <span className="font-medium">{issue.description}</span>: {matchIssueLabels[issue.type] ?? issue.type}
+            {" "}(esperado {formatValue(issue, issue.expected)}, faturado {formatValue(issue, issue.actual)})
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
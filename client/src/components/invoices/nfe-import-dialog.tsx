@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { InvoiceStatusBadge, MatchIssueList } from "./invoice-status-badge";
+
+type ImportResult = {
+  ok: boolean;
+  message?: string;
+  invoice?: any;
+  items: any[];
+};
+
+export function NfeImportDialog() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File): Promise<ImportResult> => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload/supplier-invoices', {
+        method: 'POST',
+        body: formData,
+      });
+      const body = await response.json().catch(() => ({}));
+
+      // Rejected files still carry a per-item explanation worth showing
+      if (!response.ok && !Array.isArray(body.items)) {
+        throw new Error(body.message || 'Falha ao importar NF-e');
+      }
+      return response.ok
+        ? { ok: true, invoice: body.invoice, items: body.items }
+        : { ok: false, message: body.message, items: body.items };
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.ok) {
+        queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/invoices/exceptions'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao importar NF-e",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setSelectedFile(null);
+      setResult(null);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="text-blue-600 border-blue-300 hover:bg-blue-50">
+          <span className="material-icons mr-2 text-sm">upload</span>
+          Importar NF-e
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="material-icons">upload_file</span>
+            Importar NF-e (XML)
+          </DialogTitle>
+          <DialogDescription>
+            O emitente é identificado pelo CNPJ e os itens são conciliados com as ordens de compra em aberto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Input
+              type="file"
+              accept=".xml,text/xml,application/xml"
+              onChange={(e) => {
+                setSelectedFile(e.target.files?.[0] ?? null);
+                setResult(null);
+              }}
+            />
+            <Button
+              onClick={() => selectedFile && importMutation.mutate(selectedFile)}
+              disabled={!selectedFile || importMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {importMutation.isPending ? "Importando..." : "Importar"}
+            </Button>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              {result.ok ? (
+                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <p className="text-sm font-medium">
+                    NF {result.invoice.invoiceNumber} registrada para {result.invoice.supplier?.name} • {result.invoice.purchaseOrder?.orderNumber}
+                  </p>
+                  <InvoiceStatusBadge status={result.invoice.status} />
+                </div>
+              ) : (
+                <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800">
+                  {result.message}
+                </div>
+              )}
+
+              {result.ok && result.invoice.status === 'divergente' && (
+                <MatchIssueList issues={result.invoice.matchIssues} />
+              )}
+
+              {result.items.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>NCM</TableHead>
+                      <TableHead className="text-right">Qtd.</TableHead>
+                      <TableHead>Conciliação</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.items.map((item: any) => (
+                      <TableRow key={item.itemNumber}>
+                        <TableCell>{item.itemNumber}</TableCell>
+                        <TableCell>{item.description}</TableCell>
+                        <TableCell className="font-mono text-xs">{item.ncm || '-'}</TableCell>
+                        <TableCell className="text-right">{Number(item.quantity).toLocaleString('pt-BR')}</TableCell>
+                        <TableCell className={`text-sm ${item.matched ? 'text-green-700' : 'text-orange-700'}`}>
+                          {item.reason}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
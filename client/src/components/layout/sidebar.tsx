@@ -13,6 +13,12 @@ const navigationItems = [
     path: "/products",
     section: "gestao"
   },
+  {
+    label: "Centros de Custo",
+    icon: "account_balance",
+    path: "/cost-centers",
+    section: "gestao"
+  },
   {
     label: "Requisições",
     icon: "request_quote",
@@ -37,6 +43,12 @@ const navigationItems = [
     path: "/purchase-orders",
     section: "cotacoes"
   },
+  {
+    label: "Notas Fiscais",
+    icon: "receipt_long",
+    path: "/invoices",
+    section: "cotacoes"
+  },
   {
     label: "Relatórios",
     icon: "analytics",
@@ -0,0 +1 @@
+export { PriceSparkline, PriceHistoryDialog } from './price-history';
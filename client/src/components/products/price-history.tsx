@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const sourceLabels: Record<string, string> = {
+  cotacao: 'Cotação',
+  pedido: 'Pedido',
+};
+
+const formatCurrency = (value: number | string | null) =>
+  value === null ? '-' : `R$ ${Number(value).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const periodQuery = (from: string, to: string) => {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', `${to}T23:59:59`);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Monthly average price of the product in its own unit
+export function PriceSparkline({ productId }: { productId: string }) {
+  const { data: trend } = useQuery<any>({
+    queryKey: ['/api/products', productId, 'price-trend'],
+  });
+
+  if (!trend || trend.series.length < 2) return null;
+
+  const variation = trend.stats.variation;
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="h-8 w-24">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={trend.series}>
+            <Line type="monotone" dataKey="average" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {variation !== null && (
+        <span className={`text-xs ${variation > 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {variation > 0 ? '+' : ''}{(variation * 100).toFixed(1)}%
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function PriceHistoryDialog({ product }: { product: any }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const query = periodQuery(from, to);
+
+  const { data: trend } = useQuery<any>({
+    queryKey: ['/api/products', product.id, `price-trend${query}`],
+    enabled: isOpen,
+  });
+
+  const { data: history = [] } = useQuery<any[]>({
+    queryKey: ['/api/products', product.id, `price-history${query}`],
+    enabled: isOpen,
+  });
+
+  const stats = trend?.stats;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <span className="material-icons mr-1 text-sm">show_chart</span>
+          Histórico de preços
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Histórico de preços • {product.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="price-history-from">De</Label>
+              <Input id="price-history-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-history-to">Até</Label>
+              <Input id="price-history-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {stats && stats.count > 0 ? (
+            <>
+              <div className="grid grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">Mínimo</p>
+                  <p className="font-medium">{formatCurrency(stats.min)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Mediana</p>
+                  <p className="font-medium">{formatCurrency(stats.median)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Máximo</p>
+                  <p className="font-medium">{formatCurrency(stats.max)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Média ponderada</p>
+                  <p className="font-medium">{formatCurrency(stats.average)}</p>
+                </div>
+              </div>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend.series}>
+                    <XAxis dataKey="period" fontSize={12} />
+                    <YAxis fontSize={12} width={60} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Line type="monotone" dataKey="average" name="Média" stroke="hsl(var(--primary))" strokeWidth={2} />
+                    <Line type="monotone" dataKey="min" name="Mínimo" stroke="#16a34a" strokeDasharray="4 4" dot={false} />
+                    <Line type="monotone" dataKey="max" name="Máximo" stroke="#dc2626" strokeDasharray="4 4" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-gray-500">Estatísticas e gráfico na unidade {trend.unit}.</p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Nenhum preço registrado no período.</p>
+          )}
+
+          {history.length > 0 && (
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead>Origem</TableHead>
+                    <TableHead className="text-right">Quantidade</TableHead>
+                    <TableHead className="text-right">Preço Unitário</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...history].reverse().map((entry: any) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{new Date(entry.recordedAt).toLocaleDateString('pt-BR')}</TableCell>
+                      <TableCell>{entry.supplier?.name || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{sourceLabels[entry.source] ?? entry.source}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {Number(entry.quantity).toLocaleString('pt-BR')} {entry.unit}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.unitPrice)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+
+interface ApprovalStepsProps {
+  quotationRequestId: string;
+}
+
+export function ApprovalSteps({ quotationRequestId }: ApprovalStepsProps) {
+  const { data: steps = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/quotation-requests', quotationRequestId, 'approval-steps'],
+  });
+
+  const getStepStyle = (status: string) => {
+    switch (status) {
+      case 'aprovado': return { icon: 'check_circle', className: 'bg-green-100 text-green-800' };
+      case 'rejeitado': return { icon: 'cancel', className: 'bg-red-100 text-red-800' };
+      default: return { icon: 'schedule', className: 'bg-yellow-100 text-yellow-800' };
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-6 bg-gray-200 rounded w-48 animate-pulse"></div>;
+  }
+
+  if (steps.length === 0) {
+    return null;
+  }
+
+  const approvedCount = steps.filter((step: any) => step.status === 'aprovado').length;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-500">
+        Etapas de aprovação: {approvedCount} de {steps.length}
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        {steps.map((step: any) => {
+          const style = getStepStyle(step.status);
+          return (
+            <Badge key={step.id} className={`px-2 py-1 text-xs font-medium rounded-full ${style.className}`}>
+              <span className="material-icons mr-1 text-xs">{style.icon}</span>
+              {step.stepOrder}. {step.name}
+            </Badge>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -41,10 +41,11 @@ export function FileUploadSection() {
       const successMessage = `${data.created} ${entityType} criadas`;
       const warningMessage = data.skipped > 0 ? `, ${data.skipped} ignoradas` : '';
       const errorMessage = data.errors.length > 0 ? `. Erros: ${data.errors.join('; ')}` : '';
+      const duplicateMessage = data.warnings?.length > 0 ? `. Atenção: ${data.warnings.join('; ')}` : '';
       
       toast({ 
         title: "Planilha processada!", 
-        description: `${successMessage}${warningMessage}${errorMessage}`,
+        description: `${successMessage}${warningMessage}${errorMessage}${duplicateMessage}`,
         variant: data.errors.length > 0 ? "destructive" : "default"
       });
       
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export type ImportType = "quotation_requests" | "supplier_quotations";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export interface ImportPreview {
+  importType: ImportType;
+  headerRow: number;
+  headers: string[];
+  sample: { rowNumber: number; values: Record<string, unknown> }[];
+  totalRows: number;
+  suggestedMapping: Record<string, string>;
+  suggestedDefaults: Record<string, string>;
+  isTemplate: boolean;
+  fields: ImportField[];
+}
+
+export interface ColumnMapping {
+  headerRow: number;
+  columns: Record<string, string>;
+  defaults: Record<string, string>;
+}
+
+// Radix Select items cannot have an empty value
+const NO_COLUMN = "__none__";
+
+export const isMappingComplete = (fields: ImportField[], mapping: ColumnMapping) =>
+  fields.every(field => !field.required || mapping.columns[field.key] || mapping.defaults[field.key]?.trim());
+
+const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+interface ImportMappingStepProps {
+  importType: ImportType;
+  preview: ImportPreview;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  // A different header row changes the columns, so the file has to be read again
+  onHeaderRowChange: (headerRow: number, mapping?: ColumnMapping) => void;
+  isReloading: boolean;
+}
+
+export function ImportMappingStep({ importType, preview, mapping, onMappingChange, onHeaderRowChange, isReloading }: ImportMappingStepProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [profileId, setProfileId] = useState<string>(NO_COLUMN);
+  const [profileName, setProfileName] = useState('');
+  const [profileSupplierId, setProfileSupplierId] = useState<string>(NO_COLUMN);
+  const [profileDepartment, setProfileDepartment] = useState('');
+  const [headerRowInput, setHeaderRowInput] = useState(String(preview.headerRow));
+
+  const { data: profiles = [] } = useQuery<any[]>({
+    queryKey: [`/api/import-profiles?importType=${importType}`],
+  });
+
+  const { data: suppliers = [] } = useQuery<any[]>({
+    queryKey: ['/api/suppliers'],
+    enabled: importType === "supplier_quotations",
+  });
+
+  // Profiles created by someone else are saved as a new profile instead of being overwritten
+  const selectedProfile = profiles.find((candidate: any) => candidate.id === profileId);
+  const canUpdateProfile = !!selectedProfile && (user?.role === 'admin' || selectedProfile.createdById === user?.id);
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: profileName,
+        importType,
+        supplierId: profileSupplierId === NO_COLUMN ? null : profileSupplierId,
+        department: profileDepartment || null,
+        ...mapping,
+      };
+      const response = !canUpdateProfile
+        ? await apiRequest("POST", "/api/import-profiles", body)
+        : await apiRequest("PUT", `/api/import-profiles/${profileId}`, body);
+      return response.json();
+    },
+    onSuccess: (profile: any) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/import-profiles?importType=${importType}`] });
+      setProfileId(profile.id);
+      toast({
+        title: "Sucesso",
+        description: "Perfil de importação salvo!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar perfil de importação",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find((candidate: any) => candidate.id === id);
+    if (!profile) return;
+
+    setProfileName(profile.name);
+    setProfileSupplierId(profile.supplierId ?? NO_COLUMN);
+    setProfileDepartment(profile.department ?? '');
+    const profileMapping = { headerRow: profile.headerRow, columns: profile.columns ?? {}, defaults: profile.defaults ?? {} };
+    if (profile.headerRow !== preview.headerRow) {
+      setHeaderRowInput(String(profile.headerRow));
+      onHeaderRowChange(profile.headerRow, profileMapping);
+    } else {
+      onMappingChange(profileMapping);
+    }
+  };
+
+  const setColumn = (fieldKey: string, column: string) => {
+    const columns = { ...mapping.columns };
+    if (column === NO_COLUMN) {
+      delete columns[fieldKey];
+    } else {
+      columns[fieldKey] = column;
+    }
+    onMappingChange({ ...mapping, columns });
+  };
+
+  const setDefault = (fieldKey: string, value: string) => {
+    onMappingChange({ ...mapping, defaults: { ...mapping.defaults, [fieldKey]: value } });
+  };
+
+  const mappedFields = preview.fields.filter(field => mapping.columns[field.key] || mapping.defaults[field.key]?.trim());
+  const missingColumns = Object.values(mapping.columns).filter(column => !preview.headers.includes(column));
+
+  const describeProfile = (profile: any) => {
+    const supplier = suppliers.find((candidate: any) => candidate.id === profile.supplierId);
+    const scope = supplier?.name ?? profile.department;
+    return scope ? `${profile.name} • ${scope}` : profile.name;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Perfil de importação</Label>
+          <Select value={profileId} onValueChange={applyProfile}>
+            <SelectTrigger>
+              <SelectValue placeholder="Nenhum perfil" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COLUMN}>Nenhum perfil</SelectItem>
+              {profiles.map((profile: any) => (
+                <SelectItem key={profile.id} value={profile.id}>{describeProfile(profile)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-header-row">Linha do cabeçalho</Label>
+          <div className="flex gap-2">
+            <Input
+              id="import-header-row"
+              type="number"
+              min={1}
+              value={headerRowInput}
+              onChange={(e) => setHeaderRowInput(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={() => onHeaderRowChange(Number(headerRowInput))}
+              disabled={isReloading || !(Number(headerRowInput) >= 1) || Number(headerRowInput) === preview.headerRow}
+            >
+              Reler
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {preview.isTemplate && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+          Planilha de resposta gerada pelo sistema: colunas e dados do fornecedor já mapeados.
+        </div>
+      )}
+
+      {missingColumns.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          Colunas do perfil não encontradas nesta planilha: {missingColumns.join(', ')}
+        </div>
+      )}
+
+      <div className="border rounded-lg divide-y">
+        {preview.fields.map(field => (
+          <div key={field.key} className="grid grid-cols-3 gap-3 items-center p-2">
+            <span className="text-sm font-medium">
+              {field.label}{field.required && <span className="text-red-600"> *</span>}
+            </span>
+            <Select value={mapping.columns[field.key] ?? NO_COLUMN} onValueChange={(value) => setColumn(field.key, value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Não importar" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>Não importar</SelectItem>
+                {preview.headers.map(header => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Valor fixo"
+              value={mapping.defaults[field.key] ?? ''}
+              onChange={(e) => setDefault(field.key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">O valor fixo é usado quando a coluna não está mapeada ou está vazia na linha.</p>
+
+      {mappedFields.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-2">
+            Prévia ({Math.min(preview.sample.length, preview.totalRows)} de {preview.totalRows} linhas)
+          </p>
+          <div className="max-h-56 overflow-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Linha</TableHead>
+                  {mappedFields.map(field => (
+                    <TableHead key={field.key}>{field.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.sample.map(row => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell className="text-gray-500">{row.rowNumber}</TableCell>
+                    {mappedFields.map(field => {
+                      const column = mapping.columns[field.key];
+                      const value = (column ? cellText(row.values[column]) : '') || mapping.defaults[field.key]?.trim() || '';
+                      return <TableCell key={field.key}>{value || '-'}</TableCell>;
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+        <p className="text-sm font-medium">Salvar mapeamento como perfil</p>
+        <div className="grid grid-cols-3 gap-2">
+          <Input placeholder="Nome do perfil" value={profileName} onChange={(e) => setProfileName(e.target.value)} />
+          {importType === "supplier_quotations" ? (
+            <Select value={profileSupplierId} onValueChange={setProfileSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Fornecedor" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>Qualquer fornecedor</SelectItem>
+                {suppliers.map((supplier: any) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input placeholder="Departamento" value={profileDepartment} onChange={(e) => setProfileDepartment(e.target.value)} />
+          )}
+          <Button
+            variant="outline"
+            onClick={() => saveProfileMutation.mutate()}
+            disabled={!profileName.trim() || !isMappingComplete(preview.fields, mapping) || saveProfileMutation.isPending}
+          >
+            <span className="material-icons mr-2 text-sm">save</span>
+            {canUpdateProfile ? 'Atualizar perfil' : 'Salvar perfil'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
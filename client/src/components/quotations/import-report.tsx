@@ -0,0 +1,135 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export interface ImportRowResult {
+  rowNumber: number;
+  status: "ok" | "error" | "skipped";
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  processed: number;
+  valid: number;
+  skipped: number;
+  errorCount: number;
+  created: number;
+  rows: ImportRowResult[];
+  errors: string[];
+  warnings: string[];
+}
+
+const statusLabels: Record<string, string> = {
+  ok: 'Válida',
+  error: 'Com erro',
+  skipped: 'Ignorada',
+};
+
+const statusColors: Record<string, string> = {
+  ok: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-800',
+};
+
+// Sends the file again and saves the copy annotated by the server with the errors of each row
+export async function downloadErrorReport(file: File, importType: string, mapping: unknown) {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('importType', importType);
+  formData.append('mapping', JSON.stringify(mapping));
+
+  const response = await fetch('/api/upload/error-report', {
+    method: 'POST',
+    body: formData,
+  });
+  if (!response.ok) {
+    throw new Error('Failed to build error report');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${file.name.replace(/\.[^.]+$/, '')}-erros.xlsx`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ImportReportView({ report }: { report: ImportReport }) {
+  const rowsWithMessages = report.rows.filter(row => row.errors.length > 0 || row.warnings.length > 0);
+  const fileWarnings = report.warnings.filter(warning => !warning.startsWith('Linha '));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Linhas lidas</p>
+          <p className="font-medium">{report.processed}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Válidas</p>
+          <p className="font-medium text-green-700">{report.valid}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Com erro</p>
+          <p className="font-medium text-red-700">{report.errorCount}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Ignoradas</p>
+          <p className="font-medium">{report.skipped}</p>
+        </div>
+      </div>
+
+      {report.errorCount > 0 ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+          {report.dryRun
+            ? 'Corrija as linhas com erro antes de importar: a planilha só é importada se todas as linhas forem válidas.'
+            : 'Nada foi importado: a planilha contém linhas com erro.'}
+        </div>
+      ) : (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+          Todas as linhas são válidas e podem ser importadas.
+        </div>
+      )}
+
+      {fileWarnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-1">
+          {fileWarnings.map(warning => (
+            <p key={warning} className="text-xs text-yellow-800">{warning}</p>
+          ))}
+        </div>
+      )}
+
+      {rowsWithMessages.length > 0 && (
+        <div className="max-h-64 overflow-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Linha</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead>Mensagens</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rowsWithMessages.map(row => (
+                <TableRow key={row.rowNumber}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  <TableCell>
+                    <Badge className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusColors[row.status]}`}>
+                      {statusLabels[row.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {row.errors.map(error => <p key={error} className="text-red-700">{error}</p>)}
+                    {row.warnings.map(warning => <p key={warning} className="text-yellow-700">{warning}</p>)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1 +1,4 @@
-export { SupplierQuotationsSection } from './supplier-quotations-section';
\ No newline at end of file
+export { SupplierQuotationsSection } from './supplier-quotations-section';
+export { ApprovalSteps } from './approval-steps';
+export { SupplierPortalLinks } from './supplier-portal-links';
+export { PriceFlagBadge, PriceAnomalyWarnings, priceFlagLabels } from './price-anomalies';
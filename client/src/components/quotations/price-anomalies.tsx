@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+
+export const priceFlagLabels: Record<string, string> = {
+  suspeito_alto: 'Preço suspeito (alto)',
+  suspeito_baixo: 'Preço suspeito (baixo)',
+};
+
+const priceFlagColors: Record<string, string> = {
+  suspeito_alto: 'bg-red-100 text-red-800',
+  suspeito_baixo: 'bg-orange-100 text-orange-800',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const describeDetails = (details: any) =>
+  `${details.deviation > 0 ? '+' : ''}${Math.round(details.deviation * 100)}% da mediana de ${formatCurrency(details.median)} ` +
+  `(${details.historySize} preço(s) históricos, ${details.bidsSize} outra(s) proposta(s))`;
+
+export function PriceFlagBadge({ flag, details }: { flag: string | null; details: any }) {
+  if (!flag) return null;
+  return (
+    <Badge
+      className={`px-2 py-0.5 text-xs font-medium rounded-full ${priceFlagColors[flag]}`}
+      title={details ? describeDetails(details) : undefined}
+    >
+      <span className="material-icons text-xs mr-1">warning</span>
+      {priceFlagLabels[flag] ?? flag}
+    </Badge>
+  );
+}
+
+// Warnings for the approver: awarded lines first, since those are what the approval signs off on
+export function PriceAnomalyWarnings({ quotationRequestId }: { quotationRequestId: string }) {
+  const { data: flagged = [] } = useQuery<any[]>({
+    queryKey: ['/api/quotation-requests', quotationRequestId, 'price-anomalies'],
+  });
+
+  if (flagged.length === 0) {
+    return null;
+  }
+
+  const sorted = [...flagged].sort((a, b) => Number(b.isAwarded) - Number(a.isAwarded));
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-1">
+      <p className="text-sm font-medium text-yellow-800">Preços fora do padrão</p>
+      {sorted.map((line: any) => (
+        <div key={line.supplierQuotationItemId} className="flex items-center justify-between text-xs text-gray-700 gap-2">
+          <span>
+            {line.productName} • {line.supplierName} • {formatCurrency(line.unitPrice)}
+            {line.isAwarded && <span className="font-medium"> • adjudicado</span>}
+            <span className="text-gray-500"> • {describeDetails(line.priceFlagDetails)}</span>
+          </span>
+          <PriceFlagBadge flag={line.priceFlag} details={line.priceFlagDetails} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SupplierPortalLinksProps {
+  quotationRequestId: string;
+  canInvite: boolean;
+}
+
+export function SupplierPortalLinks({ quotationRequestId, canInvite }: SupplierPortalLinksProps) {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedSupplierIds, setSelectedSupplierIds] = useState<string[]>([]);
+  const [expiresAt, setExpiresAt] = useState("");
+  // Links with their token are only returned when created, so keep them to be copied
+  const [createdUrls, setCreatedUrls] = useState<Record<string, string>>({});
+
+  const { data: links = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/quotation-requests', quotationRequestId, 'portal-links'],
+  });
+
+  const { data: suppliers = [] } = useQuery<any[]>({
+    queryKey: ['/api/suppliers'],
+    enabled: isDialogOpen,
+  });
+
+  // Suppliers serving the categories of the request items, best score first
+  const { data: proposal } = useQuery<any>({
+    queryKey: ['/api/quotation-requests', quotationRequestId, 'invitation-proposal'],
+    enabled: canInvite,
+  });
+  const candidates: any[] = proposal?.candidates ?? [];
+  const pendingCandidates = candidates.filter((candidate: any) => !candidate.alreadyInvited);
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotation-requests/${quotationRequestId}/portal-links`, {
+        supplierIds: selectedSupplierIds,
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (created: any[]) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotation-requests', quotationRequestId, 'portal-links'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotation-requests', quotationRequestId, 'invitation-proposal'] });
+      setCreatedUrls(prev => ({ ...prev, ...Object.fromEntries(created.map(link => [link.id, link.url])) }));
+      setIsDialogOpen(false);
+      setSelectedSupplierIds([]);
+      setExpiresAt("");
+      toast({ title: "Convites enviados aos fornecedores!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao enviar convites", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest("POST", `/api/portal-links/${linkId}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotation-requests', quotationRequestId, 'portal-links'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotation-requests', quotationRequestId, 'invitation-proposal'] });
+      toast({ title: "Link revogado" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao revogar link", variant: "destructive" });
+    },
+  });
+
+  const toggleSupplier = (supplierId: string, checked: boolean) => {
+    setSelectedSupplierIds(prev => checked ? [...prev, supplierId] : prev.filter(id => id !== supplierId));
+  };
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copiado" });
+  };
+
+  const getStatusStyle = (status: string) => {
+    switch (status) {
+      case 'ativo': return { label: 'Aguardando resposta', className: 'bg-blue-100 text-blue-800' };
+      case 'respondido': return { label: 'Respondido', className: 'bg-green-100 text-green-800' };
+      case 'expirado': return { label: 'Expirado', className: 'bg-gray-100 text-gray-800' };
+      case 'revogado': return { label: 'Revogado', className: 'bg-red-100 text-red-800' };
+      default: return { label: status, className: 'bg-gray-100 text-gray-800' };
+    }
+  };
+
+  const selectProposed = () => {
+    setSelectedSupplierIds(prev => Array.from(new Set([...prev, ...pendingCandidates.map((candidate: any) => candidate.supplier.id)])));
+  };
+
+  const openWithProposal = () => {
+    setSelectedSupplierIds(pendingCandidates.map((candidate: any) => candidate.supplier.id));
+    setIsDialogOpen(true);
+  };
+
+  const proposedIds = new Set(candidates.map((candidate: any) => candidate.supplier.id));
+  const activeSuppliers = suppliers.filter((supplier: any) => supplier.status === 'ativo' && !proposedIds.has(supplier.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Portal do Fornecedor</CardTitle>
+          {canInvite && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/quotation-requests/${quotationRequestId}/response-template`}>
+                  <span className="material-icons mr-1 text-sm">download</span>
+                  Planilha de Resposta
+                </a>
+              </Button>
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <span className="material-icons mr-1 text-sm">send</span>
+                    Convidar Fornecedores
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Convidar Fornecedores</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    {candidates.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label>Sugeridos pelas categorias dos itens</Label>
+                          {pendingCandidates.length > 0 && (
+                            <Button variant="ghost" size="sm" onClick={selectProposed}>
+                              Selecionar todos
+                            </Button>
+                          )}
+                        </div>
+                        <div className="max-h-64 overflow-y-auto space-y-2 border rounded-lg p-3">
+                          {candidates.map((candidate: any) => (
+                            <label key={candidate.supplier.id} className="flex items-start space-x-2 text-sm">
+                              <Checkbox
+                                checked={selectedSupplierIds.includes(candidate.supplier.id)}
+                                onCheckedChange={(checked) => toggleSupplier(candidate.supplier.id, !!checked)}
+                              />
+                              <div className="flex-1">
+                                <div className="flex items-center justify-between">
+                                  <span>
+                                    {candidate.supplier.name}
+                                    {!candidate.supplier.email && <span className="text-xs text-gray-400"> (sem e-mail)</span>}
+                                  </span>
+                                  <span className="text-xs text-gray-500">
+                                    {candidate.score !== null ? `Nota ${candidate.score.toFixed(1)}` : 'Sem nota'}
+                                  </span>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                  {candidate.categories.map((category: any) => category.name).join(', ')}
+                                  {candidate.alreadyInvited && ' • já convidado'}
+                                </p>
+                              </div>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {proposal?.uncategorizedItems > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {proposal.uncategorizedItems} item(ns) sem produto categorizado não entram na sugestão.
+                      </p>
+                    )}
+                    <div className="max-h-64 overflow-y-auto space-y-2 border rounded-lg p-3">
+                      {candidates.length > 0 && <Label>Outros fornecedores ativos</Label>}
+                      {activeSuppliers.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          {candidates.length > 0 ? 'Nenhum outro fornecedor ativo.' : 'Nenhum fornecedor ativo cadastrado.'}
+                        </p>
+                      ) : (
+                        activeSuppliers.map((supplier: any) => (
+                          <label key={supplier.id} className="flex items-center space-x-2 text-sm">
+                            <Checkbox
+                              checked={selectedSupplierIds.includes(supplier.id)}
+                              onCheckedChange={(checked) => toggleSupplier(supplier.id, !!checked)}
+                            />
+                            <span>{supplier.name}</span>
+                            {!supplier.email && <span className="text-xs text-gray-400">(sem e-mail)</span>}
+                          </label>
+                        ))
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="portal-expires-at">Prazo para resposta</Label>
+                      <Input
+                        id="portal-expires-at"
+                        type="date"
+                        value={expiresAt}
+                        onChange={(e) => setExpiresAt(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-500">Se vazio, o link expira em 7 dias.</p>
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                        Cancelar
+                      </Button>
+                      <Button
+                        onClick={() => inviteMutation.mutate()}
+                        disabled={selectedSupplierIds.length === 0 || inviteMutation.isPending}
+                        className="bg-primary hover:bg-blue-700 text-white"
+                      >
+                        {inviteMutation.isPending ? "Enviando..." : "Enviar Convites"}
+                      </Button>
+                    </div>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {canInvite && links.length === 0 && pendingCandidates.length > 0 && (
+          <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <p className="text-sm text-blue-800">
+              {pendingCandidates.length} fornecedor(es) atendem as categorias desta requisição.
+            </p>
+            <Button variant="outline" size="sm" onClick={openWithProposal}>
+              Revisar sugestão
+            </Button>
+          </div>
+        )}
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum fornecedor convidado por link.</p>
+        ) : (
+          links.map((link: any) => {
+            const style = getStatusStyle(link.status);
+            const url = createdUrls[link.id];
+            return (
+              <div key={link.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <p className="text-sm font-medium">{link.supplier?.name || 'Fornecedor'}</p>
+                  <p className="text-xs text-gray-500">
+                    Expira em {new Date(link.expiresAt).toLocaleString('pt-BR')}
+                    {link.lastAccessedAt && ` • Último acesso ${new Date(link.lastAccessedAt).toLocaleString('pt-BR')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge className={`px-2 py-1 text-xs font-medium rounded-full ${style.className}`}>
+                    {style.label}
+                  </Badge>
+                  {url && link.status === 'ativo' && (
+                    <Button variant="ghost" size="sm" onClick={() => copyUrl(url)}>
+                      <span className="material-icons text-sm">content_copy</span>
+                    </Button>
+                  )}
+                  {canInvite && (
+                    <Button variant="ghost" size="sm" asChild title="Planilha de resposta do fornecedor">
+                      <a href={`/api/quotation-requests/${quotationRequestId}/response-template?supplierId=${link.supplierId}`}>
+                        <span className="material-icons text-sm">download</span>
+                      </a>
+                    </Button>
+                  )}
+                  {canInvite && (link.status === 'ativo' || link.status === 'respondido') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Revogar
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,21 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isAcceptingQuotations } from "@shared/workflow";
+import { SupplierPortalLinks } from "./supplier-portal-links";
 
 export function SupplierQuotationsSection() {
   const [selectedRequestId, setSelectedRequestId] = useState<string>("");
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canInvite = user?.role === 'admin' || user?.role === 'cotador';
 
   // Fetch quotation requests
   const { data: requests = [] } = useQuery<any[]>({
@@ -52,6 +58,7 @@ export function SupplierQuotationsSection() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'em_cotacao': return 'bg-blue-100 text-blue-800';
+      case 'cotacao_encerrada': return 'bg-purple-100 text-purple-800';
       case 'aguardando_aprovacao': return 'bg-yellow-100 text-yellow-800';
       case 'aprovado': return 'bg-green-100 text-green-800';
       case 'rejeitado': return 'bg-red-100 text-red-800';
@@ -60,8 +67,9 @@ export function SupplierQuotationsSection() {
   };
 
   const eligibleRequests = requests.filter((req: any) => 
-    req.status === 'em_cotacao' || req.status === 'aguardando_aprovacao'
+    req.status === 'rascunho' || req.status === 'em_cotacao' || req.status === 'cotacao_encerrada' || req.status === 'aguardando_aprovacao'
   );
+  const selectedRequest = requests.find((req: any) => req.id === selectedRequestId);
 
   return (
     <div className="space-y-6">
@@ -83,6 +91,11 @@ export function SupplierQuotationsSection() {
 
       {selectedRequestId && (
         <>
+          <SupplierPortalLinks
+            quotationRequestId={selectedRequestId}
+            canInvite={canInvite && !!selectedRequest && isAcceptingQuotations(selectedRequest)}
+          />
+
           {isLoading ? (
             <Card>
               <CardContent className="py-8">
@@ -101,6 +114,14 @@ export function SupplierQuotationsSection() {
             </Card>
           ) : (
             <div className="space-y-4">
+              <div className="flex justify-end">
+                <Link href={`/quotations/${selectedRequestId}/comparison`}>
+                  <Button variant="outline" size="sm">
+                    <span className="material-icons mr-1 text-sm">table_chart</span>
+                    Comparar por Item
+                  </Button>
+                </Link>
+              </div>
               <div className="grid gap-4">
                 {quotations.map((quotation: any) => (
                   <Card key={quotation.id} className={`${quotation.isSelected ? 'ring-2 ring-green-500' : ''}`}>
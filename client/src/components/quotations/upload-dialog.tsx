@@ -6,6 +6,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import { ImportMappingStep, isMappingComplete, type ColumnMapping, type ImportPreview } from "./import-mapping";
+import { ImportReportView, downloadErrorReport, type ImportReport } from "./import-report";
 
 type UploadType = "requisitions" | "supplier-quotations";
 
@@ -19,12 +21,64 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragOver, setDragOver] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isDownloadingReport, setIsDownloadingReport] = useState(false);
   const { toast } = useToast();
 
+  const importType = uploadType === "requisitions" ? "quotation_requests" : "supplier_quotations";
+
+  // Step 1: the server reads the header row and a sample; nothing is written yet
+  const previewMutation = useMutation({
+    mutationFn: async ({ file, headerRow }: { file: File; headerRow?: number; mapping?: ColumnMapping }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('importType', importType);
+      if (headerRow) {
+        formData.append('headerRow', String(headerRow));
+      }
+
+      const response = await fetch('/api/upload/preview', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to read file');
+      }
+
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (data, variables) => {
+      setPreview(data);
+      // A profile brings its own mapping; otherwise start from the columns recognized by name,
+      // or from the layout of a response template, which also carries the supplier data
+      setMapping(variables.mapping
+        ? { ...variables.mapping, headerRow: data.headerRow }
+        : {
+            headerRow: data.headerRow,
+            columns: data.suggestedMapping,
+            defaults: data.isTemplate ? data.suggestedDefaults : mapping?.defaults ?? {},
+          });
+    },
+    onError: (error: any) => {
+      toast({ 
+        title: "Erro ao ler planilha", 
+        description: error.message,
+        variant: "destructive" 
+      });
+    },
+  });
+
+  // Step 2: every row is validated (dry run); step 3 writes them all, or none when any row has errors
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, mapping, dryRun }: { file: File; mapping: ColumnMapping; dryRun: boolean }) => {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('mapping', JSON.stringify(mapping));
+      formData.append('dryRun', String(dryRun));
       
       const endpoint = uploadType === "requisitions" 
         ? '/api/upload/quotation-spreadsheet'
@@ -35,22 +89,28 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
         body: formData,
       });
       
-      if (!response.ok) {
-        throw new Error('Failed to upload file');
+      // 422 carries the validation report of a rejected import
+      if (!response.ok && response.status !== 422) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to upload file');
       }
       
-      return response.json();
+      return response.json() as Promise<ImportReport>;
     },
     onSuccess: (data) => {
+      if (!data.committed) {
+        setReport(data);
+        return;
+      }
+
       const entityType = uploadType === "requisitions" ? "requisições" : "cotações";
-      const successMessage = `${data.created} ${entityType} criadas`;
-      const warningMessage = data.skipped > 0 ? `, ${data.skipped} ignoradas` : '';
-      const errorMessage = data.errors.length > 0 ? `. Erros: ${data.errors.join('; ')}` : '';
+      const successMessage = `${data.created} ${entityType} importadas`;
+      const warningMessage = data.skipped > 0 ? `, ${data.skipped} linhas ignoradas` : '';
+      const duplicateMessage = data.warnings.length > 0 ? `. Atenção: ${data.warnings.slice(0, 5).join('; ')}` : '';
       
       toast({ 
-        title: "Planilha processada!", 
-        description: `${successMessage}${warningMessage}${errorMessage}`,
-        variant: data.errors.length > 0 ? "destructive" : "default"
+        title: "Planilha importada!", 
+        description: `${successMessage}${warningMessage}${duplicateMessage}`,
       });
       
       // Invalidate appropriate queries based on upload type
@@ -60,7 +120,7 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
         queryClient.invalidateQueries({ queryKey: ['/api/supplier-quotations'] });
       }
       
-      setSelectedFile(null);
+      resetDialog();
       setIsDialogOpen(false);
       onUploadComplete?.();
     },
@@ -118,9 +178,38 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
     setSelectedFile(file);
   };
 
-  const handleUpload = () => {
+  const resetDialog = () => {
+    setSelectedFile(null);
+    setPreview(null);
+    setMapping(null);
+    setReport(null);
+  };
+
+  const handlePreview = () => {
     if (selectedFile) {
-      uploadMutation.mutate(selectedFile);
+      previewMutation.mutate({ file: selectedFile });
+    }
+  };
+
+  const handleUpload = (dryRun: boolean) => {
+    if (selectedFile && mapping) {
+      uploadMutation.mutate({ file: selectedFile, mapping, dryRun });
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    if (!selectedFile || !mapping) return;
+    setIsDownloadingReport(true);
+    try {
+      await downloadErrorReport(selectedFile, importType, mapping);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao gerar relatório",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsDownloadingReport(false);
     }
   };
 
@@ -137,27 +226,38 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
   const getFieldRequirements = () => {
     if (uploadType === "requisitions") {
       return (
-        <ul className="text-sm text-blue-800 space-y-1">
-          <li>• Título da Requisição (obrigatório)</li>
-          <li>• Descrição</li>
-          <li>• Departamento</li>
-          <li>• Centro de Custo</li>
-          <li>• Urgência (baixa, normal, alta, critica)</li>
-          <li>• Orçamento Estimado</li>
-        </ul>
+        <>
+          <ul className="text-sm text-blue-800 space-y-1">
+            <li>• Agrupador: linhas com o mesmo valor formam uma requisição</li>
+            <li>• Título da Requisição (obrigatório)</li>
+            <li>• Descrição, Departamento, Centro de Custo</li>
+            <li>• Urgência (baixa, normal, alta, critica)</li>
+            <li>• Orçamento Estimado</li>
+            <li>• Código do Produto ou Item, Quantidade e Unidade: cada linha é um item</li>
+          </ul>
+          <a
+            href="/api/upload/templates/quotation-requests"
+            className="inline-flex items-center text-sm text-blue-700 hover:underline mt-2"
+          >
+            <span className="material-icons mr-1 text-sm">download</span>
+            Baixar planilha modelo
+          </a>
+        </>
       );
     } else {
       return (
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• Fornecedor (obrigatório)</li>
           <li>• Requisição ID (obrigatório)</li>
-          <li>• Produto/Serviço (obrigatório)</li>
-          <li>• Quantidade</li>
-          <li>• Preço Unitário</li>
-          <li>• Preço Total</li>
+          <li>• ID do Item, Nº do Item ou Produto/Serviço: cada linha é um item da requisição</li>
+          <li>• Quantidade (padrão: a solicitada)</li>
+          <li>• Preço Unitário e/ou Preço Total</li>
+          <li>• Marca, Modelo e Especificações</li>
+          <li>• Total da Cotação (conferido com a soma dos itens)</li>
           <li>• Prazo de Entrega (dias)</li>
           <li>• Condições de Pagamento</li>
           <li>• Observações</li>
+          <li>• Planilhas de resposta baixadas no Portal do Fornecedor são mapeadas automaticamente</li>
         </ul>
       );
     }
@@ -171,11 +271,17 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
   );
 
   return (
-    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+    <Dialog
+      open={isDialogOpen}
+      onOpenChange={(open) => {
+        setIsDialogOpen(open);
+        if (!open) resetDialog();
+      }}
+    >
       <DialogTrigger asChild>
         {triggerButton || defaultTrigger}
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className={preview ? "max-w-4xl max-h-[90vh] overflow-y-auto" : "max-w-2xl"}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <span className="material-icons">upload_file</span>
@@ -186,6 +292,87 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
           </DialogDescription>
         </DialogHeader>
         
+        {preview && mapping && selectedFile ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+              <span className="material-icons text-green-600">description</span>
+              <p className="font-medium text-gray-900">{selectedFile.name}</p>
+            </div>
+
+            {report ? (
+              <>
+                <ImportReportView report={report} />
+
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={() => setReport(null)}>
+                    Voltar ao mapeamento
+                  </Button>
+                  <div className="flex gap-2">
+                    {report.errorCount > 0 && (
+                      <Button variant="outline" onClick={handleDownloadReport} disabled={isDownloadingReport}>
+                        <span className="material-icons mr-2 text-sm">download</span>
+                        Baixar relatório de erros
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => handleUpload(false)}
+                      disabled={uploadMutation.isPending || report.errorCount > 0 || report.valid === 0}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      {uploadMutation.isPending ? (
+                        <>
+                          <span className="material-icons mr-2 text-sm animate-spin">sync</span>
+                          Importando...
+                        </>
+                      ) : (
+                        <>
+                          <span className="material-icons mr-2 text-sm">upload</span>
+                          Importar {report.valid} linhas
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <ImportMappingStep
+                  importType={importType}
+                  preview={preview}
+                  mapping={mapping}
+                  onMappingChange={setMapping}
+                  onHeaderRowChange={(headerRow, profileMapping) =>
+                    previewMutation.mutate({ file: selectedFile, headerRow, mapping: profileMapping })
+                  }
+                  isReloading={previewMutation.isPending}
+                />
+
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={() => { setPreview(null); setMapping(null); }}>
+                    Voltar
+                  </Button>
+                  <Button
+                    onClick={() => handleUpload(true)}
+                    disabled={uploadMutation.isPending || previewMutation.isPending || !isMappingComplete(preview.fields, mapping)}
+                    className="bg-blue-600 hover:bg-blue-700"
+                  >
+                    {uploadMutation.isPending ? (
+                      <>
+                        <span className="material-icons mr-2 text-sm animate-spin">sync</span>
+                        Validando...
+                      </>
+                    ) : (
+                      <>
+                        <span className="material-icons mr-2 text-sm">fact_check</span>
+                        Validar {preview.totalRows} linhas
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
         <div className="space-y-4">
           
           <div
@@ -249,19 +436,19 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
                 </Button>
                 <Button
                   size="sm"
-                  onClick={handleUpload}
-                  disabled={uploadMutation.isPending}
+                  onClick={handlePreview}
+                  disabled={previewMutation.isPending}
                   className="bg-blue-600 hover:bg-blue-700"
                 >
-                  {uploadMutation.isPending ? (
+                  {previewMutation.isPending ? (
                     <>
                       <span className="material-icons mr-2 text-sm animate-spin">sync</span>
-                      Carregando...
+                      Lendo...
                     </>
                   ) : (
                     <>
-                      <span className="material-icons mr-2 text-sm">upload</span>
-                      Carregar
+                      <span className="material-icons mr-2 text-sm">table_view</span>
+                      Mapear colunas
                     </>
                   )}
                 </Button>
@@ -272,8 +459,12 @@ export function UploadDialog({ uploadType, triggerButton, onUploadComplete }: Up
           <div className="bg-blue-50 p-4 rounded-lg">
             <h4 className="font-medium text-blue-900 mb-2">Formato da Planilha:</h4>
             {getFieldRequirements()}
+            <p className="text-xs text-blue-700 mt-2">
+              Os nomes das colunas podem variar: na próxima etapa você indica qual coluna corresponde a cada campo.
+            </p>
           </div>
         </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export function ApprovalDelegationCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [delegateId, setDelegateId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const canDelegate = user?.role === 'admin' || user?.role === 'aprovador';
+
+  const { data: approvers = [] } = useQuery<any[]>({
+    queryKey: ['/api/users/approvers'],
+    enabled: canDelegate,
+  });
+
+  const { data: delegations = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/approval-delegations'],
+    enabled: canDelegate,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erro",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createDelegationMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/approval-delegations", {
+        delegateId,
+        // End date covers the whole day chosen
+        startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+        endDate: new Date(`${endDate}T23:59:59`).toISOString(),
+        reason: reason || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/approval-delegations'] });
+      setDelegateId("");
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      toast({
+        title: "Sucesso",
+        description: "Delegação de aprovação registrada!",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao registrar delegação"),
+  });
+
+  const revokeDelegationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/approval-delegations/${id}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/approval-delegations'] });
+      toast({
+        title: "Sucesso",
+        description: "Delegação revogada!",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao revogar delegação"),
+  });
+
+  if (!canDelegate) {
+    return null;
+  }
+
+  const getUserName = (id: string) => {
+    const approver = approvers.find((candidate: any) => candidate.id === id);
+    if (!approver) return id;
+    return [approver.firstName, approver.lastName].filter(Boolean).join(" ") || approver.email;
+  };
+
+  const getDelegationStatus = (delegation: any) => {
+    const now = new Date();
+    if (!delegation.isActive) return { label: 'Revogada', className: 'bg-gray-100 text-gray-800' };
+    if (new Date(delegation.endDate) < now) return { label: 'Expirada', className: 'bg-gray-100 text-gray-800' };
+    if (new Date(delegation.startDate) > now) return { label: 'Agendada', className: 'bg-blue-100 text-blue-800' };
+    return { label: 'Em vigor', className: 'bg-green-100 text-green-800' };
+  };
+
+  const canSubmit = delegateId && startDate && endDate && !createDelegationMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <span className="material-icons">swap_horiz</span>
+          <span>Delegação de Aprovação</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Indique um substituto para aprovar requisições em seu nome durante ausências.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Substituto</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione um aprovador" />
+              </SelectTrigger>
+              <SelectContent>
+                {approvers
+                  .filter((approver: any) => approver.id !== user?.id)
+                  .map((approver: any) => (
+                    <SelectItem key={approver.id} value={approver.id}>
+                      {getUserName(approver.id)}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegation-reason">Motivo</Label>
+            <Input
+              id="delegation-reason"
+              placeholder="Ex: Férias"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegation-start">Início</Label>
+            <Input
+              id="delegation-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegation-end">Fim</Label>
+            <Input
+              id="delegation-end"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button onClick={() => createDelegationMutation.mutate()} disabled={!canSubmit}>
+          {createDelegationMutation.isPending ? "Salvando..." : "Registrar Delegação"}
+        </Button>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+          ) : delegations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma delegação registrada.</p>
+          ) : (
+            delegations.map((delegation: any) => {
+              const status = getDelegationStatus(delegation);
+              const isActive = status.label === 'Em vigor' || status.label === 'Agendada';
+              return (
+                <div key={delegation.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {getUserName(delegation.delegatorId)} → {getUserName(delegation.delegateId)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(delegation.startDate).toLocaleDateString('pt-BR')} até {new Date(delegation.endDate).toLocaleDateString('pt-BR')}
+                      {delegation.reason && ` • ${delegation.reason}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                      {status.label}
+                    </Badge>
+                    {isActive && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeDelegationMutation.mutate(delegation.id)}
+                        disabled={revokeDelegationMutation.isPending}
+                      >
+                        Revogar
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
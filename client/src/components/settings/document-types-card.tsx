@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+
+const emptyDocumentType = {
+  name: "",
+  alertDaysBefore: "30",
+  isMandatory: false,
+};
+
+export function DocumentTypesCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newDocumentType, setNewDocumentType] = useState(emptyDocumentType);
+
+  const role = user?.role;
+  const canView = role === 'admin' || role === 'cotador';
+  const canEdit = role === 'admin';
+
+  const { data: documentTypes = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/supplier-document-types'],
+    enabled: canView,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erro",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: Record<string, any> }) => {
+      if (id) {
+        await apiRequest("PUT", `/api/supplier-document-types/${id}`, values);
+      } else {
+        await apiRequest("POST", "/api/supplier-document-types", values);
+      }
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/supplier-document-types'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      if (!id) setNewDocumentType(emptyDocumentType);
+      toast({
+        title: "Sucesso",
+        description: "Tipo de documento salvo!",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao salvar tipo de documento"),
+  });
+
+  if (!canView) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <span className="material-icons">folder_shared</span>
+          <span>Documentos de Fornecedores</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Fornecedores são avisados por email antes do vencimento. Quando um documento obrigatório vence, o fornecedor é bloqueado para novas cotações até enviar a versão atualizada.
+        </p>
+
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <div className="space-y-2">
+            {documentTypes.length === 0 && (
+              <p className="text-sm text-gray-500">Nenhum tipo de documento cadastrado.</p>
+            )}
+            {documentTypes.map((documentType: any) => (
+              <div key={documentType.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {documentType.name}
+                    {!documentType.isActive && <Badge variant="outline">Inativo</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500">Alerta {documentType.alertDaysBefore} dias antes do vencimento</p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs">Obrigatório</Label>
+                    <Switch
+                      checked={!!documentType.isMandatory}
+                      disabled={!canEdit || saveMutation.isPending}
+                      onCheckedChange={(isMandatory) => saveMutation.mutate({ id: documentType.id, values: { isMandatory } })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs">Ativo</Label>
+                    <Switch
+                      checked={!!documentType.isActive}
+                      disabled={!canEdit || saveMutation.isPending}
+                      onCheckedChange={(isActive) => saveMutation.mutate({ id: documentType.id, values: { isActive } })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="border rounded-lg p-3 space-y-2">
+            <Label>Novo tipo de documento</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+              <Input
+                placeholder="CND Federal, CRF do FGTS, Seguro..."
+                value={newDocumentType.name}
+                onChange={(e) => setNewDocumentType({ ...newDocumentType, name: e.target.value })}
+              />
+              <div className="space-y-1">
+                <Label className="text-xs">Dias de antecedência do alerta</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={newDocumentType.alertDaysBefore}
+                  onChange={(e) => setNewDocumentType({ ...newDocumentType, alertDaysBefore: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 h-10">
+                <Switch
+                  checked={newDocumentType.isMandatory}
+                  onCheckedChange={(isMandatory) => setNewDocumentType({ ...newDocumentType, isMandatory })}
+                />
+                <Label className="text-xs">Obrigatório</Label>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate({ values: newDocumentType })}
+              disabled={!newDocumentType.name.trim() || saveMutation.isPending}
+            >
+              Adicionar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ToleranceValues = {
+  priceTolerancePercent: string;
+  quantityTolerancePercent: string;
+  amountTolerance: string;
+};
+
+const emptyValues: ToleranceValues = { priceTolerancePercent: "0", quantityTolerancePercent: "0", amountTolerance: "0" };
+
+const toPayload = (values: ToleranceValues) => ({
+  priceTolerancePercent: (Number(values.priceTolerancePercent.replace(',', '.')) || 0).toFixed(2),
+  quantityTolerancePercent: (Number(values.quantityTolerancePercent.replace(',', '.')) || 0).toFixed(2),
+  amountTolerance: (Number(values.amountTolerance.replace(',', '.')) || 0).toFixed(2),
+});
+
+function ToleranceFields({ values, onChange, disabled }: {
+  values: ToleranceValues;
+  onChange: (values: ToleranceValues) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs">Preço (%)</Label>
+        <Input
+          inputMode="decimal"
+          value={values.priceTolerancePercent}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...values, priceTolerancePercent: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Quantidade (%)</Label>
+        <Input
+          inputMode="decimal"
+          value={values.quantityTolerancePercent}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...values, quantityTolerancePercent: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Total da nota (R$)</Label>
+        <Input
+          inputMode="decimal"
+          value={values.amountTolerance}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...values, amountTolerance: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function MatchToleranceCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [edits, setEdits] = useState<Record<string, ToleranceValues>>({});
+  const [newSupplierId, setNewSupplierId] = useState("");
+  const [newValues, setNewValues] = useState<ToleranceValues>(emptyValues);
+
+  const role = user?.role;
+  const canView = role === 'admin' || role === 'aprovador';
+  const canEdit = role === 'admin';
+
+  const { data: tolerances = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/invoice-match-tolerances'],
+    enabled: canView,
+  });
+
+  const { data: suppliers = [] } = useQuery<any[]>({
+    queryKey: ['/api/suppliers'],
+    enabled: canEdit,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erro",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, supplierId, values }: { id?: string; supplierId?: string | null; values: ToleranceValues }) => {
+      if (id) {
+        await apiRequest("PUT", `/api/invoice-match-tolerances/${id}`, toPayload(values));
+      } else {
+        await apiRequest("POST", "/api/invoice-match-tolerances", { supplierId: supplierId ?? null, ...toPayload(values) });
+      }
+    },
+    onSuccess: (_, { id, supplierId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invoice-match-tolerances'] });
+      if (id) {
+        setEdits(prev => {
+          const { [id]: _saved, ...rest } = prev;
+          return rest;
+        });
+      } else if (supplierId) {
+        setNewSupplierId("");
+        setNewValues(emptyValues);
+      }
+      toast({
+        title: "Sucesso",
+        description: "Tolerâncias salvas!",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao salvar tolerâncias"),
+  });
+
+  if (!canView) {
+    return null;
+  }
+
+  const globalTolerance = tolerances.find((tolerance: any) => !tolerance.supplierId);
+  const supplierTolerances = tolerances.filter((tolerance: any) => tolerance.supplierId);
+
+  const valuesOf = (tolerance: any): ToleranceValues => edits[tolerance.id] ?? {
+    priceTolerancePercent: String(Number(tolerance.priceTolerancePercent)),
+    quantityTolerancePercent: String(Number(tolerance.quantityTolerancePercent)),
+    amountTolerance: String(Number(tolerance.amountTolerance)),
+  };
+
+  const getSupplierName = (id: string) => suppliers.find((supplier: any) => supplier.id === id)?.name ?? id;
+
+  const globalValues = globalTolerance ? valuesOf(globalTolerance) : edits.global ?? emptyValues;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <span className="material-icons">rule</span>
+          <span>Conferência de Notas Fiscais</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Diferenças entre nota fiscal, pedido e recebimento acima destes limites bloqueiam o pagamento até a aprovação da exceção.
+        </p>
+
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Padrão para todos os fornecedores</Label>
+              <ToleranceFields
+                values={globalValues}
+                disabled={!canEdit}
+                onChange={(values) => setEdits(prev => ({ ...prev, [globalTolerance?.id ?? 'global']: values }))}
+              />
+              {canEdit && (
+                <Button
+                  size="sm"
+                  onClick={() => saveMutation.mutate({ id: globalTolerance?.id, supplierId: null, values: globalValues })}
+                  disabled={saveMutation.isPending}
+                >
+                  Salvar
+                </Button>
+              )}
+            </div>
+
+            {supplierTolerances.map((tolerance: any) => (
+              <div key={tolerance.id} className="border rounded-lg p-3 space-y-2">
+                <p className="text-sm font-medium">{getSupplierName(tolerance.supplierId)}</p>
+                <ToleranceFields
+                  values={valuesOf(tolerance)}
+                  disabled={!canEdit}
+                  onChange={(values) => setEdits(prev => ({ ...prev, [tolerance.id]: values }))}
+                />
+                {canEdit && edits[tolerance.id] && (
+                  <Button
+                    size="sm"
+                    onClick={() => saveMutation.mutate({ id: tolerance.id, values: edits[tolerance.id] })}
+                    disabled={saveMutation.isPending}
+                  >
+                    Salvar
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {canEdit && (
+              <div className="border border-dashed rounded-lg p-3 space-y-2">
+                <Label>Tolerância específica por fornecedor</Label>
+                <Select value={newSupplierId} onValueChange={setNewSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um fornecedor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers
+                      .filter((supplier: any) => !supplierTolerances.some((tolerance: any) => tolerance.supplierId === supplier.id))
+                      .map((supplier: any) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <ToleranceFields values={newValues} onChange={setNewValues} />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => saveMutation.mutate({ supplierId: newSupplierId, values: newValues })}
+                  disabled={!newSupplierId || saveMutation.isPending}
+                >
+                  Adicionar
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
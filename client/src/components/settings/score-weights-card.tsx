@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { scoreCriteria } from "@/components/suppliers";
+
+export function ScoreWeightsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const role = user?.role;
+  const canView = role === 'admin' || role === 'cotador';
+  const canEdit = role === 'admin';
+
+  const { data: weights, isLoading } = useQuery<Record<string, number>>({
+    queryKey: ['/api/supplier-score-weights'],
+    enabled: canView,
+  });
+
+  useEffect(() => {
+    if (!weights) return;
+    setValues(Object.fromEntries(Object.entries(weights).map(([key, weight]) => [key, String(weight)])));
+  }, [weights]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/supplier-score-weights", Object.fromEntries(
+        scoreCriteria.map(criterion => [criterion.key, Number((values[criterion.key] ?? '0').replace(',', '.')) || 0])
+      ));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/supplier-score-weights'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      toast({
+        title: "Sucesso",
+        description: "Pesos salvos e scores recalculados!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar os pesos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canView) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <span className="material-icons">star_half</span>
+          <span>Score de Fornecedores</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Peso de cada critério no score (0 a 5). Os pesos são proporcionais: não precisam somar 100.
+        </p>
+
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {scoreCriteria.map(criterion => (
+                <div key={criterion.key} className="space-y-1">
+                  <Label className="text-xs">{criterion.label}</Label>
+                  <Input
+                    inputMode="decimal"
+                    value={values[criterion.key] ?? ''}
+                    disabled={!canEdit}
+                    onChange={(e) => setValues({ ...values, [criterion.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            {canEdit && (
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                Salvar
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,4 @@
+export { ScoreBreakdownPanel, scoreCriteria } from './score-breakdown';
+export { SupplierDocumentsCard, documentStateLabels, documentStateColors } from './supplier-documents';
+export { OnboardingReviewCard, onboardingSections } from './onboarding-review';
+export { SupplierCategoriesCard } from './supplier-categories';
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+export const onboardingSections = [
+  { key: 'bank', label: 'Dados bancários' },
+  { key: 'documents', label: 'Documentos' },
+  { key: 'categories', label: 'Categorias atendidas' },
+] as const;
+
+const onboardingStatusLabels: Record<string, string> = {
+  rascunho: 'Aguardando fornecedor',
+  enviado: 'Em análise',
+  aprovado: 'Aprovado',
+  rejeitado: 'Devolvido para correção',
+};
+
+const onboardingStatusColors: Record<string, string> = {
+  rascunho: 'bg-gray-100 text-gray-800',
+  enviado: 'bg-blue-100 text-blue-800',
+  aprovado: 'bg-green-100 text-green-800',
+  rejeitado: 'bg-red-100 text-red-800',
+};
+
+const reviewStatusLabels: Record<string, string> = {
+  pendente: 'Pendente',
+  aprovado: 'Aprovado',
+  rejeitado: 'Rejeitado',
+};
+
+const reviewStatusColors: Record<string, string> = {
+  pendente: 'bg-gray-100 text-gray-800',
+  aprovado: 'bg-green-100 text-green-800',
+  rejeitado: 'bg-red-100 text-red-800',
+};
+
+export function OnboardingReviewCard({ supplier }: { supplier: any }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'admin';
+
+  const { data: onboarding } = useQuery<any>({
+    queryKey: ['/api/suppliers', supplier.id, 'onboarding'],
+  });
+
+  const { data: categories = [] } = useQuery<any[]>({
+    queryKey: ['/api/suppliers', supplier.id, 'categories'],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erro",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/suppliers/${supplier.id}/onboarding`);
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers', supplier.id, 'onboarding'] });
+      setInviteUrl(data.url);
+      toast({
+        title: "Sucesso",
+        description: data.emailed ? "Convite enviado por email!" : "Link de cadastro gerado. Envie-o ao fornecedor.",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao enviar convite de cadastro"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ section, status }: { section: string; status: 'aprovado' | 'rejeitado' }) => {
+      await apiRequest("POST", `/api/supplier-onboardings/${onboarding.id}/sections/${section}/review`, {
+        status,
+        notes: notes[section] || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers', supplier.id, 'onboarding'] });
+    },
+    onError: (error) => handleError(error, "Falha ao registrar revisão. Informe o motivo ao rejeitar uma seção."),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: 'approve' | 'reject') => {
+      const response = await apiRequest("POST", `/api/supplier-onboardings/${onboarding.id}/${decision}`);
+      return response.json();
+    },
+    onSuccess: (data: any, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      setNotes({});
+      toast({
+        title: "Sucesso",
+        description: decision === 'approve'
+          ? "Cadastro aprovado! O fornecedor está ativo."
+          : data.emailed ? "Cadastro devolvido e fornecedor notificado." : "Cadastro devolvido. O fornecedor não tem email cadastrado.",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao concluir a análise do cadastro"),
+  });
+
+  if (supplier.status !== 'pendente' && !onboarding) {
+    return null;
+  }
+
+  const reviews = onboarding?.sectionReviews ?? {};
+  const canReview = isAdmin && onboarding?.status === 'enviado';
+  const allApproved = onboardingSections.every(section => reviews[section.key]?.status === 'aprovado');
+  const anyRejected = onboardingSections.some(section => reviews[section.key]?.status === 'rejeitado');
+
+  const sectionSummary = (key: string) => {
+    if (key === 'bank') {
+      return supplier.bankName
+        ? `${supplier.bankName}${supplier.bankCode ? ` (${supplier.bankCode})` : ''} • Ag. ${supplier.bankBranch} • Conta ${supplier.bankAccount}${supplier.bankAccountType ? ` ${supplier.bankAccountType}` : ''}${supplier.pixKey ? ` • PIX ${supplier.pixKey}` : ''}`
+        : 'Não informados';
+    }
+    if (key === 'categories') {
+      return categories.length > 0 ? categories.map((category: any) => category.name).join(', ') : 'Nenhuma categoria';
+    }
+    return 'Veja o quadro de documentação abaixo';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <span className="material-icons">how_to_reg</span>
+            <span>Cadastro do fornecedor</span>
+          </span>
+          {onboarding ? (
+            <Badge className={onboardingStatusColors[onboarding.status]}>{onboardingStatusLabels[onboarding.status]}</Badge>
+          ) : (
+            <Badge variant="outline">Não iniciado</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {onboarding?.submittedAt && (
+          <p className="text-sm text-gray-500">Enviado em {new Date(onboarding.submittedAt).toLocaleString('pt-BR')}</p>
+        )}
+        {onboarding?.status === 'rejeitado' && onboarding.rejectionReason && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800 whitespace-pre-line">
+            {onboarding.rejectionReason}
+          </div>
+        )}
+
+        {isAdmin && supplier.status === 'pendente' && onboarding?.status !== 'enviado' && (
+          <div className="space-y-2">
+            <Button size="sm" variant="outline" onClick={() => inviteMutation.mutate()} disabled={inviteMutation.isPending}>
+              <span className="material-icons mr-2 text-sm">send</span>
+              {onboarding ? 'Reenviar convite de cadastro' : 'Enviar convite de cadastro'}
+            </Button>
+            {inviteUrl && (
+              <Input readOnly value={inviteUrl} onFocus={(e) => e.target.select()} />
+            )}
+          </div>
+        )}
+
+        {onboarding && onboarding.status !== 'rascunho' && (
+          <div className="space-y-3">
+            {onboardingSections.map(section => {
+              const review = reviews[section.key] ?? { status: 'pendente' };
+              return (
+                <div key={section.key} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium">{section.label}</p>
+                    <Badge className={reviewStatusColors[review.status]}>{reviewStatusLabels[review.status]}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">{sectionSummary(section.key)}</p>
+                  {review.notes && <p className="text-xs text-gray-500">Observação: {review.notes}</p>}
+                  {canReview && (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder="Observações (obrigatório para rejeitar)"
+                        value={notes[section.key] ?? ''}
+                        onChange={(e) => setNotes({ ...notes, [section.key]: e.target.value })}
+                      />
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-green-700 border-green-300"
+                          onClick={() => reviewMutation.mutate({ section: section.key, status: 'aprovado' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          Aprovar seção
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-700 border-red-300"
+                          onClick={() => reviewMutation.mutate({ section: section.key, status: 'rejeitado' })}
+                          disabled={!notes[section.key]?.trim() || reviewMutation.isPending}
+                        >
+                          Rejeitar seção
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canReview && (
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              className="text-red-700 border-red-300"
+              onClick={() => decisionMutation.mutate('reject')}
+              disabled={!anyRejected || decisionMutation.isPending}
+            >
+              Devolver ao fornecedor
+            </Button>
+            <Button
+              className="bg-primary hover:bg-blue-700 text-white"
+              onClick={() => decisionMutation.mutate('approve')}
+              disabled={!allApproved || decisionMutation.isPending}
+            >
+              Aprovar cadastro
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { Progress } from "@/components/ui/progress";
+
+export const scoreCriteria = [
+  { key: 'responseRate', label: 'Taxa de resposta', sample: 'convites' },
+  { key: 'priceCompetitiveness', label: 'Competitividade de preço', sample: 'itens comparados' },
+  { key: 'onTimeDelivery', label: 'Entrega no prazo', sample: 'pedidos' },
+  { key: 'quality', label: 'Qualidade', sample: 'recebimentos' },
+] as const;
+
+export function ScoreBreakdownPanel({ breakdown }: { breakdown: any }) {
+  if (!breakdown) {
+    return <p className="text-sm text-gray-500">Score ainda não calculado.</p>;
+  }
+
+  const totalWeight = scoreCriteria.reduce((sum, criterion) => sum + (breakdown.criteria[criterion.key]?.weight ?? 0), 0);
+
+  return (
+    <div className="space-y-4">
+      {scoreCriteria.map(criterion => {
+        const result = breakdown.criteria[criterion.key];
+        const weightShare = totalWeight > 0 ? Math.round((result.weight / totalWeight) * 100) : 0;
+        return (
+          <div key={criterion.key} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{criterion.label}</span>
+              <span className="text-gray-500">
+                {result.value === null ? 'Sem dados' : `${Math.round(result.value * 100)}%`} • peso {weightShare}%
+              </span>
+            </div>
+            <Progress value={result.value === null ? 0 : result.value * 100} />
+            <p className="text-xs text-gray-500">{result.sampleSize} {criterion.sample}</p>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        Critérios sem dados não entram no cálculo. Calculado em {new Date(breakdown.calculatedAt).toLocaleString('pt-BR')}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+// Categories drive the invitation list proposed when a request goes to quotation
+export function SupplierCategoriesCard({ supplierId }: { supplierId: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingIds, setEditingIds] = useState<string[] | null>(null);
+
+  const isAdmin = user?.role === 'admin';
+
+  const { data: supplierCategories = [] } = useQuery<any[]>({
+    queryKey: ['/api/suppliers', supplierId, 'categories'],
+  });
+
+  const { data: categories = [] } = useQuery<any[]>({
+    queryKey: ['/api/categories'],
+    enabled: editingIds !== null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (categoryIds: string[]) => {
+      await apiRequest("PUT", `/api/suppliers/${supplierId}/categories`, { categoryIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers', supplierId, 'categories'] });
+      setEditingIds(null);
+      toast({
+        title: "Sucesso",
+        description: "Categorias atualizadas!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar categorias",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    setEditingIds(prev => checked ? [...(prev ?? []), categoryId] : (prev ?? []).filter(id => id !== categoryId));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Categorias atendidas</span>
+          {isAdmin && editingIds === null && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setEditingIds(supplierCategories.map((category: any) => category.id))}
+            >
+              <span className="material-icons mr-2 text-sm">edit</span>
+              Editar
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {editingIds === null ? (
+          supplierCategories.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Nenhuma categoria vinculada. O fornecedor não aparecerá nas sugestões de convite.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {supplierCategories.map((category: any) => (
+                <Badge key={category.id} variant="outline">{category.name}</Badge>
+              ))}
+            </div>
+          )
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-64 overflow-y-auto space-y-2 border rounded-lg p-3">
+              {categories.map((category: any) => (
+                <label key={category.id} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={editingIds.includes(category.id)}
+                    onCheckedChange={(checked) => toggleCategory(category.id, !!checked)}
+                  />
+                  <span>{category.name}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">Uma categoria inclui as suas subcategorias.</p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setEditingIds(null)}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(editingIds)}
+                disabled={saveMutation.isPending}
+                className="bg-primary hover:bg-blue-700 text-white"
+              >
+                Salvar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export const documentStateLabels: Record<string, string> = {
+  valido: 'Válido',
+  a_vencer: 'A vencer',
+  vencido: 'Vencido',
+  ausente: 'Não enviado',
+};
+
+export const documentStateColors: Record<string, string> = {
+  valido: 'bg-green-100 text-green-800',
+  a_vencer: 'bg-yellow-100 text-yellow-800',
+  vencido: 'bg-red-100 text-red-800',
+  ausente: 'bg-gray-100 text-gray-800',
+};
+
+const emptyUpload = {
+  documentTypeId: '',
+  issueDate: new Date().toISOString().slice(0, 10),
+  expiryDate: '',
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString('pt-BR') : '-';
+
+export function SupplierDocumentsCard({ supplierId }: { supplierId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [upload, setUpload] = useState(emptyUpload);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+
+  const { data } = useQuery<{ requirements: any[]; documents: any[] }>({
+    queryKey: ['/api/suppliers', supplierId, 'documents'],
+  });
+  const requirements = data?.requirements ?? [];
+  const documents = data?.documents ?? [];
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append('file', selectedFile!);
+      formData.append('documentTypeId', upload.documentTypeId);
+      formData.append('issueDate', upload.issueDate);
+      formData.append('expiryDate', upload.expiryDate);
+
+      const response = await fetch(`/api/suppliers/${supplierId}/documents`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Falha ao enviar documento');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplier-documents/expiring'] });
+      setIsDialogOpen(false);
+      setUpload(emptyUpload);
+      setSelectedFile(null);
+      toast({
+        title: "Sucesso",
+        description: "Documento enviado!",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getTypeName = (id: string) => requirements.find((requirement: any) => requirement.documentType.id === id)?.documentType.name ?? 'Documento';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Documentação</span>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="bg-primary hover:bg-blue-700 text-white">
+                <span className="material-icons mr-2 text-sm">upload_file</span>
+                Enviar Documento
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Enviar documento</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Tipo de documento</Label>
+                  <Select value={upload.documentTypeId} onValueChange={(documentTypeId) => setUpload({ ...upload, documentTypeId })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {requirements.map((requirement: any) => (
+                        <SelectItem key={requirement.documentType.id} value={requirement.documentType.id}>
+                          {requirement.documentType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label>Emissão</Label>
+                    <Input
+                      type="date"
+                      value={upload.issueDate}
+                      onChange={(e) => setUpload({ ...upload, issueDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Vencimento</Label>
+                    <Input
+                      type="date"
+                      value={upload.expiryDate}
+                      onChange={(e) => setUpload({ ...upload, expiryDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label>Arquivo</Label>
+                  <Input type="file" onChange={(e) => setSelectedFile(e.target.files?.[0] ?? null)} />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancelar
+                  </Button>
+                  <Button
+                    onClick={() => uploadMutation.mutate()}
+                    disabled={!selectedFile || !upload.documentTypeId || !upload.issueDate || uploadMutation.isPending}
+                    className="bg-primary hover:bg-blue-700 text-white"
+                  >
+                    Enviar
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {requirements.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum tipo de documento cadastrado nas configurações.</p>
+        ) : (
+          <div className="space-y-3">
+            {requirements.map((requirement: any) => (
+              <div key={requirement.documentType.id} className="flex items-center justify-between border-b pb-3 last:border-0">
+                <div>
+                  <p className="text-sm font-medium">
+                    {requirement.documentType.name}
+                    {requirement.documentType.isMandatory && <span className="text-xs text-gray-500"> • obrigatório</span>}
+                  </p>
+                  {requirement.document && (
+                    <p className="text-xs text-gray-500">
+                      Emissão {formatDate(requirement.document.issueDate)} • Vencimento {formatDate(requirement.document.expiryDate)}
+                    </p>
+                  )}
+                </div>
+                <Badge className={documentStateColors[requirement.state]}>{documentStateLabels[requirement.state]}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {documents.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Histórico de envios</p>
+            {documents.map((document: any) => (
+              <div key={document.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {getTypeName(document.documentTypeId)}
+                  <span className="text-xs text-gray-500"> • enviado em {formatDate(document.createdAt)}</span>
+                </span>
+                <a
+                  href={`/api/supplier-documents/${document.id}/download`}
+                  className="inline-flex items-center text-primary hover:underline"
+                >
+                  <span className="material-icons text-sm mr-1">download</span>
+                  {document.fileName}
+                </a>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
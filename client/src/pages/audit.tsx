@@ -49,6 +49,29 @@ export default function Audit() {
       case 'delete': return 'bg-red-100 text-red-800';
       case 'approve': return 'bg-purple-100 text-purple-800';
       case 'reject': return 'bg-orange-100 text-orange-800';
+      case 'status_change': return 'bg-indigo-100 text-indigo-800';
+      case 'cancel': return 'bg-gray-200 text-gray-800';
+      case 'approve_step': return 'bg-purple-50 text-purple-700';
+      case 'reject_step': return 'bg-orange-50 text-orange-700';
+      case 'start_approval': return 'bg-yellow-100 text-yellow-800';
+      case 'revoke': return 'bg-gray-200 text-gray-800';
+      case 'portal_submit': return 'bg-teal-100 text-teal-800';
+      case 'close_bidding': return 'bg-purple-100 text-purple-800';
+      case 'award': return 'bg-green-50 text-green-700';
+      case 'send': return 'bg-blue-50 text-blue-700';
+      case 'confirm': return 'bg-indigo-50 text-indigo-700';
+      case 'close': return 'bg-green-100 text-green-800';
+      case 'receive': return 'bg-teal-50 text-teal-700';
+      case 'rematch': return 'bg-blue-50 text-blue-700';
+      case 'approve_exception': return 'bg-purple-50 text-purple-700';
+      case 'pay': return 'bg-green-100 text-green-800';
+      case 'upload': return 'bg-teal-100 text-teal-800';
+      case 'registry_check': return 'bg-blue-50 text-blue-700';
+      case 'compliance_block': return 'bg-red-100 text-red-800';
+      case 'compliance_unblock': return 'bg-green-100 text-green-800';
+      case 'onboarding_invite': return 'bg-blue-50 text-blue-700';
+      case 'onboarding_review': return 'bg-purple-50 text-purple-700';
+      case 'submit': return 'bg-teal-100 text-teal-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -60,6 +83,29 @@ export default function Audit() {
       case 'delete': return 'Excluído';
       case 'approve': return 'Aprovado';
       case 'reject': return 'Rejeitado';
+      case 'status_change': return 'Mudança de Status';
+      case 'cancel': return 'Cancelado';
+      case 'approve_step': return 'Etapa Aprovada';
+      case 'reject_step': return 'Etapa Rejeitada';
+      case 'start_approval': return 'Envio para Aprovação';
+      case 'revoke': return 'Revogado';
+      case 'portal_submit': return 'Enviado pelo Portal';
+      case 'close_bidding': return 'Cotação Encerrada';
+      case 'award': return 'Itens Adjudicados';
+      case 'send': return 'Enviado';
+      case 'confirm': return 'Confirmado';
+      case 'close': return 'Encerrado';
+      case 'receive': return 'Recebimento';
+      case 'rematch': return 'Nova Conferência';
+      case 'approve_exception': return 'Exceção Aprovada';
+      case 'pay': return 'Pago';
+      case 'upload': return 'Importação';
+      case 'registry_check': return 'Consulta Receita Federal';
+      case 'compliance_block': return 'Bloqueio por Documentação';
+      case 'compliance_unblock': return 'Desbloqueio por Documentação';
+      case 'onboarding_invite': return 'Convite de Cadastro';
+      case 'onboarding_review': return 'Revisão de Cadastro';
+      case 'submit': return 'Enviado para Análise';
       default: return action;
     }
   };
@@ -67,9 +113,22 @@ export default function Audit() {
   const getEntityLabel = (entityType: string) => {
     switch (entityType) {
       case 'quotation': return 'Cotação';
+      case 'quotation_request': return 'Requisição';
+      case 'approval_delegation': return 'Delegação de Aprovação';
+      case 'cost_center': return 'Centro de Custo';
+      case 'cost_center_budget': return 'Orçamento';
+      case 'supplier_portal_link': return 'Link do Portal';
       case 'supplier': return 'Fornecedor';
       case 'product': return 'Produto';
       case 'purchase_order': return 'Ordem de Compra';
+      case 'invoice': return 'Nota Fiscal';
+      case 'invoice_match_tolerance': return 'Tolerância de Conferência';
+      case 'supplier_incident': return 'Ocorrência de Fornecedor';
+      case 'supplier_score_weights': return 'Pesos do Score';
+      case 'supplier_document_type': return 'Tipo de Documento';
+      case 'supplier_document': return 'Documento de Fornecedor';
+      case 'supplier_onboarding': return 'Cadastro de Fornecedor';
+      case 'import_profile': return 'Perfil de Importação';
       case 'user': return 'Usuário';
       default: return entityType;
     }
@@ -113,6 +172,8 @@ export default function Audit() {
                       <SelectItem value="delete">Exclusão</SelectItem>
                       <SelectItem value="approve">Aprovação</SelectItem>
                       <SelectItem value="reject">Rejeição</SelectItem>
+                      <SelectItem value="status_change">Mudança de Status</SelectItem>
+                      <SelectItem value="cancel">Cancelamento</SelectItem>
                     </SelectContent>
                   </Select>
                   
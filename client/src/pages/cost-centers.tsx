@@ -0,0 +1,496 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertCostCenterSchema } from "@shared/schema";
+import { z } from "zod";
+
+const costCenterFormSchema = insertCostCenterSchema.extend({
+  code: z.string().min(1, "Código é obrigatório"),
+  name: z.string().min(1, "Nome é obrigatório"),
+});
+
+const budgetFormSchema = z.object({
+  year: z.coerce.number().int().min(2000, "Ano inválido"),
+  month: z.string(),
+  amount: z.coerce.number().positive("Valor deve ser maior que zero"),
+});
+
+const monthNames = ['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho', 'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'];
+
+function CostCenterBudgets({ costCenter, isAdmin }: { costCenter: any; isAdmin: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: budgets = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/cost-centers", costCenter.id, "budgets"],
+  });
+
+  const form = useForm<z.infer<typeof budgetFormSchema>>({
+    resolver: zodResolver(budgetFormSchema),
+    defaultValues: {
+      year: new Date().getFullYear(),
+      month: "anual",
+      amount: undefined,
+    },
+  });
+
+  const createBudgetMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof budgetFormSchema>) => {
+      await apiRequest("POST", `/api/cost-centers/${costCenter.id}/budgets`, {
+        year: data.year,
+        month: data.month === "anual" ? null : Number(data.month),
+        amount: data.amount,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cost-centers", costCenter.id, "budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/budget-utilization"] });
+      setIsDialogOpen(false);
+      form.reset();
+      toast({
+        title: "Sucesso",
+        description: "Orçamento cadastrado com sucesso!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409")
+          ? "Já existe um orçamento para este período"
+          : "Falha ao cadastrar orçamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatPeriod = (budget: any) => budget.month ? `${monthNames[budget.month - 1]}/${budget.year}` : `Anual ${budget.year}`;
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+      ) : budgets.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum orçamento cadastrado.</p>
+      ) : (
+        budgets.map((budget: any) => (
+          <div key={budget.id} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{formatPeriod(budget)}</span>
+              <span className={budget.available < 0 ? "text-red-600 font-semibold" : "text-gray-600"}>
+                {budget.utilization.toLocaleString('pt-BR')}%
+              </span>
+            </div>
+            <Progress value={Math.min(budget.utilization, 100)} />
+            <p className="text-xs text-gray-500">
+              Orçado R$ {budget.amount.toLocaleString('pt-BR')} • Comprometido R$ {budget.committed.toLocaleString('pt-BR')} • Consumido R$ {budget.consumed.toLocaleString('pt-BR')} • Disponível R$ {budget.available.toLocaleString('pt-BR')}
+            </p>
+          </div>
+        ))
+      )}
+
+      {isAdmin && (
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm">
+              <span className="material-icons mr-1 text-sm">add</span>
+              Orçamento
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Novo Orçamento - {costCenter.code}</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createBudgetMutation.mutate(data))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="year"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ano *</FormLabel>
+                        <FormControl>
+                          <Input type="number" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="month"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Período</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="anual">Anual</SelectItem>
+                            {monthNames.map((name, index) => (
+                              <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valor (R$) *</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancelar
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createBudgetMutation.isPending}
+                    className="bg-primary hover:bg-blue-700 text-white"
+                  >
+                    {createBudgetMutation.isPending ? "Salvando..." : "Salvar Orçamento"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
+
+export default function CostCenters() {
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const isAdmin = user?.role === 'admin';
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const form = useForm<z.infer<typeof costCenterFormSchema>>({
+    resolver: zodResolver(costCenterFormSchema),
+    defaultValues: {
+      code: "",
+      name: "",
+      department: "",
+      blockOverBudget: false,
+      isActive: true,
+    },
+  });
+
+  const { data: costCenters = [], isLoading: isLoadingCostCenters } = useQuery<any[]>({
+    queryKey: ["/api/cost-centers"],
+    enabled: isAuthenticated,
+  });
+
+  const createCostCenterMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof costCenterFormSchema>) => {
+      await apiRequest("POST", "/api/cost-centers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cost-centers"] });
+      setIsDialogOpen(false);
+      form.reset();
+      toast({
+        title: "Sucesso",
+        description: "Centro de custo criado com sucesso!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409")
+          ? "Já existe um centro de custo com este código"
+          : "Falha ao criar centro de custo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCostCenterMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<z.infer<typeof costCenterFormSchema>> }) => {
+      await apiRequest("PUT", `/api/cost-centers/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cost-centers"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar centro de custo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredCostCenters = costCenters.filter((costCenter: any) =>
+    costCenter.code.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    costCenter.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background dark:bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 bg-primary rounded-full animate-pulse mx-auto mb-4"></div>
+          <p className="text-gray-600">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background dark:bg-background">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header title="Centros de Custo" subtitle="Orçamentos, compromissos e consumo" />
+
+        <main className="flex-1 overflow-y-auto p-6">
+          {/* Header Actions */}
+          <div className="flex items-center justify-between mb-6">
+            <Input
+              placeholder="Buscar centros de custo..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-64"
+            />
+
+            {isAdmin && (
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button className="bg-primary hover:bg-blue-700 text-white">
+                    <span className="material-icons mr-2 text-sm">add</span>
+                    Novo Centro de Custo
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Novo Centro de Custo</DialogTitle>
+                  </DialogHeader>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit((data) => createCostCenterMutation.mutate(data))} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="code"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Código *</FormLabel>
+                              <FormControl>
+                                <Input {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="name"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nome *</FormLabel>
+                              <FormControl>
+                                <Input {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <FormField
+                        control={form.control}
+                        name="department"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Departamento</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="blockOverBudget"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between">
+                            <div>
+                              <FormLabel>Bloquear aprovações acima do orçamento</FormLabel>
+                              <p className="text-sm text-muted-foreground">Se desativado, apenas emite um alerta</p>
+                            </div>
+                            <FormControl>
+                              <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex justify-end space-x-2 pt-4">
+                        <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                          Cancelar
+                        </Button>
+                        <Button
+                          type="submit"
+                          disabled={createCostCenterMutation.isPending}
+                          className="bg-primary hover:bg-blue-700 text-white"
+                        >
+                          {createCostCenterMutation.isPending ? "Criando..." : "Criar Centro de Custo"}
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
+
+          {/* Cost Centers Grid */}
+          {isLoadingCostCenters ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {[...Array(4)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardHeader>
+                    <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-3 bg-gray-200 rounded"></div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : filteredCostCenters.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <span className="material-icons text-4xl text-gray-300 mb-4">account_balance</span>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhum centro de custo encontrado</h3>
+                <p className="text-gray-500 text-center">
+                  {searchQuery ? "Nenhum centro de custo corresponde à sua busca." : "Cadastre centros de custo para controlar orçamentos."}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {filteredCostCenters.map((costCenter: any) => (
+                <Card key={costCenter.id}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-lg">{costCenter.code} - {costCenter.name}</CardTitle>
+                        {costCenter.department && (
+                          <p className="text-sm text-gray-500">{costCenter.department}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant={costCenter.blockOverBudget ? "destructive" : "secondary"}>
+                          {costCenter.blockOverBudget ? "Bloqueia" : "Alerta"}
+                        </Badge>
+                        <Badge variant={costCenter.isActive ? "default" : "secondary"}>
+                          {costCenter.isActive ? "Ativo" : "Inativo"}
+                        </Badge>
+                      </div>
+                    </div>
+                    {isAdmin && (
+                      <div className="flex items-center space-x-4 pt-2 text-sm">
+                        <label className="flex items-center space-x-2">
+                          <Switch
+                            checked={!!costCenter.blockOverBudget}
+                            onCheckedChange={(checked) => updateCostCenterMutation.mutate({ id: costCenter.id, data: { blockOverBudget: checked } })}
+                          />
+                          <span>Bloquear acima do orçamento</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                          <Switch
+                            checked={!!costCenter.isActive}
+                            onCheckedChange={(checked) => updateCostCenterMutation.mutate({ id: costCenter.id, data: { isActive: checked } })}
+                          />
+                          <span>Ativo</span>
+                        </label>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <CostCenterBudgets costCenter={costCenter} isAdmin={isAdmin} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
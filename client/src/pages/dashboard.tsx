@@ -8,6 +8,7 @@ import AiInsights from "@/components/dashboard/ai-insights";
 import RecentQuotations from "@/components/dashboard/recent-quotations";
 import PendingApprovals from "@/components/dashboard/pending-approvals";
 import QuickActions from "@/components/dashboard/quick-actions";
+import BudgetUtilization from "@/components/dashboard/budget-utilization";
 
 export default function Dashboard() {
   const { toast } = useToast();
@@ -89,6 +90,11 @@ export default function Dashboard() {
             <PendingApprovals />
           </div>
 
+          {/* Budget Utilization */}
+          <div className="mb-8">
+            <BudgetUtilization />
+          </div>
+
           {/* Quick Actions */}
           <QuickActions />
         </main>
@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InvoiceStatusBadge, MatchIssueList, NfeImportDialog } from "@/components/invoices";
+
+const formatCurrency = (value: string) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(parseFloat(value));
+};
+
+export default function Invoices() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [exceptionInvoice, setExceptionInvoice] = useState<any>(null);
+  const [exceptionNotes, setExceptionNotes] = useState("");
+  const role = user?.role;
+  const canProcess = role === 'admin' || role === 'cotador';
+  const canApprove = role === 'admin' || role === 'aprovador';
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: invoices = [], isLoading: isLoadingInvoices } = useQuery<any[]>({
+    queryKey: ['/api/invoices'],
+    enabled: isAuthenticated,
+  });
+
+  // Exceptions queue: invoices blocked by the three-way match
+  const { data: exceptions = [] } = useQuery<any[]>({
+    queryKey: ['/api/invoices/exceptions'],
+    enabled: isAuthenticated && canApprove,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, notes }: { id: string; action: string; notes?: string }) => {
+      await apiRequest("POST", `/api/invoices/${id}/${action}`, notes ? { notes } : undefined);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices/exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      if (action === 'approve-exception') {
+        setExceptionInvoice(null);
+        setExceptionNotes("");
+      }
+      toast({
+        title: "Sucesso",
+        description: "Nota fiscal atualizada!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar a nota fiscal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredInvoices = invoices.filter((invoice: any) =>
+    (statusFilter === 'all' || invoice.status === statusFilter) &&
+    (invoice.invoiceNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      invoice.supplier?.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      invoice.purchaseOrder?.orderNumber?.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  const renderInvoice = (invoice: any) => (
+    <Card key={invoice.id} className="hover:shadow-md transition-shadow">
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center space-x-3 mb-1">
+              <h3 className="text-lg font-semibold text-gray-900">
+                NF {invoice.invoiceNumber}{invoice.series && `/${invoice.series}`}
+              </h3>
+              <InvoiceStatusBadge status={invoice.status} />
+            </div>
+            <p className="text-gray-900 font-medium">
+              {invoice.supplier?.name || 'N/A'} • {invoice.purchaseOrder?.orderNumber}
+            </p>
+            <div className="flex items-center space-x-4 text-sm text-gray-500">
+              <span>Valor: {formatCurrency(invoice.totalAmount)}</span>
+              <span>Emissão: {new Date(invoice.issueDate).toLocaleDateString('pt-BR')}</span>
+              {invoice.dueDate && <span>Vencimento: {new Date(invoice.dueDate).toLocaleDateString('pt-BR')}</span>}
+            </div>
+            {invoice.exceptionNotes && (
+              <p className="text-sm text-purple-700">Exceção aprovada: {invoice.exceptionNotes}</p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {canProcess && invoice.status === 'divergente' && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => actionMutation.mutate({ id: invoice.id, action: 'rematch' })}
+                disabled={actionMutation.isPending}
+              >
+                Reconferir
+              </Button>
+            )}
+            {canApprove && invoice.status === 'divergente' && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setExceptionInvoice(invoice)}
+              >
+                Aprovar Exceção
+              </Button>
+            )}
+            {canApprove && invoice.status === 'a_pagar' && (
+              <Button
+                size="sm"
+                onClick={() => actionMutation.mutate({ id: invoice.id, action: 'pay' })}
+                disabled={actionMutation.isPending}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                Marcar como Pago
+              </Button>
+            )}
+            {canProcess && (invoice.status === 'divergente' || invoice.status === 'a_pagar') && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => actionMutation.mutate({ id: invoice.id, action: 'cancel' })}
+                disabled={actionMutation.isPending}
+                className="border-red-300 text-red-600 hover:bg-red-50"
+              >
+                Cancelar
+              </Button>
+            )}
+          </div>
+        </div>
+        {invoice.status === 'divergente' && <MatchIssueList issues={invoice.matchIssues} />}
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background dark:bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 bg-primary rounded-full animate-pulse mx-auto mb-4"></div>
+          <p className="text-gray-600">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background dark:bg-background">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header title="Notas Fiscais" subtitle="Conferência entre pedido, recebimento e nota fiscal" />
+
+        <main className="flex-1 overflow-y-auto p-6">
+          <div className="space-y-6">
+            {canApprove && exceptions.length > 0 && (
+              <Card className="border-orange-300">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-orange-800">
+                    <span className="material-icons">report_problem</span>
+                    <span>Fila de Exceções ({exceptions.length})</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                  {exceptions.map(renderInvoice)}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-semibold">Notas Fiscais</h2>
+              <div className="flex items-center space-x-2">
+                {canProcess && <NfeImportDialog />}
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    <SelectItem value="divergente">Divergentes</SelectItem>
+                    <SelectItem value="a_pagar">A Pagar</SelectItem>
+                    <SelectItem value="pago">Pagas</SelectItem>
+                    <SelectItem value="cancelado">Canceladas</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Buscar notas..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-64"
+                />
+              </div>
+            </div>
+
+            {isLoadingInvoices ? (
+              <div className="grid gap-4">
+                {[...Array(3)].map((_, i) => (
+                  <Card key={i} className="animate-pulse">
+                    <CardContent className="p-6">
+                      <div className="h-4 bg-gray-200 rounded w-1/4 mb-2"></div>
+                      <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : filteredInvoices.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <span className="material-icons text-4xl text-gray-300 mb-4">receipt_long</span>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhuma nota encontrada</h3>
+                  <p className="text-gray-500 text-center">
+                    Importe o XML da NF-e ou lance a nota a partir da ordem de compra.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4">
+                {filteredInvoices.map(renderInvoice)}
+              </div>
+            )}
+          </div>
+
+          <Dialog open={!!exceptionInvoice} onOpenChange={(open) => { if (!open) setExceptionInvoice(null); }}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Aprovar exceção - NF {exceptionInvoice?.invoiceNumber}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <MatchIssueList issues={exceptionInvoice?.matchIssues ?? []} />
+                <Textarea
+                  placeholder="Justificativa para liberar o pagamento"
+                  value={exceptionNotes}
+                  onChange={(e) => setExceptionNotes(e.target.value)}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setExceptionInvoice(null)}>
+                    Voltar
+                  </Button>
+                  <Button
+                    onClick={() => actionMutation.mutate({ id: exceptionInvoice.id, action: 'approve-exception', notes: exceptionNotes })}
+                    disabled={!exceptionNotes.trim() || actionMutation.isPending}
+                    className="bg-primary hover:bg-blue-700 text-white"
+                  >
+                    Liberar Pagamento
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </main>
+      </div>
+    </div>
+  );
+}
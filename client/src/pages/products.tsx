@@ -16,6 +16,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { PriceSparkline, PriceHistoryDialog } from "@/components/products";
 import { insertProductSchema } from "@shared/schema";
 import { z } from "zod";
 
@@ -50,6 +51,7 @@ export default function Products() {
     resolver: zodResolver(productFormSchema),
     defaultValues: {
       name: "",
+      code: "",
       description: "",
       unit: "",
       categoryId: "",
@@ -103,6 +105,7 @@ export default function Products() {
 
   const filteredProducts = Array.isArray(products) ? products.filter((product: any) =>
     product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    product.code?.toLowerCase().includes(searchQuery.toLowerCase()) ||
     product.description?.toLowerCase().includes(searchQuery.toLowerCase())
   ) : [];
 
@@ -210,6 +213,20 @@ export default function Products() {
                       />
                     </div>
 
+                    <FormField
+                      control={form.control}
+                      name="code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Código</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} placeholder="Código interno ou do ERP" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="description"
@@ -329,6 +346,13 @@ export default function Products() {
                         <span className="material-icons text-gray-400 text-sm">straighten</span>
                         <span>Unidade: {product.unit}</span>
                       </div>
+
+                      {product.code && (
+                        <div className="flex items-center space-x-2">
+                          <span className="material-icons text-gray-400 text-sm">qr_code</span>
+                          <span>Código: {product.code}</span>
+                        </div>
+                      )}
                       
                       {product.description && (
                         <div className="flex items-start space-x-2">
@@ -350,6 +374,13 @@ export default function Products() {
                           <span>Preço médio: R$ {Number(product.averagePrice).toLocaleString('pt-BR')}</span>
                         </div>
                       )}
+
+                      {product.lastPrice && (
+                        <div className="flex items-center justify-between pt-2">
+                          <PriceSparkline productId={product.id} />
+                          <PriceHistoryDialog product={product} />
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -1,18 +1,393 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { InvoiceStatusBadge, MatchIssueList } from "@/components/invoices";
+import { getAllowedPurchaseOrderTransitions, type PurchaseOrderStatus } from "@shared/workflow";
+
+const statusLabels: Record<string, string> = {
+  pendente: 'Pendente',
+  enviado: 'Enviado',
+  confirmado: 'Confirmado',
+  parcialmente_entregue: 'Parcialmente Entregue',
+  entregue: 'Entregue',
+  cancelado: 'Cancelado',
+};
+
+const formatCurrency = (value: string) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(parseFloat(value));
+};
+
+function PurchaseOrderLines({ orderId }: { orderId: string }) {
+  const { data: order, isLoading } = useQuery<any>({
+    queryKey: ['/api/purchase-orders', orderId],
+  });
+
+  const { data: receipts = [] } = useQuery<any[]>({
+    queryKey: ['/api/purchase-orders', orderId, 'receipts'],
+  });
+
+  const { data: invoices = [] } = useQuery<any[]>({
+    queryKey: ['/api/purchase-orders', orderId, 'invoices'],
+  });
+
+  if (isLoading) {
+    return <div className="h-10 bg-gray-200 rounded animate-pulse"></div>;
+  }
+
+  if (!order?.items?.length) {
+    return <p className="text-sm text-gray-500">Esta ordem não possui itens detalhados.</p>;
+  }
+
+  const linesById = new Map(order.items.map((item: any) => [item.id, item]));
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Produto</TableHead>
+            <TableHead>Marca/Modelo</TableHead>
+            <TableHead className="text-right">Quantidade</TableHead>
+            <TableHead className="text-right">Recebido</TableHead>
+            <TableHead className="text-right">Preço Unitário</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {order.items.map((item: any) => (
+            <TableRow key={item.id}>
+              <TableCell>
+                <p className="font-medium">{item.productName}</p>
+                {item.specifications && <p className="text-xs text-gray-500">{item.specifications}</p>}
+              </TableCell>
+              <TableCell className="text-sm">{[item.brand, item.model].filter(Boolean).join(' • ') || '-'}</TableCell>
+              <TableCell className="text-right">{Number(item.quantity).toLocaleString('pt-BR')} {item.unit}</TableCell>
+              <TableCell className={`text-right ${item.quantityReceived >= Number(item.quantity) ? 'text-green-700' : 'text-gray-600'}`}>
+                {Number(item.quantityReceived).toLocaleString('pt-BR')} {item.unit}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+              <TableCell className="text-right font-medium">{formatCurrency(item.totalPrice)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {receipts.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Recebimentos</h4>
+          {receipts.map((receipt: any) => (
+            <div key={receipt.id} className="border rounded-lg p-3 text-sm space-y-1">
+              <p className="font-medium">
+                {new Date(receipt.receivedAt).toLocaleDateString('pt-BR')}
+                {receipt.notes && <span className="font-normal text-gray-600"> • {receipt.notes}</span>}
+              </p>
+              {receipt.items.map((item: any) => {
+                const line: any = linesById.get(item.purchaseOrderItemId);
+                return (
+                  <p key={item.id} className="text-gray-600">
+                    {line?.productName}: {Number(item.quantityReceived).toLocaleString('pt-BR')} {line?.unit}
+                    {item.divergenceNotes && <span className="text-orange-700"> • Divergência: {item.divergenceNotes}</span>}
+                  </p>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {invoices.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Notas Fiscais</h4>
+          {invoices.map((invoice: any) => (
+            <div key={invoice.id} className="border rounded-lg p-3 text-sm space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">
+                  NF {invoice.invoiceNumber}{invoice.series && `/${invoice.series}`}
+                  <span className="font-normal text-gray-600">
+                    {" "}• {new Date(invoice.issueDate).toLocaleDateString('pt-BR')} • {formatCurrency(invoice.totalAmount)}
+                  </span>
+                </p>
+                <InvoiceStatusBadge status={invoice.status} />
+              </div>
+              {invoice.status === 'divergente' && <MatchIssueList issues={invoice.matchIssues} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InvoiceDialog({ order, onClose }: { order: any; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [series, setSeries] = useState("");
+  const [issueDate, setIssueDate] = useState(new Date().toISOString().slice(0, 10));
+  const [dueDate, setDueDate] = useState("");
+  const [totalAmount, setTotalAmount] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [unitPrices, setUnitPrices] = useState<Record<string, string>>({});
+
+  const { data: details } = useQuery<any>({
+    queryKey: ['/api/purchase-orders', order.id],
+  });
+  const orderItems = details?.items ?? [];
+
+  const parseDecimal = (value: string | undefined) => Number((value ?? "").replace(',', '.'));
+  const invoicedItems = orderItems.filter((item: any) => parseDecimal(quantities[item.id]) > 0);
+  const linesTotal = invoicedItems.reduce((sum: number, item: any) =>
+    sum + parseDecimal(quantities[item.id]) * (unitPrices[item.id] !== undefined ? parseDecimal(unitPrices[item.id]) : Number(item.unitPrice)), 0);
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${order.id}/invoices`, {
+        invoiceNumber,
+        series: series || null,
+        issueDate: new Date(`${issueDate}T12:00:00`).toISOString(),
+        dueDate: dueDate ? new Date(`${dueDate}T12:00:00`).toISOString() : null,
+        totalAmount: totalAmount ? parseDecimal(totalAmount) : Number(linesTotal.toFixed(2)),
+        items: invoicedItems.map((item: any) => ({
+          purchaseOrderItemId: item.id,
+          quantity: parseDecimal(quantities[item.id]),
+          unitPrice: unitPrices[item.id] !== undefined ? parseDecimal(unitPrices[item.id]) : Number(item.unitPrice),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (invoice: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders', order.id, 'invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      toast({
+        title: invoice.status === 'divergente' ? "Nota com divergências" : "Sucesso",
+        description: invoice.status === 'divergente'
+          ? "A nota foi registrada e enviada para a fila de exceções do aprovador."
+          : "Nota fiscal registrada e liberada para pagamento!",
+        variant: invoice.status === 'divergente' ? "destructive" : "default",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409") ? "Nota fiscal já registrada para este fornecedor" : "Falha ao registrar nota fiscal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lançar Nota Fiscal - {order.orderNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="invoice-number">Número</Label>
+              <Input id="invoice-number" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice-series">Série</Label>
+              <Input id="invoice-series" value={series} onChange={(e) => setSeries(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice-issue-date">Emissão</Label>
+              <Input id="invoice-issue-date" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice-due-date">Vencimento</Label>
+              <Input id="invoice-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          </div>
+          {orderItems.map((item: any) => (
+            <div key={item.id} className="border rounded-lg p-3 space-y-2">
+              <p className="text-sm font-medium">
+                {item.productName}
+                <span className="font-normal text-gray-500">
+                  {" "}• Pedido: {Number(item.quantity).toLocaleString('pt-BR')} {item.unit} a {formatCurrency(item.unitPrice)}
+                  {" "}• Recebido: {Number(item.quantityReceived).toLocaleString('pt-BR')}
+                </span>
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  inputMode="decimal"
+                  placeholder="Quantidade faturada"
+                  value={quantities[item.id] || ""}
+                  onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                />
+                <Input
+                  inputMode="decimal"
+                  placeholder="Preço unitário"
+                  value={unitPrices[item.id] ?? Number(item.unitPrice).toString()}
+                  onChange={(e) => setUnitPrices(prev => ({ ...prev, [item.id]: e.target.value }))}
+                />
+              </div>
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label htmlFor="invoice-total">Valor total da nota</Label>
+            <Input
+              id="invoice-total"
+              inputMode="decimal"
+              placeholder={linesTotal.toFixed(2)}
+              value={totalAmount}
+              onChange={(e) => setTotalAmount(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => registerMutation.mutate()}
+              disabled={!invoiceNumber.trim() || invoicedItems.length === 0 || registerMutation.isPending}
+              className="bg-primary hover:bg-blue-700 text-white"
+            >
+              {registerMutation.isPending ? "Registrando..." : "Registrar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GoodsReceiptDialog({ order, onClose }: { order: any; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [receivedAt, setReceivedAt] = useState(new Date().toISOString().slice(0, 10));
+  const [notes, setNotes] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [divergences, setDivergences] = useState<Record<string, string>>({});
+
+  const { data: details } = useQuery<any>({
+    queryKey: ['/api/purchase-orders', order.id],
+  });
+  const outstandingItems = (details?.items ?? []).filter((item: any) => item.quantityReceived < Number(item.quantity));
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/purchase-orders/${order.id}/receipts`, {
+        receivedAt: new Date(`${receivedAt}T12:00:00`).toISOString(),
+        notes: notes || null,
+        items: outstandingItems
+          .filter((item: any) => quantities[item.id])
+          .map((item: any) => ({
+            purchaseOrderItemId: item.id,
+            quantityReceived: Number(quantities[item.id].replace(',', '.')),
+            divergenceNotes: divergences[item.id] || null,
+          })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders', order.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders', order.id, 'receipts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders', order.id, 'invoices'] });
+      toast({
+        title: "Sucesso",
+        description: "Recebimento registrado!",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message.includes("exceeds") ? "Quantidade recebida maior que a pendente" : "Falha ao registrar recebimento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Registrar Recebimento - {order.orderNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="received-at">Data do recebimento</Label>
+            <Input id="received-at" type="date" value={receivedAt} onChange={(e) => setReceivedAt(e.target.value)} />
+          </div>
+          {outstandingItems.length === 0 ? (
+            <p className="text-sm text-gray-500">Não há itens pendentes de recebimento.</p>
+          ) : (
+            outstandingItems.map((item: any) => (
+              <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                <p className="text-sm font-medium">
+                  {item.productName}
+                  <span className="font-normal text-gray-500">
+                    {" "}• Pendente: {(Number(item.quantity) - item.quantityReceived).toLocaleString('pt-BR')} {item.unit}
+                  </span>
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    inputMode="decimal"
+                    placeholder="Quantidade"
+                    value={quantities[item.id] || ""}
+                    onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                  <Input
+                    className="col-span-2"
+                    placeholder="Avarias ou divergências"
+                    value={divergences[item.id] || ""}
+                    onChange={(e) => setDivergences(prev => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                </div>
+              </div>
+            ))
+          )}
+          <Textarea placeholder="Observações" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => receiveMutation.mutate()}
+              disabled={!Object.values(quantities).some(Boolean) || receiveMutation.isPending}
+              className="bg-primary hover:bg-blue-700 text-white"
+            >
+              {receiveMutation.isPending ? "Registrando..." : "Registrar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
 export default function PurchaseOrders() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [cancelOrder, setCancelOrder] = useState<any>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [receivingOrder, setReceivingOrder] = useState<any>(null);
+  const [invoicingOrder, setInvoicingOrder] = useState<any>(null);
+  const role = user?.role;
+  const canProcess = role === 'admin' || role === 'cotador';
+  const canCancel = role === 'admin' || role === 'aprovador';
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -35,23 +410,56 @@ export default function PurchaseOrders() {
     enabled: isAuthenticated,
   });
 
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, reason }: { id: string; action: string; reason?: string }) => {
+      await apiRequest("POST", `/api/purchase-orders/${id}/${action}`, reason ? { reason } : undefined);
+    },
+    onSuccess: (_, { id, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders', id] });
+      if (action === 'cancel') {
+        setCancelOrder(null);
+        setCancelReason("");
+      }
+      toast({
+        title: "Sucesso",
+        description: "Status da ordem de compra atualizado!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao atualizar a ordem de compra",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pendente': return 'bg-yellow-100 text-yellow-800';
-      case 'aprovado': return 'bg-green-100 text-green-800';
       case 'enviado': return 'bg-blue-100 text-blue-800';
+      case 'confirmado': return 'bg-indigo-100 text-indigo-800';
+      case 'parcialmente_entregue': return 'bg-orange-100 text-orange-800';
       case 'entregue': return 'bg-green-100 text-green-800';
       case 'cancelado': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const formatCurrency = (value: string) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(parseFloat(value));
-  };
+  const canApply = (order: any, status: PurchaseOrderStatus) =>
+    getAllowedPurchaseOrderTransitions(order.status).includes(status);
 
   const filteredOrders = purchaseOrders?.filter((order: any) =>
     order.orderNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -132,7 +540,7 @@ export default function PurchaseOrders() {
                           <div className="flex items-center space-x-3 mb-2">
                             <h3 className="text-lg font-semibold text-gray-900">{order.orderNumber}</h3>
                             <Badge className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(order.status)}`}>
-                              {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                              {statusLabels[order.status] ?? order.status}
                             </Badge>
                           </div>
                           <p className="text-gray-900 font-medium mb-1">
@@ -151,22 +559,131 @@ export default function PurchaseOrders() {
                               Endereço: {order.deliveryAddress}
                             </p>
                           )}
+                          {order.cancellationReason && (
+                            <p className="text-sm text-red-600">
+                              Motivo do cancelamento: {order.cancellationReason}
+                            </p>
+                          )}
                         </div>
-                        <div className="flex space-x-2">
-                          <Button size="sm" variant="ghost">
-                            <span className="material-icons text-sm">visibility</span>
+                        <div className="flex items-center space-x-2">
+                          {canProcess && canApply(order, 'enviado') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => actionMutation.mutate({ id: order.id, action: 'send' })}
+                              disabled={actionMutation.isPending}
+                            >
+                              Enviar
+                            </Button>
+                          )}
+                          {canProcess && canApply(order, 'confirmado') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => actionMutation.mutate({ id: order.id, action: 'confirm' })}
+                              disabled={actionMutation.isPending}
+                            >
+                              Confirmar
+                            </Button>
+                          )}
+                          {canProcess && order.status === 'parcialmente_entregue' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => actionMutation.mutate({ id: order.id, action: 'close' })}
+                              disabled={actionMutation.isPending}
+                            >
+                              Encerrar
+                            </Button>
+                          )}
+                          {(order.status === 'confirmado' || order.status === 'parcialmente_entregue') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReceivingOrder(order)}
+                            >
+                              <span className="material-icons mr-1 text-sm">inventory</span>
+                              Receber
+                            </Button>
+                          )}
+                          {canProcess && !['pendente', 'cancelado'].includes(order.status) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setInvoicingOrder(order)}
+                            >
+                              <span className="material-icons mr-1 text-sm">receipt_long</span>
+                              Lançar NF
+                            </Button>
+                          )}
+                          {canCancel && canApply(order, 'cancelado') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setCancelOrder(order)}
+                              className="border-red-300 text-red-600 hover:bg-red-50"
+                            >
+                              Cancelar
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                          >
+                            <span className="material-icons text-sm">{expandedOrderId === order.id ? 'expand_less' : 'visibility'}</span>
                           </Button>
                           <Button size="sm" variant="ghost">
                             <span className="material-icons text-sm">print</span>
                           </Button>
                         </div>
                       </div>
+                      {expandedOrderId === order.id && (
+                        <div className="mt-4 border-t pt-4">
+                          <PurchaseOrderLines orderId={order.id} />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
               </div>
             )}
           </div>
+
+          {receivingOrder && (
+            <GoodsReceiptDialog order={receivingOrder} onClose={() => setReceivingOrder(null)} />
+          )}
+
+          {invoicingOrder && (
+            <InvoiceDialog order={invoicingOrder} onClose={() => setInvoicingOrder(null)} />
+          )}
+
+          <Dialog open={!!cancelOrder} onOpenChange={(open) => { if (!open) setCancelOrder(null); }}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Cancelar {cancelOrder?.orderNumber}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <Textarea
+                  placeholder="Motivo do cancelamento"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setCancelOrder(null)}>
+                    Voltar
+                  </Button>
+                  <Button
+                    onClick={() => actionMutation.mutate({ id: cancelOrder.id, action: 'cancel', reason: cancelReason })}
+                    disabled={!cancelReason.trim() || actionMutation.isPending}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    Cancelar Ordem
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
         </main>
       </div>
     </div>
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PriceFlagBadge } from "@/components/quotations";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// Request statuses in which the buyer may still (re)distribute the award
+const awardableStatuses = ['rascunho', 'em_cotacao', 'cotacao_encerrada', 'aguardando_aprovacao'];
+
+export default function QuotationComparison() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  // Request item id -> awarded supplier quotation item id
+  const [awards, setAwards] = useState<Record<string, string>>({});
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: comparison, isLoading: isLoadingComparison, error } = useQuery<any>({
+    queryKey: ['/api/quotation-requests', id, 'comparison'],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Start from the awards already stored
+  useEffect(() => {
+    if (!comparison) return;
+    const stored: Record<string, string> = {};
+    for (const item of comparison.items) {
+      const awarded = item.cells.find((cell: any) => cell.isAwarded);
+      if (awarded) stored[item.quotationRequestItemId] = awarded.supplierQuotationItemId;
+    }
+    setAwards(stored);
+  }, [comparison]);
+
+  const awardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotation-requests/${id}/awards`, {
+        awards: Object.entries(awards).map(([quotationRequestItemId, supplierQuotationItemId]) => ({
+          quotationRequestItemId,
+          supplierQuotationItemId,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (summary: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotation-requests'] });
+      toast({
+        title: "Itens adjudicados",
+        description: `Total adjudicado de ${formatCurrency(summary.awardedTotal)} enviado para aprovação.`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao adjudicar itens",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background dark:bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 bg-primary rounded-full animate-pulse mx-auto mb-4"></div>
+          <p className="text-gray-600">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const suppliers: any[] = comparison?.suppliers ?? [];
+  const items: any[] = comparison?.items ?? [];
+  const canAward = (user?.role === 'admin' || user?.role === 'cotador') &&
+    awardableStatuses.includes(comparison?.request.status);
+
+  const toggleAward = (itemId: string, cell: any) => {
+    if (!canAward || !cell.quoted) return;
+    setAwards(prev => {
+      const { [itemId]: current, ...rest } = prev;
+      return current === cell.supplierQuotationItemId ? rest : { ...rest, [itemId]: cell.supplierQuotationItemId };
+    });
+  };
+
+  const awardLowestPrices = () => {
+    const lowest: Record<string, string> = {};
+    for (const item of items) {
+      const cell = item.cells.find((candidate: any) => candidate.isLowestPrice);
+      if (cell) lowest[item.quotationRequestItemId] = cell.supplierQuotationItemId;
+    }
+    setAwards(lowest);
+  };
+
+  const awardedTotal = items.reduce((sum: number, item: any) => {
+    const cell = item.cells.find((candidate: any) => candidate.supplierQuotationItemId === awards[item.quotationRequestItemId]);
+    return sum + (cell?.totalPrice ?? 0);
+  }, 0);
+  const awardedCount = Object.keys(awards).length;
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background dark:bg-background">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Comparativo de Cotações"
+          subtitle={comparison ? `${comparison.request.requestNumber} - ${comparison.request.title}` : "Preços por item e fornecedor"}
+        />
+
+        <main className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <Link href="/quotations">
+              <Button variant="outline" size="sm">
+                <span className="material-icons mr-1 text-sm">arrow_back</span>
+                Voltar
+              </Button>
+            </Link>
+            <div className="flex items-center gap-4 text-xs text-gray-500">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border border-green-300"></span> Menor preço do item</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-50 border border-gray-200"></span> Item não cotado</span>
+            </div>
+          </div>
+
+          {isLoadingComparison ? (
+            <Card>
+              <CardContent className="py-8">
+                <div className="text-center">Carregando comparativo...</div>
+              </CardContent>
+            </Card>
+          ) : error || !comparison ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <span className="material-icons text-4xl text-gray-300 mb-4">error_outline</span>
+                <p className="text-gray-500">Não foi possível carregar o comparativo desta requisição.</p>
+              </CardContent>
+            </Card>
+          ) : suppliers.length === 0 || items.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <span className="material-icons text-4xl text-gray-300 mb-4">table_chart</span>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Nada para comparar</h3>
+                <p className="text-gray-500 text-center">
+                  {items.length === 0
+                    ? "Esta requisição não possui itens."
+                    : "Ainda não há cotações de fornecedores para esta requisição."}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Itens × Fornecedores</CardTitle>
+                  {canAward && (
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-gray-600">
+                        {awardedCount} de {items.length} itens • Total adjudicado {formatCurrency(awardedTotal)}
+                      </span>
+                      <Button variant="outline" size="sm" onClick={awardLowestPrices}>
+                        Menor preço por item
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => awardMutation.mutate()}
+                        disabled={awardedCount === 0 || awardMutation.isPending}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        {awardMutation.isPending ? "Adjudicando..." : "Adjudicar e Enviar para Aprovação"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {canAward && (
+                  <p className="text-sm text-gray-500">Clique no preço de um fornecedor para adjudicar o item a ele.</p>
+                )}
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[220px]">Item</TableHead>
+                      {suppliers.map((supplier: any) => (
+                        <TableHead key={supplier.supplierQuotationId} className="min-w-[180px] align-top py-2">
+                          <div className="flex flex-col gap-1">
+                            <span className="font-semibold text-gray-900">{supplier.supplierName}</span>
+                            <div className="flex flex-wrap gap-1">
+                              {supplier.isSelected && (
+                                <Badge className="bg-green-100 text-green-800">Selecionada</Badge>
+                              )}
+                              {!supplier.isComplete && (
+                                <Badge className="bg-orange-100 text-orange-800">
+                                  {supplier.missingItems} {supplier.missingItems === 1 ? 'item não cotado' : 'itens não cotados'}
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map((item: any) => (
+                      <TableRow key={item.quotationRequestItemId}>
+                        <TableCell className="align-top">
+                          <p className="font-medium">{item.productName}</p>
+                          <p className="text-xs text-gray-500">
+                            {item.quantity.toLocaleString('pt-BR')} {item.unit}
+                            {item.estimatedPrice !== null && ` • Estimado ${formatCurrency(item.estimatedPrice)}`}
+                          </p>
+                        </TableCell>
+                        {item.cells.map((cell: any) => (
+                          <TableCell
+                            key={cell.supplierQuotationId}
+                            onClick={() => toggleAward(item.quotationRequestItemId, cell)}
+                            className={`align-top ${cell.isLowestPrice ? 'bg-green-50' : ''} ${!cell.quoted ? 'bg-gray-50' : ''} ${canAward && cell.quoted ? 'cursor-pointer' : ''} ${awards[item.quotationRequestItemId] === cell.supplierQuotationItemId && cell.quoted ? 'ring-2 ring-inset ring-primary' : ''}`}
+                          >
+                            {cell.quoted ? (
+                              <div className="space-y-0.5">
+                                {awards[item.quotationRequestItemId] === cell.supplierQuotationItemId && (
+                                  <Badge className="bg-primary text-white mb-1">Adjudicado</Badge>
+                                )}
+                                <p className={`font-semibold ${cell.isLowestPrice ? 'text-green-700' : ''}`}>
+                                  {formatCurrency(cell.unitPrice)}
+                                  <span className="text-xs font-normal text-gray-500"> /{item.unit}</span>
+                                </p>
+                                <p className="text-xs text-gray-600">Total {formatCurrency(cell.totalPrice)}</p>
+                                {(cell.brand || cell.model) && (
+                                  <p className="text-xs text-gray-500">{[cell.brand, cell.model].filter(Boolean).join(' • ')}</p>
+                                )}
+                                <PriceFlagBadge flag={cell.priceFlag} details={cell.priceFlagDetails} />
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400 italic">Não cotado</span>
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+
+                    <TableRow className="border-t-2">
+                      <TableCell className="font-semibold">Total</TableCell>
+                      {suppliers.map((supplier: any) => (
+                        <TableCell
+                          key={supplier.supplierQuotationId}
+                          className={supplier.isLowestTotal ? 'bg-green-100' : ''}
+                        >
+                          <p className={`text-lg font-semibold ${supplier.isLowestTotal ? 'text-green-700' : ''}`}>
+                            {formatCurrency(supplier.total)}
+                          </p>
+                          {supplier.isLowestTotal && (
+                            <p className="text-xs text-green-700">Menor total</p>
+                          )}
+                          {!supplier.isComplete && (
+                            <p className="text-xs text-orange-700">Cotação parcial</p>
+                          )}
+                          {supplier.awardedTotal > 0 && (
+                            <p className="text-xs text-gray-600">Adjudicado {formatCurrency(supplier.awardedTotal)}</p>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="text-sm text-gray-500">Prazo de entrega</TableCell>
+                      {suppliers.map((supplier: any) => (
+                        <TableCell key={supplier.supplierQuotationId} className="text-sm">
+                          {supplier.deliveryTime !== null ? `${supplier.deliveryTime} dias` : 'N/A'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="text-sm text-gray-500">Condições de pagamento</TableCell>
+                      {suppliers.map((supplier: any) => (
+                        <TableCell key={supplier.supplierQuotationId} className="text-sm">
+                          {supplier.paymentTerms || 'N/A'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="text-sm text-gray-500">Validade</TableCell>
+                      {suppliers.map((supplier: any) => (
+                        <TableCell key={supplier.supplierQuotationId} className="text-sm">
+                          {supplier.validUntil ? new Date(supplier.validUntil).toLocaleDateString('pt-BR') : 'N/A'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
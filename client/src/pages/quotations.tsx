@@ -17,14 +17,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
 import { insertQuotationRequestSchema } from "@shared/schema";
 import { z } from "zod";
 import { SupplierQuotationsSection } from "@/components/quotations/supplier-quotations-section";
 import { UploadDialog } from "@/components/quotations/upload-dialog";
+import { ApprovalSteps } from "@/components/quotations/approval-steps";
+import { PriceAnomalyWarnings } from "@/components/quotations/price-anomalies";
 
 const quotationFormSchema = insertQuotationRequestSchema.extend({
   title: z.string().min(1, "Título é obrigatório"),
   department: z.string().min(1, "Departamento é obrigatório"),
+  responseDeadline: z.date().nullable().optional()
+    .refine((date) => !date || date.getTime() > Date.now(), "O prazo deve ser uma data futura"),
 });
 
 export default function Quotations() {
@@ -60,6 +65,7 @@ export default function Quotations() {
       urgency: "normal",
       expectedDeliveryDate: undefined,
       totalBudget: undefined,
+      responseDeadline: undefined,
     },
   });
 
@@ -68,6 +74,12 @@ export default function Quotations() {
     enabled: isAuthenticated,
   });
 
+  const { data: costCenters = [] } = useQuery<any[]>({
+    queryKey: ["/api/cost-centers"],
+    enabled: isAuthenticated,
+  });
+  const activeCostCenters = costCenters.filter((costCenter: any) => costCenter.isActive);
+
   const createQuotationMutation = useMutation({
     mutationFn: async (quotationData: z.infer<typeof quotationFormSchema>) => {
       await apiRequest("POST", "/api/quotation-requests", quotationData);
@@ -103,14 +115,25 @@ export default function Quotations() {
 
   const approveQuotationMutation = useMutation({
     mutationFn: async ({ id, approvedAmount }: { id: string; approvedAmount: number }) => {
-      await apiRequest("POST", `/api/quotation-requests/${id}/approve`, { approvedAmount });
+      const response = await apiRequest("POST", `/api/quotation-requests/${id}/approve`, { approvedAmount });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/quotation-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/budget-utilization"] });
       toast({
         title: "Sucesso",
-        description: "Cotação aprovada com sucesso!",
+        description: result?.approvalCompleted
+          ? "Cotação aprovada com sucesso!"
+          : "Etapa aprovada. A requisição segue para a próxima etapa de aprovação.",
       });
+      if (result?.budgetWarning) {
+        toast({
+          title: "Atenção: orçamento excedido",
+          description: "O valor aprovado ultrapassa o saldo disponível do centro de custo.",
+          variant: "destructive",
+        });
+      }
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -126,7 +149,9 @@ export default function Quotations() {
       }
       toast({
         title: "Erro",
-        description: "Falha ao aprovar cotação",
+        description: error.message.startsWith("409") && error.message.includes("budget")
+          ? "Aprovação bloqueada: o valor excede o orçamento disponível do centro de custo"
+          : "Falha ao aprovar cotação",
         variant: "destructive",
       });
     },
@@ -167,6 +192,7 @@ export default function Quotations() {
     const variants = {
       'rascunho': { variant: 'outline' as const, label: 'Rascunho', className: 'bg-gray-100 text-gray-800' },
       'em_cotacao': { variant: 'secondary' as const, label: 'Em Cotação', className: 'bg-blue-100 text-blue-800' },
+      'cotacao_encerrada': { variant: 'secondary' as const, label: 'Cotação Encerrada', className: 'bg-purple-100 text-purple-800' },
       'aguardando_aprovacao': { variant: 'outline' as const, label: 'Aguardando Aprovação', className: 'bg-yellow-100 text-yellow-800' },
       'aprovado': { variant: 'default' as const, label: 'Aprovado', className: 'bg-green-100 text-green-800' },
       'rejeitado': { variant: 'destructive' as const, label: 'Rejeitado', className: 'bg-red-100 text-red-800' },
@@ -325,9 +351,26 @@ export default function Quotations() {
                             render={({ field }) => (
                               <FormItem>
                                 <FormLabel>Centro de Custo</FormLabel>
-                                <FormControl>
-                                  <Input {...field} value={field.value || ""} />
-                                </FormControl>
+                                {activeCostCenters.length > 0 ? (
+                                  <Select onValueChange={field.onChange} value={field.value || ""}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue placeholder="Selecione o centro de custo" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {activeCostCenters.map((costCenter: any) => (
+                                        <SelectItem key={costCenter.id} value={costCenter.code}>
+                                          {costCenter.code} - {costCenter.name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <FormControl>
+                                    <Input {...field} value={field.value || ""} />
+                                  </FormControl>
+                                )}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -378,6 +421,24 @@ export default function Quotations() {
                               </FormItem>
                             )}
                           />
+
+                          <FormField
+                            control={form.control}
+                            name="responseDeadline"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Prazo para Respostas</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="datetime-local"
+                                    value={field.value ? format(field.value, "yyyy-MM-dd'T'HH:mm") : ''}
+                                    onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                         </div>
 
                         <div className="flex justify-end space-x-2 pt-4">
@@ -488,6 +549,9 @@ export default function Quotations() {
                                 <span>Orçamento: R$ {Number(request.totalBudget).toLocaleString('pt-BR')}</span>
                               )}
                               <span>Criado em: {new Date(request.createdAt).toLocaleDateString('pt-BR')}</span>
+                              {request.responseDeadline && (
+                                <span>Prazo para respostas: {new Date(request.responseDeadline).toLocaleString('pt-BR')}</span>
+                              )}
                             </div>
                           </div>
                           <div className="flex flex-col space-y-2">
@@ -566,6 +630,12 @@ export default function Quotations() {
                                 <span>Valor: R$ {Number(request.totalBudget).toLocaleString('pt-BR')}</span>
                               )}
                             </div>
+                            <div className="mt-3">
+                              <ApprovalSteps quotationRequestId={request.id} />
+                            </div>
+                            <div className="mt-3">
+                              <PriceAnomalyWarnings quotationRequestId={request.id} />
+                            </div>
                           </div>
                           <div className="flex space-x-2">
                             <Button
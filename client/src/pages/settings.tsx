@@ -10,6 +10,10 @@ import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
+import { ApprovalDelegationCard } from "@/components/settings/approval-delegation-card";
+import { MatchToleranceCard } from "@/components/settings/match-tolerance-card";
+import { ScoreWeightsCard } from "@/components/settings/score-weights-card";
+import { DocumentTypesCard } from "@/components/settings/document-types-card";
 
 export default function Settings() {
   const { theme, setTheme } = useTheme();
@@ -148,6 +152,18 @@ export default function Settings() {
               </CardContent>
             </Card>
 
+            {/* Approval Delegation */}
+            <ApprovalDelegationCard />
+
+            {/* Three-way Match Tolerances */}
+            <MatchToleranceCard />
+
+            {/* Supplier Score Weights */}
+            <ScoreWeightsCard />
+
+            {/* Supplier Document Types */}
+            <DocumentTypesCard />
+
             {/* System Information */}
             <Card>
               <CardHeader>
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScoreBreakdownPanel, SupplierDocumentsCard, OnboardingReviewCard, SupplierCategoriesCard } from "@/components/suppliers";
+import { formatTaxId } from "@shared/documents";
+
+const severityLabels: Record<string, string> = {
+  baixa: 'Baixa',
+  media: 'Média',
+  alta: 'Alta',
+};
+
+const severityColors: Record<string, string> = {
+  baixa: 'bg-yellow-100 text-yellow-800',
+  media: 'bg-orange-100 text-orange-800',
+  alta: 'bg-red-100 text-red-800',
+};
+
+const emptyIncident = {
+  severity: 'media',
+  occurredAt: new Date().toISOString().slice(0, 10),
+  purchaseOrderId: '',
+  description: '',
+};
+
+export default function SupplierDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [isIncidentDialogOpen, setIsIncidentDialogOpen] = useState(false);
+  const [incident, setIncident] = useState(emptyIncident);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: supplier, isLoading: isLoadingSupplier } = useQuery<any>({
+    queryKey: ['/api/suppliers', id],
+    enabled: isAuthenticated,
+  });
+
+  const { data: incidents = [] } = useQuery<any[]>({
+    queryKey: ['/api/suppliers', id, 'incidents'],
+    enabled: isAuthenticated,
+  });
+
+  const { data: purchaseOrders = [] } = useQuery<any[]>({
+    queryKey: ['/api/purchase-orders'],
+    enabled: isAuthenticated,
+  });
+  const supplierOrders = purchaseOrders.filter((order: any) => order.supplierId === id);
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Erro",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const recalculateMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/suppliers/${id}/score`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      toast({
+        title: "Sucesso",
+        description: "Score recalculado!",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao recalcular o score"),
+  });
+
+  const incidentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/suppliers/${id}/incidents`, {
+        severity: incident.severity,
+        occurredAt: incident.occurredAt,
+        purchaseOrderId: incident.purchaseOrderId || null,
+        description: incident.description,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      setIsIncidentDialogOpen(false);
+      setIncident(emptyIncident);
+      toast({
+        title: "Sucesso",
+        description: "Ocorrência registrada!",
+      });
+    },
+    onError: (error) => handleError(error, "Falha ao registrar ocorrência"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background dark:bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 bg-primary rounded-full animate-pulse mx-auto mb-4"></div>
+          <p className="text-gray-600">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background dark:bg-background">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header title={supplier?.name ?? "Fornecedor"} subtitle="Avaliação e histórico do fornecedor" />
+
+        <main className="flex-1 overflow-y-auto p-6 space-y-6">
+          <Link href="/suppliers" className="inline-flex items-center text-sm text-primary hover:underline">
+            <span className="material-icons text-sm mr-1">arrow_back</span>
+            Fornecedores
+          </Link>
+
+          {isLoadingSupplier || !supplier ? (
+            <Card className="animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-4 bg-gray-200 rounded w-1/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span>Dados cadastrais</span>
+                    <Badge variant="outline">{supplier.status}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {supplier.cnpj && <p><span className="text-gray-500">CNPJ/CPF:</span> {formatTaxId(supplier.cnpj)}</p>}
+                  {supplier.tradeName && <p><span className="text-gray-500">Nome fantasia:</span> {supplier.tradeName}</p>}
+                  {supplier.registrationStatus && (
+                    <p><span className="text-gray-500">Situação na Receita:</span> {supplier.registrationStatus}</p>
+                  )}
+                  {supplier.contactPerson && <p><span className="text-gray-500">Contato:</span> {supplier.contactPerson}</p>}
+                  {supplier.email && <p><span className="text-gray-500">Email:</span> {supplier.email}</p>}
+                  {supplier.phone && <p><span className="text-gray-500">Telefone:</span> {supplier.phone}</p>}
+                  {supplier.address && <p><span className="text-gray-500">Endereço:</span> {supplier.address}</p>}
+                  {supplier.bankName && (
+                    <p>
+                      <span className="text-gray-500">Banco:</span> {supplier.bankName} • Ag. {supplier.bankBranch} • Conta {supplier.bankAccount}
+                      {supplier.pixKey && ` • PIX ${supplier.pixKey}`}
+                    </p>
+                  )}
+                  {supplier.complianceBlockedAt && (
+                    <p className="text-red-600">
+                      Bloqueado em {new Date(supplier.complianceBlockedAt).toLocaleDateString('pt-BR')} por documento obrigatório vencido
+                    </p>
+                  )}
+                  <p><span className="text-gray-500">Cotações enviadas:</span> {supplier.totalQuotations ?? 0}</p>
+                  {supplier.averageDeliveryTime !== null && (
+                    <p><span className="text-gray-500">Entrega média:</span> {supplier.averageDeliveryTime} dias</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center space-x-2">
+                      <span className="material-icons text-yellow-500">star</span>
+                      <span>Score {supplier.score !== null ? `${supplier.score}/5.00` : '-'}</span>
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => recalculateMutation.mutate()}
+                      disabled={recalculateMutation.isPending}
+                    >
+                      Recalcular
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ScoreBreakdownPanel breakdown={supplier.scoreBreakdown} />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {supplier && <OnboardingReviewCard supplier={supplier} />}
+
+          <SupplierCategoriesCard supplierId={id} />
+
+          <SupplierDocumentsCard supplierId={id} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Ocorrências de qualidade</span>
+                <Dialog open={isIncidentDialogOpen} onOpenChange={setIsIncidentDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" className="bg-primary hover:bg-blue-700 text-white">
+                      <span className="material-icons mr-2 text-sm">add</span>
+                      Registrar Ocorrência
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Registrar ocorrência</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-1">
+                          <Label>Gravidade</Label>
+                          <Select value={incident.severity} onValueChange={(severity) => setIncident({ ...incident, severity })}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="baixa">Baixa</SelectItem>
+                              <SelectItem value="media">Média</SelectItem>
+                              <SelectItem value="alta">Alta</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label>Data</Label>
+                          <Input
+                            type="date"
+                            value={incident.occurredAt}
+                            onChange={(e) => setIncident({ ...incident, occurredAt: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Ordem de compra</Label>
+                        <Select
+                          value={incident.purchaseOrderId || 'none'}
+                          onValueChange={(purchaseOrderId) => setIncident({ ...incident, purchaseOrderId: purchaseOrderId === 'none' ? '' : purchaseOrderId })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Nenhuma</SelectItem>
+                            {supplierOrders.map((order: any) => (
+                              <SelectItem key={order.id} value={order.id}>{order.orderNumber}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Descrição</Label>
+                        <Textarea
+                          placeholder="Produto avariado, fora da especificação..."
+                          value={incident.description}
+                          onChange={(e) => setIncident({ ...incident, description: e.target.value })}
+                        />
+                      </div>
+                      <div className="flex justify-end space-x-2">
+                        <Button variant="outline" onClick={() => setIsIncidentDialogOpen(false)}>
+                          Cancelar
+                        </Button>
+                        <Button
+                          onClick={() => incidentMutation.mutate()}
+                          disabled={!incident.description.trim() || !incident.occurredAt || incidentMutation.isPending}
+                          className="bg-primary hover:bg-blue-700 text-white"
+                        >
+                          Registrar
+                        </Button>
+                      </div>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {incidents.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhuma ocorrência registrada.</p>
+              ) : (
+                <div className="space-y-3">
+                  {incidents.map((item: any) => (
+                    <div key={item.id} className="flex items-start justify-between border-b pb-3 last:border-0">
+                      <div>
+                        <p className="text-sm">{item.description}</p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(item.occurredAt).toLocaleDateString('pt-BR')}
+                          {item.purchaseOrderId && ` • ${supplierOrders.find((order: any) => order.id === item.purchaseOrderId)?.orderNumber ?? 'Ordem de compra'}`}
+                          {item.goodsReceiptId && ' • registrada no recebimento'}
+                        </p>
+                      </div>
+                      <Badge className={severityColors[item.severity]}>{severityLabels[item.severity]}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    </div>
+  );
+}
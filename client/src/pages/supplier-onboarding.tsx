@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { documentStateLabels, documentStateColors } from "@/components/suppliers";
+
+interface BankDetails {
+  bankName: string;
+  bankCode: string;
+  bankBranch: string;
+  bankAccount: string;
+  bankAccountType: string;
+  pixKey: string;
+}
+
+interface DocumentUpload {
+  issueDate: string;
+  expiryDate: string;
+  file: File | null;
+}
+
+const emptyBankDetails: BankDetails = { bankName: "", bankCode: "", bankBranch: "", bankAccount: "", bankAccountType: "corrente", pixKey: "" };
+
+const emptyUpload: DocumentUpload = { issueDate: "", expiryDate: "", file: null };
+
+// Server errors arrive as "<status>: <json body>"
+const getErrorMessage = (error: Error) => {
+  const status = error.message.split(":")[0];
+  if (status === "410") return "Este link expirou ou o cadastro já foi aprovado.";
+  if (status === "404") return "Link de cadastro inválido.";
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return "Não foi possível carregar o cadastro.";
+  }
+};
+
+export default function SupplierOnboarding() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [bank, setBank] = useState<BankDetails>(emptyBankDetails);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [uploads, setUploads] = useState<Record<string, DocumentUpload>>({});
+
+  const { data: onboarding, isLoading, error } = useQuery<any>({
+    queryKey: ['/api/onboarding', token],
+    retry: false,
+  });
+
+  // Pre-fill the form with what the supplier saved before
+  useEffect(() => {
+    if (!onboarding) return;
+    const supplier = onboarding.supplier;
+    setBank({
+      bankName: supplier.bankName || "",
+      bankCode: supplier.bankCode || "",
+      bankBranch: supplier.bankBranch || "",
+      bankAccount: supplier.bankAccount || "",
+      bankAccountType: supplier.bankAccountType || "corrente",
+      pixKey: supplier.pixKey || "",
+    });
+    setCategoryIds(onboarding.categoryIds);
+  }, [onboarding]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/onboarding/${token}`, {
+        ...bank,
+        bankCode: bank.bankCode || null,
+        pixKey: bank.pixKey || null,
+        categoryIds,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/onboarding', token] });
+      toast({
+        title: "Dados salvos",
+        description: "Você pode continuar o cadastro depois pelo mesmo link.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (documentTypeId: string) => {
+      const upload = uploads[documentTypeId];
+      const formData = new FormData();
+      formData.append('file', upload.file!);
+      formData.append('documentTypeId', documentTypeId);
+      formData.append('issueDate', upload.issueDate);
+      formData.append('expiryDate', upload.expiryDate);
+
+      const response = await fetch(`/api/onboarding/${token}/documents`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Falha ao enviar documento');
+      }
+      return documentTypeId;
+    },
+    onSuccess: (documentTypeId) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/onboarding', token] });
+      setUploads(prev => {
+        const { [documentTypeId]: _sent, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Documento enviado",
+        description: "O documento foi anexado ao seu cadastro.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/onboarding/${token}`, {
+        ...bank,
+        bankCode: bank.bankCode || null,
+        pixKey: bank.pixKey || null,
+        categoryIds,
+      });
+      await apiRequest("POST", `/api/onboarding/${token}/submit`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/onboarding', token] });
+      toast({
+        title: "Cadastro enviado",
+        description: "Obrigado! Seu cadastro será analisado pela nossa equipe.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUpload = (documentTypeId: string, changes: Partial<DocumentUpload>) => {
+    setUploads(prev => ({
+      ...prev,
+      [documentTypeId]: { ...(prev[documentTypeId] ?? emptyUpload), ...changes },
+    }));
+  };
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    setCategoryIds(prev => checked ? [...prev, categoryId] : prev.filter(id => id !== categoryId));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 bg-primary rounded-full animate-pulse mx-auto mb-4"></div>
+          <p className="text-gray-600">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !onboarding) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="max-w-md w-full">
+          <CardContent className="flex flex-col items-center py-12">
+            <span className="material-icons text-4xl text-gray-300 mb-4">link_off</span>
+            <p className="text-gray-700 text-center">{error ? getErrorMessage(error as Error) : "Link de cadastro inválido."}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isUnderReview = onboarding.status === 'enviado';
+  const hasBankDetails = bank.bankName && bank.bankBranch && bank.bankAccount;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+            <span className="material-icons text-white">how_to_reg</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">TrustCota Sys - Cadastro de Fornecedor</h1>
+            <p className="text-sm text-gray-500">{onboarding.supplier.name}</p>
+          </div>
+        </div>
+
+        {isUnderReview ? (
+          <Card>
+            <CardContent className="flex flex-col items-center py-12">
+              <span className="material-icons text-4xl text-blue-400 mb-4">hourglass_top</span>
+              <p className="text-gray-700 text-center">
+                Cadastro enviado em {new Date(onboarding.submittedAt).toLocaleString('pt-BR')} e em análise.
+                Você será avisado por email sobre o resultado.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {onboarding.status === 'rejeitado' && onboarding.rejectionReason && (
+              <Card className="border-red-200 bg-red-50">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base text-red-800">Correções solicitadas</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-red-800 whitespace-pre-line">{onboarding.rejectionReason}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Dados Bancários</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="bank-name">Banco</Label>
+                  <Input id="bank-name" value={bank.bankName} onChange={(e) => setBank({ ...bank, bankName: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="bank-code">Código do banco</Label>
+                  <Input id="bank-code" placeholder="Ex: 341" value={bank.bankCode} onChange={(e) => setBank({ ...bank, bankCode: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Tipo de conta</Label>
+                  <Select value={bank.bankAccountType} onValueChange={(bankAccountType) => setBank({ ...bank, bankAccountType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="corrente">Corrente</SelectItem>
+                      <SelectItem value="poupanca">Poupança</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="bank-branch">Agência</Label>
+                  <Input id="bank-branch" value={bank.bankBranch} onChange={(e) => setBank({ ...bank, bankBranch: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="bank-account">Conta</Label>
+                  <Input id="bank-account" value={bank.bankAccount} onChange={(e) => setBank({ ...bank, bankAccount: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="pix-key">Chave PIX</Label>
+                  <Input id="pix-key" value={bank.pixKey} onChange={(e) => setBank({ ...bank, pixKey: e.target.value })} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Categorias Atendidas</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {onboarding.categories.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nenhuma categoria disponível.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {onboarding.categories.map((category: any) => (
+                      <label key={category.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={categoryIds.includes(category.id)}
+                          onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                        />
+                        <span>{category.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Documentos</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {onboarding.documents.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nenhum documento exigido.</p>
+                ) : (
+                  onboarding.documents.map((requirement: any) => {
+                    const upload = uploads[requirement.documentType.id] ?? emptyUpload;
+                    return (
+                      <div key={requirement.documentType.id} className="border rounded-lg p-4 space-y-3">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="font-medium">
+                              {requirement.documentType.name}
+                              {requirement.documentType.isMandatory && <span className="text-red-500"> *</span>}
+                            </p>
+                            {requirement.documentType.description && (
+                              <p className="text-sm text-gray-500">{requirement.documentType.description}</p>
+                            )}
+                            {requirement.document && (
+                              <p className="text-xs text-gray-500">
+                                {requirement.document.fileName}
+                                {requirement.document.expiryDate && ` • vence em ${new Date(requirement.document.expiryDate).toLocaleDateString('pt-BR')}`}
+                              </p>
+                            )}
+                          </div>
+                          <Badge className={documentStateColors[requirement.state]}>{documentStateLabels[requirement.state]}</Badge>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                          <div className="space-y-1">
+                            <Label>Emissão</Label>
+                            <Input
+                              type="date"
+                              value={upload.issueDate}
+                              onChange={(e) => updateUpload(requirement.documentType.id, { issueDate: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Vencimento</Label>
+                            <Input
+                              type="date"
+                              value={upload.expiryDate}
+                              onChange={(e) => updateUpload(requirement.documentType.id, { expiryDate: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Arquivo</Label>
+                            <Input
+                              type="file"
+                              onChange={(e) => updateUpload(requirement.documentType.id, { file: e.target.files?.[0] ?? null })}
+                            />
+                          </div>
+                          <Button
+                            variant="outline"
+                            onClick={() => uploadMutation.mutate(requirement.documentType.id)}
+                            disabled={!upload.file || !upload.issueDate || uploadMutation.isPending}
+                          >
+                            <span className="material-icons mr-2 text-sm">upload_file</span>
+                            Enviar
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+                <p className="text-xs text-gray-500">* Documentos obrigatórios</p>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => saveMutation.mutate()}
+                disabled={!hasBankDetails || saveMutation.isPending}
+              >
+                Salvar rascunho
+              </Button>
+              <Button
+                onClick={() => submitMutation.mutate()}
+                disabled={!hasBankDetails || categoryIds.length === 0 || submitMutation.isPending}
+                className="bg-primary hover:bg-blue-700 text-white"
+              >
+                {submitMutation.isPending ? "Enviando..." : "Enviar para análise"}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+interface ItemResponse {
+  unitPrice: string;
+  brand: string;
+  model: string;
+  specifications: string;
+}
+
+const emptyResponse: ItemResponse = { unitPrice: "", brand: "", model: "", specifications: "" };
+
+// Server errors arrive as "<status>: <json body>"
+const getErrorMessage = (error: Error) => {
+  const status = error.message.split(":")[0];
+  if (status === "410") return "Este link expirou, foi revogado ou a cotação já foi encerrada.";
+  if (status === "404") return "Link de cotação inválido.";
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return "Não foi possível carregar a solicitação de cotação.";
+  }
+};
+
+export default function SupplierPortal() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [responses, setResponses] = useState<Record<string, ItemResponse>>({});
+  const [quotationNumber, setQuotationNumber] = useState("");
+  const [deliveryTime, setDeliveryTime] = useState("");
+  const [paymentTerms, setPaymentTerms] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [observations, setObservations] = useState("");
+
+  const { data: portal, isLoading, error } = useQuery<any>({
+    queryKey: ['/api/portal', token],
+    retry: false,
+  });
+
+  // Pre-fill the form with a previous submission so the supplier can revise it
+  useEffect(() => {
+    if (!portal?.quotation) return;
+    const quotation = portal.quotation;
+    setQuotationNumber(quotation.quotationNumber || "");
+    setDeliveryTime(quotation.deliveryTime ? String(quotation.deliveryTime) : "");
+    setPaymentTerms(quotation.paymentTerms || "");
+    setValidUntil(quotation.validUntil ? new Date(quotation.validUntil).toISOString().slice(0, 10) : "");
+    setObservations(quotation.observations || "");
+    setResponses(Object.fromEntries(quotation.items.map((item: any) => [item.quotationRequestItemId, {
+      unitPrice: String(item.unitPrice),
+      brand: item.brand || "",
+      model: item.model || "",
+      specifications: item.specifications || "",
+    }])));
+  }, [portal]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/portal/${token}/quotation`, {
+        quotationNumber: quotationNumber || null,
+        deliveryTime: deliveryTime ? Number(deliveryTime) : null,
+        paymentTerms: paymentTerms || null,
+        validUntil: validUntil ? new Date(`${validUntil}T23:59:59`).toISOString() : null,
+        observations: observations || null,
+        items: portal.items
+          .filter((item: any) => responses[item.id]?.unitPrice)
+          .map((item: any) => ({
+            quotationRequestItemId: item.id,
+            unitPrice: Number(responses[item.id].unitPrice.replace(',', '.')),
+            brand: responses[item.id].brand || null,
+            model: responses[item.id].model || null,
+            specifications: responses[item.id].specifications || null,
+          })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/portal', token] });
+      toast({
+        title: "Cotação enviada",
+        description: "Obrigado! Sua cotação foi recebida.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateResponse = (itemId: string, field: keyof ItemResponse, value: string) => {
+    setResponses(prev => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] ?? emptyResponse), [field]: value },
+    }));
+  };
+
+  const getLineTotal = (item: any) => {
+    const unitPrice = Number((responses[item.id]?.unitPrice || "0").replace(',', '.'));
+    return isNaN(unitPrice) ? 0 : unitPrice * Number(item.quantity);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 bg-primary rounded-full animate-pulse mx-auto mb-4"></div>
+          <p className="text-gray-600">Carregando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="max-w-md w-full">
+          <CardContent className="flex flex-col items-center py-12">
+            <span className="material-icons text-4xl text-gray-300 mb-4">link_off</span>
+            <p className="text-gray-700 text-center">{error ? getErrorMessage(error as Error) : "Link de cotação inválido."}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const total = portal.items.reduce((sum: number, item: any) => sum + getLineTotal(item), 0);
+  const hasPrices = portal.items.some((item: any) => responses[item.id]?.unitPrice);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+            <span className="material-icons text-white">shopping_cart</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">TrustCota Sys - Portal do Fornecedor</h1>
+            <p className="text-sm text-gray-500">{portal.supplier.name}</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{portal.request.requestNumber} - {portal.request.title}</CardTitle>
+              {portal.submittedAt && (
+                <Badge className="bg-green-100 text-green-800">
+                  Enviada em {new Date(portal.submittedAt).toLocaleString('pt-BR')}
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {portal.request.description && <p className="text-gray-700">{portal.request.description}</p>}
+            <p>
+              <span className="font-medium">Entrega desejada:</span>{" "}
+              {portal.request.expectedDeliveryDate ? new Date(portal.request.expectedDeliveryDate).toLocaleDateString('pt-BR') : 'A definir'}
+            </p>
+            <p className="text-gray-500">
+              Este link é válido até {new Date(portal.expiresAt).toLocaleString('pt-BR')}. Você pode revisar sua cotação até lá.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Itens</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {portal.items.length === 0 ? (
+              <p className="text-sm text-gray-500">Esta solicitação não possui itens.</p>
+            ) : (
+              portal.items.map((item: any) => (
+                <div key={item.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium">{item.productName}</p>
+                      <p className="text-sm text-gray-500">
+                        {Number(item.quantity).toLocaleString('pt-BR')} {item.unit}
+                        {item.specifications && ` • ${item.specifications}`}
+                      </p>
+                    </div>
+                    <p className="text-sm font-semibold">
+                      R$ {getLineTotal(item).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                      <Label>Preço unitário (R$)</Label>
+                      <Input
+                        inputMode="decimal"
+                        value={responses[item.id]?.unitPrice || ""}
+                        onChange={(e) => updateResponse(item.id, 'unitPrice', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Marca</Label>
+                      <Input
+                        value={responses[item.id]?.brand || ""}
+                        onChange={(e) => updateResponse(item.id, 'brand', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Modelo</Label>
+                      <Input
+                        value={responses[item.id]?.model || ""}
+                        onChange={(e) => updateResponse(item.id, 'model', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Especificações</Label>
+                      <Input
+                        value={responses[item.id]?.specifications || ""}
+                        onChange={(e) => updateResponse(item.id, 'specifications', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Condições Comerciais</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="quotation-number">Número da cotação</Label>
+                <Input id="quotation-number" value={quotationNumber} onChange={(e) => setQuotationNumber(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="delivery-time">Prazo de entrega (dias)</Label>
+                <Input id="delivery-time" type="number" min="0" value={deliveryTime} onChange={(e) => setDeliveryTime(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payment-terms">Condições de pagamento</Label>
+                <Input id="payment-terms" placeholder="Ex: 30/60 dias" value={paymentTerms} onChange={(e) => setPaymentTerms(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="valid-until">Validade da proposta</Label>
+                <Input id="valid-until" type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="observations">Observações</Label>
+              <Textarea id="observations" value={observations} onChange={(e) => setObservations(e.target.value)} />
+            </div>
+            <div className="flex items-center justify-between pt-2">
+              <p className="text-lg font-semibold">
+                Total: R$ {total.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+              </p>
+              <Button
+                onClick={() => submitMutation.mutate()}
+                disabled={!hasPrices || submitMutation.isPending}
+                className="bg-primary hover:bg-blue-700 text-white"
+              >
+                {submitMutation.isPending ? "Enviando..." : portal.submittedAt ? "Atualizar Cotação" : "Enviar Cotação"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
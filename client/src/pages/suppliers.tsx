@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -12,24 +13,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertSupplierSchema } from "@shared/schema";
+import { isValidTaxId, isValidCnpj, formatTaxId, onlyDigits } from "@shared/documents";
+import { documentStateLabels, documentStateColors } from "@/components/suppliers";
 import { z } from "zod";
 
-const supplierFormSchema = insertSupplierSchema.extend({
-  cnpj: z.string().min(14, "CNPJ deve ter pelo menos 14 caracteres"),
+// New suppliers start as pendente and are activated by onboarding approval
+const supplierFormSchema = insertSupplierSchema.omit({ status: true, complianceBlockedAt: true }).extend({
+  cnpj: z.string().refine(isValidTaxId, "CNPJ ou CPF inválido"),
   email: z.string().email("Email inválido").optional().or(z.literal("")),
 });
 
 export default function Suppliers() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [registryRecord, setRegistryRecord] = useState<any>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -51,11 +55,12 @@ export default function Suppliers() {
     defaultValues: {
       name: "",
       cnpj: "",
+      tradeName: "",
+      cnae: "",
       email: "",
       phone: "",
       address: "",
       contactPerson: "",
-      status: "ativo",
       notes: "",
     },
   });
@@ -65,19 +70,66 @@ export default function Suppliers() {
     enabled: isAuthenticated,
   });
 
+  const role = user?.role;
+  const { data: expiringDocuments = [] } = useQuery<any[]>({
+    queryKey: ["/api/supplier-documents/expiring"],
+    enabled: isAuthenticated && (role === 'admin' || role === 'cotador'),
+  });
+
   const createSupplierMutation = useMutation({
     mutationFn: async (supplierData: z.infer<typeof supplierFormSchema>) => {
-      await apiRequest("POST", "/api/suppliers", supplierData);
+      const response = await apiRequest("POST", "/api/suppliers", supplierData);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (supplier: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
       setIsDialogOpen(false);
+      setRegistryRecord(null);
       form.reset();
       toast({
         title: "Sucesso",
-        description: "Fornecedor criado com sucesso!",
+        description: supplier.onboardingEmailed
+          ? "Fornecedor criado! O convite para completar o cadastro foi enviado por email."
+          : supplier.status === "pendente" && supplier.registrationStatus
+            ? `Fornecedor criado como pendente: situação cadastral ${supplier.registrationStatus}`
+            : "Fornecedor criado com sucesso!",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409") ? "Já existe um fornecedor com este CNPJ/CPF" : "Falha ao criar fornecedor",
+        variant: "destructive",
       });
     },
+  });
+
+  // Pre-fills the form with the Receita Federal record of the typed CNPJ
+  const registryLookupMutation = useMutation({
+    mutationFn: async (cnpj: string) => {
+      const response = await apiRequest("GET", `/api/company-registry/${onlyDigits(cnpj)}`);
+      return response.json();
+    },
+    onSuccess: (record: any) => {
+      setRegistryRecord(record);
+      form.setValue("name", record.tradeName || record.legalName);
+      form.setValue("tradeName", record.tradeName || "");
+      form.setValue("cnae", record.cnae);
+      form.setValue("address", record.address);
+      if (record.email && !form.getValues("email")) form.setValue("email", record.email);
+      if (record.phone && !form.getValues("phone")) form.setValue("phone", record.phone);
+    },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
         toast({
@@ -90,9 +142,42 @@ export default function Suppliers() {
         }, 500);
         return;
       }
+      setRegistryRecord(null);
       toast({
         title: "Erro",
-        description: "Falha ao criar fornecedor",
+        description: error.message.startsWith("404") ? "CNPJ não encontrado na Receita Federal" : "Falha ao consultar o CNPJ",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registryCheckMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/suppliers/${id}/registry-check`);
+      return response.json();
+    },
+    onSuccess: (supplier: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({
+        title: "Situação cadastral atualizada",
+        description: `${supplier.name}: ${supplier.registrationStatus}`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Erro",
+        description: "Falha ao consultar a Receita Federal",
         variant: "destructive",
       });
     },
@@ -100,7 +185,7 @@ export default function Suppliers() {
 
   const filteredSuppliers = (suppliers as any[] || []).filter((supplier: any) =>
     supplier.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    supplier.cnpj?.includes(searchQuery) ||
+    (onlyDigits(searchQuery) !== "" && supplier.cnpj?.includes(onlyDigits(searchQuery))) ||
     supplier.email?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
@@ -152,7 +237,13 @@ export default function Suppliers() {
               />
             </div>
             
-            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <Dialog
+              open={isDialogOpen}
+              onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (!open) setRegistryRecord(null);
+              }}
+            >
               <DialogTrigger asChild>
                 <Button className="bg-primary hover:bg-blue-700 text-white">
                   <span className="material-icons mr-2 text-sm">add</span>
@@ -185,16 +276,45 @@ export default function Suppliers() {
                         name="cnpj"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>CNPJ</FormLabel>
-                            <FormControl>
-                              <Input {...field} placeholder="00.000.000/0000-00" />
-                            </FormControl>
+                            <FormLabel>CNPJ / CPF</FormLabel>
+                            <div className="flex space-x-2">
+                              <FormControl>
+                                <Input
+                                  {...field}
+                                  onBlur={(e) => {
+                                    field.onChange(formatTaxId(e.target.value));
+                                    field.onBlur();
+                                  }}
+                                  placeholder="00.000.000/0000-00"
+                                />
+                              </FormControl>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => registryLookupMutation.mutate(field.value)}
+                                disabled={!isValidCnpj(field.value) || registryLookupMutation.isPending}
+                                title="Preencher pelo CNPJ"
+                              >
+                                <span className="material-icons text-sm">travel_explore</span>
+                              </Button>
+                            </div>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
                     </div>
 
+                    {registryRecord && (
+                      <div className={`p-3 rounded-lg text-sm ${registryRecord.active ? 'bg-gray-50' : 'bg-orange-50 text-orange-800'}`}>
+                        <p className="font-medium">{registryRecord.legalName}</p>
+                        <p>CNAE {registryRecord.cnae} - {registryRecord.cnaeDescription}</p>
+                        <p>
+                          Situação cadastral: {registryRecord.registrationStatus}
+                          {!registryRecord.active && " - o fornecedor será cadastrado como pendente"}
+                        </p>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
@@ -253,32 +373,6 @@ export default function Suppliers() {
                       )}
                     />
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="status"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Status</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value || "ativo"}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="ativo">Ativo</SelectItem>
-                                <SelectItem value="inativo">Inativo</SelectItem>
-                                <SelectItem value="pendente">Pendente</SelectItem>
-                                <SelectItem value="bloqueado">Bloqueado</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-
                     <FormField
                       control={form.control}
                       name="notes"
@@ -315,6 +409,31 @@ export default function Suppliers() {
             </Dialog>
           </div>
 
+          {/* Expiring Documents */}
+          {expiringDocuments.length > 0 && (
+            <Card className="mb-6 border-orange-200 bg-orange-50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center space-x-2">
+                  <span className="material-icons text-orange-500">event_busy</span>
+                  <span>Documentos vencidos ou a vencer ({expiringDocuments.length})</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {expiringDocuments.map((item: any) => (
+                  <div key={item.document.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      <Link href={`/suppliers/${item.supplier.id}`} className="font-medium hover:underline">
+                        {item.supplier.name}
+                      </Link>
+                      {' • '}{item.documentType.name} • vence em {new Date(item.document.expiryDate).toLocaleDateString('pt-BR')}
+                    </span>
+                    <Badge className={documentStateColors[item.state]}>{documentStateLabels[item.state]}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Suppliers Grid */}
           {isLoadingSuppliers ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -359,7 +478,11 @@ export default function Suppliers() {
                   <CardHeader>
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
-                        <CardTitle className="text-lg">{supplier.name}</CardTitle>
+                        <CardTitle className="text-lg">
+                          <Link href={`/suppliers/${supplier.id}`} className="hover:text-primary">
+                            {supplier.name}
+                          </Link>
+                        </CardTitle>
                         {supplier.contactPerson && (
                           <p className="text-sm text-gray-500">{supplier.contactPerson}</p>
                         )}
@@ -372,7 +495,24 @@ export default function Suppliers() {
                       {supplier.cnpj && (
                         <div className="flex items-center space-x-2">
                           <span className="material-icons text-gray-400 text-sm">business</span>
-                          <span>{supplier.cnpj}</span>
+                          <span>{formatTaxId(supplier.cnpj)}</span>
+                          {isValidCnpj(supplier.cnpj) && (
+                            <button
+                              type="button"
+                              onClick={() => registryCheckMutation.mutate(supplier.id)}
+                              disabled={registryCheckMutation.isPending}
+                              className="text-gray-400 hover:text-primary"
+                              title="Atualizar situação cadastral"
+                            >
+                              <span className="material-icons text-sm">sync</span>
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {supplier.registrationStatus && supplier.registrationStatus !== 'ATIVA' && (
+                        <div className="flex items-center space-x-2 text-orange-700">
+                          <span className="material-icons text-sm">report_problem</span>
+                          <span>Receita Federal: {supplier.registrationStatus}</span>
                         </div>
                       )}
                       {supplier.email && (
@@ -393,6 +533,12 @@ export default function Suppliers() {
                           <span>Score: {supplier.score}/5.00</span>
                         </div>
                       )}
+                      {supplier.averageDeliveryTime !== null && supplier.averageDeliveryTime !== undefined && (
+                        <div className="flex items-center space-x-2">
+                          <span className="material-icons text-gray-400 text-sm">local_shipping</span>
+                          <span>Entrega média: {supplier.averageDeliveryTime} dias</span>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -1,10 +1,14 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
+export type Database = NeonDatabase<typeof schema>;
+// Handle passed to db.transaction callbacks; queries through it run inside the transaction
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 // For development mode, we can use in-memory storage if DATABASE_URL is not set
 let pool: Pool | null = null;
 let db: any = null;
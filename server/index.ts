@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { quotationDeadlineService } from "./services/quotation-deadline";
+import { supplierComplianceService } from "./services/supplier-compliance";
 
 const app = express();
 app.use(express.json());
@@ -69,5 +71,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Close bidding rounds and remind suppliers as response deadlines approach
+    quotationDeadlineService.start();
+
+    // Warn suppliers of expiring documents and block those whose mandatory documents lapsed
+    supplierComplianceService.start();
   });
 })();
@@ -91,6 +91,37 @@ export function requireOwnershipOrRole(roles: string[]) {
   };
 }
 
+// Requester of the quotation request in :id, or one of the roles
+export function requireRequestOwnershipOrRole(roles: string[]) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+
+      // If user owns the request, allow access
+      if (request.requesterId === userId) {
+        return next();
+      }
+
+      // Otherwise, check role
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !roles.includes(user.role)) {
+        return res.status(403).json({
+          message: "Access denied. You can only change your own quotation requests or need appropriate role."
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error checking quotation request ownership or role:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
 // Admin-only access
 export const requireAdmin = requireRole(["admin"]);
 
@@ -1,16 +1,104 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { db } from "./db";
-import { purchaseOrders } from "@shared/schema";
+import { purchaseOrders, supplierStatusEnum } from "@shared/schema";
 import { like, desc } from "drizzle-orm";
-import { insertSupplierSchema, insertProductSchema, insertCategorySchema, insertQuotationRequestSchema, insertSupplierQuotationSchema } from "@shared/schema";
+import { insertSupplierSchema, insertProductSchema, insertCategorySchema, insertQuotationRequestSchema, insertSupplierQuotationSchema, insertApprovalPolicySchema, insertApprovalDelegationSchema, insertCostCenterSchema, insertCostCenterBudgetSchema, insertInvoiceMatchToleranceSchema, insertSupplierIncidentSchema, insertSupplierDocumentTypeSchema } from "@shared/schema";
+import { InvalidStatusTransitionError, canTransitionQuotation, getAllowedQuotationTransitions, isAcceptingQuotations, isFinalQuotationStatus, isResponseDeadlinePassed } from "@shared/workflow";
 import { openaiService } from "./services/openai";
 import { emailService } from "./services/email";
-import { requireAdmin, requireApprover, requireQuotationProcessor, requireRequester, requireOwnershipOrRole } from "./middleware/rbac";
+import { approvalService, ApprovalError } from "./services/approval";
+import { budgetService } from "./services/budget";
+import { supplierPortalService, SupplierPortalError } from "./services/supplier-portal";
+import { quotationComparisonService, QuotationComparisonError } from "./services/quotation-comparison";
+import { awardService, AwardError } from "./services/award";
+import { purchaseOrderService, PurchaseOrderError, type PurchaseOrderAction } from "./services/purchase-order";
+import { goodsReceiptService } from "./services/goods-receipt";
+import { invoiceMatchService, InvoiceMatchError } from "./services/invoice-match";
+import { nfeImportService, NfeImportError } from "./services/nfe-import";
+import { companyRegistryService, CompanyRegistryError, isActiveRegistration } from "./services/company-registry";
+import { supplierScoringService, SupplierScoringError } from "./services/supplier-scoring";
+import { supplierComplianceService, SupplierComplianceError } from "./services/supplier-compliance";
+import { supplierOnboardingService, SupplierOnboardingError, ONBOARDING_SECTIONS } from "./services/supplier-onboarding";
+import { supplierInvitationService, SupplierInvitationError } from "./services/supplier-invitation";
+import { priceHistoryService, PriceHistoryError } from "./services/price-history";
+import { priceAnomalyService } from "./services/price-anomaly";
+import { spreadsheetImportService, SpreadsheetImportError, importTypeSchema, columnMappingSchema } from "./services/spreadsheet-import";
+import { quotationImportService } from "./services/quotation-import";
+import { requireAdmin, requireApprover, requireQuotationProcessor, requireRequester, requireOwnershipOrRole, requireRequestOwnershipOrRole } from "./middleware/rbac";
 import multer from "multer";
 import * as XLSX from "xlsx";
+import { isValidCnpj } from "@shared/documents";
+import { z } from "zod";
+
+// JSON bodies carry dates as ISO strings
+const quotationRequestBodySchema = insertQuotationRequestSchema.extend({
+  expectedDeliveryDate: z.coerce.date().nullable().optional(),
+  responseDeadline: z.coerce.date().nullable().optional(),
+});
+
+// Supplier create/update bodies; the status only changes through onboarding or the status action
+const supplierPayloadSchema = insertSupplierSchema.omit({ status: true, complianceBlockedAt: true });
+
+// Query string filters of the product price history endpoints
+const priceHistoryQuerySchema = z.object({
+  supplierId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Saved column mappings; the mapping itself follows the shape the upload routes accept
+const importProfileBodySchema = columnMappingSchema.extend({
+  name: z.string().trim().min(1),
+  importType: importTypeSchema,
+  supplierId: z.string().nullable().optional(),
+  department: z.string().trim().nullable().optional(),
+});
+
+// Responds with 409 and the allowed next states when a workflow transition is rejected
+function sendTransitionConflict(res: Response, error: InvalidStatusTransitionError) {
+  return res.status(409).json({
+    message: error.message,
+    currentStatus: error.from,
+    requestedStatus: error.to,
+    allowedStatuses: error.allowed,
+  });
+}
+
+// Runs a purchase order lifecycle action and records it in the audit log
+async function applyPurchaseOrderAction(req: any, res: Response, action: PurchaseOrderAction) {
+  try {
+    const reason: string | undefined = req.body?.reason;
+    const order = await purchaseOrderService.apply(req.params.id, action, req.user.claims.sub, reason);
+
+    // Create audit log
+    await storage.createAuditLog({
+      userId: req.user.claims.sub,
+      action,
+      entityType: 'purchase_order',
+      entityId: req.params.id,
+      changes: { status: order.status, ...(reason ? { reason } : {}) },
+    });
+
+    // Cancelled orders no longer count towards on-time delivery
+    if (action === 'cancel') {
+      await supplierScoringService.recalculate(order.supplierId);
+    }
+
+    res.json(order);
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return sendTransitionConflict(res, error);
+    }
+    if (error instanceof PurchaseOrderError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error(`Error applying "${action}" to purchase order:`, error);
+    res.status(500).json({ message: "Failed to update purchase order status" });
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure multer for file uploads
@@ -58,8 +146,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/dashboard/pending-approvals', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const approvals = await storage.getPendingApprovals(userId, 5);
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.json([]);
+      }
+      const approvals = await approvalService.getPendingApprovalsForUser(user, 5);
       res.json(approvals);
     } catch (error) {
       console.error("Error fetching pending approvals:", error);
@@ -67,6 +158,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/dashboard/budget-utilization', isAuthenticated, async (req, res) => {
+    try {
+      const utilization = await budgetService.getUtilization();
+      res.json(utilization);
+    } catch (error) {
+      console.error("Error fetching budget utilization:", error);
+      res.status(500).json({ message: "Failed to fetch budget utilization" });
+    }
+  });
+
   app.get('/api/dashboard/ai-insights', isAuthenticated, async (req, res) => {
     try {
       const insights = await openaiService.generateDashboardInsights();
@@ -103,8 +204,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/suppliers', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const validatedData = insertSupplierSchema.parse(req.body);
-      const supplier = await storage.createSupplier(validatedData);
+      // New suppliers start as pendente; onboarding approval or the status action activates them
+      const validatedData = supplierPayloadSchema.parse(req.body);
+      if (validatedData.cnpj) {
+        const existing = await storage.getSupplierByCnpj(validatedData.cnpj);
+        if (existing) {
+          return res.status(409).json({ message: `CNPJ/CPF already registered for supplier ${existing.name}` });
+        }
+      }
+      let supplier = await storage.createSupplier(validatedData);
+
+      // Record the Receita Federal status; an unavailable registry must not block the registration
+      if (supplier.cnpj && isValidCnpj(supplier.cnpj)) {
+        try {
+          ({ supplier } = await companyRegistryService.refreshSupplier(supplier.id));
+        } catch (error) {
+          console.error("Error checking supplier registry:", error);
+        }
+      }
+
+      // Pending suppliers complete their own registration; not for companies the registry reports as inactive
+      let onboardingEmailed: boolean | undefined;
+      if (supplier.status === 'pendente' && (!supplier.registrationStatus || isActiveRegistration({ registrationStatus: supplier.registrationStatus }))) {
+        const { onboarding, emailed } = await supplierOnboardingService.invite(supplier.id, req.user.claims.sub);
+        onboardingEmailed = emailed;
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'onboarding_invite',
+          entityType: 'supplier_onboarding',
+          entityId: onboarding.id,
+          changes: { supplierId: supplier.id, tokenExpiresAt: onboarding.tokenExpiresAt, emailed },
+        });
+      }
       
       // Create audit log
       await storage.createAuditLog({
@@ -112,10 +243,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: 'create',
         entityType: 'supplier',
         entityId: supplier.id,
-        changes: validatedData,
+        changes: { ...validatedData, status: supplier.status, registrationStatus: supplier.registrationStatus },
       });
 
-      res.status(201).json(supplier);
+      res.status(201).json({ ...supplier, onboardingEmailed });
     } catch (error) {
       console.error("Error creating supplier:", error);
       res.status(400).json({ message: "Failed to create supplier" });
@@ -124,7 +255,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/suppliers/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const validatedData = insertSupplierSchema.partial().parse(req.body);
+      const validatedData = supplierPayloadSchema.partial().parse(req.body);
+      if (validatedData.cnpj) {
+        const existing = await storage.getSupplierByCnpj(validatedData.cnpj);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: `CNPJ/CPF already registered for supplier ${existing.name}` });
+        }
+      }
       const supplier = await storage.updateSupplier(req.params.id, validatedData);
       
       // Create audit log
@@ -143,440 +280,2231 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/suppliers/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+  // Explicit status change by an admin, e.g. to deactivate a supplier or lift a block
+  app.post('/api/suppliers/:id/status', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      await storage.deleteSupplier(req.params.id);
-      
+      const { status } = z.object({ status: z.enum(supplierStatusEnum.enumValues) }).parse(req.body);
+      const current = await storage.getSupplier(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      // A manual status change takes over from an automatic compliance block
+      const supplier = status !== current.status
+        ? await storage.updateSupplier(current.id, { status, complianceBlockedAt: null })
+        : current;
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'delete',
+        action: 'status_change',
         entityType: 'supplier',
-        entityId: req.params.id,
-        changes: {},
+        entityId: current.id,
+        changes: { status: { from: current.status, to: supplier.status } },
       });
 
-      res.status(204).send();
+      res.json(supplier);
     } catch (error) {
-      console.error("Error deleting supplier:", error);
-      res.status(500).json({ message: "Failed to delete supplier" });
+      console.error("Error changing supplier status:", error);
+      res.status(400).json({ message: "Failed to change supplier status" });
     }
   });
 
-  app.get('/api/suppliers/search/:query', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+  app.post('/api/suppliers/:id/registry-check', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const suppliers = await storage.searchSuppliers(req.params.query);
-      res.json(suppliers);
+      const { supplier, record } = await companyRegistryService.refreshSupplier(req.params.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'registry_check',
+        entityType: 'supplier',
+        entityId: supplier.id,
+        changes: { registrationStatus: record.registrationStatus, cnae: record.cnae, status: supplier.status },
+      });
+
+      res.json(supplier);
     } catch (error) {
-      console.error("Error searching suppliers:", error);
-      res.status(500).json({ message: "Failed to search suppliers" });
+      if (error instanceof CompanyRegistryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error checking supplier registry:", error);
+      res.status(500).json({ message: "Failed to check supplier registry" });
     }
   });
 
-  // Product routes (Admin can manage, others can view)
-  app.get('/api/products', isAuthenticated, async (req, res) => {
+  // Supplier score: recalculated on quotation, delivery and incident events; this forces a refresh
+  app.post('/api/suppliers/:id/score', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const products = await storage.getProducts();
-      res.json(products);
+      const supplier = await supplierScoringService.recalculate(req.params.id);
+      res.json(supplier);
     } catch (error) {
-      console.error("Error fetching products:", error);
-      res.status(500).json({ message: "Failed to fetch products" });
+      if (error instanceof SupplierScoringError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error calculating supplier score:", error);
+      res.status(500).json({ message: "Failed to calculate supplier score" });
     }
   });
 
-  app.get('/api/products/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/suppliers/:id/incidents', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
-      }
-      res.json(product);
+      const incidents = await storage.getSupplierIncidents(req.params.id);
+      res.json(incidents);
     } catch (error) {
-      console.error("Error fetching product:", error);
-      res.status(500).json({ message: "Failed to fetch product" });
+      console.error("Error fetching supplier incidents:", error);
+      res.status(500).json({ message: "Failed to fetch supplier incidents" });
     }
   });
 
-  app.post('/api/products', isAuthenticated, requireAdmin, async (req: any, res) => {
+  app.post('/api/suppliers/:id/incidents', isAuthenticated, requireRequester, async (req: any, res) => {
     try {
-      const validatedData = insertProductSchema.parse(req.body);
-      const product = await storage.createProduct(validatedData);
-      
+      const validatedData = insertSupplierIncidentSchema.extend({
+        occurredAt: z.coerce.date(),
+      }).parse({
+        ...req.body,
+        supplierId: req.params.id,
+        createdById: req.user.claims.sub,
+      });
+      const incident = await supplierScoringService.recordIncident(validatedData);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
         action: 'create',
-        entityType: 'product',
-        entityId: product.id,
+        entityType: 'supplier_incident',
+        entityId: incident.id,
         changes: validatedData,
       });
 
-      res.status(201).json(product);
+      res.status(201).json(incident);
     } catch (error) {
-      console.error("Error creating product:", error);
-      res.status(400).json({ message: "Failed to create product" });
+      if (error instanceof SupplierScoringError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error recording supplier incident:", error);
+      res.status(400).json({ message: "Failed to record supplier incident" });
     }
   });
 
-  app.put('/api/products/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+  app.get('/api/supplier-score-weights', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const validatedData = insertProductSchema.partial().parse(req.body);
-      const product = await storage.updateProduct(req.params.id, validatedData);
-      
+      const weights = await supplierScoringService.getWeights();
+      res.json(weights);
+    } catch (error) {
+      console.error("Error fetching score weights:", error);
+      res.status(500).json({ message: "Failed to fetch score weights" });
+    }
+  });
+
+  app.put('/api/supplier-score-weights', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const weights = z.object({
+        responseRate: z.coerce.number(),
+        priceCompetitiveness: z.coerce.number(),
+        onTimeDelivery: z.coerce.number(),
+        quality: z.coerce.number(),
+      }).parse(req.body);
+      const saved = await supplierScoringService.saveWeights(weights, req.user.claims.sub);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
         action: 'update',
-        entityType: 'product',
-        entityId: req.params.id,
-        changes: validatedData,
+        entityType: 'supplier_score_weights',
+        entityId: saved.id,
+        changes: weights,
       });
 
-      res.json(product);
+      res.json(weights);
     } catch (error) {
-      console.error("Error updating product:", error);
-      res.status(400).json({ message: "Failed to update product" });
+      if (error instanceof SupplierScoringError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error saving score weights:", error);
+      res.status(400).json({ message: "Failed to save score weights" });
     }
   });
 
-  app.delete('/api/products/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+  // Supplier documents (tax clearance certificates, FGTS regularity, insurance...) and their expiry
+  app.get('/api/supplier-document-types', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      await storage.deleteProduct(req.params.id);
-      
+      const documentTypes = await storage.getSupplierDocumentTypes();
+      res.json(documentTypes);
+    } catch (error) {
+      console.error("Error fetching document types:", error);
+      res.status(500).json({ message: "Failed to fetch document types" });
+    }
+  });
+
+  app.post('/api/supplier-document-types', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertSupplierDocumentTypeSchema.extend({
+        alertDaysBefore: z.coerce.number().int().min(0).optional(),
+      }).parse(req.body);
+      const documentType = await storage.createSupplierDocumentType(validatedData);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'delete',
-        entityType: 'product',
-        entityId: req.params.id,
-        changes: {},
+        action: 'create',
+        entityType: 'supplier_document_type',
+        entityId: documentType.id,
+        changes: validatedData,
       });
 
-      res.status(204).send();
+      res.status(201).json(documentType);
     } catch (error) {
-      console.error("Error deleting product:", error);
-      res.status(500).json({ message: "Failed to delete product" });
+      console.error("Error creating document type:", error);
+      res.status(400).json({ message: "Failed to create document type" });
     }
   });
 
-  app.get('/api/products/search/:query', isAuthenticated, async (req, res) => {
+  app.put('/api/supplier-document-types/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const products = await storage.searchProducts(req.params.query);
-      res.json(products);
+      const validatedData = insertSupplierDocumentTypeSchema.extend({
+        alertDaysBefore: z.coerce.number().int().min(0).optional(),
+      }).partial().parse(req.body);
+      const existing = await storage.getSupplierDocumentType(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Document type not found" });
+      }
+      const documentType = await storage.updateSupplierDocumentType(req.params.id, validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'supplier_document_type',
+        entityId: documentType.id,
+        changes: validatedData,
+      });
+
+      // Making a type mandatory, or retiring it, changes which suppliers are compliant
+      await supplierComplianceService.evaluateAll();
+
+      res.json(documentType);
     } catch (error) {
-      console.error("Error searching products:", error);
-      res.status(500).json({ message: "Failed to search products" });
+      console.error("Error updating document type:", error);
+      res.status(400).json({ message: "Failed to update document type" });
     }
   });
 
-  // Category routes
-  app.get('/api/categories', isAuthenticated, async (req, res) => {
+  app.get('/api/suppliers/:id/documents', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const categories = await storage.getCategories();
-      res.json(categories);
+      const [requirements, documents] = await Promise.all([
+        supplierComplianceService.getRequirements(req.params.id),
+        storage.getSupplierDocuments(req.params.id),
+      ]);
+      res.json({ requirements, documents });
     } catch (error) {
-      console.error("Error fetching categories:", error);
-      res.status(500).json({ message: "Failed to fetch categories" });
+      console.error("Error fetching supplier documents:", error);
+      res.status(500).json({ message: "Failed to fetch supplier documents" });
     }
   });
 
-  app.post('/api/categories', isAuthenticated, requireAdmin, async (req: any, res) => {
+  app.post('/api/suppliers/:id/documents', isAuthenticated, requireQuotationProcessor, upload.single('file'), async (req: any, res) => {
     try {
-      const validatedData = insertCategorySchema.parse(req.body);
-      const category = await storage.createCategory(validatedData);
-      
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const validatedData = z.object({
+        documentTypeId: z.string().min(1),
+        issueDate: z.coerce.date(),
+        expiryDate: z.coerce.date().nullish().or(z.literal("").transform(() => null)),
+      }).parse(req.body);
+
+      const document = await supplierComplianceService.uploadDocument(
+        req.params.id,
+        { ...validatedData, file: req.file },
+        req.user.claims.sub,
+      );
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'create',
-        entityType: 'category',
-        entityId: category.id,
-        changes: validatedData,
+        action: 'upload',
+        entityType: 'supplier_document',
+        entityId: document.id,
+        changes: { supplierId: req.params.id, fileName: document.fileName, ...validatedData },
       });
 
-      res.status(201).json(category);
+      res.status(201).json(supplierComplianceService.toSummary(document));
     } catch (error) {
-      console.error("Error creating category:", error);
-      res.status(400).json({ message: "Failed to create category" });
+      if (error instanceof SupplierComplianceError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error uploading supplier document:", error);
+      res.status(400).json({ message: "Failed to upload supplier document" });
     }
   });
 
-  // Quotation Request routes (Requesters can create, others can view based on role)
-  app.get('/api/quotation-requests', isAuthenticated, async (req, res) => {
+  app.get('/api/supplier-documents/expiring', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const requests = await storage.getQuotationRequests();
-      res.json(requests);
+      const expiring = await supplierComplianceService.getExpiringDocuments();
+      res.json(expiring);
     } catch (error) {
-      console.error("Error fetching quotation requests:", error);
-      res.status(500).json({ message: "Failed to fetch quotation requests" });
+      console.error("Error fetching expiring documents:", error);
+      res.status(500).json({ message: "Failed to fetch expiring documents" });
     }
   });
 
-  app.get('/api/quotation-requests/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/supplier-documents/:id/download', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const request = await storage.getQuotationRequest(req.params.id);
-      if (!request) {
-        return res.status(404).json({ message: "Quotation request not found" });
+      const document = await storage.getSupplierDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
       }
-      res.json(request);
+      res.setHeader('Content-Type', document.mimeType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(document.fileName)}"`);
+      res.send(Buffer.from(document.fileContent, 'base64'));
     } catch (error) {
-      console.error("Error fetching quotation request:", error);
-      res.status(500).json({ message: "Failed to fetch quotation request" });
+      console.error("Error downloading supplier document:", error);
+      res.status(500).json({ message: "Failed to download supplier document" });
     }
   });
 
-  app.post('/api/quotation-requests', isAuthenticated, requireRequester, async (req: any, res) => {
+  app.get('/api/suppliers/:id/categories', isAuthenticated, requireQuotationProcessor, async (req, res) => {
     try {
-      const validatedData = insertQuotationRequestSchema.parse({
-        ...req.body,
-        requesterId: req.user.claims.sub,
-      });
-      const request = await storage.createQuotationRequest(validatedData);
-      
+      const links = await storage.getSupplierCategories(req.params.id);
+      const categories = await storage.getCategories();
+      res.json(categories.filter(category => links.some(link => link.categoryId === category.id)));
+    } catch (error) {
+      console.error("Error fetching supplier categories:", error);
+      res.status(500).json({ message: "Failed to fetch supplier categories" });
+    }
+  });
+
+  app.put('/api/suppliers/:id/categories', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { categoryIds } = z.object({ categoryIds: z.array(z.string()) }).parse(req.body);
+
+      const supplier = await storage.getSupplier(req.params.id);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      const uniqueCategoryIds = Array.from(new Set(categoryIds));
+      for (const categoryId of uniqueCategoryIds) {
+        if (!(await storage.getCategory(categoryId))) {
+          return res.status(404).json({ message: `Category ${categoryId} not found` });
+        }
+      }
+
+      const previous = (await storage.getSupplierCategories(supplier.id)).map(link => link.categoryId);
+      await storage.setSupplierCategories(supplier.id, uniqueCategoryIds);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'create',
-        entityType: 'quotation_request',
-        entityId: request.id,
-        changes: validatedData,
+        action: 'update',
+        entityType: 'supplier',
+        entityId: supplier.id,
+        changes: { categoryIds: { from: previous, to: uniqueCategoryIds } },
       });
 
-      // Generate AI analysis for the request
-      try {
-        const analysis = await openaiService.analyzeQuotationRequest(request);
-        await storage.createAiAnalysis({
-          type: 'quotation_analysis',
-          entityType: 'quotation_request',
-          entityId: request.id,
-          analysis,
-          confidence: "0.85",
-        });
-      } catch (aiError) {
-        console.error("Error generating AI analysis:", aiError);
-      }
+      const categories = await storage.getCategories();
+      res.json(categories.filter(category => uniqueCategoryIds.includes(category.id)));
+    } catch (error) {
+      console.error("Error updating supplier categories:", error);
+      res.status(400).json({ message: "Failed to update supplier categories" });
+    }
+  });
 
-      res.status(201).json(request);
+  // Supplier onboarding (pendente -> ativo): the supplier fills the registration, an admin reviews each section
+  app.get('/api/suppliers/:id/onboarding', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const onboarding = await storage.getSupplierOnboardingBySupplier(req.params.id);
+      res.json(onboarding ? {
+        ...supplierOnboardingService.toSummary(onboarding),
+        sectionReviews: supplierOnboardingService.getReviews(onboarding),
+      } : null);
     } catch (error) {
-      console.error("Error creating quotation request:", error);
-      res.status(400).json({ message: "Failed to create quotation request" });
+      console.error("Error fetching supplier onboarding:", error);
+      res.status(500).json({ message: "Failed to fetch supplier onboarding" });
     }
   });
 
-  app.put('/api/quotation-requests/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/suppliers/:id/onboarding', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const validatedData = insertQuotationRequestSchema.partial().parse(req.body);
-      const request = await storage.updateQuotationRequest(req.params.id, validatedData);
-      
+      const { onboarding, url, emailed } = await supplierOnboardingService.invite(req.params.id, req.user.claims.sub);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'update',
-        entityType: 'quotation_request',
-        entityId: req.params.id,
-        changes: validatedData,
+        action: 'onboarding_invite',
+        entityType: 'supplier_onboarding',
+        entityId: onboarding.id,
+        changes: { supplierId: onboarding.supplierId, tokenExpiresAt: onboarding.tokenExpiresAt, emailed },
       });
 
-      res.json(request);
+      // The URL carries the raw token and is only returned here, once
+      res.status(201).json({ ...supplierOnboardingService.toSummary(onboarding), url, emailed });
     } catch (error) {
-      console.error("Error updating quotation request:", error);
-      res.status(400).json({ message: "Failed to update quotation request" });
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error inviting supplier to onboarding:", error);
+      res.status(500).json({ message: "Failed to invite supplier to onboarding" });
     }
   });
 
-  app.post('/api/quotation-requests/:id/approve', isAuthenticated, requireApprover, async (req: any, res) => {
+  app.post('/api/supplier-onboardings/:id/sections/:section/review', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const { approvedAmount } = req.body;
-      const request = await storage.updateQuotationRequest(req.params.id, {
-        status: 'aprovado',
-        approverId: req.user.claims.sub,
-        approvedAmount,
-        approvedAt: new Date(),
-      });
-      
+      const section = z.enum(ONBOARDING_SECTIONS).parse(req.params.section);
+      const { status, notes } = z.object({
+        status: z.enum(['aprovado', 'rejeitado']),
+        notes: z.string().nullish(),
+      }).parse(req.body);
+      const onboarding = await supplierOnboardingService.reviewSection(req.params.id, section, status, notes ?? null, req.user.claims.sub);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'approve',
-        entityType: 'quotation_request',
-        entityId: req.params.id,
-        changes: { status: 'aprovado', approvedAmount },
+        action: 'onboarding_review',
+        entityType: 'supplier_onboarding',
+        entityId: onboarding.id,
+        changes: { section, status, notes },
       });
 
-      // Send notification email
-      try {
-        await emailService.sendApprovalNotification(request);
-      } catch (emailError) {
-        console.error("Error sending approval notification:", emailError);
-      }
-
-      res.json(request);
+      res.json({ ...supplierOnboardingService.toSummary(onboarding), sectionReviews: supplierOnboardingService.getReviews(onboarding) });
     } catch (error) {
-      console.error("Error approving quotation request:", error);
-      res.status(500).json({ message: "Failed to approve quotation request" });
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error reviewing onboarding section:", error);
+      res.status(400).json({ message: "Failed to review onboarding section" });
     }
   });
 
-  app.post('/api/quotation-requests/:id/reject', isAuthenticated, requireApprover, async (req: any, res) => {
+  app.post('/api/supplier-onboardings/:id/approve', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const { rejectionReason } = req.body;
-      const request = await storage.updateQuotationRequest(req.params.id, {
-        status: 'rejeitado',
-        approverId: req.user.claims.sub,
-        notes: rejectionReason,
-      });
-      
+      const { onboarding, supplier } = await supplierOnboardingService.approve(req.params.id, req.user.claims.sub);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'reject',
-        entityType: 'quotation_request',
-        entityId: req.params.id,
-        changes: { status: 'rejeitado', rejectionReason },
+        action: 'approve',
+        entityType: 'supplier_onboarding',
+        entityId: onboarding.id,
+        changes: {
+          supplierId: supplier.id,
+          status: { from: 'pendente', to: supplier.status },
+          sectionReviews: onboarding.sectionReviews,
+        },
+      });
+
+      res.json({ ...supplierOnboardingService.toSummary(onboarding), supplier });
+    } catch (error) {
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error approving supplier onboarding:", error);
+      res.status(500).json({ message: "Failed to approve supplier onboarding" });
+    }
+  });
+
+  app.post('/api/supplier-onboardings/:id/reject', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { onboarding, reasons, emailed } = await supplierOnboardingService.reject(req.params.id, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'reject',
+        entityType: 'supplier_onboarding',
+        entityId: onboarding.id,
+        changes: { supplierId: onboarding.supplierId, reasons, emailed },
+      });
+
+      res.json({ ...supplierOnboardingService.toSummary(onboarding), emailed });
+    } catch (error) {
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error rejecting supplier onboarding:", error);
+      res.status(500).json({ message: "Failed to reject supplier onboarding" });
+    }
+  });
+
+  // Public registration form (no login: the token in the URL is the credential)
+  app.get('/api/onboarding/:token', async (req, res) => {
+    try {
+      const { onboarding, supplier, categoryIds, categories, documents } = await supplierOnboardingService.resolve(req.params.token);
+      res.json({
+        status: onboarding.status,
+        tokenExpiresAt: onboarding.tokenExpiresAt,
+        submittedAt: onboarding.submittedAt,
+        rejectionReason: onboarding.rejectionReason,
+        supplier: {
+          name: supplier.name,
+          cnpj: supplier.cnpj,
+          bankName: supplier.bankName,
+          bankCode: supplier.bankCode,
+          bankBranch: supplier.bankBranch,
+          bankAccount: supplier.bankAccount,
+          bankAccountType: supplier.bankAccountType,
+          pixKey: supplier.pixKey,
+        },
+        categoryIds,
+        categories: categories.map(category => ({ id: category.id, name: category.name })),
+        documents: documents.map(({ documentType, document, state }) => ({
+          documentType: { id: documentType.id, name: documentType.name, description: documentType.description, isMandatory: documentType.isMandatory },
+          document: document && { fileName: document.fileName, issueDate: document.issueDate, expiryDate: document.expiryDate },
+          state,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error loading supplier onboarding:", error);
+      res.status(500).json({ message: "Failed to load registration" });
+    }
+  });
+
+  app.put('/api/onboarding/:token', async (req, res) => {
+    try {
+      const form = z.object({
+        bankName: z.string().min(1),
+        bankCode: z.string().nullish(),
+        bankBranch: z.string().min(1),
+        bankAccount: z.string().min(1),
+        bankAccountType: z.enum(['corrente', 'poupanca']).nullish(),
+        pixKey: z.string().nullish(),
+        categoryIds: z.array(z.string()),
+      }).parse(req.body);
+      const supplier = await supplierOnboardingService.saveForm(req.params.token, form);
+
+      // Create audit log (no user: filled in by the supplier)
+      await storage.createAuditLog({
+        action: 'update',
+        entityType: 'supplier',
+        entityId: supplier.id,
+        changes: { ...form, source: 'onboarding' },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.json({ saved: true });
+    } catch (error) {
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error saving supplier onboarding:", error);
+      res.status(400).json({ message: "Failed to save registration" });
+    }
+  });
+
+  app.post('/api/onboarding/:token/documents', upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const validatedData = z.object({
+        documentTypeId: z.string().min(1),
+        issueDate: z.coerce.date(),
+        expiryDate: z.coerce.date().nullish().or(z.literal("").transform(() => null)),
+      }).parse(req.body);
+      const document = await supplierOnboardingService.uploadDocument(req.params.token, { ...validatedData, file: req.file });
+
+      // Create audit log (no user: sent by the supplier)
+      await storage.createAuditLog({
+        action: 'upload',
+        entityType: 'supplier_document',
+        entityId: document.id,
+        changes: { supplierId: document.supplierId, fileName: document.fileName, ...validatedData, source: 'onboarding' },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.status(201).json({ fileName: document.fileName, issueDate: document.issueDate, expiryDate: document.expiryDate });
+    } catch (error) {
+      if (error instanceof SupplierOnboardingError || error instanceof SupplierComplianceError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error uploading onboarding document:", error);
+      res.status(400).json({ message: "Failed to upload document" });
+    }
+  });
+
+  app.post('/api/onboarding/:token/submit', async (req, res) => {
+    try {
+      const onboarding = await supplierOnboardingService.submit(req.params.token);
+
+      // Create audit log (no user: submitted by the supplier)
+      await storage.createAuditLog({
+        action: 'submit',
+        entityType: 'supplier_onboarding',
+        entityId: onboarding.id,
+        changes: { supplierId: onboarding.supplierId, submittedAt: onboarding.submittedAt },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.json({ status: onboarding.status, submittedAt: onboarding.submittedAt });
+    } catch (error) {
+      if (error instanceof SupplierOnboardingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error submitting supplier onboarding:", error);
+      res.status(500).json({ message: "Failed to submit registration" });
+    }
+  });
+
+  app.delete('/api/suppliers/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      await storage.deleteSupplier(req.params.id);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'delete',
+        entityType: 'supplier',
+        entityId: req.params.id,
+        changes: {},
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+      res.status(500).json({ message: "Failed to delete supplier" });
+    }
+  });
+
+  app.get('/api/suppliers/search/:query', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const suppliers = await storage.searchSuppliers(req.params.query);
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error searching suppliers:", error);
+      res.status(500).json({ message: "Failed to search suppliers" });
+    }
+  });
+
+  // Receita Federal data used to pre-fill the supplier form
+  app.get('/api/company-registry/:cnpj', isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const record = await companyRegistryService.lookup(req.params.cnpj);
+      res.json({ ...record, active: isActiveRegistration(record) });
+    } catch (error) {
+      if (error instanceof CompanyRegistryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error looking up company registry:", error);
+      res.status(500).json({ message: "Failed to look up company registry" });
+    }
+  });
+
+  // Product routes (Admin can manage, others can view)
+  app.get('/api/products', isAuthenticated, async (req, res) => {
+    try {
+      const products = await storage.getProducts();
+      res.json(products);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.get('/api/products/:id', isAuthenticated, async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      console.error("Error fetching product:", error);
+      res.status(500).json({ message: "Failed to fetch product" });
+    }
+  });
+
+  app.post('/api/products', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertProductSchema.parse(req.body);
+      if (validatedData.code && await storage.getProductByCode(validatedData.code)) {
+        return res.status(409).json({ message: "A product with this code already exists" });
+      }
+      const product = await storage.createProduct(validatedData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'product',
+        entityId: product.id,
+        changes: validatedData,
+      });
+
+      res.status(201).json(product);
+    } catch (error) {
+      console.error("Error creating product:", error);
+      res.status(400).json({ message: "Failed to create product" });
+    }
+  });
+
+  app.put('/api/products/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertProductSchema.partial().parse(req.body);
+      if (validatedData.code) {
+        const sameCode = await storage.getProductByCode(validatedData.code);
+        if (sameCode && sameCode.id !== req.params.id) {
+          return res.status(409).json({ message: "A product with this code already exists" });
+        }
+      }
+      const product = await storage.updateProduct(req.params.id, validatedData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'product',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(product);
+    } catch (error) {
+      console.error("Error updating product:", error);
+      res.status(400).json({ message: "Failed to update product" });
+    }
+  });
+
+  app.delete('/api/products/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      await storage.deleteProduct(req.params.id);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'delete',
+        entityType: 'product',
+        entityId: req.params.id,
+        changes: {},
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting product:", error);
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  app.get('/api/products/search/:query', isAuthenticated, async (req, res) => {
+    try {
+      const products = await storage.searchProducts(req.params.query);
+      res.json(products);
+    } catch (error) {
+      console.error("Error searching products:", error);
+      res.status(500).json({ message: "Failed to search products" });
+    }
+  });
+
+  // Product price history (awarded quotation lines and purchase order lines)
+  app.get('/api/products/:id/price-history', isAuthenticated, async (req, res) => {
+    try {
+      const filters = priceHistoryQuerySchema.parse(req.query);
+      const history = await priceHistoryService.getHistory(req.params.id, filters);
+      res.json(history);
+    } catch (error) {
+      if (error instanceof PriceHistoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching price history:", error);
+      res.status(400).json({ message: "Failed to fetch price history" });
+    }
+  });
+
+  app.get('/api/products/:id/price-trend', isAuthenticated, async (req, res) => {
+    try {
+      const filters = priceHistoryQuerySchema.extend({
+        unit: z.string().optional(),
+        interval: z.enum(["day", "month"]).optional(),
+      }).parse(req.query);
+      const trend = await priceHistoryService.getTrend(req.params.id, filters);
+      res.json(trend);
+    } catch (error) {
+      if (error instanceof PriceHistoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching price trend:", error);
+      res.status(400).json({ message: "Failed to fetch price trend" });
+    }
+  });
+
+  // Compares the last 90 days of prices against the earlier history
+  app.post('/api/products/:id/price-analysis', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const history = await priceHistoryService.getHistory(req.params.id);
+      const cutoff = Date.now() - 90 * 24 * 60 * 60 * 1000;
+      const toPrice = (entry: typeof history[number]) => ({
+        date: entry.recordedAt,
+        supplier: entry.supplier?.name,
+        unitPrice: Number(entry.unitPrice),
+        quantity: Number(entry.quantity),
+        unit: entry.unit,
+      });
+      const analysis = await openaiService.analyzePriceVariation(
+        history.filter(entry => entry.recordedAt.getTime() >= cutoff).map(toPrice),
+        history.filter(entry => entry.recordedAt.getTime() < cutoff).map(toPrice),
+      );
+      res.json(analysis);
+    } catch (error) {
+      if (error instanceof PriceHistoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error analyzing price variation:", error);
+      res.status(500).json({ message: "Failed to analyze price variation" });
+    }
+  });
+
+  // Category routes
+  app.get('/api/categories', isAuthenticated, async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
+  app.post('/api/categories', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertCategorySchema.parse(req.body);
+      const category = await storage.createCategory(validatedData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'category',
+        entityId: category.id,
+        changes: validatedData,
+      });
+
+      res.status(201).json(category);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      res.status(400).json({ message: "Failed to create category" });
+    }
+  });
+
+  // Quotation Request routes (Requesters can create, others can view based on role)
+  app.get('/api/quotation-requests', isAuthenticated, async (req, res) => {
+    try {
+      const requests = await storage.getQuotationRequests();
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching quotation requests:", error);
+      res.status(500).json({ message: "Failed to fetch quotation requests" });
+    }
+  });
+
+  app.get('/api/quotation-requests/:id', isAuthenticated, async (req, res) => {
+    try {
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+      res.json(request);
+    } catch (error) {
+      console.error("Error fetching quotation request:", error);
+      res.status(500).json({ message: "Failed to fetch quotation request" });
+    }
+  });
+
+  app.post('/api/quotation-requests', isAuthenticated, requireRequester, async (req: any, res) => {
+    try {
+      const validatedData = quotationRequestBodySchema.parse({
+        ...req.body,
+        requesterId: req.user.claims.sub,
+      });
+      if (validatedData.responseDeadline && validatedData.responseDeadline.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "Response deadline must be in the future" });
+      }
+      const request = await storage.createQuotationRequest(validatedData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'quotation_request',
+        entityId: request.id,
+        changes: validatedData,
+      });
+
+      // Generate AI analysis for the request
+      try {
+        const analysis = await openaiService.analyzeQuotationRequest(request);
+        await storage.createAiAnalysis({
+          type: 'quotation_analysis',
+          entityType: 'quotation_request',
+          entityId: request.id,
+          analysis,
+          confidence: "0.85",
+        });
+      } catch (aiError) {
+        console.error("Error generating AI analysis:", aiError);
+      }
+
+      res.status(201).json(request);
+    } catch (error) {
+      console.error("Error creating quotation request:", error);
+      res.status(400).json({ message: "Failed to create quotation request" });
+    }
+  });
+
+  app.put('/api/quotation-requests/:id', isAuthenticated, requireRequester, requireRequestOwnershipOrRole(['admin', 'cotador']), async (req: any, res) => {
+    try {
+      const validatedData = quotationRequestBodySchema.partial().parse(req.body);
+
+      // Final approval decisions must go through the approval chain
+      if (validatedData.status === 'aprovado' || validatedData.status === 'rejeitado') {
+        return res.status(409).json({ message: "Use the approve/reject endpoints to decide on a quotation request" });
+      }
+
+      const previous = await storage.getQuotationRequest(req.params.id);
+
+      // The approval chain was built for the amount under approval, and the approved amount is
+      // fixed by the last signature; neither changes here once approval has started
+      const approvalStarted = previous && (previous.status === 'aguardando_aprovacao' || isFinalQuotationStatus(previous.status ?? 'rascunho'));
+      const changesAmount = (field: 'totalBudget' | 'approvedAmount') =>
+        validatedData[field] !== undefined && Number(validatedData[field] ?? 0) !== Number(previous?.[field] ?? 0);
+      if (changesAmount('approvedAmount')) {
+        return res.status(409).json({ message: "The approved amount is set by the approval chain" });
+      }
+      if (approvalStarted && changesAmount('totalBudget')) {
+        return res.status(409).json({ message: "The amount of a quotation request cannot change once approval has started" });
+      }
+
+      // A round can only be (re)opened with a deadline that has not passed yet
+      if (previous && (validatedData.status ?? previous.status) === 'em_cotacao') {
+        const responseDeadline = validatedData.responseDeadline !== undefined ? validatedData.responseDeadline : previous.responseDeadline;
+        if (isResponseDeadlinePassed({ responseDeadline })) {
+          return res.status(409).json({ message: "Set a future response deadline to reopen the quotation round" });
+        }
+      }
+      const request = await storage.updateQuotationRequest(req.params.id, validatedData, req.user.claims.sub);
+
+      if (request.status === 'aguardando_aprovacao' && previous?.status !== 'aguardando_aprovacao') {
+        await approvalService.startApprovalChain(request, req.user.claims.sub);
+      }
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'quotation_request',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      console.error("Error updating quotation request:", error);
+      res.status(400).json({ message: "Failed to update quotation request" });
+    }
+  });
+
+  app.post('/api/quotation-requests/:id/approve', isAuthenticated, requireApprover, async (req: any, res) => {
+    try {
+      const { approvedAmount, comments } = req.body;
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { request, steps, completed, budgetWarning } = await approvalService.decide(req.params.id, user, 'aprovado', {
+        approvedAmount,
+        comments,
+      });
+
+      if (completed) {
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'approve',
+          entityType: 'quotation_request',
+          entityId: req.params.id,
+          changes: { status: 'aprovado', approvedAmount: request.approvedAmount, ...(budgetWarning ? { budgetWarning } : {}) },
+        });
+
+        // Send notification email
+        try {
+          await emailService.sendApprovalNotification(request);
+        } catch (emailError) {
+          console.error("Error sending approval notification:", emailError);
+        }
+      }
+
+      res.json({ ...request, approvalSteps: steps, approvalCompleted: completed, budgetWarning });
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error approving quotation request:", error);
+      res.status(500).json({ message: "Failed to approve quotation request" });
+    }
+  });
+
+  app.post('/api/quotation-requests/:id/reject', isAuthenticated, requireApprover, async (req: any, res) => {
+    try {
+      const { rejectionReason } = req.body;
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { request } = await approvalService.decide(req.params.id, user, 'rejeitado', {
+        comments: rejectionReason,
+      });
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'reject',
+        entityType: 'quotation_request',
+        entityId: req.params.id,
+        changes: { status: 'rejeitado', rejectionReason },
+      });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error rejecting quotation request:", error);
+      res.status(500).json({ message: "Failed to reject quotation request" });
+    }
+  });
+
+  app.post('/api/quotation-requests/:id/cancel', isAuthenticated, requireRequester, requireRequestOwnershipOrRole(['admin', 'cotador']), async (req: any, res) => {
+    try {
+      const { cancellationReason } = req.body;
+      const request = await storage.updateQuotationRequest(req.params.id, {
+        status: 'cancelado',
+        ...(cancellationReason ? { notes: cancellationReason } : {}),
+      }, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'cancel',
+        entityType: 'quotation_request',
+        entityId: req.params.id,
+        changes: { status: 'cancelado', cancellationReason },
+      });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      console.error("Error cancelling quotation request:", error);
+      res.status(500).json({ message: "Failed to cancel quotation request" });
+    }
+  });
+
+  app.get('/api/quotation-requests/:id/status-history', isAuthenticated, async (req, res) => {
+    try {
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+
+      const logs = await storage.getAuditLogs(req.params.id);
+      const history = logs
+        .filter(log => log.entityType === 'quotation_request' && log.action === 'status_change')
+        .reverse();
+
+      res.json({
+        currentStatus: request.status,
+        allowedStatuses: getAllowedQuotationTransitions(request.status ?? 'rascunho'),
+        history,
+      });
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  // Quoted prices flagged as outliers, shown to approvers next to the approval chain
+  app.get('/api/quotation-requests/:id/price-anomalies', isAuthenticated, async (req, res) => {
+    try {
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+      const flagged = await priceAnomalyService.getFlaggedLines(request.id);
+      res.json(flagged);
+    } catch (error) {
+      console.error("Error fetching price anomalies:", error);
+      res.status(500).json({ message: "Failed to fetch price anomalies" });
+    }
+  });
+
+  app.get('/api/quotation-requests/:id/approval-steps', isAuthenticated, async (req, res) => {
+    try {
+      const steps = await storage.getApprovalSteps(req.params.id);
+      res.json(approvalService.getActiveSteps(steps));
+    } catch (error) {
+      console.error("Error fetching approval steps:", error);
+      res.status(500).json({ message: "Failed to fetch approval steps" });
+    }
+  });
+
+  // Approval policy routes (Admin configures the approval chain)
+  app.get('/api/approval-policies', isAuthenticated, requireApprover, async (req, res) => {
+    try {
+      const policies = await storage.getApprovalPolicies();
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching approval policies:", error);
+      res.status(500).json({ message: "Failed to fetch approval policies" });
+    }
+  });
+
+  app.post('/api/approval-policies', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertApprovalPolicySchema.parse(req.body);
+      const policy = await storage.createApprovalPolicy(validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'approval_policy',
+        entityId: policy.id,
+        changes: validatedData,
+      });
+
+      res.status(201).json(policy);
+    } catch (error) {
+      console.error("Error creating approval policy:", error);
+      res.status(400).json({ message: "Failed to create approval policy" });
+    }
+  });
+
+  app.put('/api/approval-policies/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertApprovalPolicySchema.partial().parse(req.body);
+      const policy = await storage.updateApprovalPolicy(req.params.id, validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'approval_policy',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(policy);
+    } catch (error) {
+      console.error("Error updating approval policy:", error);
+      res.status(400).json({ message: "Failed to update approval policy" });
+    }
+  });
+
+  app.delete('/api/approval-policies/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      await storage.deleteApprovalPolicy(req.params.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'delete',
+        entityType: 'approval_policy',
+        entityId: req.params.id,
+        changes: {},
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting approval policy:", error);
+      res.status(500).json({ message: "Failed to delete approval policy" });
+    }
+  });
+
+  // Cost center routes (Admin maintains cost centers and their budgets)
+  app.get('/api/cost-centers', isAuthenticated, async (req, res) => {
+    try {
+      const costCenters = await storage.getCostCenters();
+      res.json(costCenters);
+    } catch (error) {
+      console.error("Error fetching cost centers:", error);
+      res.status(500).json({ message: "Failed to fetch cost centers" });
+    }
+  });
+
+  app.post('/api/cost-centers', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertCostCenterSchema.parse(req.body);
+      if (await storage.getCostCenterByCode(validatedData.code)) {
+        return res.status(409).json({ message: "A cost center with this code already exists" });
+      }
+      const costCenter = await storage.createCostCenter(validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'cost_center',
+        entityId: costCenter.id,
+        changes: validatedData,
+      });
+
+      res.status(201).json(costCenter);
+    } catch (error) {
+      console.error("Error creating cost center:", error);
+      res.status(400).json({ message: "Failed to create cost center" });
+    }
+  });
+
+  app.put('/api/cost-centers/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertCostCenterSchema.partial().parse(req.body);
+      const costCenter = await storage.updateCostCenter(req.params.id, validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'cost_center',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(costCenter);
+    } catch (error) {
+      console.error("Error updating cost center:", error);
+      res.status(400).json({ message: "Failed to update cost center" });
+    }
+  });
+
+  app.get('/api/cost-centers/:id/budgets', isAuthenticated, async (req, res) => {
+    try {
+      const budgets = await storage.getCostCenterBudgets(req.params.id);
+      const entries = await storage.getBudgetEntries({ costCenterId: req.params.id });
+      res.json(budgets.map(budget => ({ ...budget, ...budgetService.summarize(budget, entries) })));
+    } catch (error) {
+      console.error("Error fetching cost center budgets:", error);
+      res.status(500).json({ message: "Failed to fetch cost center budgets" });
+    }
+  });
+
+  app.get('/api/cost-centers/:id/budget-entries', isAuthenticated, requireApprover, async (req, res) => {
+    try {
+      const entries = await storage.getBudgetEntries({ costCenterId: req.params.id });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching budget entries:", error);
+      res.status(500).json({ message: "Failed to fetch budget entries" });
+    }
+  });
+
+  app.post('/api/cost-centers/:id/budgets', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertCostCenterBudgetSchema.extend({
+        year: z.coerce.number().int().min(2000),
+        month: z.coerce.number().int().min(1).max(12).nullable().optional(),
+        amount: z.coerce.number().nonnegative().transform(String),
+      }).parse({ ...req.body, costCenterId: req.params.id });
+
+      const costCenter = await storage.getCostCenter(req.params.id);
+      if (!costCenter) {
+        return res.status(404).json({ message: "Cost center not found" });
+      }
+
+      const duplicate = (await storage.getCostCenterBudgets(req.params.id))
+        .find(budget => budget.year === validatedData.year && budget.month === (validatedData.month ?? null));
+      if (duplicate) {
+        return res.status(409).json({ message: "A budget for this period already exists" });
+      }
+
+      const budget = await storage.createCostCenterBudget(validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'cost_center_budget',
+        entityId: budget.id,
+        changes: validatedData,
+      });
+
+      res.status(201).json(budget);
+    } catch (error) {
+      console.error("Error creating cost center budget:", error);
+      res.status(400).json({ message: "Failed to create cost center budget" });
+    }
+  });
+
+  app.put('/api/cost-center-budgets/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = z.object({
+        amount: z.coerce.number().nonnegative().transform(String),
+      }).parse(req.body);
+      const budget = await storage.updateCostCenterBudget(req.params.id, validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'cost_center_budget',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(budget);
+    } catch (error) {
+      console.error("Error updating cost center budget:", error);
+      res.status(400).json({ message: "Failed to update cost center budget" });
+    }
+  });
+
+  app.delete('/api/cost-center-budgets/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      await storage.deleteCostCenterBudget(req.params.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'delete',
+        entityType: 'cost_center_budget',
+        entityId: req.params.id,
+        changes: {},
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting cost center budget:", error);
+      res.status(500).json({ message: "Failed to delete cost center budget" });
+    }
+  });
+
+  // Approval delegation routes (approvers hand over their authority while away)
+  app.get('/api/users/approvers', isAuthenticated, requireApprover, async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      const approvers = users
+        .filter(user => user.isActive && (user.role === 'admin' || user.role === 'aprovador'))
+        .map(({ id, email, firstName, lastName, role }) => ({ id, email, firstName, lastName, role }));
+      res.json(approvers);
+    } catch (error) {
+      console.error("Error fetching approvers:", error);
+      res.status(500).json({ message: "Failed to fetch approvers" });
+    }
+  });
+
+  app.get('/api/approval-delegations', isAuthenticated, requireApprover, async (req: any, res) => {
+    try {
+      // Admins see every delegation; approvers only the ones they granted or received
+      const userId = req.user.role === 'admin' ? undefined : req.user.claims.sub;
+      const delegations = await storage.getApprovalDelegations(userId);
+      res.json(delegations);
+    } catch (error) {
+      console.error("Error fetching approval delegations:", error);
+      res.status(500).json({ message: "Failed to fetch approval delegations" });
+    }
+  });
+
+  app.post('/api/approval-delegations', isAuthenticated, requireApprover, async (req: any, res) => {
+    try {
+      const validatedData = insertApprovalDelegationSchema.omit({ delegatorId: true, isActive: true }).extend({
+        delegatorId: z.string().optional(),
+        startDate: z.coerce.date(),
+        endDate: z.coerce.date(),
+      }).parse(req.body);
+
+      // Admins may register a delegation on behalf of another approver
+      const delegatorId = req.user.role === 'admin' && validatedData.delegatorId
+        ? validatedData.delegatorId
+        : req.user.claims.sub;
+      const delegator = await storage.getUser(delegatorId);
+      if (!delegator) {
+        return res.status(404).json({ message: "Delegator not found" });
+      }
+
+      const delegation = await approvalService.createDelegation(delegator, {
+        delegateId: validatedData.delegateId,
+        startDate: validatedData.startDate,
+        endDate: validatedData.endDate,
+        reason: validatedData.reason,
+      });
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'approval_delegation',
+        entityId: delegation.id,
+        changes: {
+          delegatorId: delegation.delegatorId,
+          delegateId: delegation.delegateId,
+          startDate: delegation.startDate,
+          endDate: delegation.endDate,
+          reason: delegation.reason,
+        },
+      });
+
+      res.status(201).json(delegation);
+    } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating approval delegation:", error);
+      res.status(400).json({ message: "Failed to create approval delegation" });
+    }
+  });
+
+  app.post('/api/approval-delegations/:id/revoke', isAuthenticated, requireApprover, async (req: any, res) => {
+    try {
+      const delegation = await storage.getApprovalDelegation(req.params.id);
+      if (!delegation) {
+        return res.status(404).json({ message: "Approval delegation not found" });
+      }
+      if (req.user.role !== 'admin' && delegation.delegatorId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the delegator can revoke this delegation" });
+      }
+
+      const updated = await storage.updateApprovalDelegation(req.params.id, { isActive: false });
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'revoke',
+        entityType: 'approval_delegation',
+        entityId: req.params.id,
+        changes: { isActive: false },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error revoking approval delegation:", error);
+      res.status(500).json({ message: "Failed to revoke approval delegation" });
+    }
+  });
+
+  // Supplier Quotation routes (Quotation processors can manage supplier quotations)
+  app.get('/api/quotation-requests/:id/supplier-quotations', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const quotations = await storage.getSupplierQuotations(req.params.id);
+      res.json(quotations);
+    } catch (error) {
+      console.error("Error fetching supplier quotations:", error);
+      res.status(500).json({ message: "Failed to fetch supplier quotations" });
+    }
+  });
+
+  app.get('/api/quotation-requests/:id/comparison', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const comparison = await quotationComparisonService.buildMatrix(req.params.id);
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof QuotationComparisonError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error building quotation comparison:", error);
+      res.status(500).json({ message: "Failed to build quotation comparison" });
+    }
+  });
+
+  app.post('/api/quotation-requests/:id/supplier-quotations', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const validatedData = insertSupplierQuotationSchema.parse({
+        ...req.body,
+        quotationRequestId: req.params.id,
+      });
+
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+      if (!isAcceptingQuotations(request)) {
+        return res.status(409).json({ message: `Supplier quotations cannot be added to a request in status "${request.status}" or after its response deadline` });
+      }
+
+      const quotation = await storage.createSupplierQuotation(validatedData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'supplier_quotation',
+        entityId: quotation.id,
+        changes: validatedData,
+      });
+
+      // Update quotation request status to "em_cotacao" if it's still in draft
+      if (request.status === 'rascunho') {
+        await storage.updateQuotationRequest(req.params.id, { status: 'em_cotacao' }, req.user.claims.sub);
+      }
+
+      await supplierScoringService.recalculateForQuotationRequest(req.params.id);
+
+      // Invite the best ranked suppliers of the request categories through the portal if this is the first quotation
+      try {
+        const allQuotations = await storage.getSupplierQuotations(req.params.id);
+        if (allQuotations.length === 1) {
+          await supplierInvitationService.inviteProposed(request, req.user.claims.sub, [quotation.supplierId]);
+        }
+      } catch (emailError) {
+        console.error("Error sending quotation notifications:", emailError);
+      }
+
+      res.status(201).json(quotation);
+    } catch (error) {
+      console.error("Error creating supplier quotation:", error);
+      res.status(400).json({ message: "Failed to create supplier quotation" });
+    }
+  });
+
+  // Suppliers to invite, from the categories of the products in the request items
+  app.get('/api/quotation-requests/:id/invitation-proposal', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const proposal = await supplierInvitationService.propose(req.params.id);
+      res.json(proposal);
+    } catch (error) {
+      if (error instanceof SupplierInvitationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error building invitation proposal:", error);
+      res.status(500).json({ message: "Failed to build invitation proposal" });
+    }
+  });
+
+  // Spreadsheet for a supplier to answer the request, imported back through /api/upload/supplier-quotations
+  app.get('/api/quotation-requests/:id/response-template', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+
+      let supplier;
+      if (typeof req.query.supplierId === 'string') {
+        supplier = await storage.getSupplier(req.query.supplierId);
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+      }
+
+      const items = await storage.getQuotationRequestItems(request.id);
+      const template = await quotationImportService.buildResponseTemplate(request, items, supplier);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="cotacao-${request.requestNumber}.xlsx"`);
+      res.send(template);
+    } catch (error) {
+      console.error("Error building response template:", error);
+      res.status(500).json({ message: "Failed to build response template" });
+    }
+  });
+
+  // Supplier portal links (Quotation processors invite suppliers to answer through a public link)
+  app.get('/api/quotation-requests/:id/portal-links', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+    try {
+      const links = await storage.getSupplierPortalLinks(req.params.id);
+      const suppliers = await storage.getSuppliers();
+      res.json(links.map(({ tokenHash, ...link }) => ({
+        ...link,
+        status: supplierPortalService.getLinkStatus({ tokenHash, ...link }),
+        supplier: suppliers.find(supplier => supplier.id === link.supplierId),
+      })));
+    } catch (error) {
+      console.error("Error fetching portal links:", error);
+      res.status(500).json({ message: "Failed to fetch portal links" });
+    }
+  });
+
+  app.post('/api/quotation-requests/:id/portal-links', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const { supplierIds, expiresAt } = z.object({
+        supplierIds: z.array(z.string()).min(1),
+        expiresAt: z.coerce.date().optional(),
+      }).parse(req.body);
+
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+
+      const suppliers = [];
+      for (const supplierId of supplierIds) {
+        const supplier = await storage.getSupplier(supplierId);
+        if (!supplier) {
+          return res.status(404).json({ message: `Supplier ${supplierId} not found` });
+        }
+        suppliers.push(supplier);
+      }
+
+      const created = await supplierPortalService.inviteSuppliers(request, suppliers, expiresAt, req.user.claims.sub);
+
+      // Create audit log
+      for (const { link, supplier } of created) {
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'create',
+          entityType: 'supplier_portal_link',
+          entityId: link.id,
+          changes: { quotationRequestId: request.id, supplierId: supplier.id, expiresAt: link.expiresAt },
+        });
+      }
+
+      // The URL carries the raw token and is only returned here, once
+      res.status(201).json(created.map(({ link: { tokenHash, ...link }, supplier, url }) => ({
+        ...link,
+        status: 'ativo',
+        supplier,
+        url,
+      })));
+    } catch (error) {
+      if (error instanceof SupplierPortalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating portal links:", error);
+      res.status(400).json({ message: "Failed to create portal links" });
+    }
+  });
+
+  app.post('/api/portal-links/:id/revoke', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const { tokenHash, ...link } = await supplierPortalService.revoke(req.params.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'revoke',
+        entityType: 'supplier_portal_link',
+        entityId: req.params.id,
+        changes: { revokedAt: link.revokedAt },
+      });
+
+      res.json({ ...link, status: 'revogado' });
+    } catch (error) {
+      if (error instanceof SupplierPortalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error revoking portal link:", error);
+      res.status(500).json({ message: "Failed to revoke portal link" });
+    }
+  });
+
+  // Public supplier portal (no login: the token in the URL is the credential)
+  app.get('/api/portal/:token', async (req, res) => {
+    try {
+      const { link, request, supplier, items, quotation, quotationItems } = await supplierPortalService.resolve(req.params.token);
+      res.json({
+        expiresAt: link.expiresAt,
+        submittedAt: link.submittedAt,
+        supplier: { name: supplier.name },
+        request: {
+          requestNumber: request.requestNumber,
+          title: request.title,
+          description: request.description,
+          urgency: request.urgency,
+          expectedDeliveryDate: request.expectedDeliveryDate,
+        },
+        items: items.map(item => ({
+          id: item.id,
+          productName: item.productName,
+          quantity: item.quantity,
+          unit: item.unit,
+          specifications: item.specifications,
+        })),
+        quotation: quotation ? { ...quotation, items: quotationItems } : null,
+      });
+    } catch (error) {
+      if (error instanceof SupplierPortalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error loading supplier portal:", error);
+      res.status(500).json({ message: "Failed to load quotation request" });
+    }
+  });
+
+  app.post('/api/portal/:token/quotation', async (req, res) => {
+    try {
+      const submission = z.object({
+        quotationNumber: z.string().nullable().optional(),
+        validUntil: z.coerce.date().nullable().optional(),
+        deliveryTime: z.coerce.number().int().nonnegative().nullable().optional(),
+        paymentTerms: z.string().nullable().optional(),
+        observations: z.string().nullable().optional(),
+        items: z.array(z.object({
+          quotationRequestItemId: z.string(),
+          unitPrice: z.coerce.number().nonnegative(),
+          brand: z.string().nullable().optional(),
+          model: z.string().nullable().optional(),
+          specifications: z.string().nullable().optional(),
+        })).min(1),
+      }).parse(req.body);
+
+      const quotation = await supplierPortalService.submit(req.params.token, submission);
+
+      // Create audit log (no user: submitted by the supplier through the portal)
+      await storage.createAuditLog({
+        action: 'portal_submit',
+        entityType: 'supplier_quotation',
+        entityId: quotation.id,
+        changes: { supplierId: quotation.supplierId, totalAmount: quotation.totalAmount },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      await supplierScoringService.recalculateForQuotationRequest(quotation.quotationRequestId);
+
+      res.status(201).json({ id: quotation.id, totalAmount: quotation.totalAmount });
+    } catch (error) {
+      if (error instanceof SupplierPortalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error submitting portal quotation:", error);
+      res.status(400).json({ message: "Failed to submit quotation" });
+    }
+  });
+
+  app.put('/api/supplier-quotations/:id', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const validatedData = insertSupplierQuotationSchema.partial().parse(req.body);
+
+      const existing = await storage.getSupplierQuotation(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Supplier quotation not found" });
+      }
+      const request = await storage.getQuotationRequest(existing.quotationRequestId);
+      if (request && !isAcceptingQuotations(request)) {
+        return res.status(409).json({ message: "Bidding for this quotation request is closed" });
+      }
+
+      const quotation = await storage.updateSupplierQuotation(req.params.id, validatedData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'supplier_quotation',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      await supplierScoringService.recalculateForQuotationRequest(quotation.quotationRequestId);
+
+      res.json(quotation);
+    } catch (error) {
+      console.error("Error updating supplier quotation:", error);
+      res.status(400).json({ message: "Failed to update supplier quotation" });
+    }
+  });
+
+  app.post('/api/supplier-quotations/:id/select', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const quotation = await storage.getSupplierQuotation(req.params.id);
+      if (!quotation) {
+        return res.status(404).json({ message: "Supplier quotation not found" });
+      }
+
+      const request = await storage.getQuotationRequest(quotation.quotationRequestId);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+      const currentStatus = request.status ?? 'rascunho';
+      if (currentStatus !== 'aguardando_aprovacao' && !canTransitionQuotation(currentStatus, 'aguardando_aprovacao')) {
+        return sendTransitionConflict(
+          res,
+          new InvalidStatusTransitionError(currentStatus, 'aguardando_aprovacao', getAllowedQuotationTransitions(currentStatus))
+        );
+      }
+
+      // Award every item of this quotation and unselect the others
+      const summary = await awardService.awardQuotation(request, quotation);
+      const selectedQuotation = await storage.getSupplierQuotation(req.params.id);
+
+      // Update quotation request status to "aguardando_aprovacao" and build its approval chain
+      await awardService.submitForApproval(request, summary, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'select',
+        entityType: 'supplier_quotation',
+        entityId: req.params.id,
+        changes: { isSelected: true },
+      });
+
+      res.json(selectedQuotation);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof AwardError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error selecting supplier quotation:", error);
+      res.status(500).json({ message: "Failed to select supplier quotation" });
+    }
+  });
+
+  app.get('/api/quotation-requests/:id/awards', isAuthenticated, async (req, res) => {
+    try {
+      const summary = await awardService.getAwards(req.params.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching awards:", error);
+      res.status(500).json({ message: "Failed to fetch awards" });
+    }
+  });
+
+  // Split award: each request item goes to the supplier line chosen for it
+  app.post('/api/quotation-requests/:id/awards', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const { awards } = z.object({
+        awards: z.array(z.object({
+          quotationRequestItemId: z.string().min(1),
+          supplierQuotationItemId: z.string().min(1),
+        })),
+      }).parse(req.body);
+
+      const request = await storage.getQuotationRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Quotation request not found" });
+      }
+      const currentStatus = request.status ?? 'rascunho';
+      if (currentStatus !== 'aguardando_aprovacao' && !canTransitionQuotation(currentStatus, 'aguardando_aprovacao')) {
+        return sendTransitionConflict(
+          res,
+          new InvalidStatusTransitionError(currentStatus, 'aguardando_aprovacao', getAllowedQuotationTransitions(currentStatus))
+        );
+      }
+
+      const summary = await awardService.awardItems(request, awards);
+      const updatedRequest = await awardService.submitForApproval(request, summary, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'award',
+        entityType: 'quotation_request',
+        entityId: request.id,
+        changes: {
+          awards,
+          awardedTotal: summary.awardedTotal,
+          suppliers: summary.suppliers.map(award => award.quotation.supplierId),
+        },
+      });
+
+      res.json({ ...summary, request: updatedRequest });
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof AwardError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error awarding items:", error);
+      res.status(400).json({ message: "Failed to award items" });
+    }
+  });
+
+  // Purchase Order routes (Generated after approval)
+  app.get('/api/purchase-orders', isAuthenticated, async (req, res) => {
+    try {
+      const orders = await storage.getPurchaseOrders();
+      const suppliers = new Map((await storage.getSuppliers()).map(supplier => [supplier.id, supplier]));
+      res.json(orders.map(order => ({ ...order, supplier: suppliers.get(order.supplierId) })));
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get('/api/purchase-orders/:id', isAuthenticated, async (req, res) => {
+    try {
+      const order = await purchaseOrderService.getDetails(req.params.id);
+      const received = await goodsReceiptService.getReceivedQuantities(order.id);
+      res.json({
+        ...order,
+        items: order.items.map(item => ({ ...item, quantityReceived: received.get(item.id) ?? 0 })),
+      });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.put('/api/purchase-orders/:id', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const validatedData = z.object({
+        deliveryAddress: z.string().nullable().optional(),
+        expectedDeliveryDate: z.coerce.date().nullable().optional(),
+      }).parse(req.body);
+
+      const existing = await storage.getPurchaseOrder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (existing.status === 'entregue' || existing.status === 'cancelado') {
+        return res.status(409).json({ message: `A purchase order in status "${existing.status}" can no longer be changed` });
+      }
+
+      const order = await storage.updatePurchaseOrder(req.params.id, validatedData, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'purchase_order',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(order);
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      res.status(400).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/send', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    await applyPurchaseOrderAction(req, res, 'send');
+  });
+
+  app.post('/api/purchase-orders/:id/confirm', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    await applyPurchaseOrderAction(req, res, 'confirm');
+  });
+
+  app.post('/api/purchase-orders/:id/close', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    await applyPurchaseOrderAction(req, res, 'close');
+  });
+
+  app.post('/api/purchase-orders/:id/cancel', isAuthenticated, requireApprover, async (req: any, res) => {
+    if (typeof req.body?.reason !== 'string' || !req.body.reason.trim()) {
+      return res.status(400).json({ message: "Inform the cancellation reason" });
+    }
+    await applyPurchaseOrderAction(req, res, 'cancel');
+  });
+
+  app.get('/api/purchase-orders/:id/receipts', isAuthenticated, async (req, res) => {
+    try {
+      const receipts = await goodsReceiptService.getReceipts(req.params.id);
+      res.json(receipts);
+    } catch (error) {
+      console.error("Error fetching goods receipts:", error);
+      res.status(500).json({ message: "Failed to fetch goods receipts" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/receipts', isAuthenticated, requireRequester, async (req: any, res) => {
+    try {
+      const input = z.object({
+        receivedAt: z.coerce.date(),
+        notes: z.string().nullable().optional(),
+        items: z.array(z.object({
+          purchaseOrderItemId: z.string().min(1),
+          quantityReceived: z.coerce.number().nonnegative(),
+          divergenceNotes: z.string().nullable().optional(),
+        })).min(1),
+      }).parse(req.body);
+
+      const { receipt, order } = await goodsReceiptService.record(req.params.id, input, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'receive',
+        entityType: 'purchase_order',
+        entityId: req.params.id,
+        changes: {
+          goodsReceiptId: receipt.id,
+          receivedAt: receipt.receivedAt,
+          items: receipt.items.map(item => ({
+            purchaseOrderItemId: item.purchaseOrderItemId,
+            quantityReceived: item.quantityReceived,
+            divergenceNotes: item.divergenceNotes,
+          })),
+          status: order.status,
+        },
+      });
+
+      // Invoices held back for goods not yet received may match now
+      await invoiceMatchService.rematchPurchaseOrder(req.params.id, req.user.claims.sub);
+      await supplierScoringService.recalculate(order.supplierId);
+
+      res.status(201).json({ ...receipt, purchaseOrder: order });
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof PurchaseOrderError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error recording goods receipt:", error);
+      res.status(400).json({ message: "Failed to record goods receipt" });
+    }
+  });
+
+  // Supplier invoice routes (three-way match against the purchase order and its goods receipts)
+  app.get('/api/purchase-orders/:id/invoices', isAuthenticated, async (req, res) => {
+    try {
+      const invoices = await invoiceMatchService.getInvoices({ purchaseOrderId: req.params.id });
+      res.json(invoices);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/invoices', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const input = z.object({
+        invoiceNumber: z.string().trim().min(1),
+        series: z.string().nullable().optional(),
+        issueDate: z.coerce.date(),
+        dueDate: z.coerce.date().nullable().optional(),
+        totalAmount: z.coerce.number().nonnegative(),
+        items: z.array(z.object({
+          purchaseOrderItemId: z.string().nullable().optional(),
+          description: z.string().nullable().optional(),
+          quantity: z.coerce.number().positive(),
+          unitPrice: z.coerce.number().nonnegative(),
+        })).min(1),
+      }).parse(req.body);
+
+      const invoice = await invoiceMatchService.register(req.params.id, input, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'invoice',
+        entityId: invoice.id,
+        changes: {
+          purchaseOrderId: invoice.purchaseOrderId,
+          invoiceNumber: invoice.invoiceNumber,
+          totalAmount: invoice.totalAmount,
+          status: invoice.status,
+          matchIssues: invoice.matchIssues,
+        },
       });
 
-      res.json(request);
+      res.status(201).json(invoice);
     } catch (error) {
-      console.error("Error rejecting quotation request:", error);
-      res.status(500).json({ message: "Failed to reject quotation request" });
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error registering invoice:", error);
+      res.status(400).json({ message: "Failed to register invoice" });
     }
   });
 
-  // Supplier Quotation routes (Quotation processors can manage supplier quotations)
-  app.get('/api/quotation-requests/:id/supplier-quotations', isAuthenticated, requireQuotationProcessor, async (req, res) => {
+  app.get('/api/invoices', isAuthenticated, async (req, res) => {
     try {
-      const quotations = await storage.getSupplierQuotations(req.params.id);
-      res.json(quotations);
+      const status = z.enum(["divergente", "a_pagar", "pago", "cancelado"]).optional().parse(req.query.status || undefined);
+      const invoices = await invoiceMatchService.getInvoices({ status });
+      res.json(invoices);
     } catch (error) {
-      console.error("Error fetching supplier quotations:", error);
-      res.status(500).json({ message: "Failed to fetch supplier quotations" });
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
     }
   });
 
-  app.post('/api/quotation-requests/:id/supplier-quotations', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+  // Exceptions queue: invoices blocked by the three-way match, waiting for an approver
+  app.get('/api/invoices/exceptions', isAuthenticated, requireApprover, async (req, res) => {
     try {
-      const validatedData = insertSupplierQuotationSchema.parse({
-        ...req.body,
-        quotationRequestId: req.params.id,
-      });
-      const quotation = await storage.createSupplierQuotation(validatedData);
-      
+      const invoices = await invoiceMatchService.getInvoices({ status: 'divergente' });
+      res.json(invoices);
+    } catch (error) {
+      console.error("Error fetching invoice exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch invoice exceptions" });
+    }
+  });
+
+  app.get('/api/invoices/:id', isAuthenticated, async (req, res) => {
+    try {
+      const invoice = await invoiceMatchService.getDetails(req.params.id);
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  app.post('/api/invoices/:id/rematch', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const invoice = await invoiceMatchService.rematch(req.params.id, req.user.claims.sub);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'create',
-        entityType: 'supplier_quotation',
-        entityId: quotation.id,
-        changes: validatedData,
+        action: 'rematch',
+        entityType: 'invoice',
+        entityId: req.params.id,
+        changes: { status: invoice.status, matchIssues: invoice.matchIssues },
       });
 
-      // Update quotation request status to "em_cotacao" if it's still in draft
-      const request = await storage.getQuotationRequest(req.params.id);
-      if (request && request.status === 'rascunho') {
-        await storage.updateQuotationRequest(req.params.id, { status: 'em_cotacao' });
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
       }
-
-      // Send notification to other suppliers if this is the first quotation
-      try {
-        const allQuotations = await storage.getSupplierQuotations(req.params.id);
-        if (allQuotations.length === 1 && request) {
-          const allSuppliers = await storage.getSuppliers();
-          const selectedSuppliers = allSuppliers.filter(s => s.status === 'ativo').slice(0, 5);
-          await emailService.sendQuotationRequestNotification(selectedSuppliers, request);
-        }
-      } catch (emailError) {
-        console.error("Error sending quotation notifications:", emailError);
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
-
-      res.status(201).json(quotation);
-    } catch (error) {
-      console.error("Error creating supplier quotation:", error);
-      res.status(400).json({ message: "Failed to create supplier quotation" });
+      console.error("Error matching invoice:", error);
+      res.status(500).json({ message: "Failed to match invoice" });
     }
   });
 
-  app.put('/api/supplier-quotations/:id', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+  app.post('/api/invoices/:id/approve-exception', isAuthenticated, requireApprover, async (req: any, res) => {
     try {
-      const validatedData = insertSupplierQuotationSchema.partial().parse(req.body);
-      const quotation = await storage.updateSupplierQuotation(req.params.id, validatedData);
-      
+      const { notes } = z.object({ notes: z.string().trim().min(1) }).parse(req.body);
+      const invoice = await invoiceMatchService.approveException(req.params.id, notes, req.user.claims.sub);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'update',
-        entityType: 'supplier_quotation',
+        action: 'approve_exception',
+        entityType: 'invoice',
         entityId: req.params.id,
-        changes: validatedData,
+        changes: { notes, matchIssues: invoice.matchIssues },
       });
 
-      res.json(quotation);
+      res.json(invoice);
     } catch (error) {
-      console.error("Error updating supplier quotation:", error);
-      res.status(400).json({ message: "Failed to update supplier quotation" });
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error approving invoice exception:", error);
+      res.status(400).json({ message: "Failed to approve invoice exception" });
     }
   });
 
-  app.post('/api/supplier-quotations/:id/select', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+  app.post('/api/invoices/:id/pay', isAuthenticated, requireApprover, async (req: any, res) => {
     try {
-      const quotation = await storage.getSupplierQuotation(req.params.id);
-      if (!quotation) {
-        return res.status(404).json({ message: "Supplier quotation not found" });
-      }
+      const invoice = await invoiceMatchService.markPaid(req.params.id, req.user.claims.sub);
 
-      // Unselect all other quotations for this request
-      const allQuotations = await storage.getSupplierQuotations(quotation.quotationRequestId);
-      for (const q of allQuotations) {
-        if (q.id !== req.params.id) {
-          await storage.updateSupplierQuotation(q.id, { isSelected: false });
-        }
-      }
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'pay',
+        entityType: 'invoice',
+        entityId: req.params.id,
+        changes: { totalAmount: invoice.totalAmount, paidAt: invoice.paidAt },
+      });
 
-      // Select this quotation
-      const selectedQuotation = await storage.updateSupplierQuotation(req.params.id, { isSelected: true });
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error paying invoice:", error);
+      res.status(500).json({ message: "Failed to mark invoice as paid" });
+    }
+  });
 
-      // Update quotation request status to "aguardando_aprovacao"
-      await storage.updateQuotationRequest(quotation.quotationRequestId, { 
-        status: 'aguardando_aprovacao',
-        totalBudget: quotation.totalAmount 
-      });
+  app.post('/api/invoices/:id/cancel', isAuthenticated, requireQuotationProcessor, async (req: any, res) => {
+    try {
+      const invoice = await invoiceMatchService.cancel(req.params.id, req.user.claims.sub);
 
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'select',
-        entityType: 'supplier_quotation',
+        action: 'cancel',
+        entityType: 'invoice',
         entityId: req.params.id,
-        changes: { isSelected: true },
+        changes: { status: invoice.status },
       });
 
-      res.json(selectedQuotation);
+      res.json(invoice);
     } catch (error) {
-      console.error("Error selecting supplier quotation:", error);
-      res.status(500).json({ message: "Failed to select supplier quotation" });
+      if (error instanceof InvalidStatusTransitionError) {
+        return sendTransitionConflict(res, error);
+      }
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error cancelling invoice:", error);
+      res.status(500).json({ message: "Failed to cancel invoice" });
     }
   });
 
-  // Purchase Order routes (Generated after approval)
-  app.get('/api/purchase-orders', isAuthenticated, async (req, res) => {
+  // Three-way match tolerance routes (Admin configures how much an invoice may deviate)
+  app.get('/api/invoice-match-tolerances', isAuthenticated, requireApprover, async (req, res) => {
     try {
-      const orders = await storage.getPurchaseOrders();
-      res.json(orders);
+      const tolerances = await storage.getInvoiceMatchTolerances();
+      res.json(tolerances);
     } catch (error) {
-      console.error("Error fetching purchase orders:", error);
-      res.status(500).json({ message: "Failed to fetch purchase orders" });
+      console.error("Error fetching match tolerances:", error);
+      res.status(500).json({ message: "Failed to fetch match tolerances" });
     }
   });
 
-  app.get('/api/purchase-orders/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/invoice-match-tolerances', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      const order = await storage.getPurchaseOrder(req.params.id);
-      if (!order) {
-        return res.status(404).json({ message: "Purchase order not found" });
+      const validatedData = insertInvoiceMatchToleranceSchema.parse(req.body);
+      const existing = (await storage.getInvoiceMatchTolerances())
+        .find(tolerance => (tolerance.supplierId ?? null) === (validatedData.supplierId ?? null));
+      if (existing) {
+        return res.status(409).json({ message: "Tolerances for this supplier already exist" });
       }
-      res.json(order);
+
+      const tolerance = await storage.createInvoiceMatchTolerance(validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'invoice_match_tolerance',
+        entityId: tolerance.id,
+        changes: validatedData,
+      });
+
+      res.status(201).json(tolerance);
     } catch (error) {
-      console.error("Error fetching purchase order:", error);
-      res.status(500).json({ message: "Failed to fetch purchase order" });
+      console.error("Error creating match tolerance:", error);
+      res.status(400).json({ message: "Failed to create match tolerance" });
+    }
+  });
+
+  app.put('/api/invoice-match-tolerances/:id', isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertInvoiceMatchToleranceSchema.omit({ supplierId: true }).partial().parse(req.body);
+      const tolerance = await storage.updateInvoiceMatchTolerance(req.params.id, validatedData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'update',
+        entityType: 'invoice_match_tolerance',
+        entityId: req.params.id,
+        changes: validatedData,
+      });
+
+      res.json(tolerance);
+    } catch (error) {
+      console.error("Error updating match tolerance:", error);
+      res.status(400).json({ message: "Failed to update match tolerance" });
     }
   });
 
@@ -587,36 +2515,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Quotation request must be approved first" });
       }
 
-      // Find the selected supplier quotation
-      const quotations = await storage.getSupplierQuotations(req.params.id);
-      const selectedQuotation = quotations.find(q => q.isSelected);
-      
-      if (!selectedQuotation) {
-        return res.status(400).json({ message: "No supplier quotation selected" });
+      // One purchase order per awarded supplier, covering only the items it won
+      const orders = await purchaseOrderService.generateForRequest(request, req.body.deliveryAddress, req.user.claims.sub);
+
+      for (const order of orders) {
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'create',
+          entityType: 'purchase_order',
+          entityId: order.id,
+          changes: {
+            orderNumber: order.orderNumber,
+            supplierId: order.supplierId,
+            supplierQuotationItemIds: order.items.map(item => item.supplierQuotationItemId),
+          },
+        });
       }
 
-      const purchaseOrder = await storage.createPurchaseOrder({
-        quotationRequestId: req.params.id,
-        supplierId: selectedQuotation.supplierId,
-        totalAmount: selectedQuotation.totalAmount,
-        deliveryAddress: req.body.deliveryAddress,
-        expectedDeliveryDate: selectedQuotation.deliveryTime 
-          ? new Date(Date.now() + selectedQuotation.deliveryTime * 24 * 60 * 60 * 1000)
-          : null,
-        status: 'pendente',
-      });
-
-      // Create audit log
-      await storage.createAuditLog({
-        userId: req.user.claims.sub,
-        action: 'create',
-        entityType: 'purchase_order',
-        entityId: purchaseOrder.id,
-        changes: { orderNumber: purchaseOrder.orderNumber, supplierId: selectedQuotation.supplierId },
-      });
-
-      res.status(201).json(purchaseOrder);
+      res.status(201).json(orders);
     } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error generating purchase order:", error);
       res.status(500).json({ message: "Failed to generate purchase order" });
     }
@@ -634,167 +2555,193 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // File upload routes
-  app.post('/api/upload/quotation-spreadsheet', isAuthenticated, requireRequester, upload.single('file'), async (req: any, res) => {
+  // Spreadsheet import, step 1: detected header row, columns and a sample for the user to map
+  app.post('/api/upload/preview', isAuthenticated, requireRequester, upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "Nenhum arquivo enviado" });
       }
 
-      const buffer = req.file.buffer;
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      
-      // Try different parsing strategies for malformed spreadsheets
-      let jsonData = XLSX.utils.sheet_to_json(worksheet);
-      
-      // If we only have __EMPTY columns, try parsing without headers
-      const hasOnlyEmptyColumns = jsonData.length > 0 && 
-        Object.keys(jsonData[0] as any).every(key => key.includes('__EMPTY') || key.includes('Material de limpeza'));
-      
-      if (hasOnlyEmptyColumns) {
-        console.log("Detected malformed spreadsheet, trying alternative parsing...");
-        jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        // Convert array format to object format with proper headers
-        const convertedData = [];
-        for (let i = 1; i < jsonData.length; i++) { // Skip first row if it's headers
-          const row = jsonData[i] as any[];
-          if (row && row.length > 0 && row.some(cell => cell !== undefined && cell !== null && cell !== '')) {
-            convertedData.push({
-              'Título da Requisição': row[0] || row[1] || row[2], // Try first non-empty cell
-              'Descrição': row[1] || row[2] || row[3],
-              'Departamento': 'Material de limpeza - CCL Cajamar', // From the header
-              'Quantidade': row[3] || row[4],
-              'Valor': row[4] || row[5] || row[6]
-            });
-          }
-        }
-        jsonData = convertedData;
+      const importType = importTypeSchema.parse(req.body.importType);
+      const headerRow = req.body.headerRow ? z.coerce.number().int().min(1).parse(req.body.headerRow) : undefined;
+      res.json(spreadsheetImportService.preview(req.file.buffer, importType, headerRow));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error previewing spreadsheet:", error);
+      res.status(500).json({ message: "Falha ao ler planilha" });
+    }
+  });
+
+  // Import mapping profiles: column mappings saved per supplier or per department
+  app.get('/api/import-profiles', isAuthenticated, requireRequester, async (req: any, res) => {
+    try {
+      const importType = req.query.importType ? importTypeSchema.parse(req.query.importType) : undefined;
+      const profiles = await storage.getImportMappingProfiles(importType);
+      res.json(profiles);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching import profiles:", error);
+      res.status(500).json({ message: "Failed to fetch import profiles" });
+    }
+  });
 
-      // Log available columns for debugging
-      console.log("Available columns in spreadsheet:", jsonData.length > 0 ? Object.keys(jsonData[0] as any) : 'No data');
-      console.log("First 3 rows sample:", jsonData.slice(0, 3));
+  app.post('/api/import-profiles', isAuthenticated, requireRequester, async (req: any, res) => {
+    try {
+      const { name, importType, supplierId, department, ...mapping } = importProfileBodySchema.parse(req.body);
+      spreadsheetImportService.validateMapping(importType, mapping);
+      if (supplierId && !(await storage.getSupplier(supplierId))) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
 
-      let created = 0;
-      let skipped = 0;
-      const errors: string[] = [];
+      const profile = await storage.createImportMappingProfile({
+        name,
+        importType,
+        supplierId: supplierId || null,
+        department: department || null,
+        headerRow: mapping.headerRow,
+        columns: mapping.columns,
+        defaults: mapping.defaults,
+        createdById: req.user.claims.sub,
+      });
 
-      for (let i = 0; i < jsonData.length; i++) {
-        const row = jsonData[i];
-        try {
-          // Mapear diferentes variações de nomes de colunas
-          const getColumnValue = (possibleNames: string[]) => {
-            for (const name of possibleNames) {
-              if ((row as any)[name] !== undefined && (row as any)[name] !== null && (row as any)[name] !== '') {
-                return (row as any)[name];
-              }
-            }
-            return undefined;
-          };
-
-          const quotationData = {
-            title: getColumnValue([
-              'Título da Requisição', 'Titulo da Requisição', 'Título', 'Titulo', 
-              'título', 'titulo', 'Title', 'Nome', 'Descrição do Item', 'Item',
-              // Handle cases where title might be in column key itself
-              'Material de limpeza - CCL Cajamar'
-            ]) || (Object.keys(row as any).find(key => 
-              key.includes('Material de limpeza') && (row as any)[key] && (row as any)[key].toString().trim()
-            ) ? (row as any)[Object.keys(row as any).find(key => key.includes('Material de limpeza')) || ''] : undefined),
-            description: getColumnValue([
-              'Descrição', 'Descricao', 'Description', 'Detalhes', 'Observações', 'Quantidade'
-            ]),
-            department: getColumnValue([
-              'Departamento', 'Department', 'Setor', 'Area', 'Área'
-            ]) || 'Material de limpeza - CCL Cajamar', // Use the detected department from header
-            costCenter: getColumnValue([
-              'Centro de Custo', 'Centro Custo', 'Cost Center', 'CC'
-            ]) || 'CCL Cajamar',
-            urgency: getColumnValue([
-              'Urgência', 'Urgencia', 'Prioridade', 'Priority'
-            ]) || 'normal',
-            totalBudget: getColumnValue([
-              'Orçamento Estimado', 'Orcamento', 'Budget', 'Valor', 'Preço', 'Price'
-            ]),
-            requesterId: req.user.claims.sub,
-            status: 'rascunho' as const,
-          };
-
-          // Debug log for troubleshooting (only first 3 rows to avoid spam)
-          if (i < 3) {
-            console.log(`Row ${i + 1} data:`, {
-              title: quotationData.title,
-              department: quotationData.department,
-              allKeys: Object.keys(row as any),
-              rawRow: row
-            });
-          }
-
-          // Skip header/metadata rows
-          const title = quotationData.title?.toString().trim() || '';
-          if (!title || title.includes('EMPRESA:') || title.includes('CONTATO:') || title.includes('TELEFONE:') || 
-              title.includes('EMAIL:') || title.includes('DATA:') || title.length < 3) {
-            skipped++;
-            continue;
-          }
-
-          // Validate required fields
-          if (!quotationData.title || quotationData.title.toString().trim() === '') {
-            errors.push(`Linha ${i + 2}: Título é obrigatório (colunas disponíveis: ${Object.keys(row as any).join(', ')})`);
-            skipped++;
-            continue;
-          }
-
-          // Clean title
-          quotationData.title = quotationData.title.toString().trim();
-
-          // Convert budget to proper format if provided
-          if (quotationData.totalBudget && typeof quotationData.totalBudget === 'string') {
-            const numericBudget = parseFloat(quotationData.totalBudget.replace(/[^\d.,]/g, '').replace(',', '.'));
-            // Limit to reasonable budget range (max 99,999,999.99)
-            if (!isNaN(numericBudget) && numericBudget <= 99999999.99 && numericBudget > 0) {
-              quotationData.totalBudget = numericBudget.toString();
-            } else {
-              quotationData.totalBudget = undefined; // Invalid budget, set to undefined
-            }
-          }
-
-          // Create quotation request
-          await storage.createQuotationRequest(quotationData);
-          created++;
-          
-        } catch (error) {
-          console.error("Error processing row:", error);
-          errors.push(`Linha ${i + 2}: Erro ao processar dados - ${(error as Error).message}`);
-          skipped++;
-        }
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'create',
+        entityType: 'import_profile',
+        entityId: profile.id,
+        changes: { name, importType, supplierId, department, ...mapping },
+      });
+
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
+      console.error("Error creating import profile:", error);
+      res.status(500).json({ message: "Failed to create import profile" });
+    }
+  });
+
+  app.put('/api/import-profiles/:id', isAuthenticated, requireRequester, async (req: any, res) => {
+    try {
+      const existing = await storage.getImportMappingProfile(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      if (req.user.role !== 'admin' && existing.createdById !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the creator of this import profile can change it" });
+      }
+
+      const { name, importType, supplierId, department, ...mapping } = importProfileBodySchema.parse(req.body);
+      if (importType !== existing.importType) {
+        return res.status(400).json({ message: "Import type of a profile cannot change" });
+      }
+      spreadsheetImportService.validateMapping(importType, mapping);
+
+      const profile = await storage.updateImportMappingProfile(existing.id, {
+        name,
+        supplierId: supplierId || null,
+        department: department || null,
+        headerRow: mapping.headerRow,
+        columns: mapping.columns,
+        defaults: mapping.defaults,
+      });
 
-      const processedData = {
-        processed: jsonData.length,
-        created,
-        skipped,
-        errors: errors.slice(0, 10) // Limit to 10 errors for display
-      };
-      
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
-        action: 'upload',
-        entityType: 'quotation_request',
-        entityId: 'bulk_upload',
-        changes: { 
-          filename: req.file.originalname,
-          processed: processedData.processed,
-          created: processedData.created,
-          skipped: processedData.skipped
-        },
+        action: 'update',
+        entityType: 'import_profile',
+        entityId: profile.id,
+        changes: { name, supplierId, department, ...mapping },
+      });
+
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error updating import profile:", error);
+      res.status(500).json({ message: "Failed to update import profile" });
+    }
+  });
+
+  app.delete('/api/import-profiles/:id', isAuthenticated, requireRequester, async (req: any, res) => {
+    try {
+      const profile = await storage.getImportMappingProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      if (req.user.role !== 'admin' && profile.createdById !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the creator of this import profile can delete it" });
+      }
+
+      await storage.deleteImportMappingProfile(profile.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'delete',
+        entityType: 'import_profile',
+        entityId: profile.id,
+        changes: { name: profile.name },
       });
 
-      res.json(processedData);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import profile:", error);
+      res.status(500).json({ message: "Failed to delete import profile" });
+    }
+  });
+
+  // File upload routes (step 2: rows are read with the column mapping confirmed in the preview).
+  // dryRun only validates; otherwise the file is imported whole or, when any row has errors, not at all.
+  app.post('/api/upload/quotation-spreadsheet', isAuthenticated, requireRequester, upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhum arquivo enviado" });
+      }
+
+      const mapping = spreadsheetImportService.parseMapping(req.body.mapping);
+      const dryRun = req.body.dryRun === 'true';
+      const { report } = await quotationImportService.importQuotationRequests(req.file.buffer, mapping, req.user.claims.sub, dryRun);
+
+      if (report.committed) {
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'upload',
+          entityType: 'quotation_request',
+          entityId: 'bulk_upload',
+          changes: { 
+            filename: req.file.originalname,
+            mapping,
+            processed: report.processed,
+            created: report.created,
+            skipped: report.skipped
+          },
+        });
+      }
+
+      res.status(dryRun || report.committed ? 200 : 422).json(report);
     } catch (error) {
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error processing upload:", error);
       res.status(500).json({ message: "Falha ao processar planilha" });
     }
@@ -807,185 +2754,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Nenhum arquivo enviado" });
       }
 
-      const buffer = req.file.buffer;
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      
-      // Parse the spreadsheet
-      let jsonData = XLSX.utils.sheet_to_json(worksheet);
-      
-      // Handle malformed spreadsheets
-      const hasOnlyEmptyColumns = jsonData.length > 0 && 
-        Object.keys(jsonData[0] as any).every(key => key.includes('__EMPTY'));
-      
-      if (hasOnlyEmptyColumns) {
-        console.log("Detected malformed supplier quotation spreadsheet, trying alternative parsing...");
-        jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        // Convert array format to object format with proper headers
-        const convertedData = [];
-        for (let i = 1; i < jsonData.length; i++) { // Skip header row
-          const row = jsonData[i] as any[];
-          if (row && row.length > 0 && row.some(cell => cell !== undefined && cell !== null && cell !== '')) {
-            convertedData.push({
-              'Fornecedor': row[0],
-              'Número da Cotação': row[1],
-              'Requisição ID': row[2],
-              'Produto/Serviço': row[3],
-              'Quantidade': row[4],
-              'Preço Unitário': row[5],
-              'Preço Total': row[6],
-              'Prazo de Entrega (dias)': row[7],
-              'Condições de Pagamento': row[8],
-              'Observações': row[9]
-            });
-          }
-        }
-        jsonData = convertedData;
+      const mapping = spreadsheetImportService.parseMapping(req.body.mapping);
+      const dryRun = req.body.dryRun === 'true';
+      const { report } = await quotationImportService.importSupplierQuotations(req.file.buffer, mapping, req.user.claims.sub, dryRun);
+
+      if (report.committed) {
+        // Create audit log
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'upload',
+          entityType: 'supplier_quotation',
+          entityId: 'bulk_upload',
+          changes: { 
+            filename: req.file.originalname,
+            mapping,
+            processed: report.processed,
+            created: report.created,
+            skipped: report.skipped
+          },
+        });
+      }
+
+      res.status(dryRun || report.committed ? 200 : 422).json(report);
+    } catch (error) {
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
+      console.error("Error processing supplier quotation upload:", error);
+      res.status(500).json({ message: "Falha ao processar planilha de cotações" });
+    }
+  });
 
-      console.log("Available columns in supplier quotation spreadsheet:", jsonData.length > 0 ? Object.keys(jsonData[0] as any) : 'No data');
-      console.log("First 3 rows sample:", jsonData.slice(0, 3));
+  app.get('/api/upload/templates/quotation-requests', isAuthenticated, requireRequester, async (req, res) => {
+    try {
+      const template = quotationImportService.buildQuotationRequestTemplate();
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', 'attachment; filename="modelo-requisicoes.xlsx"');
+      res.send(template);
+    } catch (error) {
+      console.error("Error building quotation request template:", error);
+      res.status(500).json({ message: "Falha ao gerar modelo" });
+    }
+  });
 
-      let created = 0;
-      let skipped = 0;
-      const errors: string[] = [];
+  // The uploaded file back, with the errors and warnings of each row in extra columns
+  app.post('/api/upload/error-report', isAuthenticated, requireRequester, upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhum arquivo enviado" });
+      }
 
-      for (let i = 0; i < jsonData.length; i++) {
-        const row = jsonData[i];
-        try {
-          // Map column values for supplier quotations
-          const getColumnValue = (possibleNames: string[]) => {
-            for (const name of possibleNames) {
-              if ((row as any)[name] !== undefined && (row as any)[name] !== null && (row as any)[name] !== '') {
-                return (row as any)[name];
-              }
-            }
-            return undefined;
-          };
-
-          console.log(`Row ${i + 1} data:`, {
-            supplier: getColumnValue(['Fornecedor', 'Supplier', 'Nome do Fornecedor']),
-            quotationNumber: getColumnValue(['Número da Cotação', 'Quotation Number', 'Numero Cotacao']),
-            quotationRequestId: getColumnValue(['Requisição ID', 'Request ID', 'ID da Requisição']),
-            allKeys: Object.keys(row as any),
-            rawRow: row
-          });
-
-          // Extract required fields for supplier quotation
-          const supplierName = getColumnValue(['Fornecedor', 'Supplier', 'Nome do Fornecedor']);
-          const quotationNumber = getColumnValue(['Número da Cotação', 'Quotation Number', 'Numero Cotacao']);
-          const quotationRequestId = getColumnValue(['Requisição ID', 'Request ID', 'ID da Requisição']);
-          const productName = getColumnValue(['Produto/Serviço', 'Product', 'Produto', 'Serviço', 'Item']);
-          const quantity = getColumnValue(['Quantidade', 'Quantity', 'Qtd']);
-          const unitPrice = getColumnValue(['Preço Unitário', 'Unit Price', 'Preco Unitario']);
-          const totalPrice = getColumnValue(['Preço Total', 'Total Price', 'Preco Total']);
-          const deliveryTime = getColumnValue(['Prazo de Entrega (dias)', 'Delivery Time', 'Prazo Entrega']);
-          const paymentTerms = getColumnValue(['Condições de Pagamento', 'Payment Terms', 'Condicoes Pagamento']);
-          const observations = getColumnValue(['Observações', 'Observations', 'Obs']);
-
-          // Skip rows with metadata or empty essential data
-          if (!supplierName || !quotationRequestId || !productName ||
-              String(supplierName).includes(':') || 
-              String(supplierName).toUpperCase().includes('EMPRESA') ||
-              String(supplierName).toUpperCase().includes('CONTATO')) {
-            console.log(`Skipping row ${i + 1}: ${supplierName} (metadata or missing data)`);
-            skipped++;
-            continue;
-          }
-
-          // Validate numeric fields
-          const numericQuantity = parseFloat(String(quantity || '0').replace(',', '.'));
-          const numericUnitPrice = parseFloat(String(unitPrice || '0').replace(',', '.'));
-          const numericTotalPrice = parseFloat(String(totalPrice || '0').replace(',', '.'));
-          const numericDeliveryTime = parseInt(String(deliveryTime || '0'));
-
-          if (isNaN(numericQuantity) || isNaN(numericUnitPrice) || isNaN(numericTotalPrice)) {
-            errors.push(`Linha ${i + 1}: Valores numéricos inválidos`);
-            skipped++;
-            continue;
-          }
-
-          // Find or create supplier
-          let supplier = await storage.getSupplierByName(supplierName);
-          if (!supplier) {
-            supplier = await storage.createSupplier({
-              name: supplierName,
-              status: 'ativo'
-            });
-          }
-
-          // Verify quotation request exists
-          const quotationRequest = await storage.getQuotationRequest(quotationRequestId);
-          if (!quotationRequest) {
-            errors.push(`Linha ${i + 1}: Requisição ${quotationRequestId} não encontrada`);
-            skipped++;
-            continue;
-          }
-
-          // Create or update supplier quotation
-          const existingQuotation = await storage.getSupplierQuotationByRequestAndSupplier(quotationRequestId, supplier.id);
-          
-          if (existingQuotation) {
-            // Update existing quotation
-            await storage.updateSupplierQuotation(existingQuotation.id, {
-              quotationNumber: quotationNumber || existingQuotation.quotationNumber,
-              deliveryTime: numericDeliveryTime || existingQuotation.deliveryTime,
-              paymentTerms: paymentTerms || existingQuotation.paymentTerms,
-              totalAmount: numericTotalPrice.toString(),
-              observations: observations || existingQuotation.observations
-            });
-          } else {
-            // Create new supplier quotation
-            const supplierQuotation = await storage.createSupplierQuotation({
-              quotationRequestId,
-              supplierId: supplier.id,
-              quotationNumber: quotationNumber || `COT-${Date.now()}`,
-              deliveryTime: numericDeliveryTime,
-              paymentTerms: paymentTerms || 'A vista',
-              totalAmount: numericTotalPrice.toString(),
-              observations
-            });
-
-            // Create quotation items (simplified - assumes one item per row)
-            // In a real scenario, you'd need to map to existing quotation request items
-            // For now, we'll create the quotation without detailed items
-          }
-
-          created++;
+      const importType = importTypeSchema.parse(req.body.importType);
+      const mapping = spreadsheetImportService.parseMapping(req.body.mapping);
+      const report = await quotationImportService.buildErrorReport(req.file.buffer, importType, mapping, req.user.claims.sub);
 
-        } catch (error) {
-          console.error(`Error processing row ${i + 1}:`, error);
-          errors.push(`Linha ${i + 1}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
-          skipped++;
-        }
+      const baseName = req.file.originalname.replace(/\.[^.]+$/, '');
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(`${baseName}-erros.xlsx`)}"`);
+      res.send(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
+      console.error("Error building import error report:", error);
+      res.status(500).json({ message: "Falha ao gerar relatório de erros" });
+    }
+  });
+
+  // NF-e XML upload: identifies the supplier by CNPJ and the purchase order lines being billed
+  app.post('/api/upload/supplier-invoices', isAuthenticated, requireQuotationProcessor, upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhum arquivo enviado" });
+      }
+
+      const { invoice, items } = await nfeImportService.import(req.file.buffer.toString('utf-8'), req.user.claims.sub);
 
-      const processedData = {
-        processed: jsonData.length,
-        created,
-        skipped,
-        errors: errors.slice(0, 10)
-      };
-      
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
         action: 'upload',
-        entityType: 'supplier_quotation',
-        entityId: 'bulk_upload',
-        changes: { 
+        entityType: 'invoice',
+        entityId: invoice.id,
+        changes: {
           filename: req.file.originalname,
-          processed: processedData.processed,
-          created: processedData.created,
-          skipped: processedData.skipped
+          accessKey: invoice.accessKey,
+          purchaseOrderId: invoice.purchaseOrderId,
+          matched: items.filter(item => item.matched).length,
+          unmatched: items.filter(item => !item.matched).length,
+          status: invoice.status,
         },
       });
 
-      res.json(processedData);
+      res.status(201).json({ invoice, items });
     } catch (error) {
-      console.error("Error processing supplier quotation upload:", error);
-      res.status(500).json({ message: "Falha ao processar planilha de cotações" });
+      if (error instanceof NfeImportError) {
+        return res.status(error.statusCode).json({ message: error.message, items: error.items });
+      }
+      if (error instanceof InvoiceMatchError) {
+        return res.status(error.statusCode).json({ message: error.message, items: [] });
+      }
+      console.error("Error importing NF-e:", error);
+      res.status(500).json({ message: "Falha ao processar XML da NF-e" });
     }
   });
 
@@ -0,0 +1,363 @@
+import { storage } from "../storage";
+import { budgetService } from "./budget";
+import { InvalidStatusTransitionError, getAllowedQuotationTransitions } from "@shared/workflow";
+import type { ApprovalDelegation, ApprovalPolicy, QuotationApprovalStep, QuotationRequest, User } from "@shared/schema";
+
+// Roles allowed to sign approval steps, directly or as a delegate
+const APPROVER_ROLES = ["admin", "aprovador"];
+
+export class ApprovalError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+interface ApprovalDecisionOptions {
+  approvedAmount?: string | number | null;
+  comments?: string | null;
+}
+
+interface ApprovalDecisionResult {
+  request: QuotationRequest;
+  steps: QuotationApprovalStep[];
+  completed: boolean;
+  budgetWarning?: string;
+}
+
+interface DelegationInput {
+  delegateId: string;
+  startDate: Date;
+  endDate: Date;
+  reason?: string | null;
+}
+
+// A delegation the user is currently acting under, with the approver who granted it
+interface ActingDelegation {
+  delegation: ApprovalDelegation;
+  delegator: User;
+}
+
+// Who may sign a step; onBehalfOf is set when the user acts as a delegate
+interface DecisionAuthority {
+  onBehalfOf: User | null;
+}
+
+class ApprovalService {
+  // Each active policy matching the request becomes one approval step
+  async getApplicablePolicies(request: QuotationRequest): Promise<ApprovalPolicy[]> {
+    const amount = Number(request.totalBudget ?? 0);
+    const policies = (await storage.getApprovalPolicies()).filter(policy => policy.isActive);
+    const categoryIds = await this.getRequestCategoryIds(request.id);
+
+    return policies.filter(policy => {
+      if (amount < Number(policy.minAmount ?? 0)) return false;
+      if (policy.maxAmount !== null && amount > Number(policy.maxAmount)) return false;
+      if (policy.costCenter && policy.costCenter !== request.costCenter) return false;
+      if (policy.department && policy.department !== request.department) return false;
+      if (policy.categoryId && !categoryIds.has(policy.categoryId)) return false;
+      return true;
+    });
+  }
+
+  // Steps of the current approval round (steps cancelled by a restart are ignored)
+  getActiveSteps(steps: QuotationApprovalStep[]): QuotationApprovalStep[] {
+    return steps.filter(step => step.status !== "cancelado");
+  }
+
+  // Pending steps with the lowest order; steps sharing an order can be signed in any sequence
+  getCurrentSteps(steps: QuotationApprovalStep[]): QuotationApprovalStep[] {
+    const pending = this.getActiveSteps(steps).filter(step => step.status === "pendente");
+    if (pending.length === 0) return [];
+    const currentOrder = Math.min(...pending.map(step => step.stepOrder));
+    return pending.filter(step => step.stepOrder === currentOrder);
+  }
+
+  canUserDecide(step: QuotationApprovalStep, user: User, delegations: ActingDelegation[] = []): boolean {
+    return this.resolveAuthority(step, user, delegations) !== null;
+  }
+
+  resolveAuthority(step: QuotationApprovalStep, user: User, delegations: ActingDelegation[] = []): DecisionAuthority | null {
+    if (user.role === "admin") return { onBehalfOf: null };
+    if (step.approverId ? step.approverId === user.id : step.approverRole === user.role) {
+      return { onBehalfOf: null };
+    }
+
+    // Delegates keep their own role: a user without approval rights cannot act for anyone
+    if (!user.role || !APPROVER_ROLES.includes(user.role)) return null;
+
+    const acting = delegations.find(({ delegator }) =>
+      step.approverId ? step.approverId === delegator.id : step.approverRole === delegator.role
+    );
+    return acting ? { onBehalfOf: acting.delegator } : null;
+  }
+
+  // Delegations currently in force where the user is the delegate
+  async getActingDelegations(user: User, at: Date = new Date()): Promise<ActingDelegation[]> {
+    const delegations = await storage.getActiveDelegationsForDelegate(user.id, at);
+    const acting: ActingDelegation[] = [];
+    for (const delegation of delegations) {
+      const delegator = await storage.getUser(delegation.delegatorId);
+      if (delegator?.isActive) acting.push({ delegation, delegator });
+    }
+    return acting;
+  }
+
+  async createDelegation(delegator: User, input: DelegationInput): Promise<ApprovalDelegation> {
+    if (!delegator.role || !APPROVER_ROLES.includes(delegator.role)) {
+      throw new ApprovalError("Only approvers can delegate approval authority", 403);
+    }
+    if (input.delegateId === delegator.id) {
+      throw new ApprovalError("You cannot delegate approval authority to yourself");
+    }
+    if (input.endDate.getTime() < input.startDate.getTime()) {
+      throw new ApprovalError("Delegation end date must be after its start date");
+    }
+
+    const delegate = await storage.getUser(input.delegateId);
+    if (!delegate || !delegate.isActive) {
+      throw new ApprovalError("Delegate user not found or inactive", 404);
+    }
+    if (!delegate.role || !APPROVER_ROLES.includes(delegate.role)) {
+      throw new ApprovalError(`User with role "${delegate.role}" cannot receive approval authority`);
+    }
+
+    return await storage.createApprovalDelegation({
+      delegatorId: delegator.id,
+      delegateId: delegate.id,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      reason: input.reason ?? null,
+      isActive: true,
+    });
+  }
+
+  // Builds the approval chain for a request entering "aguardando_aprovacao".
+  // Any previous round is cancelled, since the amount under approval may have changed.
+  async startApprovalChain(request: QuotationRequest, userId?: string): Promise<QuotationApprovalStep[]> {
+    const previousSteps = this.getActiveSteps(await storage.getApprovalSteps(request.id));
+    for (const step of previousSteps) {
+      await storage.updateApprovalStep(step.id, { status: "cancelado" });
+    }
+
+    const policies = await this.getApplicablePolicies(request);
+    const steps: QuotationApprovalStep[] = [];
+
+    if (policies.length === 0) {
+      // No policy configured for this request: single approval by any approver
+      steps.push(await storage.createApprovalStep({
+        quotationRequestId: request.id,
+        stepOrder: 1,
+        name: "Aprovação",
+        approverRole: "aprovador",
+      }));
+    } else {
+      for (const policy of policies) {
+        steps.push(await storage.createApprovalStep({
+          quotationRequestId: request.id,
+          policyId: policy.id,
+          stepOrder: policy.stepOrder,
+          name: policy.name,
+          approverId: policy.approverId,
+          approverRole: policy.approverRole,
+        }));
+      }
+    }
+
+    await this.assignCurrentApprover(request.id, steps);
+
+    await storage.createAuditLog({
+      userId,
+      action: 'start_approval',
+      entityType: 'quotation_request',
+      entityId: request.id,
+      changes: {
+        amount: request.totalBudget,
+        steps: steps.map(step => ({ stepOrder: step.stepOrder, name: step.name, approverId: step.approverId, approverRole: step.approverRole })),
+      },
+    });
+
+    return steps;
+  }
+
+  async decide(
+    requestId: string,
+    user: User,
+    decision: "aprovado" | "rejeitado",
+    options: ApprovalDecisionOptions = {},
+  ): Promise<ApprovalDecisionResult> {
+    let request = await storage.getQuotationRequest(requestId);
+    if (!request) {
+      throw new ApprovalError("Quotation request not found", 404);
+    }
+
+    const currentStatus = request.status ?? "rascunho";
+    if (currentStatus !== "aguardando_aprovacao") {
+      throw new InvalidStatusTransitionError(currentStatus, decision, getAllowedQuotationTransitions(currentStatus));
+    }
+
+    let steps = this.getActiveSteps(await storage.getApprovalSteps(requestId));
+    if (steps.length === 0) {
+      // Requests that entered approval before a chain existed get one now
+      steps = await this.startApprovalChain(request, user.id);
+    }
+
+    const delegations = await this.getActingDelegations(user);
+    let step: QuotationApprovalStep | undefined;
+    let authority: DecisionAuthority | null = null;
+    for (const candidate of this.getCurrentSteps(steps)) {
+      authority = this.resolveAuthority(candidate, user, delegations);
+      if (authority) {
+        step = candidate;
+        break;
+      }
+    }
+    if (!step || !authority) {
+      throw new ApprovalError("You are not an approver for the current approval step of this request", 403);
+    }
+
+    // The last signature fixes the approved amount, so that is when the budget is checked
+    const decidedStep = step;
+    const completesChain = decision === "aprovado" &&
+      steps.every(s => s.id === decidedStep.id || s.status === "aprovado");
+    const approvedAmount = options.approvedAmount ?? request.totalBudget;
+    if (decision === "aprovado" && options.approvedAmount !== undefined && options.approvedAmount !== null) {
+      const amount = Number(options.approvedAmount);
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw new ApprovalError("Approved amount must be zero or a positive number");
+      }
+      // The chain was built for the amount under approval; more than that needs a chain of its own
+      if (amount > Number(request.totalBudget ?? 0) + 0.005) {
+        throw new ApprovalError(`Approved amount ${amount.toFixed(2)} exceeds the ${Number(request.totalBudget ?? 0).toFixed(2)} this approval chain was built for; resubmit the request with the new amount`, 409);
+      }
+    }
+    let budgetWarning: string | undefined;
+    if (completesChain) {
+      const availability = await budgetService.checkAvailability(request, Number(approvedAmount ?? 0));
+      if (availability?.exceeded) {
+        const message = `Approved amount ${Number(approvedAmount ?? 0).toFixed(2)} exceeds the remaining budget of cost center ${availability.costCenter.code} (${availability.available.toFixed(2)} available)`;
+        if (availability.blocked) {
+          throw new ApprovalError(message, 409);
+        }
+        budgetWarning = message;
+      }
+    }
+
+    const onBehalfOf = authority.onBehalfOf;
+    await storage.updateApprovalStep(step.id, {
+      status: decision,
+      decidedById: user.id,
+      onBehalfOfId: onBehalfOf?.id ?? null,
+      decidedAt: new Date(),
+      comments: options.comments ?? null,
+    });
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: decision === "aprovado" ? 'approve_step' : 'reject_step',
+      entityType: 'quotation_request',
+      entityId: requestId,
+      changes: {
+        stepId: step.id,
+        stepName: step.name,
+        stepOrder: step.stepOrder,
+        decision,
+        comments: options.comments,
+        ...(onBehalfOf ? {
+          onBehalfOfId: onBehalfOf.id,
+          summary: `${decision === "aprovado" ? "Aprovado" : "Rejeitado"} por ${this.displayName(user)} em nome de ${this.displayName(onBehalfOf)}`,
+        } : {}),
+      },
+    });
+
+    steps = this.getActiveSteps(await storage.getApprovalSteps(requestId));
+
+    if (decision === "rejeitado") {
+      for (const pending of steps.filter(s => s.status === "pendente")) {
+        await storage.updateApprovalStep(pending.id, { status: "cancelado" });
+      }
+      request = await storage.updateQuotationRequest(requestId, {
+        status: 'rejeitado',
+        approverId: user.id,
+        ...(options.comments ? { notes: options.comments } : {}),
+      }, user.id);
+      return { request, steps: await storage.getApprovalSteps(requestId), completed: true };
+    }
+
+    if (steps.every(s => s.status === "aprovado")) {
+      request = await storage.updateQuotationRequest(requestId, {
+        status: 'aprovado',
+        approverId: user.id,
+        approvedAmount: approvedAmount !== null && approvedAmount !== undefined ? String(approvedAmount) : null,
+        approvedAt: new Date(),
+      }, user.id);
+      await budgetService.commit(request, Number(request.approvedAmount ?? 0), user.id);
+      return { request, steps, completed: true, budgetWarning };
+    }
+
+    request = await this.assignCurrentApprover(requestId, steps) ?? request;
+    return { request, steps, completed: false };
+  }
+
+  // Requests whose current approval step can be signed by the user
+  async getPendingApprovalsForUser(user: User, limit?: number): Promise<any[]> {
+    const delegations = await this.getActingDelegations(user);
+    const pendingSteps = await storage.getPendingApprovalSteps();
+    const requestIds = Array.from(new Set(pendingSteps.map(step => step.quotationRequestId)));
+    const approvals: any[] = [];
+
+    for (const requestId of requestIds) {
+      const request = await storage.getQuotationRequest(requestId);
+      if (!request || request.status !== "aguardando_aprovacao") continue;
+
+      const currentSteps = this.getCurrentSteps(pendingSteps.filter(step => step.quotationRequestId === requestId));
+      const step = currentSteps.find(candidate => this.canUserDecide(candidate, user, delegations));
+      if (!step) continue;
+      const authority = this.resolveAuthority(step, user, delegations);
+
+      approvals.push({
+        id: request.id,
+        requestNumber: request.requestNumber,
+        title: request.title,
+        totalBudget: request.totalBudget,
+        createdAt: request.createdAt,
+        expectedDeliveryDate: request.expectedDeliveryDate,
+        urgency: request.urgency,
+        stepId: step.id,
+        stepName: step.name,
+        stepOrder: step.stepOrder,
+        onBehalfOfId: authority?.onBehalfOf?.id ?? null,
+        onBehalfOfName: authority?.onBehalfOf ? this.displayName(authority.onBehalfOf) : null,
+      });
+    }
+
+    approvals.sort((a, b) =>
+      new Date(a.expectedDeliveryDate ?? a.createdAt).getTime() - new Date(b.expectedDeliveryDate ?? b.createdAt).getTime()
+    );
+    return limit ? approvals.slice(0, limit) : approvals;
+  }
+
+  // Keeps quotationRequests.approverId pointing at the approver of the current step, when one is assigned
+  private async assignCurrentApprover(requestId: string, steps: QuotationApprovalStep[]): Promise<QuotationRequest | undefined> {
+    const [current] = this.getCurrentSteps(steps);
+    if (!current) return undefined;
+    return await storage.updateQuotationRequest(requestId, { approverId: current.approverId ?? null });
+  }
+
+  private displayName(user: User): string {
+    return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+  }
+
+  private async getRequestCategoryIds(requestId: string): Promise<Set<string>> {
+    const items = await storage.getQuotationRequestItems(requestId);
+    const categoryIds = new Set<string>();
+    for (const item of items) {
+      if (!item.productId) continue;
+      const product = await storage.getProduct(item.productId);
+      if (product?.categoryId) categoryIds.add(product.categoryId);
+    }
+    return categoryIds;
+  }
+}
+
+export const approvalService = new ApprovalService();
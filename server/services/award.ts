@@ -0,0 +1,163 @@
+import { storage } from "../storage";
+import { approvalService } from "./approval";
+import { priceHistoryService } from "./price-history";
+import type { QuotationRequest, SupplierQuotation, SupplierQuotationItem } from "@shared/schema";
+
+export class AwardError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "AwardError";
+  }
+}
+
+export interface ItemAward {
+  quotationRequestItemId: string;
+  supplierQuotationItemId: string;
+}
+
+export interface SupplierAward {
+  quotation: SupplierQuotation;
+  items: SupplierQuotationItem[];
+  total: number;
+}
+
+export interface AwardSummary {
+  suppliers: SupplierAward[];
+  awardedTotal: number;
+  unawardedItemIds: string[];
+}
+
+class AwardService {
+  // Awarded lines grouped by supplier quotation. Quotations selected without item lines
+  // (entered by header only) count as a whole-quotation award for their declared total.
+  async getAwards(quotationRequestId: string): Promise<AwardSummary> {
+    const requestItems = await storage.getQuotationRequestItems(quotationRequestId);
+    const quotations = await storage.getSupplierQuotations(quotationRequestId);
+
+    const suppliers: SupplierAward[] = [];
+    const awardedItemIds = new Set<string>();
+
+    for (const quotation of quotations) {
+      const lines = await storage.getSupplierQuotationItems(quotation.id);
+      const awarded = lines.filter(line => line.isAwarded);
+
+      if (awarded.length > 0) {
+        awarded.forEach(line => awardedItemIds.add(line.quotationRequestItemId));
+        suppliers.push({
+          quotation,
+          items: awarded,
+          total: awarded.reduce((sum, line) => sum + Number(line.totalPrice), 0),
+        });
+      } else if (quotation.isSelected && lines.length === 0) {
+        requestItems.forEach(item => awardedItemIds.add(item.id));
+        suppliers.push({ quotation, items: [], total: Number(quotation.totalAmount) });
+      }
+    }
+
+    return {
+      suppliers,
+      awardedTotal: suppliers.reduce((sum, award) => sum + award.total, 0),
+      unawardedItemIds: requestItems.filter(item => !awardedItemIds.has(item.id)).map(item => item.id),
+    };
+  }
+
+  // Replaces the request's awards with one supplier line per request item
+  async awardItems(request: QuotationRequest, awards: ItemAward[]): Promise<AwardSummary> {
+    if (awards.length === 0) {
+      throw new AwardError("Award at least one item");
+    }
+
+    const requestItemIds = new Set((await storage.getQuotationRequestItems(request.id)).map(item => item.id));
+    const quotations = await storage.getSupplierQuotations(request.id);
+    const linesByQuotation = new Map<string, SupplierQuotationItem[]>();
+    for (const quotation of quotations) {
+      linesByQuotation.set(quotation.id, await storage.getSupplierQuotationItems(quotation.id));
+    }
+    const linesById = new Map(Array.from(linesByQuotation.values()).flat().map(line => [line.id, line]));
+
+    const awardedLineIds = new Set<string>();
+    const seenItems = new Set<string>();
+    for (const award of awards) {
+      if (!requestItemIds.has(award.quotationRequestItemId)) {
+        throw new AwardError("Awarded item does not belong to this quotation request");
+      }
+      if (seenItems.has(award.quotationRequestItemId)) {
+        throw new AwardError("Each item can only be awarded to one supplier");
+      }
+      const line = linesById.get(award.supplierQuotationItemId);
+      if (!line || line.quotationRequestItemId !== award.quotationRequestItemId) {
+        throw new AwardError("The supplier did not quote this item");
+      }
+      seenItems.add(award.quotationRequestItemId);
+      awardedLineIds.add(line.id);
+    }
+
+    for (const quotation of quotations) {
+      if ((linesByQuotation.get(quotation.id) ?? []).some(line => awardedLineIds.has(line.id))) {
+        await this.assertSupplierNotBlocked(quotation);
+      }
+    }
+
+    for (const quotation of quotations) {
+      const lines = linesByQuotation.get(quotation.id) ?? [];
+      for (const line of lines) {
+        const isAwarded = awardedLineIds.has(line.id);
+        if (!!line.isAwarded !== isAwarded) {
+          await storage.updateSupplierQuotationItem(line.id, { isAwarded });
+        }
+      }
+      // A quotation counts as selected when at least one of its lines won
+      const isSelected = lines.some(line => awardedLineIds.has(line.id));
+      if (!!quotation.isSelected !== isSelected) {
+        await storage.updateSupplierQuotation(quotation.id, { isSelected });
+      }
+    }
+    await priceHistoryService.syncAwards(request.id);
+
+    return await this.getAwards(request.id);
+  }
+
+  // Awards every line of one quotation and clears the others (whole-quotation selection)
+  async awardQuotation(request: QuotationRequest, quotation: SupplierQuotation): Promise<AwardSummary> {
+    const lines = await storage.getSupplierQuotationItems(quotation.id);
+    if (lines.length > 0) {
+      return await this.awardItems(request, lines.map(line => ({
+        quotationRequestItemId: line.quotationRequestItemId,
+        supplierQuotationItemId: line.id,
+      })));
+    }
+
+    await this.assertSupplierNotBlocked(quotation);
+    for (const other of await storage.getSupplierQuotations(request.id)) {
+      if (other.id === quotation.id) continue;
+      for (const line of await storage.getSupplierQuotationItems(other.id)) {
+        if (line.isAwarded) await storage.updateSupplierQuotationItem(line.id, { isAwarded: false });
+      }
+      if (other.isSelected) await storage.updateSupplierQuotation(other.id, { isSelected: false });
+    }
+    await storage.updateSupplierQuotation(quotation.id, { isSelected: true });
+    await priceHistoryService.syncAwards(request.id);
+
+    return await this.getAwards(request.id);
+  }
+
+  // The awarded total is what the approval chain signs off on
+  async submitForApproval(request: QuotationRequest, summary: AwardSummary, userId: string): Promise<QuotationRequest> {
+    const updated = await storage.updateQuotationRequest(request.id, {
+      status: "aguardando_aprovacao",
+      totalBudget: summary.awardedTotal.toFixed(2),
+    }, userId);
+    await approvalService.startApprovalChain(updated, userId);
+    return updated;
+  }
+
+  // Suppliers blocked for lapsed compliance documents cannot win new awards
+  private async assertSupplierNotBlocked(quotation: SupplierQuotation): Promise<void> {
+    const supplier = await storage.getSupplier(quotation.supplierId);
+    if (supplier?.status === "bloqueado") {
+      throw new AwardError(`Supplier ${supplier.name} is blocked and cannot be selected`, 409);
+    }
+  }
+}
+
+export const awardService = new AwardService();
@@ -0,0 +1,202 @@
+import { storage } from "../storage";
+import type { BudgetEntry, CostCenter, CostCenterBudget, PurchaseOrder, QuotationRequest } from "@shared/schema";
+
+export interface BudgetSummary {
+  budgetId: string;
+  year: number;
+  month: number | null;
+  amount: number;
+  committed: number;
+  consumed: number;
+  available: number;
+  utilization: number; // percentage of the budget committed or consumed
+}
+
+export interface BudgetAvailability {
+  costCenter: CostCenter;
+  budgets: BudgetSummary[];
+  available: number;
+  requested: number;
+  exceeded: boolean;
+  blocked: boolean;
+}
+
+class BudgetService {
+  // Cost center registered for the request's free-text cost center code
+  async getCostCenterForRequest(request: QuotationRequest): Promise<CostCenter | undefined> {
+    if (!request.costCenter) return undefined;
+    const costCenter = await storage.getCostCenterByCode(request.costCenter.trim());
+    return costCenter?.isActive ? costCenter : undefined;
+  }
+
+  // Monthly and annual budgets covering the given date
+  getBudgetsForDate(budgets: CostCenterBudget[], at: Date): CostCenterBudget[] {
+    return budgets.filter(budget =>
+      budget.year === at.getFullYear() && (budget.month === null || budget.month === at.getMonth() + 1)
+    );
+  }
+
+  summarize(budget: CostCenterBudget, entries: BudgetEntry[]): BudgetSummary {
+    let committed = 0;
+    let consumed = 0;
+
+    for (const entry of entries) {
+      const reference = new Date(entry.referenceDate);
+      if (reference.getFullYear() !== budget.year) continue;
+      if (budget.month !== null && reference.getMonth() + 1 !== budget.month) continue;
+
+      const amount = Number(entry.amount);
+      if (entry.type === "compromisso") committed += amount;
+      else if (entry.type === "estorno") committed -= amount;
+      else consumed += amount;
+    }
+
+    const amount = Number(budget.amount);
+    return {
+      budgetId: budget.id,
+      year: budget.year,
+      month: budget.month,
+      amount,
+      committed,
+      consumed,
+      available: amount - committed - consumed,
+      utilization: amount > 0 ? Math.round(((committed + consumed) / amount) * 1000) / 10 : 0,
+    };
+  }
+
+  // Checks the amount against every budget in force; the tightest one decides.
+  // Returns null when the request has no registered cost center or no budget for the period.
+  async checkAvailability(request: QuotationRequest, amount: number, at: Date = new Date()): Promise<BudgetAvailability | null> {
+    const costCenter = await this.getCostCenterForRequest(request);
+    if (!costCenter) return null;
+
+    const budgets = this.getBudgetsForDate(await storage.getCostCenterBudgets(costCenter.id), at);
+    if (budgets.length === 0) return null;
+
+    const entries = await storage.getBudgetEntries({ costCenterId: costCenter.id });
+    const summaries = budgets.map(budget => this.summarize(budget, entries));
+    const available = Math.min(...summaries.map(summary => summary.available));
+    const exceeded = amount > available;
+
+    return {
+      costCenter,
+      budgets: summaries,
+      available,
+      requested: amount,
+      exceeded,
+      blocked: exceeded && !!costCenter.blockOverBudget,
+    };
+  }
+
+  // Reserves the approved amount against the request's cost center
+  async commit(request: QuotationRequest, amount: number, userId?: string): Promise<BudgetEntry | null> {
+    const costCenter = await this.getCostCenterForRequest(request);
+    if (!costCenter || amount <= 0) return null;
+
+    return await storage.createBudgetEntry({
+      costCenterId: costCenter.id,
+      quotationRequestId: request.id,
+      type: "compromisso",
+      amount: amount.toFixed(2),
+      referenceDate: new Date(),
+      createdById: userId,
+    });
+  }
+
+  // Turns the request's open commitment into consumption for the purchase order amount.
+  // An order already booked is left alone, so a retried order generation can call this again.
+  async consume(request: QuotationRequest, purchaseOrder: PurchaseOrder, userId?: string): Promise<BudgetEntry[]> {
+    const costCenter = await this.getCostCenterForRequest(request);
+    if (!costCenter) return [];
+
+    const created: BudgetEntry[] = [];
+    const requestEntries = await storage.getBudgetEntries({ quotationRequestId: request.id });
+    if (requestEntries.some(entry => entry.purchaseOrderId === purchaseOrder.id && entry.type === "consumo")) return [];
+
+    // Reversals are dated like the commitment they release so they hit the same budget period
+    for (const commitment of requestEntries.filter(entry => entry.type === "compromisso")) {
+      const released = requestEntries
+        .filter(entry => entry.type === "estorno" && entry.referenceDate.getTime() === commitment.referenceDate.getTime())
+        .reduce((total, entry) => total + Number(entry.amount), 0);
+      const open = Number(commitment.amount) - released;
+      if (open <= 0) continue;
+
+      created.push(await storage.createBudgetEntry({
+        costCenterId: commitment.costCenterId,
+        quotationRequestId: request.id,
+        purchaseOrderId: purchaseOrder.id,
+        type: "estorno",
+        amount: open.toFixed(2),
+        referenceDate: commitment.referenceDate,
+        createdById: userId,
+      }));
+    }
+
+    created.push(await storage.createBudgetEntry({
+      costCenterId: costCenter.id,
+      quotationRequestId: request.id,
+      purchaseOrderId: purchaseOrder.id,
+      type: "consumo",
+      amount: Number(purchaseOrder.totalAmount).toFixed(2),
+      referenceDate: new Date(),
+      createdById: userId,
+    }));
+
+    return created;
+  }
+
+  // Reverses the consumption of a cancelled purchase order in the period it was booked, and
+  // commits the amount again: the request stays approved and a new order can replace this one
+  async release(purchaseOrder: PurchaseOrder, userId?: string): Promise<BudgetEntry[]> {
+    const consumption = (await storage.getBudgetEntries({ quotationRequestId: purchaseOrder.quotationRequestId }))
+      .filter(entry => entry.purchaseOrderId === purchaseOrder.id && entry.type === "consumo");
+    const consumed = consumption.reduce((total, entry) => total + Number(entry.amount), 0);
+    if (consumption.length === 0 || consumed <= 0) return [];
+
+    const reversal = await storage.createBudgetEntry({
+      costCenterId: consumption[0].costCenterId,
+      quotationRequestId: purchaseOrder.quotationRequestId,
+      purchaseOrderId: purchaseOrder.id,
+      type: "consumo",
+      amount: (-consumed).toFixed(2),
+      referenceDate: consumption[0].referenceDate,
+      createdById: userId,
+    });
+    const commitment = await storage.createBudgetEntry({
+      costCenterId: consumption[0].costCenterId,
+      quotationRequestId: purchaseOrder.quotationRequestId,
+      type: "compromisso",
+      amount: consumed.toFixed(2),
+      referenceDate: new Date(),
+      createdById: userId,
+    });
+    return [reversal, commitment];
+  }
+
+  // Utilization of every active cost center for the period containing the date
+  async getUtilization(at: Date = new Date()): Promise<any[]> {
+    const costCenters = (await storage.getCostCenters()).filter(costCenter => costCenter.isActive);
+    const rows: any[] = [];
+
+    for (const costCenter of costCenters) {
+      const budgets = this.getBudgetsForDate(await storage.getCostCenterBudgets(costCenter.id), at);
+      if (budgets.length === 0) continue;
+
+      const entries = await storage.getBudgetEntries({ costCenterId: costCenter.id });
+      // Prefer the monthly budget for the dashboard; fall back to the annual one
+      const budget = budgets.find(candidate => candidate.month !== null) ?? budgets[0];
+
+      rows.push({
+        costCenterId: costCenter.id,
+        code: costCenter.code,
+        name: costCenter.name,
+        blockOverBudget: costCenter.blockOverBudget,
+        ...this.summarize(budget, entries),
+      });
+    }
+
+    return rows.sort((a, b) => b.utilization - a.utilization);
+  }
+}
+
+export const budgetService = new BudgetService();
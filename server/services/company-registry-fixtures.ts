@@ -0,0 +1,60 @@
+import type { CompanyRegistryRecord } from "./company-registry";
+
+// Sample Receita Federal records served by the fixture provider in development
+export const companyRegistryFixtures: CompanyRegistryRecord[] = [
+  {
+    cnpj: "11222333000181",
+    legalName: "PAPELARIA CENTRAL COMERCIO DE MATERIAIS LTDA",
+    tradeName: "PAPELARIA CENTRAL",
+    registrationStatus: "ATIVA",
+    cnae: "4761003",
+    cnaeDescription: "Comércio varejista de artigos de papelaria",
+    address: "Rua das Flores, 120 - Centro, São Paulo/SP - CEP 01010-000",
+    email: "contato@papelariacentral.com.br",
+    phone: "(11) 3333-1200",
+  },
+  {
+    cnpj: "45723174000110",
+    legalName: "TECH SOLUTIONS INFORMATICA LTDA",
+    tradeName: "TECH SOLUTIONS",
+    registrationStatus: "ATIVA",
+    cnae: "4751201",
+    cnaeDescription: "Comércio varejista especializado de equipamentos e suprimentos de informática",
+    address: "Avenida Paulista, 1500, Sala 42 - Bela Vista, São Paulo/SP - CEP 01310-200",
+    email: "vendas@techsolutions.com.br",
+    phone: "(11) 4004-1500",
+  },
+  {
+    cnpj: "33000167000101",
+    legalName: "LIMPEZA TOTAL PRODUTOS E SERVICOS EIRELI",
+    tradeName: "LIMPEZA TOTAL",
+    registrationStatus: "SUSPENSA",
+    cnae: "4649408",
+    cnaeDescription: "Comércio atacadista de produtos de higiene, limpeza e conservação domiciliar",
+    address: "Rua Industrial, 45 - Distrito Industrial, Campinas/SP - CEP 13054-000",
+    email: null,
+    phone: "(19) 3232-4500",
+  },
+  {
+    cnpj: "07526557000100",
+    legalName: "MOVEIS ESCRITORIO BRASIL LTDA",
+    tradeName: null,
+    registrationStatus: "BAIXADA",
+    cnae: "3101200",
+    cnaeDescription: "Fabricação de móveis com predominância de madeira",
+    address: "Rodovia BR-116, km 12 - Bento Gonçalves/RS - CEP 95700-000",
+    email: null,
+    phone: null,
+  },
+  {
+    cnpj: "19131243000197",
+    legalName: "CONSTRUMAX MATERIAIS DE CONSTRUCAO S/A",
+    tradeName: "CONSTRUMAX",
+    registrationStatus: "INAPTA",
+    cnae: "4744099",
+    cnaeDescription: "Comércio varejista de materiais de construção em geral",
+    address: "Avenida do Contorno, 800 - Funcionários, Belo Horizonte/MG - CEP 30110-000",
+    email: "compras@construmax.com.br",
+    phone: "(31) 3500-8000",
+  },
+];
@@ -0,0 +1,141 @@
+import { storage } from "../storage";
+import { isValidCnpj, onlyDigits } from "@shared/documents";
+import type { Supplier } from "@shared/schema";
+import { companyRegistryFixtures } from "./company-registry-fixtures";
+
+export class CompanyRegistryError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "CompanyRegistryError";
+  }
+}
+
+// Company data as registered at Receita Federal
+export interface CompanyRegistryRecord {
+  cnpj: string;
+  legalName: string;
+  tradeName: string | null;
+  registrationStatus: string; // ATIVA, SUSPENSA, INAPTA, BAIXADA, NULA
+  cnae: string;
+  cnaeDescription: string;
+  address: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface CompanyRegistryProvider {
+  readonly name: string;
+  // Resolves to null when the CNPJ is not registered
+  lookup(cnpj: string): Promise<CompanyRegistryRecord | null>;
+}
+
+export class FixtureRegistryProvider implements CompanyRegistryProvider {
+  readonly name = "fixture";
+
+  constructor(private readonly records: CompanyRegistryRecord[] = companyRegistryFixtures) {}
+
+  async lookup(cnpj: string): Promise<CompanyRegistryRecord | null> {
+    return this.records.find(record => record.cnpj === cnpj) ?? null;
+  }
+}
+
+// Public BrasilAPI mirror of the Receita Federal CNPJ database
+export class BrasilApiRegistryProvider implements CompanyRegistryProvider {
+  readonly name = "brasilapi";
+
+  constructor(private readonly baseUrl: string = "https://brasilapi.com.br/api/cnpj/v1") {}
+
+  async lookup(cnpj: string): Promise<CompanyRegistryRecord | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${cnpj}`, { signal: AbortSignal.timeout(10000) });
+    } catch (error) {
+      throw new CompanyRegistryError(`Consulta de CNPJ indisponível: ${(error as Error).message}`, 502);
+    }
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new CompanyRegistryError(`Consulta de CNPJ indisponível (HTTP ${response.status})`, 502);
+    }
+
+    const data = await response.json();
+    const street = [data.descricao_tipo_de_logradouro, data.logradouro].filter(Boolean).join(" ");
+    const address = [
+      [street, data.numero, data.complemento].filter(Boolean).join(", "),
+      data.bairro,
+      [data.municipio, data.uf].filter(Boolean).join("/"),
+      data.cep && `CEP ${data.cep}`,
+    ].filter(Boolean).join(" - ");
+    const phone = onlyDigits(data.ddd_telefone_1);
+
+    return {
+      cnpj,
+      legalName: data.razao_social,
+      tradeName: data.nome_fantasia || null,
+      registrationStatus: String(data.descricao_situacao_cadastral ?? "").toUpperCase(),
+      cnae: String(data.cnae_fiscal ?? ""),
+      cnaeDescription: data.cnae_fiscal_descricao ?? "",
+      address,
+      email: data.email ? String(data.email).toLowerCase() : null,
+      phone: phone.length >= 10 ? `(${phone.slice(0, 2)}) ${phone.slice(2, -4)}-${phone.slice(-4)}` : null,
+    };
+  }
+}
+
+export function isActiveRegistration(record: Pick<CompanyRegistryRecord, "registrationStatus">): boolean {
+  return record.registrationStatus.toUpperCase() === "ATIVA";
+}
+
+function createDefaultProvider(): CompanyRegistryProvider {
+  if (process.env.COMPANY_REGISTRY_PROVIDER === "brasilapi") {
+    return new BrasilApiRegistryProvider(process.env.COMPANY_REGISTRY_URL || undefined);
+  }
+  console.log("COMPANY_REGISTRY_PROVIDER not set. CNPJ lookups will use local fixtures for development.");
+  return new FixtureRegistryProvider();
+}
+
+class CompanyRegistryService {
+  constructor(private provider: CompanyRegistryProvider) {}
+
+  // Swaps the data source, e.g. a fixture provider in tests
+  setProvider(provider: CompanyRegistryProvider): void {
+    this.provider = provider;
+  }
+
+  async lookup(document: string): Promise<CompanyRegistryRecord> {
+    const cnpj = onlyDigits(document);
+    if (!isValidCnpj(cnpj)) {
+      throw new CompanyRegistryError("CNPJ inválido - a consulta não está disponível para CPF");
+    }
+
+    const record = await this.provider.lookup(cnpj);
+    if (!record) {
+      throw new CompanyRegistryError(`CNPJ ${cnpj} não encontrado na Receita Federal`, 404);
+    }
+    return record;
+  }
+
+  // Stores the current registration status; active suppliers whose registration is not ATIVA go back to pendente
+  async refreshSupplier(supplierId: string): Promise<{ supplier: Supplier; record: CompanyRegistryRecord }> {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier) {
+      throw new CompanyRegistryError("Supplier not found", 404);
+    }
+    if (!supplier.cnpj) {
+      throw new CompanyRegistryError("Fornecedor sem CNPJ cadastrado");
+    }
+
+    const record = await this.lookup(supplier.cnpj);
+    const updated = await storage.updateSupplier(supplier.id, {
+      tradeName: supplier.tradeName || record.tradeName,
+      cnae: record.cnae,
+      registrationStatus: record.registrationStatus,
+      registryCheckedAt: new Date(),
+      status: !isActiveRegistration(record) && supplier.status === "ativo" ? "pendente" : supplier.status,
+    });
+
+    return { supplier: updated, record };
+  }
+}
+
+export const companyRegistryService = new CompanyRegistryService(createDefaultProvider());
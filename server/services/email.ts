@@ -1,5 +1,11 @@
 import nodemailer from 'nodemailer';
 
+// Personal portal link sent to one supplier for one quotation request
+export interface SupplierPortalInvite {
+  url: string;
+  expiresAt: Date;
+}
+
 interface EmailConfig {
   host: string;
   port: number;
@@ -65,9 +71,14 @@ class EmailService {
     }
   }
 
-  async sendQuotationRequestNotification(suppliers: any[], quotationRequest: any): Promise<void> {
+  async sendQuotationRequestNotification(
+    suppliers: any[],
+    quotationRequest: any,
+    portalInvites: Record<string, SupplierPortalInvite> = {},
+  ): Promise<void> {
     try {
       const mailPromises = suppliers.map(async (supplier) => {
+        const invite = portalInvites[supplier.id];
         const mailOptions = {
           from: process.env.SMTP_USER || 'sistema@trustcota.com',
           to: supplier.email,
@@ -87,11 +98,23 @@ class EmailService {
                 <p><strong>Data Limite:</strong> ${quotationRequest.expectedDeliveryDate ? new Date(quotationRequest.expectedDeliveryDate).toLocaleDateString('pt-BR') : 'A definir'}</p>
               </div>
               
+              ${invite ? `
+              <p>Para enviar sua cotação, acesse o link exclusivo abaixo. Não é necessário cadastro.</p>
+              
+              <div style="margin: 30px 0;">
+                <a href="${invite.url}" style="background-color: #1976D2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Enviar Cotação</a>
+              </div>
+              
+              <p style="color: #666; font-size: 12px;">
+                Este link é pessoal e válido até ${invite.expiresAt.toLocaleString('pt-BR')}. Não o compartilhe.
+              </p>
+              ` : `
               <p>Para enviar sua cotação, acesse nosso sistema ou responda este email.</p>
               
               <div style="margin: 30px 0;">
                 <a href="#" style="background-color: #1976D2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Acessar Sistema</a>
               </div>
+              `}
               
               <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
               <p style="color: #666; font-size: 12px;">
@@ -113,6 +136,165 @@ class EmailService {
     }
   }
 
+  // The portal link itself cannot be resent (only its hash is stored), so this points back to the invitation
+  async sendQuotationReminder(supplier: any, quotationRequest: any, linkExpiresAt: Date): Promise<void> {
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_USER || 'sistema@trustcota.com',
+        to: supplier.email,
+        subject: `Lembrete: Cotação ${quotationRequest.requestNumber} encerra em breve`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #1976D2;">Lembrete de Cotação</h2>
+            <p>Olá ${supplier.contactPerson || supplier.name},</p>
+            <p>Ainda não recebemos sua cotação para a solicitação abaixo:</p>
+            
+            <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+              <p><strong>Número:</strong> ${quotationRequest.requestNumber}</p>
+              <p><strong>Título:</strong> ${quotationRequest.title}</p>
+              <p><strong>Prazo para resposta:</strong> ${new Date(quotationRequest.responseDeadline).toLocaleString('pt-BR')}</p>
+            </div>
+            
+            <p>Para enviar sua cotação, utilize o link recebido no e-mail de convite desta solicitação.</p>
+            
+            <p style="color: #666; font-size: 12px;">
+              O link do convite continua válido até ${linkExpiresAt.toLocaleString('pt-BR')}.
+            </p>
+            
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+            <p style="color: #666; font-size: 12px;">
+              TrustCota Sys - Sistema de Compras e Cotações<br>
+              LP Administradora
+            </p>
+          </div>
+        `,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log('Quotation reminder sent successfully');
+    } catch (error) {
+      console.error('Error sending quotation reminder:', error);
+      throw new Error('Failed to send quotation reminder');
+    }
+  }
+
+  async sendDocumentExpiryAlert(supplier: any, documentType: any, document: any): Promise<void> {
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_USER || 'sistema@trustcota.com',
+        to: supplier.email,
+        subject: `Documento a vencer: ${documentType.name}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #F57C00;">Documento a Vencer</h2>
+            <p>Olá ${supplier.contactPerson || supplier.name},</p>
+            <p>O documento abaixo, mantido em seu cadastro de fornecedor, está próximo do vencimento:</p>
+            
+            <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+              <p><strong>Documento:</strong> ${documentType.name}</p>
+              <p><strong>Emissão:</strong> ${new Date(document.issueDate).toLocaleDateString('pt-BR')}</p>
+              <p><strong>Vencimento:</strong> ${new Date(document.expiryDate).toLocaleDateString('pt-BR')}</p>
+            </div>
+            
+            <p>Envie a versão atualizada ao seu contato de compras antes do vencimento.${documentType.isMandatory ? ' Por ser um documento obrigatório, o cadastro será bloqueado para novas cotações se ele vencer.' : ''}</p>
+            
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+            <p style="color: #666; font-size: 12px;">
+              TrustCota Sys - Sistema de Compras e Cotações<br>
+              LP Administradora
+            </p>
+          </div>
+        `,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log('Document expiry alert sent successfully');
+    } catch (error) {
+      console.error('Error sending document expiry alert:', error);
+      throw new Error('Failed to send document expiry alert');
+    }
+  }
+
+  async sendOnboardingInvite(supplier: any, invite: SupplierPortalInvite): Promise<void> {
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_USER || 'sistema@trustcota.com',
+        to: supplier.email,
+        subject: 'Complete seu cadastro de fornecedor',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #1976D2;">Cadastro de Fornecedor</h2>
+            <p>Olá ${supplier.contactPerson || supplier.name},</p>
+            <p>Para participar das nossas cotações, complete o cadastro de <strong>${supplier.name}</strong> informando os dados bancários, os documentos exigidos e as categorias de produtos que sua empresa fornece.</p>
+            
+            <div style="margin: 30px 0;">
+              <a href="${invite.url}" style="background-color: #1976D2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Preencher Cadastro</a>
+            </div>
+            
+            <p style="color: #666; font-size: 12px;">
+              Este link é pessoal e válido até ${invite.expiresAt.toLocaleString('pt-BR')}.
+            </p>
+            
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+            <p style="color: #666; font-size: 12px;">
+              TrustCota Sys - Sistema de Compras e Cotações<br>
+              LP Administradora
+            </p>
+          </div>
+        `,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log('Onboarding invite sent successfully');
+    } catch (error) {
+      console.error('Error sending onboarding invite:', error);
+      throw new Error('Failed to send onboarding invite');
+    }
+  }
+
+  async sendOnboardingRejection(supplier: any, reasons: string[], invite: SupplierPortalInvite): Promise<void> {
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_USER || 'sistema@trustcota.com',
+        to: supplier.email,
+        subject: 'Cadastro de fornecedor: correções necessárias',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #D32F2F;">Cadastro Não Aprovado</h2>
+            <p>Olá ${supplier.contactPerson || supplier.name},</p>
+            <p>Analisamos o cadastro de <strong>${supplier.name}</strong> e precisamos das seguintes correções:</p>
+            
+            <div style="background-color: #ffebee; padding: 15px; border-radius: 5px; margin: 20px 0;">
+              <ul>
+                ${reasons.map(reason => `<li>${reason}</li>`).join('')}
+              </ul>
+            </div>
+            
+            <div style="margin: 30px 0;">
+              <a href="${invite.url}" style="background-color: #1976D2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Corrigir Cadastro</a>
+            </div>
+            
+            <p style="color: #666; font-size: 12px;">
+              Este link substitui o enviado anteriormente e é válido até ${invite.expiresAt.toLocaleString('pt-BR')}.
+            </p>
+            
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+            <p style="color: #666; font-size: 12px;">
+              TrustCota Sys - Sistema de Compras e Cotações<br>
+              LP Administradora
+            </p>
+          </div>
+        `,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log('Onboarding rejection sent successfully');
+    } catch (error) {
+      console.error('Error sending onboarding rejection:', error);
+      throw new Error('Failed to send onboarding rejection');
+    }
+  }
+
   async sendRejectionNotification(quotationRequest: any, reason: string): Promise<void> {
     try {
       const mailOptions = {
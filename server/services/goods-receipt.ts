@@ -0,0 +1,146 @@
+import { storage, OverReceiptError } from "../storage";
+import type { GoodsReceipt, GoodsReceiptItem, PurchaseOrder, Supplier } from "@shared/schema";
+import { PurchaseOrderError } from "./purchase-order";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Orders can only receive goods once the supplier has confirmed them
+const RECEIVABLE_STATUSES = ["confirmado", "parcialmente_entregue"];
+
+export interface GoodsReceiptInput {
+  receivedAt: Date;
+  notes?: string | null;
+  items: {
+    purchaseOrderItemId: string;
+    quantityReceived: number;
+    divergenceNotes?: string | null;
+  }[];
+}
+
+export interface GoodsReceiptDetails extends GoodsReceipt {
+  items: GoodsReceiptItem[];
+}
+
+class GoodsReceiptService {
+  async getReceipts(purchaseOrderId: string): Promise<GoodsReceiptDetails[]> {
+    const receipts = await storage.getGoodsReceipts(purchaseOrderId);
+    return await Promise.all(receipts.map(async receipt => ({
+      ...receipt,
+      items: await storage.getGoodsReceiptItems(receipt.id),
+    })));
+  }
+
+  // Quantity received so far for each purchase order line
+  async getReceivedQuantities(purchaseOrderId: string): Promise<Map<string, number>> {
+    const received = new Map<string, number>();
+    for (const receipt of await this.getReceipts(purchaseOrderId)) {
+      for (const item of receipt.items) {
+        received.set(item.purchaseOrderItemId, (received.get(item.purchaseOrderItemId) ?? 0) + Number(item.quantityReceived));
+      }
+    }
+    return received;
+  }
+
+  // Records a (possibly partial) delivery and moves the order to parcialmente_entregue or entregue
+  async record(purchaseOrderId: string, input: GoodsReceiptInput, userId: string): Promise<{ receipt: GoodsReceiptDetails; order: PurchaseOrder }> {
+    const order = await storage.getPurchaseOrder(purchaseOrderId);
+    if (!order) {
+      throw new PurchaseOrderError("Purchase order not found", 404);
+    }
+    if (!RECEIVABLE_STATUSES.includes(order.status ?? "pendente")) {
+      throw new PurchaseOrderError(`Goods cannot be received for a purchase order in status "${order.status}"`, 409);
+    }
+    if (input.receivedAt.getTime() > Date.now()) {
+      throw new PurchaseOrderError("Receipt date cannot be in the future");
+    }
+
+    const lines = new Map((await storage.getPurchaseOrderItems(order.id)).map(line => [line.id, line]));
+    const receivedLines = input.items.filter(item => item.quantityReceived > 0);
+    if (receivedLines.length === 0) {
+      throw new PurchaseOrderError("Inform the received quantity of at least one item");
+    }
+
+    for (const item of receivedLines) {
+      if (!lines.has(item.purchaseOrderItemId)) {
+        throw new PurchaseOrderError("Received item does not belong to this purchase order");
+      }
+    }
+
+    // Outstanding quantities are checked again by the storage layer, in the same transaction as the write
+    let recorded: { receipt: GoodsReceipt; items: GoodsReceiptItem[] };
+    try {
+      recorded = await storage.recordGoodsReceipt({
+        receipt: {
+          purchaseOrderId: order.id,
+          receivedAt: input.receivedAt,
+          receivedById: userId,
+          notes: input.notes ?? null,
+        },
+        items: receivedLines.map(item => ({
+          purchaseOrderItemId: item.purchaseOrderItemId,
+          quantityReceived: item.quantityReceived.toString(),
+          divergenceNotes: item.divergenceNotes ?? null,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof OverReceiptError) {
+        const line = lines.get(error.purchaseOrderItemId)!;
+        throw new PurchaseOrderError(`Received quantity for "${line.productName}" exceeds the ${error.outstanding} ${line.unit} still outstanding`);
+      }
+      throw error;
+    }
+    const { receipt, items } = recorded;
+
+    for (const item of receivedLines) {
+      // Divergences noted on receipt count as quality incidents in the supplier score
+      if (item.divergenceNotes?.trim()) {
+        await storage.createSupplierIncident({
+          supplierId: order.supplierId,
+          purchaseOrderId: order.id,
+          goodsReceiptId: receipt.id,
+          severity: "media",
+          description: `${lines.get(item.purchaseOrderItemId)!.productName}: ${item.divergenceNotes.trim()}`,
+          occurredAt: input.receivedAt,
+          createdById: userId,
+        });
+      }
+    }
+
+    const received = await this.getReceivedQuantities(order.id);
+    const fullyDelivered = Array.from(lines.values())
+      .every(line => (received.get(line.id) ?? 0) >= Number(line.quantity) - 1e-9);
+    const status = fullyDelivered ? "entregue" : "parcialmente_entregue";
+    const updated = status !== order.status
+      ? await storage.updatePurchaseOrder(order.id, { status }, userId)
+      : order;
+
+    const supplier = await storage.getSupplier(order.supplierId);
+    if (supplier) {
+      await this.updateAverageDeliveryTime(supplier);
+    }
+
+    return { receipt: { ...receipt, items }, order: updated };
+  }
+
+  // Days from placing each order to its latest receipt, averaged over the supplier's received orders
+  async updateAverageDeliveryTime(supplier: Supplier): Promise<Supplier> {
+    const orders = (await storage.getPurchaseOrders()).filter(order => order.supplierId === supplier.id);
+    const durations: number[] = [];
+
+    for (const order of orders) {
+      const receipts = await storage.getGoodsReceipts(order.id);
+      if (receipts.length === 0) continue;
+      const placedAt = order.sentAt ?? order.confirmedAt ?? order.createdAt;
+      if (!placedAt) continue;
+      const lastReceipt = Math.max(...receipts.map(receipt => receipt.receivedAt.getTime()));
+      durations.push(Math.max(0, (lastReceipt - placedAt.getTime()) / DAY_MS));
+    }
+
+    if (durations.length === 0) return supplier;
+    const averageDeliveryTime = Math.round(durations.reduce((sum, days) => sum + days, 0) / durations.length);
+    if (averageDeliveryTime === supplier.averageDeliveryTime) return supplier;
+    return await storage.updateSupplier(supplier.id, { averageDeliveryTime });
+  }
+}
+
+export const goodsReceiptService = new GoodsReceiptService();
@@ -0,0 +1,351 @@
+import { storage } from "../storage";
+import { goodsReceiptService } from "./goods-receipt";
+import type { InvoiceMatchTolerance, PurchaseOrder, PurchaseOrderItem, Supplier, SupplierInvoice, SupplierInvoiceItem } from "@shared/schema";
+import type { InvoiceStatus } from "@shared/workflow";
+
+export class InvoiceMatchError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "InvoiceMatchError";
+  }
+}
+
+export type MatchIssueType =
+  | "item_nao_pedido"
+  | "quantidade_excedente"
+  | "quantidade_nao_recebida"
+  | "preco_divergente"
+  | "total_divergente";
+
+export interface MatchIssue {
+  type: MatchIssueType;
+  purchaseOrderItemId: string | null;
+  description: string;
+  expected: number;
+  actual: number;
+}
+
+export interface MatchTolerances {
+  priceTolerancePercent: number;
+  quantityTolerancePercent: number;
+  amountTolerance: number;
+}
+
+export interface InvoiceInput {
+  invoiceNumber: string;
+  series?: string | null;
+  accessKey?: string | null;
+  issueDate: Date;
+  dueDate?: Date | null;
+  totalAmount: number;
+  additionalCharges?: number | null;
+  icmsAmount?: number | null;
+  ipiAmount?: number | null;
+  items: {
+    purchaseOrderItemId?: string | null;
+    description?: string | null;
+    productCode?: string | null;
+    ncm?: string | null;
+    quantity: number;
+    unitPrice: number;
+    icmsAmount?: number | null;
+    ipiAmount?: number | null;
+  }[];
+}
+
+export interface InvoiceDetails extends Omit<SupplierInvoice, "matchIssues"> {
+  matchIssues: MatchIssue[];
+  items: SupplierInvoiceItem[];
+  purchaseOrder?: PurchaseOrder;
+  supplier?: Supplier;
+}
+
+// Shape shared by stored invoice lines and lines still being registered
+type InvoiceLine = Omit<SupplierInvoiceItem, "id" | "invoiceId">;
+
+const DEFAULT_TOLERANCES: MatchTolerances = { priceTolerancePercent: 0, quantityTolerancePercent: 0, amountTolerance: 0 };
+
+// Quantities carry three decimals and prices two; ignore differences below that precision
+const QUANTITY_EPSILON = 1e-6;
+const MONEY_EPSILON = 0.005;
+
+const toTolerances = (row: InvoiceMatchTolerance): MatchTolerances => ({
+  priceTolerancePercent: Number(row.priceTolerancePercent ?? 0),
+  quantityTolerancePercent: Number(row.quantityTolerancePercent ?? 0),
+  amountTolerance: Number(row.amountTolerance ?? 0),
+});
+
+class InvoiceMatchService {
+  // Supplier-specific tolerances win over the global row; without either, everything must match exactly
+  async getTolerances(supplierId: string): Promise<MatchTolerances> {
+    const rows = await storage.getInvoiceMatchTolerances();
+    const row = rows.find(tolerance => tolerance.supplierId === supplierId)
+      ?? rows.find(tolerance => !tolerance.supplierId);
+    return row ? toTolerances(row) : DEFAULT_TOLERANCES;
+  }
+
+  async getInvoices(filters?: { purchaseOrderId?: string; status?: InvoiceStatus }): Promise<InvoiceDetails[]> {
+    const invoices = await storage.getSupplierInvoices(filters);
+    return await Promise.all(invoices.map(invoice => this.withDetails(invoice)));
+  }
+
+  async getDetails(id: string): Promise<InvoiceDetails> {
+    const invoice = await storage.getSupplierInvoice(id);
+    if (!invoice) {
+      throw new InvoiceMatchError("Invoice not found", 404);
+    }
+    return await this.withDetails(invoice);
+  }
+
+  // Registers the supplier's invoice for a purchase order and runs the three-way match right away
+  async register(purchaseOrderId: string, input: InvoiceInput, userId: string): Promise<InvoiceDetails> {
+    const order = await storage.getPurchaseOrder(purchaseOrderId);
+    if (!order) {
+      throw new InvoiceMatchError("Purchase order not found", 404);
+    }
+    if (order.status === "pendente" || order.status === "cancelado") {
+      throw new InvoiceMatchError(`Invoices cannot be registered for a purchase order in status "${order.status}"`, 409);
+    }
+    if (input.items.length === 0) {
+      throw new InvoiceMatchError("Inform at least one invoice line");
+    }
+
+    const duplicate = (await storage.getSupplierInvoices()).find(invoice =>
+      invoice.status !== "cancelado" && (
+        (!!input.accessKey && invoice.accessKey === input.accessKey)
+        || (invoice.supplierId === order.supplierId
+          && invoice.invoiceNumber === input.invoiceNumber
+          && (invoice.series ?? "") === (input.series ?? ""))
+      )
+    );
+    if (duplicate) {
+      throw new InvoiceMatchError(`Invoice ${input.invoiceNumber} was already registered for this supplier`, 409);
+    }
+
+    const orderLines = new Map((await storage.getPurchaseOrderItems(order.id)).map(line => [line.id, line]));
+    const lines: InvoiceLine[] = input.items.map(item => {
+      const orderLine = item.purchaseOrderItemId ? orderLines.get(item.purchaseOrderItemId) : undefined;
+      return {
+        purchaseOrderItemId: item.purchaseOrderItemId ?? null,
+        description: item.description || orderLine?.productName || "Item sem descrição",
+        productCode: item.productCode ?? null,
+        ncm: item.ncm ?? null,
+        quantity: item.quantity.toString(),
+        unitPrice: item.unitPrice.toFixed(2),
+        totalPrice: (item.quantity * item.unitPrice).toFixed(2),
+        icmsAmount: item.icmsAmount != null ? item.icmsAmount.toFixed(2) : null,
+        ipiAmount: item.ipiAmount != null ? item.ipiAmount.toFixed(2) : null,
+      };
+    });
+
+    const issues = await this.findIssues(order, orderLines, lines, input.totalAmount - (input.additionalCharges ?? 0));
+    const now = new Date();
+    const invoice = await storage.createSupplierInvoice({
+      purchaseOrderId: order.id,
+      supplierId: order.supplierId,
+      invoiceNumber: input.invoiceNumber,
+      series: input.series ?? null,
+      accessKey: input.accessKey ?? null,
+      issueDate: input.issueDate,
+      dueDate: input.dueDate ?? null,
+      totalAmount: input.totalAmount.toFixed(2),
+      additionalCharges: (input.additionalCharges ?? 0).toFixed(2),
+      icmsAmount: input.icmsAmount != null ? input.icmsAmount.toFixed(2) : null,
+      ipiAmount: input.ipiAmount != null ? input.ipiAmount.toFixed(2) : null,
+      status: issues.length === 0 ? "a_pagar" : "divergente",
+      matchIssues: issues,
+      matchedAt: issues.length === 0 ? now : null,
+      createdById: userId,
+    });
+
+    for (const line of lines) {
+      await storage.createSupplierInvoiceItem({ ...line, invoiceId: invoice.id });
+    }
+
+    return await this.withDetails(invoice);
+  }
+
+  // Re-runs the match for a divergent invoice, e.g. after the missing goods were received
+  async rematch(id: string, userId: string): Promise<InvoiceDetails> {
+    const invoice = await storage.getSupplierInvoice(id);
+    if (!invoice) {
+      throw new InvoiceMatchError("Invoice not found", 404);
+    }
+    if (invoice.status !== "divergente") {
+      throw new InvoiceMatchError(`Only divergent invoices can be matched again; this one is "${invoice.status}"`, 409);
+    }
+
+    const order = await storage.getPurchaseOrder(invoice.purchaseOrderId);
+    if (!order) {
+      throw new InvoiceMatchError("Purchase order not found", 404);
+    }
+    const orderLines = new Map((await storage.getPurchaseOrderItems(order.id)).map(line => [line.id, line]));
+    const lines = await storage.getSupplierInvoiceItems(invoice.id);
+    const linesAmount = Number(invoice.totalAmount) - Number(invoice.additionalCharges ?? 0);
+    const issues = await this.findIssues(order, orderLines, lines, linesAmount, invoice.id);
+
+    const updated = await storage.updateSupplierInvoice(invoice.id, issues.length === 0
+      ? { status: "a_pagar", matchIssues: issues, matchedAt: new Date() }
+      : { matchIssues: issues }, userId);
+    return await this.withDetails(updated);
+  }
+
+  // Divergent invoices of an order whose quantities may have been settled by a new goods receipt
+  async rematchPurchaseOrder(purchaseOrderId: string, userId: string): Promise<InvoiceDetails[]> {
+    const divergent = await storage.getSupplierInvoices({ purchaseOrderId, status: "divergente" });
+    const results: InvoiceDetails[] = [];
+    // One at a time: each match counts the quantities billed by the order's other invoices
+    for (const invoice of divergent) {
+      results.push(await this.rematch(invoice.id, userId));
+    }
+    return results;
+  }
+
+  // The approver accepts the mismatch and releases the invoice for payment
+  async approveException(id: string, notes: string, userId: string): Promise<InvoiceDetails> {
+    const invoice = await storage.getSupplierInvoice(id);
+    if (!invoice) {
+      throw new InvoiceMatchError("Invoice not found", 404);
+    }
+    if (invoice.status !== "divergente") {
+      throw new InvoiceMatchError("Only divergent invoices have exceptions to approve", 409);
+    }
+
+    const updated = await storage.updateSupplierInvoice(invoice.id, {
+      status: "a_pagar",
+      exceptionApprovedById: userId,
+      exceptionApprovedAt: new Date(),
+      exceptionNotes: notes,
+    }, userId);
+    return await this.withDetails(updated);
+  }
+
+  async markPaid(id: string, userId: string): Promise<InvoiceDetails> {
+    const invoice = await storage.getSupplierInvoice(id);
+    if (!invoice) {
+      throw new InvoiceMatchError("Invoice not found", 404);
+    }
+    if (invoice.status === "divergente") {
+      throw new InvoiceMatchError("The invoice has unresolved three-way match exceptions and cannot be paid", 409);
+    }
+
+    const updated = await storage.updateSupplierInvoice(invoice.id, { status: "pago", paidAt: new Date() }, userId);
+    return await this.withDetails(updated);
+  }
+
+  async cancel(id: string, userId: string): Promise<InvoiceDetails> {
+    const invoice = await storage.getSupplierInvoice(id);
+    if (!invoice) {
+      throw new InvoiceMatchError("Invoice not found", 404);
+    }
+    const updated = await storage.updateSupplierInvoice(invoice.id, { status: "cancelado" }, userId);
+    return await this.withDetails(updated);
+  }
+
+  // Quantity already billed for each purchase order line by the order's active invoices
+  async getInvoicedQuantities(purchaseOrderId: string, excludeInvoiceId?: string): Promise<Map<string, number>> {
+    const invoiced = new Map<string, number>();
+    const invoices = (await storage.getSupplierInvoices({ purchaseOrderId }))
+      .filter(invoice => invoice.id !== excludeInvoiceId && invoice.status !== "cancelado");
+    for (const invoice of invoices) {
+      for (const line of await storage.getSupplierInvoiceItems(invoice.id)) {
+        if (!line.purchaseOrderItemId) continue;
+        invoiced.set(line.purchaseOrderItemId, (invoiced.get(line.purchaseOrderItemId) ?? 0) + Number(line.quantity));
+      }
+    }
+    return invoiced;
+  }
+
+  // Compares invoice lines with the order lines (price, ordered quantity) and the goods receipts (received quantity).
+  // Quantities are cumulative over the order's other active invoices so partial billing is matched correctly.
+  private async findIssues(
+    order: PurchaseOrder,
+    orderLines: Map<string, PurchaseOrderItem>,
+    lines: InvoiceLine[],
+    linesAmount: number, // invoice total less the charges billed outside the lines
+    invoiceId?: string,
+  ): Promise<MatchIssue[]> {
+    const tolerances = await this.getTolerances(order.supplierId);
+    const received = await goodsReceiptService.getReceivedQuantities(order.id);
+    const issues: MatchIssue[] = [];
+
+    const invoiced = await this.getInvoicedQuantities(order.id, invoiceId);
+
+    const quantityFactor = 1 + tolerances.quantityTolerancePercent / 100;
+
+    for (const line of lines) {
+      const orderLine = line.purchaseOrderItemId ? orderLines.get(line.purchaseOrderItemId) : undefined;
+      if (!orderLine) {
+        issues.push({
+          type: "item_nao_pedido",
+          purchaseOrderItemId: line.purchaseOrderItemId,
+          description: line.description,
+          expected: 0,
+          actual: Number(line.quantity),
+        });
+        continue;
+      }
+
+      const quantity = Number(line.quantity);
+      const cumulative = (invoiced.get(orderLine.id) ?? 0) + quantity;
+      invoiced.set(orderLine.id, cumulative);
+
+      const ordered = Number(orderLine.quantity);
+      const receivedQuantity = received.get(orderLine.id) ?? 0;
+      if (cumulative > ordered * quantityFactor + QUANTITY_EPSILON) {
+        issues.push({
+          type: "quantidade_excedente",
+          purchaseOrderItemId: orderLine.id,
+          description: orderLine.productName,
+          expected: ordered,
+          actual: cumulative,
+        });
+      } else if (cumulative > receivedQuantity * quantityFactor + QUANTITY_EPSILON) {
+        issues.push({
+          type: "quantidade_nao_recebida",
+          purchaseOrderItemId: orderLine.id,
+          description: orderLine.productName,
+          expected: receivedQuantity,
+          actual: cumulative,
+        });
+      }
+
+      const orderedPrice = Number(orderLine.unitPrice);
+      const invoicedPrice = Number(line.unitPrice);
+      if (Math.abs(invoicedPrice - orderedPrice) > orderedPrice * tolerances.priceTolerancePercent / 100 + MONEY_EPSILON) {
+        issues.push({
+          type: "preco_divergente",
+          purchaseOrderItemId: orderLine.id,
+          description: orderLine.productName,
+          expected: orderedPrice,
+          actual: invoicedPrice,
+        });
+      }
+    }
+
+    const linesTotal = lines.reduce((sum, line) => sum + Number(line.totalPrice), 0);
+    if (Math.abs(linesAmount - linesTotal) > tolerances.amountTolerance + MONEY_EPSILON) {
+      issues.push({
+        type: "total_divergente",
+        purchaseOrderItemId: null,
+        description: "Total da nota difere da soma dos itens",
+        expected: Number(linesTotal.toFixed(2)),
+        actual: Number(linesAmount.toFixed(2)),
+      });
+    }
+
+    return issues;
+  }
+
+  private async withDetails(invoice: SupplierInvoice): Promise<InvoiceDetails> {
+    return {
+      ...invoice,
+      matchIssues: (invoice.matchIssues as MatchIssue[] | null) ?? [],
+      items: await storage.getSupplierInvoiceItems(invoice.id),
+      purchaseOrder: await storage.getPurchaseOrder(invoice.purchaseOrderId),
+      supplier: await storage.getSupplier(invoice.supplierId),
+    };
+  }
+}
+
+export const invoiceMatchService = new InvoiceMatchService();
@@ -0,0 +1,332 @@
+import { XMLParser } from "fast-xml-parser";
+import { storage } from "../storage";
+import { invoiceMatchService, type InvoiceDetails } from "./invoice-match";
+import { onlyDigits, formatTaxId } from "@shared/documents";
+import type { PurchaseOrder, PurchaseOrderItem } from "@shared/schema";
+
+export interface NfeItemResult {
+  itemNumber: number;
+  description: string;
+  ncm: string | null;
+  quantity: number;
+  unitPrice: number;
+  purchaseOrderItemId: string | null;
+  matched: boolean;
+  reason: string;
+}
+
+export class NfeImportError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly items: NfeItemResult[] = []) {
+    super(message);
+    this.name = "NfeImportError";
+  }
+}
+
+export interface ParsedNfeItem {
+  itemNumber: number;
+  productCode: string | null;
+  description: string;
+  ncm: string | null;
+  cfop: string | null;
+  unit: string | null;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  icmsAmount: number | null;
+  ipiAmount: number | null;
+  orderReference: string | null; // xPed: buyer's purchase order number
+  orderItemNumber: number | null; // nItemPed: line number within that order
+}
+
+export interface ParsedNfe {
+  accessKey: string;
+  number: string;
+  series: string | null;
+  issueDate: Date;
+  dueDate: Date | null;
+  emitterDocument: string; // CNPJ, or CPF for individual suppliers, digits only
+  emitterName: string;
+  orderReference: string | null;
+  totalAmount: number; // vNF: what the supplier is paid
+  productsAmount: number; // vProd: sum of the item values
+  icmsAmount: number | null;
+  ipiAmount: number | null;
+  items: ParsedNfeItem[];
+}
+
+export interface NfeImportResult {
+  invoice: InvoiceDetails;
+  items: NfeItemResult[];
+}
+
+// Orders that can still be billed: the supplier has them, and they were not cancelled
+const INVOICEABLE_STATUSES = ["enviado", "confirmado", "parcialmente_entregue", "entregue"];
+
+// SEFAZ authorization codes: 100 = authorized, 150 = authorized out of time
+const AUTHORIZED_STATUS_CODES = ["100", "150"];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false, // keep CNPJ, NCM and access keys as strings (leading zeros)
+  isArray: (name) => name === "det" || name === "dup",
+});
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const text = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  const trimmed = String(value).trim();
+  return trimmed === "" ? null : trimmed;
+};
+
+// Case, accent and punctuation insensitive product names
+const normalizeName = (value: string) => value
+  .normalize("NFD")
+  .replace(/[\u0300-\u036f]/g, "")
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, " ")
+  .trim();
+
+// Modulo 11 check digit of the 44-digit access key
+export function isValidAccessKey(accessKey: string): boolean {
+  if (!/^\d{44}$/.test(accessKey)) return false;
+  let sum = 0;
+  let weight = 2;
+  for (let i = 42; i >= 0; i--) {
+    sum += Number(accessKey[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  const checkDigit = rest < 2 ? 0 : 11 - rest;
+  return checkDigit === Number(accessKey[43]);
+}
+
+class NfeImportService {
+  parse(xml: string): ParsedNfe {
+    let document: any;
+    try {
+      document = parser.parse(xml);
+    } catch (error) {
+      throw new NfeImportError(`Arquivo XML inválido: ${(error as Error).message}`);
+    }
+
+    const nfe = document?.nfeProc?.NFe ?? document?.NFe;
+    const infNFe = nfe?.infNFe;
+    if (!infNFe) {
+      throw new NfeImportError("O arquivo não é uma NF-e (elemento infNFe não encontrado)");
+    }
+
+    const protocol = document?.nfeProc?.protNFe?.infProt;
+    const statusCode = text(protocol?.cStat);
+    if (statusCode && !AUTHORIZED_STATUS_CODES.includes(statusCode)) {
+      throw new NfeImportError(`NF-e não autorizada pela SEFAZ (cStat ${statusCode}: ${text(protocol?.xMotivo) ?? "sem motivo"})`, 422);
+    }
+
+    const accessKey = onlyDigits(protocol?.chNFe) || onlyDigits(infNFe["@_Id"]);
+    if (!isValidAccessKey(accessKey)) {
+      throw new NfeImportError(`Chave de acesso inválida: ${accessKey || "ausente"}`);
+    }
+
+    const ide = infNFe.ide ?? {};
+    const emit = infNFe.emit ?? {};
+    const totals = infNFe.total?.ICMSTot ?? {};
+    const issued = text(ide.dhEmi) ?? text(ide.dEmi);
+    const issueDate = issued ? new Date(issued) : null;
+    if (!issueDate || Number.isNaN(issueDate.getTime())) {
+      throw new NfeImportError("Data de emissão ausente ou inválida");
+    }
+
+    const emitterDocument = onlyDigits(emit.CNPJ) || onlyDigits(emit.CPF);
+    if (!emitterDocument) {
+      throw new NfeImportError("CNPJ do emitente não informado na NF-e");
+    }
+
+    const details: any[] = infNFe.det ?? [];
+    if (details.length === 0) {
+      throw new NfeImportError("A NF-e não possui itens");
+    }
+
+    const items: ParsedNfeItem[] = details.map((det, index) => {
+      const prod = det.prod ?? {};
+      const imposto = det.imposto ?? {};
+      // ICMS comes wrapped in its tax situation group (ICMS00, ICMS20, ICMSSN102...)
+      const icmsGroup: any = Object.values(imposto.ICMS ?? {})[0] ?? {};
+      return {
+        itemNumber: toNumber(det["@_nItem"]) ?? index + 1,
+        productCode: text(prod.cProd),
+        description: text(prod.xProd) ?? `Item ${index + 1}`,
+        ncm: text(prod.NCM),
+        cfop: text(prod.CFOP),
+        unit: text(prod.uCom),
+        quantity: toNumber(prod.qCom) ?? 0,
+        unitPrice: toNumber(prod.vUnCom) ?? 0,
+        totalPrice: toNumber(prod.vProd) ?? 0,
+        icmsAmount: toNumber(icmsGroup.vICMS),
+        ipiAmount: toNumber(imposto.IPI?.IPITrib?.vIPI),
+        orderReference: text(prod.xPed),
+        orderItemNumber: toNumber(prod.nItemPed),
+      };
+    });
+
+    const productsAmount = toNumber(totals.vProd) ?? items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const duplicates: any[] = infNFe.cobr?.dup ?? [];
+    const dueDate = text(duplicates[0]?.dVenc);
+
+    return {
+      accessKey,
+      number: text(ide.nNF) ?? accessKey.slice(25, 34),
+      series: text(ide.serie),
+      issueDate,
+      dueDate: dueDate ? new Date(`${dueDate}T12:00:00`) : null,
+      emitterDocument,
+      emitterName: text(emit.xNome) ?? emitterDocument,
+      orderReference: text(infNFe.compra?.xPed),
+      totalAmount: toNumber(totals.vNF) ?? productsAmount,
+      productsAmount,
+      icmsAmount: toNumber(totals.vICMS),
+      ipiAmount: toNumber(totals.vIPI),
+      items,
+    };
+  }
+
+  // Parses the XML, finds the emitting supplier and the open purchase order the items belong to,
+  // and registers the invoice (which runs the three-way match)
+  async import(xml: string, userId: string): Promise<NfeImportResult> {
+    const nfe = this.parse(xml);
+
+    const existing = (await storage.getSupplierInvoices())
+      .find(invoice => invoice.accessKey === nfe.accessKey && invoice.status !== "cancelado");
+    if (existing) {
+      throw new NfeImportError(`NF-e ${nfe.number} já foi importada (chave ${nfe.accessKey})`, 409);
+    }
+
+    const supplier = nfe.emitterDocument ? await storage.getSupplierByCnpj(nfe.emitterDocument) : undefined;
+    if (!supplier) {
+      throw new NfeImportError(
+        `Emitente ${nfe.emitterName} (${formatTaxId(nfe.emitterDocument)}) não está cadastrado como fornecedor`,
+        422,
+        nfe.items.map(item => this.unmatched(item, "Fornecedor emitente não cadastrado")),
+      );
+    }
+
+    const orders = (await storage.getPurchaseOrders())
+      .filter(order => order.supplierId === supplier.id && INVOICEABLE_STATUSES.includes(order.status ?? "pendente"));
+    if (orders.length === 0) {
+      throw new NfeImportError(
+        `O fornecedor ${supplier.name} não possui ordens de compra em aberto`,
+        422,
+        nfe.items.map(item => this.unmatched(item, "Nenhuma ordem de compra em aberto para o fornecedor")),
+      );
+    }
+
+    // Try every open order and keep the one covering most items; the order cited in the XML wins ties
+    let best: { order: PurchaseOrder; results: NfeItemResult[]; matched: number } | undefined;
+    for (const order of orders) {
+      const results = await this.matchItems(nfe, order);
+      const matched = results.filter(result => result.matched).length;
+      const isReferenced = this.referencesOrder(nfe, order);
+      if (!best || matched > best.matched || (matched === best.matched && isReferenced)) {
+        best = { order, results, matched };
+      }
+    }
+
+    if (!best || best.matched === 0) {
+      throw new NfeImportError(
+        `Nenhum item da NF-e ${nfe.number} corresponde a linhas em aberto das ordens de compra de ${supplier.name}`,
+        422,
+        best?.results ?? [],
+      );
+    }
+
+    const invoice = await invoiceMatchService.register(best.order.id, {
+      invoiceNumber: nfe.number,
+      series: nfe.series,
+      accessKey: nfe.accessKey,
+      issueDate: nfe.issueDate,
+      dueDate: nfe.dueDate,
+      totalAmount: nfe.totalAmount,
+      // IPI, ST, freight and discounts make up the difference between vNF and vProd
+      additionalCharges: nfe.totalAmount - nfe.productsAmount,
+      icmsAmount: nfe.icmsAmount,
+      ipiAmount: nfe.ipiAmount,
+      // Unmatched items are kept on the invoice so the match flags them instead of silently dropping them
+      items: nfe.items.map((item, index) => ({
+        purchaseOrderItemId: best!.results[index].purchaseOrderItemId,
+        description: item.description,
+        productCode: item.productCode,
+        ncm: item.ncm,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        icmsAmount: item.icmsAmount,
+        ipiAmount: item.ipiAmount,
+      })),
+    }, userId);
+
+    return { invoice, items: best.results };
+  }
+
+  private referencesOrder(nfe: ParsedNfe, order: PurchaseOrder): boolean {
+    return nfe.orderReference === order.orderNumber || nfe.items.some(item => item.orderReference === order.orderNumber);
+  }
+
+  // Pairs each NF-e item with one order line that still has quantity left to bill
+  private async matchItems(nfe: ParsedNfe, order: PurchaseOrder): Promise<NfeItemResult[]> {
+    const lines = await storage.getPurchaseOrderItems(order.id);
+    const invoiced = await invoiceMatchService.getInvoicedQuantities(order.id);
+    const open = (line: PurchaseOrderItem) => Number(line.quantity) - (invoiced.get(line.id) ?? 0);
+    const used = new Set<string>();
+
+    return nfe.items.map(item => {
+      const cited = (item.orderReference ?? nfe.orderReference) === order.orderNumber && item.orderItemNumber
+        ? lines[item.orderItemNumber - 1]
+        : undefined;
+      const name = normalizeName(item.description);
+      const line = (cited && !used.has(cited.id) ? cited : undefined)
+        ?? lines.find(candidate => {
+          if (used.has(candidate.id) || open(candidate) <= 0) return false;
+          const lineName = normalizeName(candidate.productName);
+          return lineName === name || lineName.includes(name) || name.includes(lineName);
+        });
+
+      if (!line) {
+        const alreadyBilled = lines.some(candidate => normalizeName(candidate.productName) === name && open(candidate) <= 0);
+        return this.unmatched(item, alreadyBilled
+          ? `Item já faturado integralmente na ordem ${order.orderNumber}`
+          : `Nenhuma linha em aberto da ordem ${order.orderNumber} corresponde a "${item.description}"`);
+      }
+
+      used.add(line.id);
+      return {
+        itemNumber: item.itemNumber,
+        description: item.description,
+        ncm: item.ncm,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        purchaseOrderItemId: line.id,
+        matched: true,
+        reason: `Conciliado com "${line.productName}" da ordem ${order.orderNumber}`,
+      };
+    });
+  }
+
+  private unmatched(item: ParsedNfeItem, reason: string): NfeItemResult {
+    return {
+      itemNumber: item.itemNumber,
+      description: item.description,
+      ncm: item.ncm,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      purchaseOrderItemId: null,
+      matched: false,
+      reason,
+    };
+  }
+}
+
+export const nfeImportService = new NfeImportService();
@@ -276,6 +276,16 @@ class OpenAIService {
   }
 
   async analyzePriceVariation(currentPrices: any[], historicalPrices: any[]): Promise<any> {
+    if (!openai) {
+      // Fallback response for development
+      return {
+        trendAnalysis: `${currentPrices.length} preço(s) recente(s) comparado(s) a ${historicalPrices.length} registro(s) anteriores`,
+        anomalies: [],
+        forecast: [],
+        recommendedActions: ["Configure a chave da OpenAI para obter a análise detalhada"],
+      };
+    }
+
     try {
       const prompt = `Analyze the price variation between current and historical prices:
 
@@ -0,0 +1,139 @@
+import { storage } from "../storage";
+import { median } from "./price-history";
+import type { SupplierQuotationItem } from "@shared/schema";
+
+export type PriceFlag = "suspeito_alto" | "suspeito_baixo";
+
+// Stored in supplierQuotationItems.priceFlagDetails
+export interface PriceFlagDetails {
+  median: number;
+  lowerFence: number;
+  upperFence: number;
+  deviation: number; // price against the median, as a fraction
+  historySize: number;
+  bidsSize: number;
+  checkedAt: string;
+}
+
+export interface PriceCheck {
+  flag: PriceFlag | null;
+  details: PriceFlagDetails;
+}
+
+export interface FlaggedLine {
+  supplierQuotationItemId: string;
+  quotationRequestItemId: string;
+  supplierId: string;
+  supplierName: string;
+  productName: string;
+  unitPrice: number;
+  isAwarded: boolean;
+  priceFlag: PriceFlag;
+  priceFlagDetails: PriceFlagDetails;
+}
+
+// Fewer reference prices than this say nothing about what a normal price is
+const MIN_REFERENCE_SIZE = 3;
+// Tukey fences: prices beyond 1.5 interquartile ranges from the quartiles are outliers
+const IQR_MULTIPLIER = 1.5;
+// When every reference price is (almost) the same the range collapses; the spread used for the
+// fences is never less than this fraction of the median
+const MIN_SPREAD = 0.1;
+const HISTORY_WINDOW_DAYS = 365;
+
+class PriceAnomalyService {
+  // Checks a price against reference prices with Tukey fences. Returns null without enough references.
+  check(unitPrice: number, history: number[], bids: number[], at: Date = new Date()): PriceCheck | null {
+    const references = [...history, ...bids];
+    if (references.length < MIN_REFERENCE_SIZE) return null;
+
+    const sorted = [...references].sort((a, b) => a - b);
+    const middle = median(sorted)!;
+    const spread = Math.max(quantile(sorted, 0.75) - quantile(sorted, 0.25), middle * MIN_SPREAD);
+    const lowerFence = quantile(sorted, 0.25) - IQR_MULTIPLIER * spread;
+    const upperFence = quantile(sorted, 0.75) + IQR_MULTIPLIER * spread;
+
+    return {
+      flag: unitPrice > upperFence ? "suspeito_alto" : unitPrice < lowerFence ? "suspeito_baixo" : null,
+      details: {
+        median: middle,
+        lowerFence,
+        upperFence,
+        deviation: middle > 0 ? (unitPrice - middle) / middle : 0,
+        historySize: history.length,
+        bidsSize: bids.length,
+        checkedAt: at.toISOString(),
+      },
+    };
+  }
+
+  // Re-checks every line of the request: a new bid moves the reference of the bids already there
+  async evaluateRequest(quotationRequestId: string, at: Date = new Date()): Promise<SupplierQuotationItem[]> {
+    const requestItems = await storage.getQuotationRequestItems(quotationRequestId);
+    const lines: SupplierQuotationItem[] = [];
+    for (const quotation of await storage.getSupplierQuotations(quotationRequestId)) {
+      lines.push(...await storage.getSupplierQuotationItems(quotation.id));
+    }
+    const lineIds = new Set(lines.map(line => line.id));
+    const from = new Date(at.getTime() - HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const flagged: SupplierQuotationItem[] = [];
+    for (const item of requestItems) {
+      // The awards of this same request are in the history too; they are already counted as bids
+      const history = item.productId
+        ? (await storage.getProductPriceHistory({ productId: item.productId, from, to: at }))
+            .filter(entry => entry.unit === item.unit && !(entry.supplierQuotationItemId && lineIds.has(entry.supplierQuotationItemId)))
+            .map(entry => Number(entry.unitPrice))
+        : [];
+      const itemLines = lines.filter(line => line.quotationRequestItemId === item.id);
+
+      for (const line of itemLines) {
+        const bids = itemLines.filter(other => other.id !== line.id).map(other => Number(other.unitPrice));
+        const result = this.check(Number(line.unitPrice), history, bids, at);
+        const priceFlag = result?.flag ?? null;
+        if (priceFlag === null && line.priceFlag === null && line.priceFlagDetails === null) continue;
+
+        const updated = await storage.updateSupplierQuotationItem(line.id, {
+          priceFlag,
+          priceFlagDetails: result?.details ?? null,
+        });
+        if (priceFlag) flagged.push(updated);
+      }
+    }
+    return flagged;
+  }
+
+  async getFlaggedLines(quotationRequestId: string): Promise<FlaggedLine[]> {
+    const requestItems = new Map((await storage.getQuotationRequestItems(quotationRequestId)).map(item => [item.id, item]));
+    const flagged: FlaggedLine[] = [];
+
+    for (const quotation of await storage.getSupplierQuotations(quotationRequestId)) {
+      const supplier = await storage.getSupplier(quotation.supplierId);
+      for (const line of await storage.getSupplierQuotationItems(quotation.id)) {
+        if (!line.priceFlag) continue;
+        flagged.push({
+          supplierQuotationItemId: line.id,
+          quotationRequestItemId: line.quotationRequestItemId,
+          supplierId: quotation.supplierId,
+          supplierName: supplier?.name ?? "Fornecedor removido",
+          productName: requestItems.get(line.quotationRequestItemId)?.productName ?? "",
+          unitPrice: Number(line.unitPrice),
+          isAwarded: !!line.isAwarded,
+          priceFlag: line.priceFlag,
+          priceFlagDetails: line.priceFlagDetails as PriceFlagDetails,
+        });
+      }
+    }
+    return flagged;
+  }
+}
+
+// Linear interpolation between the closest ranks of a sorted list
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export const priceAnomalyService = new PriceAnomalyService();
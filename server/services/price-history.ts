@@ -0,0 +1,226 @@
+import { storage } from "../storage";
+import type { Product, ProductPriceHistory, PurchaseOrder, PurchaseOrderItem, Supplier } from "@shared/schema";
+
+export class PriceHistoryError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "PriceHistoryError";
+  }
+}
+
+export type TrendInterval = "day" | "month";
+
+export interface PriceHistoryFilters {
+  supplierId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface PriceHistoryEntry extends ProductPriceHistory {
+  supplier?: Supplier;
+}
+
+export interface PriceStats {
+  count: number;
+  min: number | null;
+  max: number | null;
+  median: number | null;
+  average: number | null; // weighted by quantity
+  first: number | null;
+  last: number | null;
+  variation: number | null; // last against first, as a fraction
+}
+
+export interface PriceTrendPoint {
+  period: string; // YYYY-MM-DD or YYYY-MM
+  min: number;
+  max: number;
+  average: number;
+  count: number;
+}
+
+export interface PriceTrend {
+  unit: string;
+  stats: PriceStats;
+  series: PriceTrendPoint[];
+}
+
+// products.averagePrice only looks at the last year of purchases
+const AVERAGE_WINDOW_DAYS = 365;
+
+class PriceHistoryService {
+  // Mirrors the awarded lines of a request into the history: awarded lines are recorded once,
+  // lines that lost their award are removed. Lines already superseded by an order line are left alone.
+  async syncAwards(quotationRequestId: string): Promise<void> {
+    const requestItems = new Map((await storage.getQuotationRequestItems(quotationRequestId)).map(item => [item.id, item]));
+    const touched = new Set<string>();
+
+    for (const quotation of await storage.getSupplierQuotations(quotationRequestId)) {
+      for (const line of await storage.getSupplierQuotationItems(quotation.id)) {
+        const requestItem = requestItems.get(line.quotationRequestItemId);
+        if (!requestItem?.productId) continue;
+
+        const existing = await storage.getProductPriceHistoryBySupplierQuotationItem(line.id);
+        if (line.isAwarded && !existing) {
+          await storage.createProductPriceHistory({
+            productId: requestItem.productId,
+            supplierId: quotation.supplierId,
+            source: "cotacao",
+            supplierQuotationItemId: line.id,
+            unitPrice: line.unitPrice,
+            quantity: requestItem.quantity,
+            unit: requestItem.unit,
+            recordedAt: quotation.submittedAt ?? new Date(),
+          });
+          touched.add(requestItem.productId);
+        } else if (!line.isAwarded && existing && existing.source === "cotacao") {
+          await storage.deleteProductPriceHistory(existing.id);
+          touched.add(requestItem.productId);
+        }
+      }
+    }
+
+    for (const productId of Array.from(touched)) {
+      await this.recomputeProductPrices(productId);
+    }
+  }
+
+  // The order line replaces the award it was copied from, so each purchase is counted once
+  async recordPurchaseOrderItems(order: PurchaseOrder, items: PurchaseOrderItem[]): Promise<void> {
+    const touched = new Set<string>();
+
+    for (const item of items) {
+      if (!item.productId || (await storage.getProductPriceHistoryByPurchaseOrderItem(item.id))) continue;
+
+      if (item.supplierQuotationItemId) {
+        const award = await storage.getProductPriceHistoryBySupplierQuotationItem(item.supplierQuotationItemId);
+        if (award) await storage.deleteProductPriceHistory(award.id);
+      }
+      await storage.createProductPriceHistory({
+        productId: item.productId,
+        supplierId: order.supplierId,
+        source: "pedido",
+        // Kept so a later sync of the awards recognizes the line as already recorded
+        supplierQuotationItemId: item.supplierQuotationItemId,
+        purchaseOrderItemId: item.id,
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+        unit: item.unit,
+        recordedAt: order.createdAt ?? new Date(),
+      });
+      touched.add(item.productId);
+    }
+
+    for (const productId of Array.from(touched)) {
+      await this.recomputeProductPrices(productId);
+    }
+  }
+
+  // lastPrice and averagePrice only consider entries in the product's own unit
+  async recomputeProductPrices(productId: string, at: Date = new Date()): Promise<Product> {
+    const product = await this.getProduct(productId);
+    const entries = (await storage.getProductPriceHistory({ productId: product.id }))
+      .filter(entry => entry.unit === product.unit);
+
+    const windowStart = at.getTime() - AVERAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const recent = entries.filter(entry => entry.recordedAt.getTime() >= windowStart);
+    const last = entries[entries.length - 1];
+    const average = weightedAverage(recent);
+
+    return await storage.updateProduct(product.id, {
+      lastPrice: last ? last.unitPrice : null,
+      averagePrice: average === null ? null : average.toFixed(2),
+    });
+  }
+
+  async getHistory(productId: string, filters: PriceHistoryFilters = {}): Promise<PriceHistoryEntry[]> {
+    const product = await this.getProduct(productId);
+    const suppliers = await storage.getSuppliers();
+    return (await storage.getProductPriceHistory({ productId: product.id, ...filters }))
+      .map(entry => ({ ...entry, supplier: suppliers.find(supplier => supplier.id === entry.supplierId) }));
+  }
+
+  // Series and statistics over one unit of measure; defaults to the product's unit
+  async getTrend(
+    productId: string,
+    filters: PriceHistoryFilters & { unit?: string; interval?: TrendInterval } = {},
+  ): Promise<PriceTrend> {
+    const product = await this.getProduct(productId);
+    const unit = filters.unit ?? product.unit;
+    const entries = (await storage.getProductPriceHistory({
+      productId: product.id,
+      supplierId: filters.supplierId,
+      from: filters.from,
+      to: filters.to,
+    })).filter(entry => entry.unit === unit);
+
+    const periodLength = (filters.interval ?? "month") === "day" ? 10 : 7;
+    const periods = new Map<string, ProductPriceHistory[]>();
+    for (const entry of entries) {
+      const period = entry.recordedAt.toISOString().slice(0, periodLength);
+      periods.set(period, [...(periods.get(period) ?? []), entry]);
+    }
+
+    return {
+      unit,
+      stats: this.getStats(entries),
+      series: Array.from(periods.entries()).map(([period, periodEntries]) => {
+        const prices = periodEntries.map(entry => Number(entry.unitPrice));
+        return {
+          period,
+          min: Math.min(...prices),
+          max: Math.max(...prices),
+          average: weightedAverage(periodEntries)!,
+          count: periodEntries.length,
+        };
+      }),
+    };
+  }
+
+  // Entries must be in chronological order
+  getStats(entries: ProductPriceHistory[]): PriceStats {
+    if (entries.length === 0) {
+      return { count: 0, min: null, max: null, median: null, average: null, first: null, last: null, variation: null };
+    }
+
+    const prices = entries.map(entry => Number(entry.unitPrice));
+    const first = prices[0];
+    const last = prices[prices.length - 1];
+    return {
+      count: entries.length,
+      min: Math.min(...prices),
+      max: Math.max(...prices),
+      median: median(prices),
+      average: weightedAverage(entries),
+      first,
+      last,
+      variation: first > 0 ? (last - first) / first : null,
+    };
+  }
+
+  private async getProduct(productId: string): Promise<Product> {
+    const product = await storage.getProduct(productId);
+    if (!product) {
+      throw new PriceHistoryError("Product not found", 404);
+    }
+    return product;
+  }
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function weightedAverage(entries: ProductPriceHistory[]): number | null {
+  if (entries.length === 0) return null;
+  const totalQuantity = entries.reduce((sum, entry) => sum + Number(entry.quantity), 0);
+  if (totalQuantity <= 0) {
+    return entries.reduce((sum, entry) => sum + Number(entry.unitPrice), 0) / entries.length;
+  }
+  return entries.reduce((sum, entry) => sum + Number(entry.unitPrice) * Number(entry.quantity), 0) / totalQuantity;
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,174 @@
+import { storage } from "../storage";
+import { awardService } from "./award";
+import { budgetService } from "./budget";
+import { priceHistoryService } from "./price-history";
+import type {
+  InsertPurchaseOrder,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  QuotationRequest,
+  QuotationRequestItem,
+  Supplier,
+} from "@shared/schema";
+import type { PurchaseOrderStatus } from "@shared/workflow";
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+export type PurchaseOrderAction = "send" | "confirm" | "close" | "cancel";
+
+export interface PurchaseOrderDetails extends PurchaseOrder {
+  supplier?: Supplier;
+  items: PurchaseOrderItem[];
+}
+
+const actionTargets: Record<PurchaseOrderAction, PurchaseOrderStatus> = {
+  send: "enviado",
+  confirm: "confirmado",
+  close: "entregue",
+  cancel: "cancelado",
+};
+
+class PurchaseOrderService {
+  // One purchase order per awarded supplier, with the awarded quotation lines copied as order lines,
+  // each booked against the request's budget commitment. Suppliers that already have an open order are
+  // skipped, so a generation that stopped halfway (or a cancelled order) can be completed by running it again.
+  async generateForRequest(request: QuotationRequest, deliveryAddress?: string | null, userId?: string): Promise<PurchaseOrderDetails[]> {
+    const { suppliers: awards } = await awardService.getAwards(request.id);
+    if (awards.length === 0) {
+      throw new PurchaseOrderError("No supplier quotation selected");
+    }
+
+    const existing = (await storage.getPurchaseOrders())
+      .filter(order => order.quotationRequestId === request.id && order.status !== "cancelado");
+    for (const order of existing) {
+      await budgetService.consume(request, order, userId);
+    }
+    const orderedSupplierIds = new Set(existing.map(order => order.supplierId));
+    const pending = awards.filter(award => !orderedSupplierIds.has(award.quotation.supplierId));
+    if (pending.length === 0) {
+      throw new PurchaseOrderError("Purchase orders were already generated for this quotation request", 409);
+    }
+
+    const requestItems = new Map((await storage.getQuotationRequestItems(request.id)).map(item => [item.id, item]));
+    const orders: PurchaseOrderDetails[] = [];
+
+    for (const award of pending) {
+      const order = await storage.createPurchaseOrder({
+        quotationRequestId: request.id,
+        supplierId: award.quotation.supplierId,
+        totalAmount: award.total.toFixed(2),
+        deliveryAddress: deliveryAddress ?? null,
+        expectedDeliveryDate: award.quotation.deliveryTime
+          ? new Date(Date.now() + award.quotation.deliveryTime * 24 * 60 * 60 * 1000)
+          : null,
+        status: "pendente",
+      });
+
+      const items: PurchaseOrderItem[] = [];
+      if (award.items.length === 0) {
+        // Whole-quotation award entered by header only: order every request item so the
+        // order can be received and invoiced line by line, splitting the declared total
+        for (const line of this.allocateTotal(Array.from(requestItems.values()), award.total)) {
+          items.push(await storage.createPurchaseOrderItem({
+            purchaseOrderId: order.id,
+            quotationRequestItemId: line.item.id,
+            productId: line.item.productId,
+            productName: line.item.productName,
+            quantity: line.item.quantity,
+            unit: line.item.unit,
+            unitPrice: (line.total / Number(line.item.quantity)).toFixed(2),
+            totalPrice: line.total.toFixed(2),
+            specifications: line.item.specifications,
+          }));
+        }
+      }
+
+      for (const line of award.items) {
+        const requestItem = requestItems.get(line.quotationRequestItemId);
+        if (!requestItem) continue;
+        items.push(await storage.createPurchaseOrderItem({
+          purchaseOrderId: order.id,
+          quotationRequestItemId: requestItem.id,
+          supplierQuotationItemId: line.id,
+          productId: requestItem.productId,
+          productName: requestItem.productName,
+          quantity: requestItem.quantity,
+          unit: requestItem.unit,
+          unitPrice: line.unitPrice,
+          totalPrice: line.totalPrice,
+          brand: line.brand,
+          model: line.model,
+          specifications: line.specifications ?? requestItem.specifications,
+        }));
+      }
+
+      // Derived prices of whole-quotation awards are not quoted prices, so they stay out of the price history
+      if (award.items.length > 0) {
+        await priceHistoryService.recordPurchaseOrderItems(order, items);
+      }
+      await budgetService.consume(request, order, userId);
+      orders.push({ ...order, items });
+    }
+
+    return orders;
+  }
+
+  // Splits an order total across request items by estimated value, or by quantity when
+  // nothing was estimated; the last item absorbs the rounding
+  private allocateTotal(items: QuotationRequestItem[], total: number): { item: QuotationRequestItem; total: number }[] {
+    const estimated = items.map(item => Number(item.estimatedPrice ?? 0) * Number(item.quantity));
+    const weights = estimated.some(value => value > 0) ? estimated : items.map(item => Number(item.quantity));
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let allocated = 0;
+    return items.map((item, index) => {
+      const share = index === items.length - 1
+        ? Math.round((total - allocated) * 100) / 100
+        : Math.round((weightSum > 0 ? total * weights[index] / weightSum : 0) * 100) / 100;
+      allocated += share;
+      return { item, total: share };
+    });
+  }
+
+  async getDetails(id: string): Promise<PurchaseOrderDetails> {
+    const order = await storage.getPurchaseOrder(id);
+    if (!order) {
+      throw new PurchaseOrderError("Purchase order not found", 404);
+    }
+    const supplier = await storage.getSupplier(order.supplierId);
+    const items = await storage.getPurchaseOrderItems(order.id);
+    return { ...order, supplier, items };
+  }
+
+  // Moves the order through its lifecycle; the storage layer rejects transitions the workflow does not allow
+  async apply(id: string, action: PurchaseOrderAction, userId: string, reason?: string): Promise<PurchaseOrder> {
+    const order = await storage.getPurchaseOrder(id);
+    if (!order) {
+      throw new PurchaseOrderError("Purchase order not found", 404);
+    }
+
+    const now = new Date();
+    const status = actionTargets[action];
+    const timestamps: Partial<InsertPurchaseOrder> =
+      action === "send" ? { sentAt: now }
+      : action === "confirm" ? { confirmedAt: now }
+      : action === "close" ? { closedAt: now }
+      : { cancelledAt: now, cancellationReason: reason ?? null };
+
+    const updated = await storage.updatePurchaseOrder(id, { status, ...timestamps }, userId);
+
+    // A cancelled order no longer consumes its cost center budget
+    if (action === "cancel") {
+      await budgetService.release(updated, userId);
+    }
+
+    return updated;
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
@@ -0,0 +1,164 @@
+import { storage } from "../storage";
+import type { PriceFlag, PriceFlagDetails } from "./price-anomaly";
+import type { QuotationRequest } from "@shared/schema";
+
+export class QuotationComparisonError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "QuotationComparisonError";
+  }
+}
+
+export interface ComparisonSupplier {
+  supplierQuotationId: string;
+  supplierId: string;
+  supplierName: string;
+  quotationNumber: string | null;
+  deliveryTime: number | null;
+  paymentTerms: string | null;
+  validUntil: Date | null;
+  isSelected: boolean;
+  total: number; // sum of the quoted lines
+  quotedItems: number;
+  missingItems: number;
+  isComplete: boolean;
+  isLowestTotal: boolean;
+  awardedTotal: number;
+}
+
+export interface ComparisonCell {
+  supplierQuotationId: string;
+  supplierQuotationItemId: string | null;
+  quoted: boolean;
+  unitPrice: number | null;
+  totalPrice: number | null;
+  brand: string | null;
+  model: string | null;
+  specifications: string | null;
+  isLowestPrice: boolean;
+  isAwarded: boolean;
+  priceFlag: PriceFlag | null;
+  priceFlagDetails: PriceFlagDetails | null;
+}
+
+export interface ComparisonRow {
+  quotationRequestItemId: string;
+  productName: string;
+  quantity: number;
+  unit: string;
+  specifications: string | null;
+  estimatedPrice: number | null;
+  lowestUnitPrice: number | null;
+  cells: ComparisonCell[]; // same order as QuotationComparison.suppliers
+}
+
+export interface QuotationComparison {
+  request: Pick<QuotationRequest, "id" | "requestNumber" | "title" | "status" | "responseDeadline">;
+  suppliers: ComparisonSupplier[];
+  items: ComparisonRow[];
+}
+
+// Prices are stored with two decimals; compare in cents to avoid float ties being missed
+const toCents = (value: number) => Math.round(value * 100);
+
+class QuotationComparisonService {
+  // Builds the request items × supplier quotations matrix used to justify a selection
+  async buildMatrix(quotationRequestId: string): Promise<QuotationComparison> {
+    const request = await storage.getQuotationRequest(quotationRequestId);
+    if (!request) {
+      throw new QuotationComparisonError("Quotation request not found", 404);
+    }
+
+    const requestItems = await storage.getQuotationRequestItems(request.id);
+    const quotations = await storage.getSupplierQuotations(request.id);
+
+    const columns = await Promise.all(quotations.map(async quotation => {
+      const supplier = await storage.getSupplier(quotation.supplierId);
+      const lines = await storage.getSupplierQuotationItems(quotation.id);
+      return { quotation, supplier, linesByItem: new Map(lines.map(line => [line.quotationRequestItemId, line])) };
+    }));
+
+    const items: ComparisonRow[] = requestItems.map(item => {
+      const cells: ComparisonCell[] = columns.map(({ quotation, linesByItem }) => {
+        const line = linesByItem.get(item.id);
+        return {
+          supplierQuotationId: quotation.id,
+          supplierQuotationItemId: line?.id ?? null,
+          quoted: !!line,
+          unitPrice: line ? Number(line.unitPrice) : null,
+          totalPrice: line ? Number(line.totalPrice) : null,
+          brand: line?.brand ?? null,
+          model: line?.model ?? null,
+          specifications: line?.specifications ?? null,
+          isLowestPrice: false,
+          isAwarded: !!line?.isAwarded,
+          priceFlag: line?.priceFlag ?? null,
+          priceFlagDetails: (line?.priceFlagDetails as PriceFlagDetails | null) ?? null,
+        };
+      });
+
+      const prices = cells.filter(cell => cell.unitPrice !== null).map(cell => cell.unitPrice!);
+      const lowestUnitPrice = prices.length > 0 ? Math.min(...prices) : null;
+      if (lowestUnitPrice !== null) {
+        for (const cell of cells) {
+          cell.isLowestPrice = cell.unitPrice !== null && toCents(cell.unitPrice) === toCents(lowestUnitPrice);
+        }
+      }
+
+      return {
+        quotationRequestItemId: item.id,
+        productName: item.productName,
+        quantity: Number(item.quantity),
+        unit: item.unit,
+        specifications: item.specifications,
+        estimatedPrice: item.estimatedPrice !== null ? Number(item.estimatedPrice) : null,
+        lowestUnitPrice,
+        cells,
+      };
+    });
+
+    const suppliers: ComparisonSupplier[] = columns.map(({ quotation, supplier }, index) => {
+      const cells = items.map(row => row.cells[index]);
+      const quotedItems = cells.filter(cell => cell.quoted).length;
+      return {
+        supplierQuotationId: quotation.id,
+        supplierId: quotation.supplierId,
+        supplierName: supplier?.name ?? "Fornecedor removido",
+        quotationNumber: quotation.quotationNumber,
+        deliveryTime: quotation.deliveryTime,
+        paymentTerms: quotation.paymentTerms,
+        validUntil: quotation.validUntil,
+        isSelected: !!quotation.isSelected,
+        total: cells.reduce((sum, cell) => sum + (cell.totalPrice ?? 0), 0),
+        quotedItems,
+        missingItems: items.length - quotedItems,
+        isComplete: items.length > 0 && quotedItems === items.length,
+        isLowestTotal: false,
+        awardedTotal: cells.reduce((sum, cell) => sum + (cell.isAwarded ? cell.totalPrice ?? 0 : 0), 0),
+      };
+    });
+
+    // A partial quotation is always cheaper on paper, so only complete ones compete for the lowest total
+    const complete = suppliers.filter(supplier => supplier.isComplete);
+    if (complete.length > 0) {
+      const lowestTotal = Math.min(...complete.map(supplier => toCents(supplier.total)));
+      for (const supplier of complete) {
+        supplier.isLowestTotal = toCents(supplier.total) === lowestTotal;
+      }
+    }
+
+    return {
+      request: {
+        id: request.id,
+        requestNumber: request.requestNumber,
+        title: request.title,
+        status: request.status,
+        responseDeadline: request.responseDeadline,
+      },
+      suppliers,
+      items,
+    };
+  }
+}
+
+export const quotationComparisonService = new QuotationComparisonService();
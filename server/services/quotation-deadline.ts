@@ -0,0 +1,101 @@
+import { storage } from "../storage";
+import { emailService } from "./email";
+import { supplierPortalService } from "./supplier-portal";
+import { supplierScoringService } from "./supplier-scoring";
+import { isResponseDeadlinePassed } from "@shared/workflow";
+import type { QuotationRequest } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Suppliers that have not answered get one reminder when this close to the deadline
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+class QuotationDeadlineService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Moves rounds whose deadline has passed to "cotacao_encerrada" so the buyer can compare bids
+  async closeExpiredRounds(at: Date = new Date()): Promise<QuotationRequest[]> {
+    const requests = await storage.getQuotationRequests();
+    const closed: QuotationRequest[] = [];
+
+    for (const request of requests) {
+      if (request.status !== "em_cotacao" || !isResponseDeadlinePassed(request, at)) continue;
+
+      // No user: the audit trail records the change as made by the system
+      const updated = await storage.updateQuotationRequest(request.id, { status: "cotacao_encerrada" });
+      await storage.createAuditLog({
+        action: 'close_bidding',
+        entityType: 'quotation_request',
+        entityId: request.id,
+        changes: { responseDeadline: request.responseDeadline, automatic: true },
+      });
+      // Invitations left unanswered now count against the suppliers' response rate
+      await supplierScoringService.recalculateForQuotationRequest(request.id);
+      closed.push(updated);
+    }
+
+    return closed;
+  }
+
+  // Reminds invited suppliers without an answer once the deadline is near
+  async sendReminders(at: Date = new Date()): Promise<number> {
+    const requests = await storage.getQuotationRequests();
+    let sent = 0;
+
+    for (const request of requests) {
+      if (request.status !== "em_cotacao" || !request.responseDeadline) continue;
+      const remaining = request.responseDeadline.getTime() - at.getTime();
+      if (remaining <= 0 || remaining > REMINDER_WINDOW_MS) continue;
+
+      const links = await storage.getSupplierPortalLinks(request.id);
+      for (const link of links) {
+        if (link.reminderSentAt || supplierPortalService.getLinkStatus(link, at) !== "ativo") continue;
+
+        const supplier = await storage.getSupplier(link.supplierId);
+        if (!supplier?.email) continue;
+
+        try {
+          await emailService.sendQuotationReminder(supplier, request, link.expiresAt);
+          await storage.updateSupplierPortalLink(link.id, { reminderSentAt: at });
+          sent++;
+        } catch (error) {
+          console.error(`Error sending quotation reminder to supplier ${supplier.id}:`, error);
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  async runOnce(at: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sendReminders(at);
+      const closed = await this.closeExpiredRounds(at);
+      if (closed.length > 0) {
+        console.log(`Closed bidding for ${closed.length} quotation request(s)`);
+      }
+    } catch (error) {
+      console.error("Error processing quotation deadlines:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.runOnce();
+    this.timer = setInterval(() => this.runOnce(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const quotationDeadlineService = new QuotationDeadlineService();
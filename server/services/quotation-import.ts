@@ -0,0 +1,701 @@
+import { storage, type QuotationRequestImport, type SupplierQuotationImport } from "../storage";
+import {
+  insertQuotationRequestSchema,
+  insertQuotationRequestItemSchema,
+  insertSupplierQuotationSchema,
+  insertSupplierQuotationItemSchema,
+  insertSupplierSchema,
+  type Product,
+  type QuotationRequest,
+  type QuotationRequestItem,
+  type Supplier,
+  type SupplierQuotation,
+  type SupplierQuotationItem,
+} from "@shared/schema";
+import { isAcceptingQuotations } from "@shared/workflow";
+import { normalizeTaxId, formatTaxId } from "@shared/documents";
+import {
+  spreadsheetImportService,
+  parseDecimal,
+  describeIssues,
+  normalizeText,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportReport,
+  type ImportType,
+  type LockedValues,
+  type MappedRow,
+  type RowResult,
+} from "./spreadsheet-import";
+import { supplierDedupService } from "./supplier-dedup";
+import { supplierScoringService } from "./supplier-scoring";
+import { priceAnomalyService } from "./price-anomaly";
+import { supplierOnboardingService } from "./supplier-onboarding";
+
+export interface ImportResult<T> {
+  report: ImportReport;
+  saved: T[];
+}
+
+interface RequestGroup {
+  groupKey?: string;
+  rows: RowResult[];
+  header: Record<string, string>;
+  items: QuotationRequestImport["items"];
+}
+
+interface QuotationGroup {
+  label: string; // supplier and request, for messages
+  rows: RowResult[];
+  entry: SupplierQuotationImport;
+  existingLines: SupplierQuotationItem[];
+  isSelected: boolean;
+  quotedRows: Map<string, number>; // request item id -> row that quoted it
+  statedTotal?: number;
+}
+
+interface ImportPlan<T> {
+  results: RowResult[];
+  entries: T[];
+  warnings: string[]; // about the file as a whole rather than one row
+}
+
+const URGENCIES = ["baixa", "normal", "alta", "critica"];
+// Import fields that describe the request rather than one of its items
+const REQUEST_HEADER_FIELDS = IMPORT_FIELDS.quotation_requests.filter(field =>
+  ["title", "description", "department", "costCenter", "urgency", "totalBudget"].includes(field.key)
+);
+// In the column order of IMPORT_FIELDS.quotation_requests
+const REQUEST_TEMPLATE_EXAMPLES = [
+  ["1", "Material de limpeza", "Reposição mensal", "Facilities", "CC-100", "normal", "", "", "Detergente neutro 500ml", 24, "un", "", ""],
+  ["1", "", "", "", "", "", "", "", "Papel toalha interfolhado", 10, "pct", "Folha dupla", ""],
+  ["2", "Manutenção elétrica", "", "Manutenção", "CC-200", "alta", 1500, "", "Disjuntor bipolar 32A", 4, "un", "", "45,00"],
+];
+// Largest values the decimal columns hold
+const MAX_BUDGET = 99999999.99;
+const MAX_QUANTITY = 9999999.999;
+const MAX_LINE_PRICE = 99999999.99;
+// Rounding differences below a cent are not discrepancies
+const PRICE_TOLERANCE = 0.01;
+const FIELD_LABELS = new Map(IMPORT_FIELDS.supplier_quotations.map(field => [field.key, field.label]));
+
+const requestItemRowSchema = insertQuotationRequestItemSchema.omit({ quotationRequestId: true });
+const supplierQuotationRowSchema = insertSupplierQuotationSchema.omit({ supplierId: true, quotationRequestId: true }).partial();
+const supplierQuotationLineSchema = insertSupplierQuotationItemSchema.omit({ supplierQuotationId: true });
+
+class QuotationImportService {
+  // Every row is validated first; rows are written only when none has errors, in a single transaction
+  async importQuotationRequests(
+    buffer: Buffer,
+    mapping: ColumnMapping,
+    userId: string,
+    dryRun: boolean,
+  ): Promise<ImportResult<QuotationRequest>> {
+    const rows = spreadsheetImportService.mapRows(buffer, "quotation_requests", mapping);
+    const plan = await this.planQuotationRequests(rows, userId);
+    const report = spreadsheetImportService.buildReport(plan.results, dryRun, plan.warnings);
+    if (dryRun || report.errorCount > 0) {
+      return { report, saved: [] };
+    }
+
+    const saved = await storage.importQuotationRequests(plan.entries);
+    return { report: { ...report, committed: true, created: saved.length }, saved };
+  }
+
+  async importSupplierQuotations(
+    buffer: Buffer,
+    mapping: ColumnMapping,
+    userId: string,
+    dryRun: boolean,
+  ): Promise<ImportResult<SupplierQuotation>> {
+    const rows = spreadsheetImportService.mapRows(buffer, "supplier_quotations", mapping);
+    const plan = await this.planSupplierQuotations(rows);
+    const template = spreadsheetImportService.readTemplate(buffer, "supplier_quotations");
+    if (template) {
+      spreadsheetImportService.checkLockedFields(template, rows, plan.results);
+    }
+    const report = spreadsheetImportService.buildReport(plan.results, dryRun, plan.warnings);
+    if (dryRun || report.errorCount > 0) {
+      return { report, saved: [] };
+    }
+
+    const saved = await storage.importSupplierQuotations(plan.entries);
+    for (const quotationRequestId of Array.from(new Set(saved.map(quotation => quotation.quotationRequestId)))) {
+      await priceAnomalyService.evaluateRequest(quotationRequestId);
+      await supplierScoringService.recalculateForQuotationRequest(quotationRequestId);
+    }
+    await this.inviteNewSuppliers(plan.entries, userId);
+    return { report: { ...report, committed: true, created: saved.length }, saved };
+  }
+
+  // Validates without writing and returns the file with the problems of each row next to it
+  async buildErrorReport(buffer: Buffer, importType: ImportType, mapping: ColumnMapping, userId: string): Promise<Buffer> {
+    const { report } = importType === "quotation_requests"
+      ? await this.importQuotationRequests(buffer, mapping, userId, true)
+      : await this.importSupplierQuotations(buffer, mapping, userId, true);
+    return spreadsheetImportService.buildErrorReport(buffer, mapping.headerRow, report);
+  }
+
+  buildQuotationRequestTemplate(): Buffer {
+    return spreadsheetImportService.buildTemplate("quotation_requests", REQUEST_TEMPLATE_EXAMPLES, [
+      "Cada linha é um item. Linhas com o mesmo Agrupador formam uma única requisição.",
+      "Título, Descrição, Departamento, Centro de Custo, Urgência e Valor são lidos da primeira linha de cada requisição.",
+      "O item é associado ao cadastro de produtos pelo Código do Produto ou, na falta dele, pelo nome do Item.",
+      "Itens não encontrados no cadastro são importados como itens livres.",
+      "Urgência: baixa, normal, alta ou critica.",
+    ]);
+  }
+
+  // One row per request item with the identity columns filled in and locked, and the supplier's
+  // answers (prices, brand, delivery) left blank; the hidden layout makes the upload map itself
+  async buildResponseTemplate(request: QuotationRequest, items: QuotationRequestItem[], supplier?: Supplier): Promise<Buffer> {
+    const label = (key: string) => FIELD_LABELS.get(key)!;
+    const block: [string, string, unknown][] = [
+      ["supplierName", label("supplierName"), supplier?.name ?? null],
+      ["supplierDocument", label("supplierDocument"), supplier?.cnpj ? formatTaxId(supplier.cnpj) : null],
+      ["quotationNumber", label("quotationNumber"), null],
+      ["deliveryTime", label("deliveryTime"), null],
+      ["paymentTerms", label("paymentTerms"), null],
+      ["observations", label("observations"), null],
+    ];
+    const tableFields = ["itemPosition", "quotationRequestItemId", "productName", "quantity", "unitPrice", "totalPrice", "brand", "model", "specifications"];
+    const answerFields = ["unitPrice", "totalPrice", "brand", "model", "specifications"];
+    const headers = tableFields.map(label);
+    // Shown for reference only: not mapped, so not imported
+    headers.splice(4, 0, "Unidade", "Especificações Solicitadas");
+
+    const ordered = orderRequestItems(items);
+    const rows: unknown[][] = [
+      [`Resposta de cotação - ${request.requestNumber} - ${request.title}`],
+      ["Requisição", request.requestNumber],
+      ...block.map(([, text, value]) => [text, value]),
+      [`Preencha os dados acima e, na tabela, ${answerFields.map(label).join(", ")}. As demais colunas são bloqueadas e conferidas na importação.`],
+      [],
+      headers,
+      ...ordered.map((item, index) => [
+        index + 1,
+        item.id,
+        item.productName,
+        Number(item.quantity),
+        item.unit,
+        item.specifications ?? null,
+      ]),
+    ];
+    const headerRow = rows.indexOf(headers) + 1;
+
+    const locked: LockedValues = {};
+    ordered.forEach((item, index) => {
+      locked[item.id] = {
+        itemPosition: String(index + 1),
+        productName: item.productName.trim(),
+        quantity: String(Number(item.quantity)),
+      };
+    });
+
+    // The supplier fills the block values and the answer columns of the item rows; everything else stays locked
+    const editableCells = block.map((_, index) => `B${index + 3}`);
+    for (let index = 0; index < ordered.length; index++) {
+      for (const field of answerFields) {
+        editableCells.push(`${String.fromCharCode(65 + headers.indexOf(label(field)))}${headerRow + 1 + index}`);
+      }
+    }
+
+    return await spreadsheetImportService.writeTemplate("Cotação", rows, [10, 38, 40, 12, 10, 40, 16, 16, 18, 18, 40], {
+      importType: "supplier_quotations",
+      headerRow,
+      columns: Object.fromEntries(tableFields.map(key => [key, label(key)])),
+      // Block rows start at row 3, below the title and the request number
+      cells: Object.fromEntries(block.map(([key], index) => [key, `B${index + 3}`])),
+      values: { quotationRequestId: request.id },
+      keyField: "quotationRequestItemId",
+    }, locked, editableCells);
+  }
+
+  // Rows sharing the grouping key make one request and each of them one item; without the key
+  // every row is a request of its own
+  private async planQuotationRequests(rows: MappedRow[], userId: string): Promise<ImportPlan<QuotationRequestImport>> {
+    const results: RowResult[] = [];
+    const groups = new Map<string, RequestGroup>();
+    const catalog = new ProductCatalog(await storage.getProducts());
+
+    for (const row of rows) {
+      const { fields } = row;
+      const result: RowResult = { rowNumber: row.rowNumber, status: "ok", errors: [], warnings: [] };
+      results.push(result);
+
+      const title = fields.title ?? "";
+      const hasItem = !!(fields.itemName || fields.productCode || fields.quantity);
+      if (isMetadataRow(title) || isMetadataRow(fields.itemName ?? "") || (!hasItem && title.length < 3)) {
+        result.status = "skipped";
+        continue;
+      }
+
+      const key = fields.groupKey ? `key:${fields.groupKey}` : `row:${row.rowNumber}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { groupKey: fields.groupKey, rows: [], header: {}, items: [] };
+        groups.set(key, group);
+      }
+      group.rows.push(result);
+
+      // The request fields come from the first row that fills them
+      for (const field of REQUEST_HEADER_FIELDS) {
+        const value = fields[field.key];
+        if (!value) continue;
+        const current = group.header[field.key];
+        if (current === undefined) {
+          group.header[field.key] = value;
+        } else if (current !== value) {
+          result.warnings.push(`${field.label} diferente da primeira linha da requisição; mantido "${current}"`);
+        }
+      }
+
+      if (hasItem) {
+        const item = this.planRequestItem(fields, catalog, result);
+        if (item) group.items.push(item);
+      }
+    }
+
+    const entries: QuotationRequestImport[] = [];
+    for (const group of Array.from(groups.values())) {
+      const request = this.planRequestHeader(group, userId);
+      if (request && group.rows.every(row => row.errors.length === 0)) {
+        entries.push({ request, items: group.items });
+      }
+      for (const row of group.rows) {
+        if (row.errors.length > 0) row.status = "error";
+      }
+    }
+
+    return { results, entries, warnings: [] };
+  }
+
+  // Problems of the request itself are reported on the first row of its group
+  private planRequestHeader(group: RequestGroup, userId: string): QuotationRequestImport["request"] | null {
+    const { header } = group;
+    const result = group.rows[0];
+
+    if (!header.title) {
+      result.errors.push(group.groupKey ? `Título não informado para a requisição ${group.groupKey}` : "Título é obrigatório");
+      return null;
+    }
+
+    const urgency = header.urgency?.toLowerCase() || "normal";
+    if (!URGENCIES.includes(urgency)) {
+      result.errors.push(`Urgência inválida (${header.urgency}); use baixa, normal, alta ou critica`);
+    }
+
+    const budget = parseDecimal(header.totalBudget);
+    if (header.totalBudget && (budget === null || budget <= 0 || budget > MAX_BUDGET)) {
+      result.errors.push(`Valor inválido (${header.totalBudget})`);
+    }
+
+    const request = insertQuotationRequestSchema.safeParse({
+      title: header.title,
+      description: header.description,
+      department: header.department,
+      costCenter: header.costCenter,
+      urgency,
+      totalBudget: budget !== null && budget > 0 ? budget.toString() : undefined,
+      requesterId: userId,
+      status: "rascunho",
+    });
+    if (!request.success) {
+      result.errors.push(...describeIssues(request.error, "quotation_requests"));
+      return null;
+    }
+    return request.data;
+  }
+
+  // Matches the row to a catalog product by code, then by name; anything else becomes a free-text item
+  private planRequestItem(
+    fields: Record<string, string>,
+    catalog: ProductCatalog,
+    result: RowResult,
+  ): QuotationRequestImport["items"][number] | null {
+    let product = fields.productCode ? catalog.byCode(fields.productCode) : undefined;
+    if (fields.productCode && !product) {
+      result.warnings.push(`Código "${fields.productCode}" não encontrado no cadastro de produtos`);
+    }
+    if (!product && fields.itemName) {
+      product = catalog.byName(fields.itemName);
+    }
+
+    const name = product?.name ?? fields.itemName ?? fields.title;
+    if (!name) {
+      result.errors.push("Item sem nome: informe o item ou um código de produto cadastrado");
+      return null;
+    }
+    if (!product) {
+      result.warnings.push(`Item "${name}" não encontrado no cadastro de produtos; será importado como item livre`);
+    }
+
+    const quantity = parseDecimal(fields.quantity);
+    if (!fields.quantity) {
+      result.errors.push("Quantidade é obrigatória para o item");
+    } else if (quantity === null || quantity <= 0 || quantity > MAX_QUANTITY) {
+      result.errors.push(`Quantidade inválida (${fields.quantity})`);
+    }
+
+    const estimatedPrice = parseDecimal(fields.estimatedPrice);
+    if (fields.estimatedPrice && (estimatedPrice === null || estimatedPrice < 0)) {
+      result.errors.push(`Preço estimado inválido (${fields.estimatedPrice})`);
+    }
+
+    const unit = fields.unit || product?.unit || "un";
+    if (product && fields.unit && normalizeText(fields.unit) !== normalizeText(product.unit)) {
+      result.warnings.push(`Unidade "${fields.unit}" difere da unidade do produto (${product.unit})`);
+    }
+
+    if (result.errors.length > 0) return null;
+
+    const item = requestItemRowSchema.safeParse({
+      productId: product?.id,
+      productName: name,
+      quantity: quantity!.toString(),
+      unit,
+      specifications: fields.specifications,
+      estimatedPrice: estimatedPrice !== null ? estimatedPrice.toFixed(2) : undefined,
+    });
+    if (!item.success) {
+      result.errors.push(...describeIssues(item.error, "quotation_requests"));
+      return null;
+    }
+    return item.data;
+  }
+
+  // Suppliers registered by the import stay pendente until they complete onboarding. The quotations
+  // are already saved, so a failed invite is logged and can be sent again from the supplier page.
+  private async inviteNewSuppliers(entries: SupplierQuotationImport[], userId: string): Promise<void> {
+    const documents = new Set(entries.flatMap(entry => entry.newSupplier ? [entry.newSupplier.cnpj] : []));
+    for (const cnpj of Array.from(documents)) {
+      const supplier = await storage.getSupplierByCnpj(cnpj);
+      if (!supplier) continue;
+      try {
+        const { onboarding, emailed } = await supplierOnboardingService.invite(supplier.id, userId);
+        await storage.createAuditLog({
+          userId,
+          action: 'onboarding_invite',
+          entityType: 'supplier_onboarding',
+          entityId: onboarding.id,
+          changes: { supplierId: supplier.id, tokenExpiresAt: onboarding.tokenExpiresAt, emailed },
+        });
+      } catch (error) {
+        console.error(`Error inviting imported supplier ${supplier.id} to onboarding:`, error);
+      }
+    }
+  }
+
+  // Rows of the same supplier for the same request make a single quotation, one line per request item.
+  // The quotation total is the sum of its lines.
+  private async planSupplierQuotations(rows: MappedRow[]): Promise<ImportPlan<SupplierQuotationImport>> {
+    const results: RowResult[] = [];
+    const groups = new Map<string, QuotationGroup>();
+    const requests = new Map<string, { request: QuotationRequest; items: QuotationRequestItem[] } | null>();
+    // Repeated per row for the same supplier, so keep each message once
+    const warnings = new Set<string>();
+
+    for (const row of rows) {
+      const {
+        supplierName,
+        quotationNumber,
+        quotationRequestId,
+        deliveryTime,
+        paymentTerms,
+        observations,
+        supplierDocument,
+        quotationTotal,
+      } = row.fields;
+      const result: RowResult = { rowNumber: row.rowNumber, status: "ok", errors: [], warnings: [] };
+      results.push(result);
+
+      const fail = (...messages: string[]) => {
+        result.errors.push(...messages);
+        result.status = "error";
+      };
+
+      // The columns were confirmed in the mapping step (or come from a template), so a row below the
+      // header without supplier or request is missing data rather than metadata to leave out
+      if (!supplierName || !quotationRequestId) {
+        const missing = ["supplierName", "quotationRequestId"].filter(key => !row.fields[key]);
+        fail(`Campos obrigatórios não preenchidos: ${missing.map(key => FIELD_LABELS.get(key)).join(", ")}`);
+        continue;
+      }
+
+      const numericDeliveryTime = deliveryTime ? parseInt(deliveryTime) : 0;
+      const invalidNumbers = (["quantity", "unitPrice", "totalPrice", "quotationTotal", "itemPosition"] as const)
+        .filter(key => row.fields[key] && parseDecimal(row.fields[key]) === null)
+        .map(key => FIELD_LABELS.get(key)!);
+      if (isNaN(numericDeliveryTime)) invalidNumbers.push(FIELD_LABELS.get("deliveryTime")!);
+      if (invalidNumbers.length > 0) {
+        fail(`Valores numéricos inválidos: ${invalidNumbers.join(", ")}`);
+        continue;
+      }
+
+      // Find supplier by CNPJ/CPF; only rows carrying a valid document may register a new one
+      let supplierId: string | undefined;
+      let newSupplier: SupplierQuotationImport["newSupplier"];
+      if (supplierDocument) {
+        const cnpj = normalizeTaxId(supplierDocument);
+        if (!cnpj) {
+          fail(`CNPJ/CPF inválido (${supplierDocument})`);
+          continue;
+        }
+
+        const supplier = await storage.getSupplierByCnpj(cnpj);
+        if (supplier) {
+          supplierId = supplier.id;
+        } else {
+          const candidate = insertSupplierSchema.safeParse({ name: supplierName, cnpj, status: "pendente" });
+          if (!candidate.success) {
+            fail(...describeIssues(candidate.error, "supplier_quotations"));
+            continue;
+          }
+          const similar = await supplierDedupService.findSimilarSuppliers(supplierName);
+          if (similar.length > 0) {
+            warnings.add(`Fornecedor "${supplierName}" (${formatTaxId(cnpj)}) será cadastrado com nome semelhante a ${similar.map(s => `"${s.name}" (${s.cnpj ? formatTaxId(s.cnpj) : "sem CNPJ"})`).join(", ")}`);
+          }
+          newSupplier = { ...candidate.data, cnpj };
+        }
+      } else {
+        const supplier = await storage.getSupplierByName(supplierName);
+        if (!supplier) {
+          fail(`Fornecedor "${supplierName}" não cadastrado - informe o CNPJ/CPF para cadastrá-lo`);
+          continue;
+        }
+        supplierId = supplier.id;
+        warnings.add(`Fornecedor "${supplierName}" identificado pelo nome - inclua a coluna CNPJ para evitar duplicidades`);
+      }
+
+      // Verify quotation request exists
+      if (!requests.has(quotationRequestId)) {
+        const request = await storage.getQuotationRequest(quotationRequestId);
+        requests.set(quotationRequestId, request
+          ? { request, items: orderRequestItems(await storage.getQuotationRequestItems(request.id)) }
+          : null);
+      }
+      const requestData = requests.get(quotationRequestId);
+      if (!requestData) {
+        fail(`Requisição ${quotationRequestId} não encontrada`);
+        continue;
+      }
+      if (!isAcceptingQuotations(requestData.request)) {
+        fail(`Requisição ${requestData.request.requestNumber} não está mais recebendo cotações`);
+        continue;
+      }
+
+      const values = supplierQuotationRowSchema.safeParse(withoutEmpty({
+        quotationNumber,
+        deliveryTime: numericDeliveryTime || undefined,
+        paymentTerms,
+        observations,
+      }));
+      if (!values.success) {
+        fail(...describeIssues(values.error, "supplier_quotations"));
+        continue;
+      }
+
+      const key = `${quotationRequestId}|${supplierId ?? `cnpj:${newSupplier!.cnpj}`}`;
+      let group = groups.get(key);
+      if (!group) {
+        const existing = supplierId
+          ? await storage.getSupplierQuotationByRequestAndSupplier(quotationRequestId, supplierId)
+          : undefined;
+        group = {
+          label: `${supplierName} na requisição ${requestData.request.requestNumber}`,
+          rows: [],
+          quotedRows: new Map(),
+          existingLines: existing ? await storage.getSupplierQuotationItems(existing.id) : [],
+          isSelected: !!existing?.isSelected,
+          entry: existing
+            ? { supplierId, existingQuotationId: existing.id, quotation: { quotationRequestId, totalAmount: existing.totalAmount }, items: [] }
+            : {
+                supplierId,
+                newSupplier,
+                quotation: {
+                  quotationRequestId,
+                  quotationNumber: `COT-${Date.now()}`,
+                  deliveryTime: 0,
+                  paymentTerms: "A vista",
+                  totalAmount: "0",
+                },
+                items: [],
+              },
+        };
+        groups.set(key, group);
+      }
+      group.rows.push(result);
+      if (group.isSelected) {
+        fail(`A cotação de ${group.label} já foi selecionada e não pode ser alterada`);
+        continue;
+      }
+      group.entry.quotation = { ...group.entry.quotation, ...values.data };
+      if (quotationTotal) group.statedTotal = parseDecimal(quotationTotal)!;
+
+      const requestItem = this.matchRequestItem(row.fields, requestData.items, result);
+      if (!requestItem) {
+        result.status = result.errors.length > 0 ? "error" : "skipped";
+        continue;
+      }
+      const line = this.planQuotationLine(row.fields, requestItem, result);
+      if (result.errors.length > 0) {
+        result.status = "error";
+        continue;
+      }
+      if (!line) {
+        // No price at all: the supplier did not quote this item
+        result.status = "skipped";
+        continue;
+      }
+      const quotedAt = group.quotedRows.get(requestItem.id);
+      if (quotedAt !== undefined) {
+        fail(`Item "${requestItem.productName}" já cotado na linha ${quotedAt}`);
+        continue;
+      }
+      group.quotedRows.set(requestItem.id, row.rowNumber);
+      group.entry.items.push(line);
+    }
+
+    const entries: SupplierQuotationImport[] = [];
+    for (const group of Array.from(groups.values())) {
+      if (group.rows.some(row => row.errors.length > 0)) continue;
+
+      const first = group.rows[0];
+      if (group.entry.items.length === 0) {
+        first.warnings.push(`Nenhum item com preço para ${group.label}; cotação não importada`);
+        continue;
+      }
+
+      // Lines already on the quotation for items missing from the file are kept
+      const replaced = new Set(group.entry.items.map(item => item.quotationRequestItemId));
+      const totalAmount = [
+        ...group.entry.items.map(item => Number(item.totalPrice)),
+        ...group.existingLines.filter(line => !replaced.has(line.quotationRequestItemId)).map(line => Number(line.totalPrice)),
+      ].reduce((total, value) => total + value, 0);
+      group.entry.quotation.totalAmount = totalAmount.toFixed(2);
+
+      if (group.statedTotal !== undefined && Math.abs(group.statedTotal - totalAmount) > PRICE_TOLERANCE) {
+        first.warnings.push(`Total informado para ${group.label} (${formatCurrency(group.statedTotal)}) difere da soma dos itens (${formatCurrency(totalAmount)}); usada a soma dos itens`);
+      }
+      entries.push(group.entry);
+    }
+
+    return { results, entries, warnings: Array.from(warnings) };
+  }
+
+  // By item id, then position in the request, then product name
+  private matchRequestItem(
+    fields: Record<string, string>,
+    items: QuotationRequestItem[],
+    result: RowResult,
+  ): QuotationRequestItem | null {
+    if (fields.quotationRequestItemId) {
+      const item = items.find(candidate => candidate.id === fields.quotationRequestItemId);
+      if (!item) result.errors.push(`Item ${fields.quotationRequestItemId} não pertence à requisição`);
+      return item ?? null;
+    }
+    if (fields.itemPosition) {
+      const position = parseDecimal(fields.itemPosition)!;
+      const item = Number.isInteger(position) ? items[position - 1] : undefined;
+      if (!item) result.errors.push(`Nº do item ${fields.itemPosition} fora da requisição (1 a ${items.length})`);
+      return item ?? null;
+    }
+    if (fields.productName) {
+      const name = normalizeText(fields.productName);
+      const item = items.find(candidate => normalizeText(candidate.productName) === name);
+      if (!item) result.errors.push(`"${fields.productName}" não corresponde a nenhum item da requisição`);
+      return item ?? null;
+    }
+    result.errors.push("Informe o ID, o número ou o produto do item cotado");
+    return null;
+  }
+
+  // Total defaults to unit price × quantity; the quantity defaults to the requested one
+  private planQuotationLine(
+    fields: Record<string, string>,
+    requestItem: QuotationRequestItem,
+    result: RowResult,
+  ): SupplierQuotationImport["items"][number] | null {
+    let unitPrice = parseDecimal(fields.unitPrice);
+    let totalPrice = parseDecimal(fields.totalPrice);
+    if (unitPrice === null && totalPrice === null) return null;
+
+    const requested = Number(requestItem.quantity);
+    const quantity = parseDecimal(fields.quantity) ?? requested;
+    if (quantity <= 0) {
+      result.errors.push(`Quantidade inválida (${fields.quantity})`);
+      return null;
+    }
+    if (quantity !== requested) {
+      result.warnings.push(`Quantidade cotada (${quantity}) difere da solicitada (${requested} ${requestItem.unit})`);
+    }
+
+    unitPrice = unitPrice ?? totalPrice! / quantity;
+    if (totalPrice === null) {
+      totalPrice = unitPrice * quantity;
+    } else if (fields.unitPrice && Math.abs(unitPrice * quantity - totalPrice) > PRICE_TOLERANCE) {
+      result.warnings.push(`Preço total (${formatCurrency(totalPrice)}) difere de quantidade × preço unitário (${formatCurrency(unitPrice * quantity)})`);
+    }
+    if (unitPrice <= 0 || totalPrice <= 0 || totalPrice > MAX_LINE_PRICE) {
+      result.errors.push("Preço deve ser maior que zero e menor que R$ 100.000.000,00");
+      return null;
+    }
+
+    const line = supplierQuotationLineSchema.safeParse({
+      quotationRequestItemId: requestItem.id,
+      unitPrice: unitPrice.toFixed(2),
+      totalPrice: totalPrice.toFixed(2),
+      brand: fields.brand,
+      model: fields.model,
+      specifications: fields.specifications,
+    });
+    if (!line.success) {
+      result.errors.push(...describeIssues(line.error, "supplier_quotations"));
+      return null;
+    }
+    return line.data;
+  }
+}
+
+// Lookup of active products by code and by name, built once per import
+class ProductCatalog {
+  private codes = new Map<string, Product>();
+  private names = new Map<string, Product>();
+
+  constructor(products: Product[]) {
+    for (const product of products.filter(product => product.isActive !== false)) {
+      if (product.code) this.codes.set(normalizeText(product.code), product);
+      if (!this.names.has(normalizeText(product.name))) this.names.set(normalizeText(product.name), product);
+    }
+  }
+
+  byCode(code: string): Product | undefined {
+    return this.codes.get(normalizeText(code));
+  }
+
+  byName(name: string): Product | undefined {
+    return this.names.get(normalizeText(name));
+  }
+}
+
+// Title blocks of supplier layouts (company, contact, dates) left below the header row
+function isMetadataRow(text: string): boolean {
+  return ["EMPRESA:", "CONTATO:", "TELEFONE:", "EMAIL:", "DATA:"].some(marker => text.includes(marker));
+}
+
+// Position of an item in its request, as numbered in the response templates
+export function orderRequestItems(items: QuotationRequestItem[]): QuotationRequestItem[] {
+  return [...items].sort((a, b) =>
+    (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.productName.localeCompare(b.productName, "pt-BR")
+  );
+}
+
+function formatCurrency(value: number): string {
+  return `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function withoutEmpty<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== "")) as Partial<T>;
+}
+
+export const quotationImportService = new QuotationImportService();
@@ -0,0 +1,492 @@
+import * as XLSX from "xlsx";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+
+export class SpreadsheetImportError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "SpreadsheetImportError";
+  }
+}
+
+export type ImportType = "quotation_requests" | "supplier_quotations";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[]; // header names used to suggest a mapping; never applied without confirmation
+}
+
+export const IMPORT_FIELDS: Record<ImportType, ImportField[]> = {
+  quotation_requests: [
+    { key: "groupKey", label: "Agrupador", required: false, aliases: ["Requisição", "Requisicao", "Nº Requisição", "Numero Requisicao", "Pedido", "Grupo"] },
+    { key: "title", label: "Título", required: true, aliases: ["Título da Requisição", "Titulo da Requisição", "Título", "Titulo", "Title", "Nome"] },
+    { key: "description", label: "Descrição", required: false, aliases: ["Descrição", "Descricao", "Description", "Detalhes", "Observações"] },
+    { key: "department", label: "Departamento", required: false, aliases: ["Departamento", "Department", "Setor", "Area", "Área"] },
+    { key: "costCenter", label: "Centro de Custo", required: false, aliases: ["Centro de Custo", "Centro Custo", "Cost Center", "CC"] },
+    { key: "urgency", label: "Urgência", required: false, aliases: ["Urgência", "Urgencia", "Prioridade", "Priority"] },
+    { key: "totalBudget", label: "Valor / Orçamento", required: false, aliases: ["Orçamento Estimado", "Orcamento", "Budget", "Valor", "Price"] },
+    { key: "productCode", label: "Código do Produto", required: false, aliases: ["Código", "Codigo", "Cód.", "Cod", "SKU", "Código do Item"] },
+    { key: "itemName", label: "Item", required: false, aliases: ["Item", "Produto", "Descrição do Item", "Material", "Produto/Serviço"] },
+    { key: "quantity", label: "Quantidade", required: false, aliases: ["Quantidade", "Quantity", "Qtd", "Qtde"] },
+    { key: "unit", label: "Unidade", required: false, aliases: ["Unidade", "Unit", "Un", "UN"] },
+    { key: "specifications", label: "Especificações", required: false, aliases: ["Especificações", "Especificacoes", "Especificação", "Specifications"] },
+    { key: "estimatedPrice", label: "Preço Estimado", required: false, aliases: ["Preço Estimado", "Preco Estimado", "Preço Unitário", "Preço"] },
+  ],
+  supplier_quotations: [
+    { key: "supplierName", label: "Fornecedor", required: true, aliases: ["Fornecedor", "Supplier", "Nome do Fornecedor"] },
+    { key: "supplierDocument", label: "CNPJ/CPF", required: false, aliases: ["CNPJ", "CNPJ/CPF", "CPF", "Documento"] },
+    { key: "quotationNumber", label: "Número da Cotação", required: false, aliases: ["Número da Cotação", "Quotation Number", "Numero Cotacao"] },
+    { key: "quotationRequestId", label: "Requisição", required: true, aliases: ["Requisição ID", "Request ID", "ID da Requisição"] },
+    // The request item is found by id, then position, then product name; one of them is needed per row
+    { key: "quotationRequestItemId", label: "ID do Item", required: false, aliases: ["Item ID", "ID Item"] },
+    { key: "itemPosition", label: "Nº do Item", required: false, aliases: ["Nº Item", "N° do Item", "Numero do Item", "Item Nº", "Posição", "Seq"] },
+    { key: "productName", label: "Produto/Serviço", required: false, aliases: ["Produto/Serviço", "Product", "Produto", "Serviço", "Item", "Descrição"] },
+    { key: "quantity", label: "Quantidade", required: false, aliases: ["Quantidade", "Quantity", "Qtd"] },
+    { key: "unitPrice", label: "Preço Unitário", required: false, aliases: ["Preço Unitário", "Unit Price", "Preco Unitario"] },
+    { key: "totalPrice", label: "Preço Total", required: false, aliases: ["Preço Total", "Total Price", "Preco Total"] },
+    { key: "brand", label: "Marca", required: false, aliases: ["Marca", "Brand", "Fabricante"] },
+    { key: "model", label: "Modelo", required: false, aliases: ["Modelo", "Model", "Referência"] },
+    { key: "specifications", label: "Especificações", required: false, aliases: ["Especificações", "Especificacoes", "Specifications"] },
+    { key: "quotationTotal", label: "Total da Cotação", required: false, aliases: ["Total da Cotação", "Total Cotacao", "Valor Total", "Total Geral", "Total"] },
+    { key: "deliveryTime", label: "Prazo de Entrega (dias)", required: false, aliases: ["Prazo de Entrega (dias)", "Delivery Time", "Prazo Entrega"] },
+    { key: "paymentTerms", label: "Condições de Pagamento", required: false, aliases: ["Condições de Pagamento", "Payment Terms", "Condicoes Pagamento"] },
+    { key: "observations", label: "Observações", required: false, aliases: ["Observações", "Observations", "Obs"] },
+  ],
+};
+
+export const importTypeSchema = z.enum(["quotation_requests", "supplier_quotations"]);
+
+// Sent by the client as a JSON string next to the file, and stored as-is in import mapping profiles
+export const columnMappingSchema = z.object({
+  headerRow: z.number().int().min(1),
+  columns: z.record(z.string(), z.string()), // import field -> spreadsheet column name
+  defaults: z.record(z.string(), z.string()).default({}), // import field -> fixed value
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+// Written by the system into the response templates it generates, so an upload of one is recognized
+export const templateLayoutSchema = z.object({
+  importType: importTypeSchema,
+  headerRow: z.number().int().min(1),
+  columns: z.record(z.string(), z.string()), // import field -> header in the table
+  cells: z.record(z.string(), z.string()), // import field -> address of a value above the table, used for every row
+  values: z.record(z.string(), z.string()), // import field -> value not shown in the sheet
+  keyField: z.string(), // field identifying each row of the table
+});
+
+export type TemplateLayout = z.infer<typeof templateLayoutSchema>;
+
+// Values of the locked fields of each row, by row key, as they were written
+export type LockedValues = Record<string, Record<string, string>>;
+
+export interface RecognizedTemplate {
+  layout: TemplateLayout;
+  locked: LockedValues;
+  mapping: ColumnMapping;
+}
+
+export interface SheetRow {
+  rowNumber: number; // line number in the spreadsheet, as the user sees it
+  values: Record<string, unknown>; // by column name
+}
+
+export interface ParsedSheet {
+  headerRow: number;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export interface MappedRow {
+  rowNumber: number;
+  fields: Record<string, string>;
+}
+
+export interface ImportPreview {
+  importType: ImportType;
+  headerRow: number;
+  headers: string[];
+  sample: SheetRow[];
+  totalRows: number;
+  suggestedMapping: Record<string, string>;
+  suggestedDefaults: Record<string, string>;
+  isTemplate: boolean; // a response template generated by the system, mapped by its own layout
+  fields: ImportField[];
+}
+
+export type RowStatus = "ok" | "error" | "skipped";
+
+export interface RowResult {
+  rowNumber: number;
+  status: RowStatus;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean; // false whenever a single row has errors: nothing is written then
+  processed: number;
+  valid: number;
+  skipped: number;
+  errorCount: number;
+  created: number;
+  rows: RowResult[];
+  errors: string[]; // every row error, as "Linha N: message"
+  warnings: string[];
+}
+
+const PREVIEW_SIZE = 10;
+// Title blocks (company, contact, dates) sit above the header row in most supplier layouts
+const HEADER_SEARCH_ROWS = 20;
+// Hidden sheet of generated templates: the layout in the first row, then one row per key with its locked values
+const TEMPLATE_SHEET = "Modelo";
+
+class SpreadsheetImportService {
+  // Reads the first worksheet. Without a header row, the row among the first ones with the most
+  // filled cells is taken as the header.
+  readSheet(buffer: Buffer, headerRow?: number): ParsedSheet {
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
+    } catch {
+      throw new SpreadsheetImportError("Arquivo não é uma planilha válida");
+    }
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!worksheet || !worksheet["!ref"]) {
+      throw new SpreadsheetImportError("Planilha vazia");
+    }
+
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+    const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null, blankrows: true, raw: true });
+    const firstRow = range.s.r + 1;
+
+    const headerIndex = headerRow !== undefined ? headerRow - firstRow : this.detectHeaderIndex(matrix);
+    if (headerIndex < 0 || headerIndex >= matrix.length) {
+      throw new SpreadsheetImportError(`Linha de cabeçalho ${headerRow} fora da planilha`);
+    }
+
+    const headers = this.buildHeaders(matrix[headerIndex], range.s.c, range.e.c);
+    const rows: SheetRow[] = [];
+    for (let i = headerIndex + 1; i < matrix.length; i++) {
+      const cells = matrix[i] ?? [];
+      if (!cells.some(cell => !isBlank(cell))) continue;
+
+      const values: Record<string, unknown> = {};
+      headers.forEach((header, column) => {
+        values[header] = cells[column] ?? null;
+      });
+      rows.push({ rowNumber: firstRow + i, values });
+    }
+
+    return { headerRow: firstRow + headerIndex, headers, rows };
+  }
+
+  // A header row chosen by the user overrides the layout of a recognized template
+  preview(buffer: Buffer, importType: ImportType, headerRow?: number): ImportPreview {
+    const template = headerRow === undefined ? this.readTemplate(buffer, importType) : null;
+    const sheet = this.readSheet(buffer, template?.mapping.headerRow ?? headerRow);
+    return {
+      importType,
+      headerRow: sheet.headerRow,
+      headers: sheet.headers,
+      sample: sheet.rows.slice(0, PREVIEW_SIZE),
+      totalRows: sheet.rows.length,
+      suggestedMapping: template?.mapping.columns ?? this.suggestMapping(importType, sheet.headers),
+      suggestedDefaults: template?.mapping.defaults ?? {},
+      isTemplate: !!template,
+      fields: IMPORT_FIELDS[importType],
+    };
+  }
+
+  // Matches headers against the known aliases, ignoring case and accents; each column is used once
+  suggestMapping(importType: ImportType, headers: string[]): Record<string, string> {
+    const byNormalized = new Map(headers.map(header => [normalizeText(header), header]));
+    const used = new Set<string>();
+    const mapping: Record<string, string> = {};
+
+    for (const field of IMPORT_FIELDS[importType]) {
+      for (const alias of [field.key, field.label, ...field.aliases]) {
+        const header = byNormalized.get(normalizeText(alias));
+        if (header && !used.has(header)) {
+          mapping[field.key] = header;
+          used.add(header);
+          break;
+        }
+      }
+    }
+    return mapping;
+  }
+
+  parseMapping(raw: unknown): ColumnMapping {
+    let value = raw;
+    if (typeof raw === "string") {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        throw new SpreadsheetImportError("Mapeamento de colunas inválido");
+      }
+    }
+    const result = columnMappingSchema.safeParse(value);
+    if (!result.success) {
+      throw new SpreadsheetImportError("Mapeamento de colunas inválido");
+    }
+    return result.data;
+  }
+
+  // Every required field needs a column or a fixed value, and mapped columns must exist in the file
+  validateMapping(importType: ImportType, mapping: ColumnMapping, headers?: string[]): void {
+    const fields = IMPORT_FIELDS[importType];
+    const keys = new Set(fields.map(field => field.key));
+
+    const unknown = [...Object.keys(mapping.columns), ...Object.keys(mapping.defaults)].filter(key => !keys.has(key));
+    if (unknown.length > 0) {
+      throw new SpreadsheetImportError(`Campos desconhecidos no mapeamento: ${unknown.join(", ")}`);
+    }
+
+    if (headers) {
+      const missingColumns = Object.values(mapping.columns).filter(column => !headers.includes(column));
+      if (missingColumns.length > 0) {
+        throw new SpreadsheetImportError(`Colunas não encontradas na planilha: ${missingColumns.join(", ")}`);
+      }
+    }
+
+    const unmapped = fields.filter(field =>
+      field.required && !mapping.columns[field.key] && !mapping.defaults[field.key]?.trim()
+    );
+    if (unmapped.length > 0) {
+      throw new SpreadsheetImportError(`Campos obrigatórios sem coluna: ${unmapped.map(field => field.label).join(", ")}`);
+    }
+  }
+
+  // Reads the file with the mapping; fixed values fill fields whose column is unmapped or empty
+  mapRows(buffer: Buffer, importType: ImportType, mapping: ColumnMapping): MappedRow[] {
+    const sheet = this.readSheet(buffer, mapping.headerRow);
+    this.validateMapping(importType, mapping, sheet.headers);
+
+    return sheet.rows.map(row => {
+      const fields: Record<string, string> = {};
+      for (const field of IMPORT_FIELDS[importType]) {
+        const column = mapping.columns[field.key];
+        const value = column ? cellToString(row.values[column]) : "";
+        const fallback = mapping.defaults[field.key]?.trim() ?? "";
+        if (value || fallback) fields[field.key] = value || fallback;
+      }
+      return { rowNumber: row.rowNumber, fields };
+    });
+  }
+
+  // Summary of the row results; the caller fills in created after writing
+  buildReport(rows: RowResult[], dryRun: boolean, warnings: string[] = []): ImportReport {
+    const errorRows = rows.filter(row => row.status === "error");
+    return {
+      dryRun,
+      committed: false,
+      processed: rows.length,
+      valid: rows.filter(row => row.status === "ok").length,
+      skipped: rows.filter(row => row.status === "skipped").length,
+      errorCount: errorRows.length,
+      created: 0,
+      rows,
+      errors: errorRows.flatMap(row => row.errors.map(error => `Linha ${row.rowNumber}: ${error}`)),
+      warnings: [
+        ...warnings,
+        ...rows.flatMap(row => row.warnings.map(warning => `Linha ${row.rowNumber}: ${warning}`)),
+      ],
+    };
+  }
+
+  // The original sheet with the problems of each row in two extra columns, so the user can fix
+  // the file in place and upload it again
+  buildErrorReport(buffer: Buffer, headerRow: number, report: ImportReport): Buffer {
+    const workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
+    const sheetName = workbook.SheetNames[0];
+    const worksheet = workbook.Sheets[sheetName];
+    const range = XLSX.utils.decode_range(worksheet["!ref"]!);
+    const firstRow = range.s.r + 1;
+    const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null, blankrows: true, raw: true });
+    const width = range.e.c - range.s.c + 1;
+
+    const results = new Map(report.rows.map(row => [row.rowNumber, row]));
+    const output = matrix.map((cells, index) => {
+      const rowNumber = firstRow + index;
+      const padded = Array.from({ length: width }, (_, column) => cells[column] ?? null);
+      if (rowNumber === headerRow) return [...padded, "Erros", "Avisos"];
+
+      const result = results.get(rowNumber);
+      return [...padded, result?.errors.join("; ") ?? "", result?.warnings.join("; ") ?? ""];
+    });
+
+    // The other sheets are kept, so a corrected template is still recognized when uploaded again
+    workbook.Sheets[sheetName] = XLSX.utils.sheet_add_aoa({}, output, { origin: range.s });
+    return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+  }
+
+  // Header row with the field labels (which the mapping suggestion recognizes), example rows and an
+  // instructions sheet; only the first sheet is read back on import
+  buildTemplate(importType: ImportType, examples: unknown[][], instructions: string[]): Buffer {
+    const fields = IMPORT_FIELDS[importType];
+    const sheet = XLSX.utils.aoa_to_sheet([fields.map(field => field.label), ...examples]);
+    sheet["!cols"] = fields.map(field => ({ wch: Math.max(14, field.label.length + 4) }));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Importação");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(instructions.map(line => [line])), "Instruções");
+    return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+  }
+
+  // The data sheet followed by the hidden layout sheet; readSheet only ever reads the first one.
+  // The data sheet is protected with only the editable cells unlocked. SheetJS cannot write cell
+  // protection, hence ExcelJS here. The protection has no password, so checkLockedFields still
+  // rejects edits made after unprotecting the sheet.
+  async writeTemplate(
+    sheetName: string,
+    rows: unknown[][],
+    widths: number[],
+    layout: TemplateLayout,
+    locked: LockedValues,
+    editableCells: string[],
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet(sheetName);
+    rows.forEach(row => sheet.addRow(row));
+    widths.forEach((width, index) => { sheet.getColumn(index + 1).width = width; });
+    for (const address of editableCells) {
+      sheet.getCell(address).protection = { locked: false };
+    }
+    await sheet.protect("", { formatColumns: true, formatRows: true });
+
+    const layoutSheet = workbook.addWorksheet(TEMPLATE_SHEET, { state: "hidden" });
+    layoutSheet.addRow([JSON.stringify(layout)]);
+    for (const [key, values] of Object.entries(locked)) {
+      layoutSheet.addRow([key, JSON.stringify(values)]);
+    }
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // The mapping of a generated template, with the values above the table as fixed values; null for any other file
+  readTemplate(buffer: Buffer, importType: ImportType): RecognizedTemplate | null {
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
+    } catch {
+      return null;
+    }
+    const layoutSheet = workbook.Sheets[TEMPLATE_SHEET];
+    const dataSheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!layoutSheet || !dataSheet || workbook.SheetNames[0] === TEMPLATE_SHEET) return null;
+
+    const [first, ...rows] = XLSX.utils.sheet_to_json<unknown[]>(layoutSheet, { header: 1, defval: null, raw: true });
+    let layout: TemplateLayout;
+    const locked: LockedValues = {};
+    try {
+      layout = templateLayoutSchema.parse(JSON.parse(String(first?.[0])));
+      for (const [key, values] of rows) {
+        locked[String(key)] = z.record(z.string(), z.string()).parse(JSON.parse(String(values)));
+      }
+    } catch {
+      return null;
+    }
+    if (layout.importType !== importType) return null;
+
+    const defaults = { ...layout.values };
+    for (const [field, address] of Object.entries(layout.cells)) {
+      const value = cellToString(dataSheet[address]?.v);
+      if (value) defaults[field] = value;
+    }
+    return {
+      layout,
+      locked,
+      mapping: { headerRow: layout.headerRow, columns: layout.columns, defaults },
+    };
+  }
+
+  // Locked fields of a template row must come back as they were written; the errors go into the row results
+  checkLockedFields(template: RecognizedTemplate, rows: MappedRow[], results: RowResult[]): void {
+    const labels = new Map(IMPORT_FIELDS[template.layout.importType].map(field => [field.key, field.label]));
+    const byRow = new Map(results.map(result => [result.rowNumber, result]));
+
+    for (const row of rows) {
+      const key = row.fields[template.layout.keyField];
+      const expected = key ? template.locked[key] : undefined;
+      const result = byRow.get(row.rowNumber);
+      if (!expected || !result) continue;
+
+      for (const [field, value] of Object.entries(expected)) {
+        if ((row.fields[field] ?? "") !== value) {
+          result.errors.push(`${labels.get(field) ?? field} é uma coluna bloqueada e foi alterada (original: ${value || "vazio"})`);
+          result.status = "error";
+        }
+      }
+    }
+  }
+
+  private detectHeaderIndex(matrix: unknown[][]): number {
+    let best = 0;
+    let bestCount = -1;
+    for (let i = 0; i < Math.min(matrix.length, HEADER_SEARCH_ROWS); i++) {
+      const count = (matrix[i] ?? []).filter(cell => typeof cell === "string" && cell.trim() !== "").length;
+      if (count > bestCount) {
+        best = i;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  // Blank header cells get the column letter; repeated names get a counter so no column is lost
+  private buildHeaders(cells: unknown[], firstColumn: number, lastColumn: number): string[] {
+    const seen = new Map<string, number>();
+    const headers: string[] = [];
+    for (let column = 0; column <= lastColumn - firstColumn; column++) {
+      const name = cellToString(cells[column]) || `Coluna ${XLSX.utils.encode_col(firstColumn + column)}`;
+      const count = (seen.get(name) ?? 0) + 1;
+      seen.set(name, count);
+      headers.push(count > 1 ? `${name} (${count})` : name);
+    }
+    return headers;
+  }
+}
+
+// Accepts "1.234,56", "1,234.56", "1234,56", "R$ 10" and plain numbers
+export function parseDecimal(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  let cleaned = value.replace(/[^\d,.-]/g, "");
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else if (lastComma !== -1) {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+  const parsed = Number(cleaned);
+  return cleaned === "" || isNaN(parsed) ? null : parsed;
+}
+
+// Zod issues as "Field: message", with the field named as in the mapping screen
+export function describeIssues(error: z.ZodError, importType: ImportType): string[] {
+  const labels = new Map(IMPORT_FIELDS[importType].map(field => [field.key, field.label]));
+  return error.issues.map(issue => {
+    const key = String(issue.path[issue.path.length - 1] ?? "");
+    return key ? `${labels.get(key) ?? key}: ${issue.message}` : issue.message;
+  });
+}
+
+function isBlank(cell: unknown): boolean {
+  return cell === null || cell === undefined || (typeof cell === "string" && cell.trim() === "");
+}
+
+function cellToString(cell: unknown): string {
+  if (isBlank(cell)) return "";
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+}
+
+// Case, accent and spacing insensitive comparison of headers and names
+export function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export const spreadsheetImportService = new SpreadsheetImportService();
@@ -0,0 +1,219 @@
+import { storage, type SupplierDocumentSummary } from "../storage";
+import { emailService } from "./email";
+import type { Supplier, SupplierDocument, SupplierDocumentType } from "@shared/schema";
+
+export class SupplierComplianceError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "SupplierComplianceError";
+  }
+}
+
+export type DocumentState = "valido" | "a_vencer" | "vencido" | "ausente";
+
+export interface DocumentRequirement {
+  documentType: SupplierDocumentType;
+  document: SupplierDocumentSummary | null; // the upload currently in force
+  state: DocumentState;
+}
+
+export interface ExpiringDocument extends DocumentRequirement {
+  supplier: Supplier;
+}
+
+export interface DocumentUpload {
+  documentTypeId: string;
+  issueDate: Date;
+  expiryDate?: Date | null;
+  file: { originalname: string; mimetype: string; buffer: Buffer };
+}
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class SupplierComplianceService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  toSummary({ fileContent, ...document }: SupplierDocument): SupplierDocumentSummary {
+    return document;
+  }
+
+  // A document is valid through the end of its expiry day
+  getDocumentState(documentType: SupplierDocumentType, document: SupplierDocumentSummary | null, at: Date = new Date()): DocumentState {
+    if (!document) return "ausente";
+    if (!document.expiryDate) return "valido";
+
+    const expiresAt = document.expiryDate.getTime() + DAY_MS - 1;
+    if (expiresAt < at.getTime()) return "vencido";
+    if (expiresAt - at.getTime() <= (documentType.alertDaysBefore ?? 30) * DAY_MS) return "a_vencer";
+    return "valido";
+  }
+
+  // One entry per active document type, with the latest upload of that type
+  async getRequirements(supplierId: string, at: Date = new Date()): Promise<DocumentRequirement[]> {
+    const documentTypes = (await storage.getSupplierDocumentTypes()).filter(documentType => documentType.isActive);
+    const current = await this.getCurrentDocuments(supplierId);
+
+    return documentTypes.map(documentType => {
+      const document = current.get(documentType.id) ?? null;
+      return {
+        documentType,
+        document,
+        state: this.getDocumentState(documentType, document, at),
+      };
+    });
+  }
+
+  // No user when the supplier sends the document itself during onboarding
+  async uploadDocument(supplierId: string, upload: DocumentUpload, userId?: string): Promise<SupplierDocument> {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier) {
+      throw new SupplierComplianceError("Supplier not found", 404);
+    }
+    const documentType = await storage.getSupplierDocumentType(upload.documentTypeId);
+    if (!documentType || !documentType.isActive) {
+      throw new SupplierComplianceError("Document type not found", 404);
+    }
+    if (upload.issueDate.getTime() > Date.now()) {
+      throw new SupplierComplianceError("Issue date cannot be in the future");
+    }
+    if (upload.expiryDate && upload.expiryDate.getTime() < upload.issueDate.getTime()) {
+      throw new SupplierComplianceError("Expiry date must be after the issue date");
+    }
+
+    const document = await storage.createSupplierDocument({
+      supplierId: supplier.id,
+      documentTypeId: documentType.id,
+      fileName: upload.file.originalname,
+      mimeType: upload.file.mimetype,
+      fileContent: upload.file.buffer.toString("base64"),
+      issueDate: upload.issueDate,
+      expiryDate: upload.expiryDate ?? null,
+      uploadedById: userId,
+    });
+
+    // A renewed document may lift a compliance block
+    await this.evaluateSupplier(supplier.id);
+    return document;
+  }
+
+  // Blocks active suppliers with a lapsed mandatory document and releases the ones this service
+  // blocked once every mandatory document is valid again. Manual blocks are left alone.
+  async evaluateSupplier(supplierId: string, at: Date = new Date()): Promise<Supplier> {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier) {
+      throw new SupplierComplianceError("Supplier not found", 404);
+    }
+
+    // Missing documents are an onboarding matter: only documents that expired block the supplier
+    const lapsed = (await this.getRequirements(supplier.id, at))
+      .filter(requirement => requirement.documentType.isMandatory && requirement.state === "vencido")
+      .map(requirement => requirement.documentType.name);
+
+    if (lapsed.length > 0 && supplier.status === "ativo") {
+      const updated = await storage.updateSupplier(supplier.id, { status: "bloqueado", complianceBlockedAt: at });
+      // No user: the audit trail records the change as made by the system
+      await storage.createAuditLog({
+        action: 'compliance_block',
+        entityType: 'supplier',
+        entityId: supplier.id,
+        changes: { status: { from: supplier.status, to: "bloqueado" }, lapsedDocuments: lapsed, automatic: true },
+      });
+      return updated;
+    }
+
+    if (lapsed.length === 0 && supplier.status === "bloqueado" && supplier.complianceBlockedAt) {
+      const updated = await storage.updateSupplier(supplier.id, { status: "ativo", complianceBlockedAt: null });
+      await storage.createAuditLog({
+        action: 'compliance_unblock',
+        entityType: 'supplier',
+        entityId: supplier.id,
+        changes: { status: { from: supplier.status, to: "ativo" }, automatic: true },
+      });
+      return updated;
+    }
+
+    return supplier;
+  }
+
+  async evaluateAll(at: Date = new Date()): Promise<Supplier[]> {
+    const changed: Supplier[] = [];
+    for (const supplier of await storage.getSuppliers()) {
+      const updated = await this.evaluateSupplier(supplier.id, at);
+      if (updated.status !== supplier.status) changed.push(updated);
+    }
+    return changed;
+  }
+
+  // Documents in force that are about to expire or already expired, for suppliers still in use
+  async getExpiringDocuments(at: Date = new Date()): Promise<ExpiringDocument[]> {
+    const expiring: ExpiringDocument[] = [];
+    for (const supplier of await storage.getSuppliers()) {
+      if (supplier.status === "inativo") continue;
+      for (const requirement of await this.getRequirements(supplier.id, at)) {
+        if (requirement.state === "a_vencer" || requirement.state === "vencido") {
+          expiring.push({ ...requirement, supplier });
+        }
+      }
+    }
+    return expiring.sort((a, b) => a.document!.expiryDate!.getTime() - b.document!.expiryDate!.getTime());
+  }
+
+  // Emails the supplier once per document when it enters its type's alert window
+  async sendExpiryAlerts(at: Date = new Date()): Promise<number> {
+    let sent = 0;
+    for (const { supplier, documentType, document, state } of await this.getExpiringDocuments(at)) {
+      if (state !== "a_vencer" || !document || document.expiryAlertSentAt || !supplier.email) continue;
+
+      try {
+        await emailService.sendDocumentExpiryAlert(supplier, documentType, document);
+        await storage.updateSupplierDocument(document.id, { expiryAlertSentAt: at });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending document expiry alert to supplier ${supplier.id}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  async runOnce(at: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sendExpiryAlerts(at);
+      const changed = await this.evaluateAll(at);
+      if (changed.length > 0) {
+        console.log(`Updated compliance status of ${changed.length} supplier(s)`);
+      }
+    } catch (error) {
+      console.error("Error checking supplier documents:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.runOnce();
+    this.timer = setInterval(() => this.runOnce(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async getCurrentDocuments(supplierId: string): Promise<Map<string, SupplierDocumentSummary>> {
+    const current = new Map<string, SupplierDocumentSummary>();
+    // Newest first: the first upload of each type is the one in force
+    for (const document of await storage.getSupplierDocuments(supplierId)) {
+      if (!current.has(document.documentTypeId)) current.set(document.documentTypeId, document);
+    }
+    return current;
+  }
+}
+
+export const supplierComplianceService = new SupplierComplianceService();
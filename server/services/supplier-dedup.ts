@@ -0,0 +1,58 @@
+import { storage } from "../storage";
+import type { Supplier } from "@shared/schema";
+
+// Legal-form suffixes that don't tell two companies apart
+const LEGAL_SUFFIXES = new Set(["ltda", "me", "epp", "eireli", "sa", "cia", "mei", "ss", "limitada"]);
+
+// Case, accent, punctuation and legal-form insensitive company names
+export function normalizeSupplierName(name: string): string {
+  const words = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\bs\s*\/\s*a\b/g, "sa")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ");
+
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(" ");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Same name after normalization, or a typo away (about one edit per ten characters)
+export function isSimilarSupplierName(a: string, b: string): boolean {
+  const left = normalizeSupplierName(a);
+  const right = normalizeSupplierName(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  const maxDistance = Math.floor(Math.max(left.length, right.length) / 10);
+  return maxDistance > 0 && editDistance(left, right) <= maxDistance;
+}
+
+class SupplierDedupService {
+  // Registered suppliers whose name looks like the given one, e.g. before creating a new record
+  async findSimilarSuppliers(name: string, excludeId?: string): Promise<Supplier[]> {
+    const suppliers = await storage.getSuppliers();
+    return suppliers.filter(supplier => supplier.id !== excludeId && isSimilarSupplierName(supplier.name, name));
+  }
+}
+
+export const supplierDedupService = new SupplierDedupService();
@@ -0,0 +1,142 @@
+import { storage } from "../storage";
+import { supplierPortalService } from "./supplier-portal";
+import type { Category, QuotationRequest, Supplier } from "@shared/schema";
+
+export class SupplierInvitationError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "SupplierInvitationError";
+  }
+}
+
+export interface InvitationCandidate {
+  supplier: Supplier;
+  categories: Category[]; // categories of the request the supplier serves
+  score: number | null; // null until the supplier has a calculated score
+  alreadyInvited: boolean; // has an open or answered portal link for the request
+}
+
+export interface InvitationProposal {
+  categories: Category[]; // categories of the products in the request items
+  uncategorizedItems: number; // items with no product, or a product without category
+  candidates: InvitationCandidate[];
+}
+
+// How many suppliers are invited automatically when the first quotation of a request is registered
+const AUTO_INVITE_LIMIT = 5;
+
+class SupplierInvitationService {
+  // Active suppliers serving the categories of the request items, best score first. A supplier
+  // linked to a category also serves its subcategories.
+  async propose(quotationRequestId: string): Promise<InvitationProposal> {
+    const request = await storage.getQuotationRequest(quotationRequestId);
+    if (!request) {
+      throw new SupplierInvitationError("Quotation request not found", 404);
+    }
+
+    const allCategories = await storage.getCategories();
+    const categoriesById = new Map(allCategories.map(category => [category.id, category]));
+
+    const requestCategoryIds = new Set<string>();
+    let uncategorizedItems = 0;
+    for (const item of await storage.getQuotationRequestItems(request.id)) {
+      const product = item.productId ? await storage.getProduct(item.productId) : undefined;
+      if (product?.categoryId && categoriesById.has(product.categoryId)) {
+        requestCategoryIds.add(product.categoryId);
+      } else {
+        uncategorizedItems++;
+      }
+    }
+
+    // Each category a supplier may be linked to, with the request categories it covers
+    const covered = new Map<string, Set<string>>();
+    for (const categoryId of Array.from(requestCategoryIds)) {
+      const visited = new Set<string>();
+      let current = categoriesById.get(categoryId);
+      while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        covered.set(current.id, (covered.get(current.id) ?? new Set<string>()).add(categoryId));
+        current = current.parentId ? categoriesById.get(current.parentId) : undefined;
+      }
+    }
+
+    const matches = new Map<string, Set<string>>();
+    for (const link of await storage.getSupplierCategoriesByCategory(Array.from(covered.keys()))) {
+      const served = matches.get(link.supplierId) ?? new Set<string>();
+      covered.get(link.categoryId)!.forEach(categoryId => served.add(categoryId));
+      matches.set(link.supplierId, served);
+    }
+
+    const invited = await this.getInvitedSupplierIds(request.id);
+    const candidates: InvitationCandidate[] = [];
+    for (const [supplierId, served] of Array.from(matches.entries())) {
+      const supplier = await storage.getSupplier(supplierId);
+      if (!supplier || supplier.status !== "ativo") continue;
+      candidates.push({
+        supplier,
+        categories: Array.from(served).map(categoryId => categoriesById.get(categoryId)!),
+        score: this.getScore(supplier),
+        alreadyInvited: invited.has(supplier.id),
+      });
+    }
+
+    return {
+      categories: Array.from(requestCategoryIds).map(categoryId => categoriesById.get(categoryId)!),
+      uncategorizedItems,
+      candidates: candidates.sort((a, b) => this.compare(a.supplier, b.supplier)),
+    };
+  }
+
+  // Invites the best proposed suppliers not yet invited. Requests with no categorized item fall
+  // back to the best scored active suppliers.
+  async inviteProposed(
+    request: QuotationRequest,
+    userId: string,
+    excludeSupplierIds: string[] = [],
+  ): Promise<Awaited<ReturnType<typeof supplierPortalService.inviteSuppliers>>> {
+    const proposal = await this.propose(request.id);
+    const invited = await this.getInvitedSupplierIds(request.id);
+
+    const pool = proposal.categories.length > 0
+      ? proposal.candidates.map(candidate => candidate.supplier)
+      : (await storage.getSuppliers())
+          .filter(supplier => supplier.status === "ativo")
+          .sort((a, b) => this.compare(a, b));
+
+    const selected = pool
+      .filter(supplier => !invited.has(supplier.id) && !excludeSupplierIds.includes(supplier.id))
+      .slice(0, AUTO_INVITE_LIMIT);
+    if (selected.length === 0) return [];
+
+    return await supplierPortalService.inviteSuppliers(request, selected, undefined, userId);
+  }
+
+  private getScore(supplier: Supplier): number | null {
+    // The column defaults to zero: a supplier never scored has no breakdown yet
+    return supplier.scoreBreakdown && supplier.score !== null ? Number(supplier.score) : null;
+  }
+
+  // Best score first, unscored suppliers last, then by name
+  private compare(a: Supplier, b: Supplier): number {
+    const scoreA = this.getScore(a);
+    const scoreB = this.getScore(b);
+    if (scoreA !== scoreB) {
+      if (scoreA === null) return 1;
+      if (scoreB === null) return -1;
+      return scoreB - scoreA;
+    }
+    return a.name.localeCompare(b.name, "pt-BR");
+  }
+
+  private async getInvitedSupplierIds(quotationRequestId: string): Promise<Set<string>> {
+    const links = await storage.getSupplierPortalLinks(quotationRequestId);
+    return new Set(links
+      .filter(link => {
+        const status = supplierPortalService.getLinkStatus(link);
+        return status === "ativo" || status === "respondido";
+      })
+      .map(link => link.supplierId));
+  }
+}
+
+export const supplierInvitationService = new SupplierInvitationService();
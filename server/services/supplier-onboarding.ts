@@ -0,0 +1,317 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { emailService } from "./email";
+import { getAppUrl } from "./supplier-portal";
+import { supplierComplianceService, type DocumentRequirement, type DocumentUpload } from "./supplier-compliance";
+import type { Category, Supplier, SupplierDocument, SupplierOnboarding } from "@shared/schema";
+
+export class SupplierOnboardingError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "SupplierOnboardingError";
+  }
+}
+
+export const ONBOARDING_SECTIONS = ["bank", "documents", "categories"] as const;
+
+export type OnboardingSection = typeof ONBOARDING_SECTIONS[number];
+
+export type SectionReviewStatus = "pendente" | "aprovado" | "rejeitado";
+
+export interface SectionReview {
+  status: SectionReviewStatus;
+  notes: string | null;
+  reviewedById: string | null;
+  reviewedAt: string | null;
+}
+
+// Stored in supplierOnboardings.sectionReviews
+export type SectionReviews = Record<OnboardingSection, SectionReview>;
+
+// The token hash never leaves the server
+export type SupplierOnboardingSummary = Omit<SupplierOnboarding, "tokenHash">;
+
+export interface OnboardingForm {
+  bankName: string;
+  bankCode?: string | null;
+  bankBranch: string;
+  bankAccount: string;
+  bankAccountType?: string | null;
+  pixKey?: string | null;
+  categoryIds: string[];
+}
+
+interface OnboardingSession {
+  onboarding: SupplierOnboarding;
+  supplier: Supplier;
+  categoryIds: string[];
+  categories: Category[];
+  documents: DocumentRequirement[];
+}
+
+const SECTION_LABELS: Record<OnboardingSection, string> = {
+  bank: "Dados bancários",
+  documents: "Documentos",
+  categories: "Categorias atendidas",
+};
+
+const LINK_VALIDITY_DAYS = 30;
+
+class SupplierOnboardingService {
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString("hex");
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private issueToken(): { tokenHash: string; tokenExpiresAt: Date; url: string } {
+    const token = this.generateToken();
+    return {
+      tokenHash: this.hashToken(token),
+      tokenExpiresAt: new Date(Date.now() + LINK_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+      url: getAppUrl(`/cadastro/${token}`),
+    };
+  }
+
+  toSummary({ tokenHash, ...onboarding }: SupplierOnboarding): SupplierOnboardingSummary {
+    return onboarding;
+  }
+
+  // Sends the supplier a new registration link, replacing any previous one. The URL is also
+  // returned so it can be shared by other means when the supplier has no email.
+  async invite(supplierId: string, userId: string): Promise<{ onboarding: SupplierOnboarding; url: string; emailed: boolean }> {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier) {
+      throw new SupplierOnboardingError("Supplier not found", 404);
+    }
+    if (supplier.status !== "pendente") {
+      throw new SupplierOnboardingError("Only pending suppliers go through onboarding", 409);
+    }
+
+    const existing = await storage.getSupplierOnboardingBySupplier(supplier.id);
+    if (existing?.status === "enviado") {
+      throw new SupplierOnboardingError("The registration was submitted and is under review", 409);
+    }
+
+    const { tokenHash, tokenExpiresAt, url } = this.issueToken();
+    const onboarding = existing
+      ? await storage.updateSupplierOnboarding(existing.id, {
+          tokenHash,
+          tokenExpiresAt,
+          // A supplier sent back to pendente after approval starts over
+          status: existing.status === "aprovado" ? "rascunho" : existing.status,
+          rejectionReason: existing.status === "aprovado" ? null : existing.rejectionReason,
+        })
+      : await storage.createSupplierOnboarding({
+          supplierId: supplier.id,
+          status: "rascunho",
+          tokenHash,
+          tokenExpiresAt,
+          createdById: userId,
+        });
+
+    let emailed = false;
+    if (supplier.email) {
+      try {
+        await emailService.sendOnboardingInvite(supplier, { url, expiresAt: tokenExpiresAt });
+        emailed = true;
+      } catch (error) {
+        console.error(`Error sending onboarding invite to supplier ${supplier.id}:`, error);
+      }
+    }
+
+    return { onboarding, url, emailed };
+  }
+
+  // Validates a token from a public URL and loads the registration as the supplier left it
+  async resolve(token: string): Promise<OnboardingSession> {
+    const onboarding = await storage.getSupplierOnboardingByTokenHash(this.hashToken(token));
+    if (!onboarding) {
+      throw new SupplierOnboardingError("Invalid registration link", 404);
+    }
+    if (onboarding.tokenExpiresAt.getTime() < Date.now()) {
+      throw new SupplierOnboardingError("This registration link has expired", 410);
+    }
+    if (onboarding.status === "aprovado") {
+      throw new SupplierOnboardingError("This registration has already been approved", 410);
+    }
+
+    const supplier = await storage.getSupplier(onboarding.supplierId);
+    if (!supplier) {
+      throw new SupplierOnboardingError("Invalid registration link", 404);
+    }
+
+    return {
+      onboarding,
+      supplier,
+      categoryIds: (await storage.getSupplierCategories(supplier.id)).map(link => link.categoryId),
+      categories: await storage.getCategories(),
+      documents: await supplierComplianceService.getRequirements(supplier.id),
+    };
+  }
+
+  async saveForm(token: string, form: OnboardingForm): Promise<Supplier> {
+    const { supplier } = await this.resolveEditable(token);
+
+    const categoryIds = Array.from(new Set(form.categoryIds));
+    for (const categoryId of categoryIds) {
+      if (!(await storage.getCategory(categoryId))) {
+        throw new SupplierOnboardingError("Category not found", 404);
+      }
+    }
+
+    const updated = await storage.updateSupplier(supplier.id, {
+      bankName: form.bankName,
+      bankCode: form.bankCode ?? null,
+      bankBranch: form.bankBranch,
+      bankAccount: form.bankAccount,
+      bankAccountType: form.bankAccountType ?? null,
+      pixKey: form.pixKey ?? null,
+    });
+    await storage.setSupplierCategories(supplier.id, categoryIds);
+    return updated;
+  }
+
+  async uploadDocument(token: string, upload: DocumentUpload): Promise<SupplierDocument> {
+    const { supplier } = await this.resolveEditable(token);
+    return await supplierComplianceService.uploadDocument(supplier.id, upload);
+  }
+
+  // Sends the registration for review once every section is filled in
+  async submit(token: string): Promise<SupplierOnboarding> {
+    const { onboarding, supplier, categoryIds, documents } = await this.resolveEditable(token);
+
+    const missing: string[] = [];
+    if (!supplier.bankName || !supplier.bankBranch || !supplier.bankAccount) {
+      missing.push(SECTION_LABELS.bank);
+    }
+    for (const requirement of documents) {
+      if (requirement.documentType.isMandatory && (requirement.state === "ausente" || requirement.state === "vencido")) {
+        missing.push(requirement.documentType.name);
+      }
+    }
+    if (categoryIds.length === 0) {
+      missing.push(SECTION_LABELS.categories);
+    }
+    if (missing.length > 0) {
+      throw new SupplierOnboardingError(`Complete the registration before submitting: ${missing.join(", ")}`);
+    }
+
+    return await storage.updateSupplierOnboarding(onboarding.id, {
+      status: "enviado",
+      submittedAt: new Date(),
+      sectionReviews: this.emptyReviews(),
+      rejectionReason: null,
+    });
+  }
+
+  async reviewSection(
+    onboardingId: string,
+    section: OnboardingSection,
+    status: Exclude<SectionReviewStatus, "pendente">,
+    notes: string | null,
+    userId: string,
+  ): Promise<SupplierOnboarding> {
+    const onboarding = await this.getSubmitted(onboardingId);
+    if (status === "rejeitado" && !notes?.trim()) {
+      throw new SupplierOnboardingError("Inform the reason for rejecting this section");
+    }
+
+    const sectionReviews: SectionReviews = {
+      ...this.getReviews(onboarding),
+      [section]: { status, notes: notes?.trim() || null, reviewedById: userId, reviewedAt: new Date().toISOString() },
+    };
+    return await storage.updateSupplierOnboarding(onboarding.id, { sectionReviews });
+  }
+
+  // Every section must have been approved; the supplier then becomes active
+  async approve(onboardingId: string, userId: string): Promise<{ onboarding: SupplierOnboarding; supplier: Supplier }> {
+    const onboarding = await this.getSubmitted(onboardingId);
+    const pending = ONBOARDING_SECTIONS.filter(section => this.getReviews(onboarding)[section].status !== "aprovado");
+    if (pending.length > 0) {
+      throw new SupplierOnboardingError(
+        `Approve every section first: ${pending.map(section => SECTION_LABELS[section]).join(", ")}`,
+        409,
+      );
+    }
+
+    const approved = await storage.updateSupplierOnboarding(onboarding.id, {
+      status: "aprovado",
+      reviewedById: userId,
+      reviewedAt: new Date(),
+    });
+    await storage.updateSupplier(onboarding.supplierId, { status: "ativo", complianceBlockedAt: null });
+    // Documents may have expired while the registration waited for review
+    const supplier = await supplierComplianceService.evaluateSupplier(onboarding.supplierId);
+
+    return { onboarding: approved, supplier };
+  }
+
+  // Sends the registration back to the supplier with the reasons of each rejected section
+  // and a fresh link to correct it
+  async reject(onboardingId: string, userId: string): Promise<{ onboarding: SupplierOnboarding; reasons: string[]; emailed: boolean }> {
+    const onboarding = await this.getSubmitted(onboardingId);
+    const reviews = this.getReviews(onboarding);
+    const reasons = ONBOARDING_SECTIONS
+      .filter(section => reviews[section].status === "rejeitado")
+      .map(section => `${SECTION_LABELS[section]}: ${reviews[section].notes}`);
+    if (reasons.length === 0) {
+      throw new SupplierOnboardingError("Reject at least one section, with its reason, first", 409);
+    }
+
+    const { tokenHash, tokenExpiresAt, url } = this.issueToken();
+    const rejected = await storage.updateSupplierOnboarding(onboarding.id, {
+      status: "rejeitado",
+      rejectionReason: reasons.join("\n"),
+      reviewedById: userId,
+      reviewedAt: new Date(),
+      tokenHash,
+      tokenExpiresAt,
+    });
+
+    const supplier = await storage.getSupplier(onboarding.supplierId);
+    let emailed = false;
+    if (supplier?.email) {
+      try {
+        await emailService.sendOnboardingRejection(supplier, reasons, { url, expiresAt: tokenExpiresAt });
+        emailed = true;
+      } catch (error) {
+        console.error(`Error sending onboarding rejection to supplier ${supplier.id}:`, error);
+      }
+    }
+
+    return { onboarding: rejected, reasons, emailed };
+  }
+
+  getReviews(onboarding: SupplierOnboarding): SectionReviews {
+    return (onboarding.sectionReviews as SectionReviews | null) ?? this.emptyReviews();
+  }
+
+  private emptyReviews(): SectionReviews {
+    const review: SectionReview = { status: "pendente", notes: null, reviewedById: null, reviewedAt: null };
+    return { bank: { ...review }, documents: { ...review }, categories: { ...review } };
+  }
+
+  private async resolveEditable(token: string): Promise<OnboardingSession> {
+    const session = await this.resolve(token);
+    if (session.onboarding.status === "enviado") {
+      throw new SupplierOnboardingError("The registration was submitted and is under review", 409);
+    }
+    return session;
+  }
+
+  private async getSubmitted(onboardingId: string): Promise<SupplierOnboarding> {
+    const onboarding = await storage.getSupplierOnboarding(onboardingId);
+    if (!onboarding) {
+      throw new SupplierOnboardingError("Onboarding not found", 404);
+    }
+    if (onboarding.status !== "enviado") {
+      throw new SupplierOnboardingError("Only submitted registrations can be reviewed", 409);
+    }
+    return onboarding;
+  }
+}
+
+export const supplierOnboardingService = new SupplierOnboardingService();
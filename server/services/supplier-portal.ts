@@ -0,0 +1,263 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { emailService, type SupplierPortalInvite } from "./email";
+import { priceAnomalyService } from "./price-anomaly";
+import { isAcceptingQuotations } from "@shared/workflow";
+import type {
+  QuotationRequest,
+  QuotationRequestItem,
+  Supplier,
+  SupplierPortalLink,
+  SupplierQuotation,
+  SupplierQuotationItem,
+} from "@shared/schema";
+
+export class SupplierPortalError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "SupplierPortalError";
+  }
+}
+
+const DEFAULT_LINK_VALIDITY_DAYS = 7;
+
+// Absolute URL of a client page, for links sent to people outside the system
+export function getAppUrl(path: string): string {
+  const domain = process.env.REPLIT_DOMAINS?.split(",")[0];
+  const baseUrl = process.env.APP_BASE_URL || (domain ? `https://${domain}` : "http://localhost:5000");
+  return `${baseUrl.replace(/\/$/, "")}${path}`;
+}
+
+export type PortalLinkStatus = "ativo" | "respondido" | "expirado" | "revogado";
+
+export interface PortalSubmission {
+  quotationNumber?: string | null;
+  validUntil?: Date | null;
+  deliveryTime?: number | null;
+  paymentTerms?: string | null;
+  observations?: string | null;
+  items: {
+    quotationRequestItemId: string;
+    unitPrice: number;
+    brand?: string | null;
+    model?: string | null;
+    specifications?: string | null;
+  }[];
+}
+
+interface PortalSession {
+  link: SupplierPortalLink;
+  request: QuotationRequest;
+  supplier: Supplier;
+  items: QuotationRequestItem[];
+  quotation?: SupplierQuotation;
+  quotationItems: SupplierQuotationItem[];
+}
+
+class SupplierPortalService {
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString("hex");
+  }
+
+  hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  getPortalUrl(token: string): string {
+    return getAppUrl(`/portal/${token}`);
+  }
+
+  getLinkStatus(link: SupplierPortalLink, at: Date = new Date()): PortalLinkStatus {
+    if (link.revokedAt) return "revogado";
+    if (link.expiresAt.getTime() < at.getTime()) return "expirado";
+    if (link.submittedAt) return "respondido";
+    return "ativo";
+  }
+
+  // Issues one link per supplier, replacing any link still open for the same request/supplier pair,
+  // and emails each supplier its own URL. The raw token only exists in the returned URL.
+  async inviteSuppliers(
+    request: QuotationRequest,
+    suppliers: Supplier[],
+    expiresAt?: Date,
+    userId?: string,
+  ): Promise<{ link: SupplierPortalLink; supplier: Supplier; url: string }[]> {
+    if (!isAcceptingQuotations(request)) {
+      throw new SupplierPortalError("This quotation request is no longer accepting quotations", 409);
+    }
+    const blocked = suppliers.filter(supplier => supplier.status === "bloqueado");
+    if (blocked.length > 0) {
+      throw new SupplierPortalError(`Blocked suppliers cannot be invited: ${blocked.map(supplier => supplier.name).join(", ")}`, 409);
+    }
+
+    // Links never outlive the request's response deadline
+    let expiry = expiresAt ?? request.responseDeadline ?? new Date(Date.now() + DEFAULT_LINK_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+    if (request.responseDeadline && expiry.getTime() > request.responseDeadline.getTime()) {
+      expiry = request.responseDeadline;
+    }
+    if (expiry.getTime() <= Date.now()) {
+      throw new SupplierPortalError("Link expiration must be in the future");
+    }
+
+    const existingLinks = await storage.getSupplierPortalLinks(request.id);
+    const created: { link: SupplierPortalLink; supplier: Supplier; url: string }[] = [];
+
+    for (const supplier of suppliers) {
+      for (const previous of existingLinks.filter(link => link.supplierId === supplier.id && !link.revokedAt)) {
+        if (this.getLinkStatus(previous) === "ativo" || this.getLinkStatus(previous) === "respondido") {
+          await storage.updateSupplierPortalLink(previous.id, { revokedAt: new Date() });
+        }
+      }
+      // A quotation already sent keeps being edited through the new link instead of being duplicated
+      const answered = await storage.getSupplierQuotationByRequestAndSupplier(request.id, supplier.id);
+
+      const token = this.generateToken();
+      const link = await storage.createSupplierPortalLink({
+        quotationRequestId: request.id,
+        supplierId: supplier.id,
+        tokenHash: this.hashToken(token),
+        expiresAt: expiry,
+        supplierQuotationId: answered?.id ?? null,
+        createdById: userId,
+      });
+      created.push({ link, supplier, url: this.getPortalUrl(token) });
+    }
+
+    const invites: Record<string, SupplierPortalInvite> = {};
+    for (const { supplier, url, link } of created) {
+      invites[supplier.id] = { url, expiresAt: link.expiresAt };
+    }
+
+    const recipients = created.map(({ supplier }) => supplier).filter(supplier => supplier.email);
+    if (recipients.length > 0) {
+      try {
+        await emailService.sendQuotationRequestNotification(recipients, request, invites);
+      } catch (emailError) {
+        // Links stay valid; the buyer can still share them manually
+        console.error("Error sending supplier portal invitations:", emailError);
+      }
+    }
+
+    return created;
+  }
+
+  async revoke(id: string): Promise<SupplierPortalLink> {
+    const link = await storage.getSupplierPortalLink(id);
+    if (!link) {
+      throw new SupplierPortalError("Portal link not found", 404);
+    }
+    if (link.revokedAt) return link;
+    return await storage.updateSupplierPortalLink(id, { revokedAt: new Date() });
+  }
+
+  // Validates a token from a public URL and loads everything the supplier may see
+  async resolve(token: string): Promise<PortalSession> {
+    const link = await storage.getSupplierPortalLinkByTokenHash(this.hashToken(token));
+    if (!link) {
+      throw new SupplierPortalError("Invalid quotation link", 404);
+    }
+
+    const status = this.getLinkStatus(link);
+    if (status === "revogado") {
+      throw new SupplierPortalError("This quotation link has been revoked", 410);
+    }
+    if (status === "expirado") {
+      throw new SupplierPortalError("This quotation link has expired", 410);
+    }
+
+    const request = await storage.getQuotationRequest(link.quotationRequestId);
+    const supplier = await storage.getSupplier(link.supplierId);
+    if (!request || !supplier) {
+      throw new SupplierPortalError("Invalid quotation link", 404);
+    }
+    if (!isAcceptingQuotations(request)) {
+      throw new SupplierPortalError("This quotation request is no longer accepting quotations", 410);
+    }
+
+    const items = await storage.getQuotationRequestItems(request.id);
+    // Quotations entered by the buyer or imported for this supplier are found as well
+    const quotation = link.supplierQuotationId
+      ? await storage.getSupplierQuotation(link.supplierQuotationId)
+      : await storage.getSupplierQuotationByRequestAndSupplier(request.id, supplier.id);
+    const quotationItems = quotation ? await storage.getSupplierQuotationItems(quotation.id) : [];
+
+    await storage.updateSupplierPortalLink(link.id, { lastAccessedAt: new Date() });
+
+    return { link, request, supplier, items, quotation, quotationItems };
+  }
+
+  // Creates the supplier's quotation, or replaces it while the link is still valid
+  async submit(token: string, submission: PortalSubmission): Promise<SupplierQuotation> {
+    const { link, request, items, quotation: previous } = await this.resolve(token);
+
+    if (previous?.isSelected) {
+      throw new SupplierPortalError("This quotation has already been selected and can no longer be changed", 409);
+    }
+
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const pricedItems = submission.items.filter(item => item.unitPrice > 0);
+    if (pricedItems.length === 0) {
+      throw new SupplierPortalError("Inform the unit price of at least one item");
+    }
+    for (const item of pricedItems) {
+      if (!itemsById.has(item.quotationRequestItemId)) {
+        throw new SupplierPortalError("Quotation item does not belong to this request");
+      }
+    }
+
+    const lines = pricedItems.map(item => {
+      const requestItem = itemsById.get(item.quotationRequestItemId)!;
+      return { ...item, totalPrice: item.unitPrice * Number(requestItem.quantity) };
+    });
+    const totalAmount = lines.reduce((total, line) => total + line.totalPrice, 0);
+
+    const header = {
+      quotationNumber: submission.quotationNumber ?? null,
+      validUntil: submission.validUntil ?? null,
+      deliveryTime: submission.deliveryTime ?? null,
+      paymentTerms: submission.paymentTerms ?? null,
+      observations: submission.observations ?? null,
+      totalAmount: totalAmount.toFixed(2),
+    };
+
+    let quotation: SupplierQuotation;
+    if (previous) {
+      for (const item of await storage.getSupplierQuotationItems(previous.id)) {
+        await storage.deleteSupplierQuotationItem(item.id);
+      }
+      quotation = await storage.updateSupplierQuotation(previous.id, header);
+    } else {
+      quotation = await storage.createSupplierQuotation({
+        ...header,
+        quotationRequestId: request.id,
+        supplierId: link.supplierId,
+      });
+    }
+
+    for (const line of lines) {
+      await storage.createSupplierQuotationItem({
+        supplierQuotationId: quotation.id,
+        quotationRequestItemId: line.quotationRequestItemId,
+        unitPrice: line.unitPrice.toFixed(2),
+        totalPrice: line.totalPrice.toFixed(2),
+        brand: line.brand ?? null,
+        model: line.model ?? null,
+        specifications: line.specifications ?? null,
+      });
+    }
+
+    await storage.updateSupplierPortalLink(link.id, {
+      submittedAt: new Date(),
+      supplierQuotationId: quotation.id,
+    });
+    await priceAnomalyService.evaluateRequest(request.id);
+
+    if (request.status === "rascunho") {
+      await storage.updateQuotationRequest(request.id, { status: "em_cotacao" });
+    }
+
+    return quotation;
+  }
+}
+
+export const supplierPortalService = new SupplierPortalService();
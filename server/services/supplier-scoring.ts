@@ -0,0 +1,252 @@
+import { storage, type SupplierInvitation } from "../storage";
+import { isAcceptingQuotations } from "@shared/workflow";
+import type { InsertSupplierIncident, Supplier, SupplierIncident, SupplierScoreWeights } from "@shared/schema";
+
+export class SupplierScoringError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "SupplierScoringError";
+  }
+}
+
+export type ScoreCriterion = "responseRate" | "priceCompetitiveness" | "onTimeDelivery" | "quality";
+
+export type ScoreWeights = Record<ScoreCriterion, number>;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  responseRate: 25,
+  priceCompetitiveness: 35,
+  onTimeDelivery: 25,
+  quality: 15,
+};
+
+export interface CriterionResult {
+  value: number | null; // 0-1, null when there is no data to rate the supplier on
+  weight: number;
+  sampleSize: number;
+}
+
+// Stored in suppliers.scoreBreakdown
+export interface ScoreBreakdown {
+  score: number | null; // 0-5
+  criteria: Record<ScoreCriterion, CriterionResult>;
+  calculatedAt: string;
+}
+
+const MAX_SCORE = 5;
+
+// Penalty of each incident, in deliveries: a "alta" incident cancels out two clean deliveries
+const SEVERITY_PENALTY: Record<NonNullable<SupplierIncident["severity"]>, number> = {
+  baixa: 0.5,
+  media: 1,
+  alta: 2,
+};
+
+const END_OF_DAY_MS = 24 * 60 * 60 * 1000 - 1;
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+class SupplierScoringService {
+  async getWeights(): Promise<ScoreWeights> {
+    const weights = await storage.getSupplierScoreWeights();
+    if (!weights) return { ...DEFAULT_SCORE_WEIGHTS };
+    return {
+      responseRate: Number(weights.responseRate),
+      priceCompetitiveness: Number(weights.priceCompetitiveness),
+      onTimeDelivery: Number(weights.onTimeDelivery),
+      quality: Number(weights.quality),
+    };
+  }
+
+  // Saves new weights and rescores every supplier with them
+  async saveWeights(weights: ScoreWeights, userId: string): Promise<SupplierScoreWeights> {
+    const values = Object.values(weights);
+    if (values.some(weight => !Number.isFinite(weight) || weight < 0)) {
+      throw new SupplierScoringError("Weights must be zero or positive numbers");
+    }
+    if (values.every(weight => weight === 0)) {
+      throw new SupplierScoringError("At least one criterion must have a weight");
+    }
+
+    const saved = await storage.saveSupplierScoreWeights({
+      responseRate: weights.responseRate.toFixed(2),
+      priceCompetitiveness: weights.priceCompetitiveness.toFixed(2),
+      onTimeDelivery: weights.onTimeDelivery.toFixed(2),
+      quality: weights.quality.toFixed(2),
+      updatedById: userId,
+    });
+    await this.recalculateAll();
+    return saved;
+  }
+
+  async calculate(supplierId: string, at: Date = new Date()): Promise<ScoreBreakdown> {
+    const weights = await this.getWeights();
+    const criteria: Record<ScoreCriterion, CriterionResult> = {
+      ...(await this.rateQuotations(supplierId, weights, at)),
+      ...(await this.rateDeliveries(supplierId, weights, at)),
+    };
+
+    const rated = Object.values(criteria).filter(criterion => criterion.value !== null && criterion.weight > 0);
+    const totalWeight = rated.reduce((sum, criterion) => sum + criterion.weight, 0);
+    const score = totalWeight > 0
+      ? MAX_SCORE * rated.reduce((sum, criterion) => sum + criterion.weight * criterion.value!, 0) / totalWeight
+      : null;
+
+    return { score, criteria, calculatedAt: at.toISOString() };
+  }
+
+  // Persists the score, its breakdown and the quotation count on the supplier
+  async recalculate(supplierId: string): Promise<Supplier> {
+    const supplier = await storage.getSupplier(supplierId);
+    if (!supplier) {
+      throw new SupplierScoringError("Supplier not found", 404);
+    }
+
+    const breakdown = await this.calculate(supplier.id);
+    return await storage.updateSupplier(supplier.id, {
+      score: breakdown.score === null ? null : breakdown.score.toFixed(2),
+      scoreBreakdown: breakdown,
+      scoreUpdatedAt: new Date(breakdown.calculatedAt),
+      totalQuotations: await this.countQuotations(supplier.id),
+    });
+  }
+
+  // A new or changed bid moves the price position of everyone invited to the same request
+  async recalculateForQuotationRequest(quotationRequestId: string): Promise<void> {
+    const supplierIds = new Set([
+      ...(await storage.getSupplierQuotations(quotationRequestId)).map(quotation => quotation.supplierId),
+      ...(await storage.getSupplierPortalLinks(quotationRequestId)).map(link => link.supplierId),
+    ]);
+    for (const supplierId of Array.from(supplierIds)) {
+      await this.recalculate(supplierId);
+    }
+  }
+
+  async recalculateAll(): Promise<void> {
+    for (const supplier of await storage.getSuppliers()) {
+      await this.recalculate(supplier.id);
+    }
+  }
+
+  async recordIncident(incident: InsertSupplierIncident): Promise<SupplierIncident> {
+    const supplier = await storage.getSupplier(incident.supplierId);
+    if (!supplier) {
+      throw new SupplierScoringError("Supplier not found", 404);
+    }
+    if (incident.purchaseOrderId) {
+      const order = await storage.getPurchaseOrder(incident.purchaseOrderId);
+      if (!order || order.supplierId !== supplier.id) {
+        throw new SupplierScoringError("Purchase order does not belong to this supplier");
+      }
+    }
+
+    const created = await storage.createSupplierIncident(incident);
+    await this.recalculate(supplier.id);
+    return created;
+  }
+
+  // Number of quotation requests the supplier quoted on
+  private async countQuotations(supplierId: string): Promise<number> {
+    const quotations = await storage.getSupplierQuotationsBySupplier(supplierId);
+    return new Set(quotations.map(quotation => quotation.quotationRequestId)).size;
+  }
+
+  // Response rate to invitations and price position against the other bids on the same items
+  private async rateQuotations(supplierId: string, weights: ScoreWeights, at: Date) {
+    const quotedRequestIds = new Set(
+      (await storage.getSupplierQuotationsBySupplier(supplierId)).map(quotation => quotation.quotationRequestId),
+    );
+
+    // Invitations still open are not counted until the supplier had the chance to answer
+    const invitationsByRequest = new Map<string, SupplierInvitation[]>();
+    for (const invitation of await storage.getSupplierInvitations(supplierId)) {
+      const { link } = invitation;
+      if (link.revokedAt && !link.submittedAt) continue;
+      invitationsByRequest.set(link.quotationRequestId, [...(invitationsByRequest.get(link.quotationRequestId) ?? []), invitation]);
+    }
+
+    let invited = 0;
+    let answered = 0;
+    for (const [quotationRequestId, invitations] of Array.from(invitationsByRequest.entries())) {
+      const answeredInvitation = quotedRequestIds.has(quotationRequestId) || invitations.some(({ link }) => link.submittedAt);
+      const stillOpen = isAcceptingQuotations(invitations[0].request, at)
+        && invitations.some(({ link }) => link.expiresAt.getTime() > at.getTime());
+      if (answeredInvitation || !stillOpen) {
+        invited++;
+        if (answeredInvitation) answered++;
+      }
+    }
+
+    const bids = await storage.getQuotationBids(Array.from(quotedRequestIds));
+    const pricesByItem = new Map<string, number[]>();
+    for (const bid of bids) {
+      pricesByItem.set(bid.quotationRequestItemId, [...(pricesByItem.get(bid.quotationRequestItemId) ?? []), Number(bid.unitPrice)]);
+    }
+    const pricePositions: number[] = [];
+    for (const bid of bids.filter(bid => bid.supplierId === supplierId)) {
+      const prices = pricesByItem.get(bid.quotationRequestItemId) ?? [];
+      const unitPrice = Number(bid.unitPrice);
+      if (prices.length < 2 || unitPrice <= 0) continue;
+      pricePositions.push(Math.min(...prices) / unitPrice);
+    }
+
+    return {
+      responseRate: {
+        value: invited > 0 ? answered / invited : null,
+        weight: weights.responseRate,
+        sampleSize: invited,
+      },
+      priceCompetitiveness: {
+        value: average(pricePositions),
+        weight: weights.priceCompetitiveness,
+        sampleSize: pricePositions.length,
+      },
+    };
+  }
+
+  // On-time delivery against the expected date of each order, and incidents per delivery received
+  private async rateDeliveries(supplierId: string, weights: ScoreWeights, at: Date) {
+    const orders = (await storage.getPurchaseOrders())
+      .filter(order => order.supplierId === supplierId && order.status !== "pendente" && order.status !== "cancelado");
+
+    let deliveries = 0;
+    let dueOrders = 0;
+    let onTimeOrders = 0;
+    for (const order of orders) {
+      const receipts = await storage.getGoodsReceipts(order.id);
+      deliveries += receipts.length;
+      if (!order.expectedDeliveryDate) continue;
+
+      const deadline = order.expectedDeliveryDate.getTime() + END_OF_DAY_MS;
+      if (order.status === "entregue" && receipts.length > 0) {
+        const lastReceipt = Math.max(...receipts.map(receipt => receipt.receivedAt.getTime()));
+        dueOrders++;
+        if (lastReceipt <= deadline) onTimeOrders++;
+      } else if (deadline < at.getTime()) {
+        // Past the expected date and still not fully delivered
+        dueOrders++;
+      }
+    }
+
+    const incidents = await storage.getSupplierIncidents(supplierId);
+    const penalty = incidents.reduce((sum, incident) => sum + SEVERITY_PENALTY[incident.severity ?? "media"], 0);
+
+    return {
+      onTimeDelivery: {
+        value: dueOrders > 0 ? onTimeOrders / dueOrders : null,
+        weight: weights.onTimeDelivery,
+        sampleSize: dueOrders,
+      },
+      quality: {
+        value: deliveries > 0 || incidents.length > 0
+          ? Math.max(0, 1 - penalty / Math.max(deliveries, 1))
+          : null,
+        weight: weights.quality,
+        sampleSize: deliveries,
+      },
+    };
+  }
+}
+
+export const supplierScoringService = new SupplierScoringService();
@@ -8,8 +8,29 @@ import {
   supplierQuotations,
   supplierQuotationItems,
   purchaseOrders,
+  purchaseOrderItems,
+  goodsReceipts,
+  goodsReceiptItems,
+  supplierInvoices,
+  supplierInvoiceItems,
+  invoiceMatchTolerances,
+  supplierIncidents,
+  supplierScoreWeights,
+  supplierDocumentTypes,
+  supplierDocuments,
+  supplierCategories,
+  supplierOnboardings,
+  productPriceHistory,
+  importMappingProfiles,
   auditLogs,
   aiAnalyses,
+  approvalPolicies,
+  quotationApprovalSteps,
+  approvalDelegations,
+  costCenters,
+  costCenterBudgets,
+  supplierPortalLinks,
+  budgetEntries,
   type User,
   type UpsertUser,
   type Supplier,
@@ -28,23 +49,124 @@ import {
   type InsertSupplierQuotationItem,
   type PurchaseOrder,
   type InsertPurchaseOrder,
+  type PurchaseOrderItem,
+  type InsertPurchaseOrderItem,
+  type GoodsReceipt,
+  type InsertGoodsReceipt,
+  type GoodsReceiptItem,
+  type InsertGoodsReceiptItem,
+  type SupplierInvoice,
+  type InsertSupplierInvoice,
+  type SupplierInvoiceItem,
+  type InsertSupplierInvoiceItem,
+  type InvoiceMatchTolerance,
+  type InsertInvoiceMatchTolerance,
+  type SupplierIncident,
+  type InsertSupplierIncident,
+  type SupplierScoreWeights,
+  type InsertSupplierScoreWeights,
+  type SupplierDocumentType,
+  type InsertSupplierDocumentType,
+  type SupplierDocument,
+  type InsertSupplierDocument,
+  type SupplierCategory,
+  type SupplierOnboarding,
+  type InsertSupplierOnboarding,
+  type ProductPriceHistory,
+  type InsertProductPriceHistory,
+  type ImportMappingProfile,
+  type InsertImportMappingProfile,
   type AuditLog,
   type InsertAuditLog,
   type AiAnalysis,
   type InsertAiAnalysis,
+  type ApprovalPolicy,
+  type InsertApprovalPolicy,
+  type QuotationApprovalStep,
+  type InsertQuotationApprovalStep,
+  type ApprovalDelegation,
+  type InsertApprovalDelegation,
+  type SupplierPortalLink,
+  type InsertSupplierPortalLink,
+  type CostCenter,
+  type InsertCostCenter,
+  type CostCenterBudget,
+  type InsertCostCenterBudget,
+  type BudgetEntry,
+  type InsertBudgetEntry,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, or, like, sql, count, avg, sum } from "drizzle-orm";
+import {
+  assertQuotationTransition,
+  assertPurchaseOrderTransition,
+  assertInvoiceTransition,
+  InvalidStatusTransitionError,
+  getAllowedQuotationTransitions,
+  getAllowedPurchaseOrderTransitions,
+  getAllowedInvoiceTransitions,
+  type InvoiceStatus,
+} from "@shared/workflow";
+import { onlyDigits } from "@shared/documents";
+import { db, type Database, type Transaction } from "./db";
+import { eq, desc, and, or, like, sql, count, avg, sum, lte, gte, inArray, getTableColumns } from "drizzle-orm";
+
+// A quotation request read from a spreadsheet, with the items that belong to it
+export interface QuotationRequestImport {
+  request: InsertQuotationRequest;
+  items: Omit<InsertQuotationRequestItem, "quotationRequestId">[];
+}
+
+// A unit price one supplier quoted for one request item
+export interface QuotationBid {
+  supplierId: string;
+  quotationRequestItemId: string;
+  unitPrice: string;
+}
+
+// Document metadata without the stored file, which only the download route loads
+export type SupplierDocumentSummary = Omit<SupplierDocument, "fileContent">;
+
+// A portal invitation with the state of the quotation request it was sent for
+export interface SupplierInvitation {
+  link: SupplierPortalLink;
+  request: Pick<QuotationRequest, "status" | "responseDeadline">;
+}
+
+// One supplier quotation read from a spreadsheet. The supplier is either an existing one or one to
+// register, keyed by CNPJ so that several entries can share a supplier created by the same import.
+// On an existing quotation the items replace the lines quoted for the same request items.
+export interface SupplierQuotationImport {
+  supplierId?: string;
+  newSupplier?: InsertSupplier & { cnpj: string };
+  existingQuotationId?: string;
+  quotation: Omit<InsertSupplierQuotation, "supplierId">;
+  items: Omit<InsertSupplierQuotationItem, "supplierQuotationId">[];
+}
+
+// A goods receipt with its lines, written together once the quantities are checked
+export interface GoodsReceiptRecord {
+  receipt: InsertGoodsReceipt;
+  items: Omit<InsertGoodsReceiptItem, "goodsReceiptId">[];
+}
+
+// Thrown by recordGoodsReceipt when a line would be received beyond its ordered quantity
+export class OverReceiptError extends Error {
+  constructor(public readonly purchaseOrderItemId: string, public readonly outstanding: number) {
+    super(`Received quantity exceeds the ${outstanding} still outstanding for purchase order item ${purchaseOrderItemId}`);
+    this.name = "OverReceiptError";
+  }
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   upsertUser(user: UpsertUser): Promise<User>;
 
   // Supplier operations
   getSuppliers(): Promise<Supplier[]>;
   getSupplier(id: string): Promise<Supplier | undefined>;
   getSupplierByName(name: string): Promise<Supplier | undefined>;
+  getSupplierByCnpj(cnpj: string): Promise<Supplier | undefined>;
   createSupplier(supplier: InsertSupplier): Promise<Supplier>;
   updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier>;
   deleteSupplier(id: string): Promise<void>;
@@ -53,6 +175,7 @@ export interface IStorage {
   // Product operations
   getProducts(): Promise<Product[]>;
   getProduct(id: string): Promise<Product | undefined>;
+  getProductByCode(code: string): Promise<Product | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product>;
   deleteProduct(id: string): Promise<void>;
@@ -70,7 +193,8 @@ export interface IStorage {
   getQuotationRequests(): Promise<QuotationRequest[]>;
   getQuotationRequest(id: string): Promise<QuotationRequest | undefined>;
   createQuotationRequest(request: InsertQuotationRequest): Promise<QuotationRequest>;
-  updateQuotationRequest(id: string, request: Partial<InsertQuotationRequest>): Promise<QuotationRequest>;
+  // Status changes are validated against the workflow transition table and audited
+  updateQuotationRequest(id: string, request: Partial<InsertQuotationRequest>, userId?: string): Promise<QuotationRequest>;
   deleteQuotationRequest(id: string): Promise<void>;
   getQuotationRequestsByUser(userId: string): Promise<QuotationRequest[]>;
   getQuotationRequestsForApproval(approverId: string): Promise<QuotationRequest[]>;
@@ -85,21 +209,139 @@ export interface IStorage {
   getSupplierQuotations(quotationRequestId: string): Promise<SupplierQuotation[]>;
   getSupplierQuotation(id: string): Promise<SupplierQuotation | undefined>;
   getSupplierQuotationByRequestAndSupplier(quotationRequestId: string, supplierId: string): Promise<SupplierQuotation | undefined>;
+  getSupplierQuotationsBySupplier(supplierId: string): Promise<SupplierQuotation[]>;
   createSupplierQuotation(quotation: InsertSupplierQuotation): Promise<SupplierQuotation>;
   updateSupplierQuotation(id: string, quotation: Partial<InsertSupplierQuotation>): Promise<SupplierQuotation>;
   deleteSupplierQuotation(id: string): Promise<void>;
 
   // Supplier Quotation Item operations
   getSupplierQuotationItems(supplierQuotationId: string): Promise<SupplierQuotationItem[]>;
+  getQuotationBids(quotationRequestIds: string[]): Promise<QuotationBid[]>;
   createSupplierQuotationItem(item: InsertSupplierQuotationItem): Promise<SupplierQuotationItem>;
   updateSupplierQuotationItem(id: string, item: Partial<InsertSupplierQuotationItem>): Promise<SupplierQuotationItem>;
   deleteSupplierQuotationItem(id: string): Promise<void>;
 
+  // Supplier Portal Link operations
+  getSupplierPortalLinks(quotationRequestId: string): Promise<SupplierPortalLink[]>;
+  getSupplierInvitations(supplierId: string): Promise<SupplierInvitation[]>;
+  getSupplierPortalLink(id: string): Promise<SupplierPortalLink | undefined>;
+  getSupplierPortalLinkByTokenHash(tokenHash: string): Promise<SupplierPortalLink | undefined>;
+  createSupplierPortalLink(link: InsertSupplierPortalLink): Promise<SupplierPortalLink>;
+  updateSupplierPortalLink(id: string, link: Partial<InsertSupplierPortalLink>): Promise<SupplierPortalLink>;
+
+  // Approval Policy operations
+  getApprovalPolicies(): Promise<ApprovalPolicy[]>;
+  getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined>;
+  createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy>;
+  updateApprovalPolicy(id: string, policy: Partial<InsertApprovalPolicy>): Promise<ApprovalPolicy>;
+  deleteApprovalPolicy(id: string): Promise<void>;
+
+  // Approval Step operations
+  getApprovalSteps(quotationRequestId: string): Promise<QuotationApprovalStep[]>;
+  getPendingApprovalSteps(): Promise<QuotationApprovalStep[]>;
+  createApprovalStep(step: InsertQuotationApprovalStep): Promise<QuotationApprovalStep>;
+  updateApprovalStep(id: string, step: Partial<InsertQuotationApprovalStep>): Promise<QuotationApprovalStep>;
+
+  // Approval Delegation operations
+  getApprovalDelegations(userId?: string): Promise<ApprovalDelegation[]>;
+  getApprovalDelegation(id: string): Promise<ApprovalDelegation | undefined>;
+  getActiveDelegationsForDelegate(delegateId: string, at?: Date): Promise<ApprovalDelegation[]>;
+  createApprovalDelegation(delegation: InsertApprovalDelegation): Promise<ApprovalDelegation>;
+  updateApprovalDelegation(id: string, delegation: Partial<InsertApprovalDelegation>): Promise<ApprovalDelegation>;
+
+  // Cost Center and Budget operations
+  getCostCenters(): Promise<CostCenter[]>;
+  getCostCenter(id: string): Promise<CostCenter | undefined>;
+  getCostCenterByCode(code: string): Promise<CostCenter | undefined>;
+  createCostCenter(costCenter: InsertCostCenter): Promise<CostCenter>;
+  updateCostCenter(id: string, costCenter: Partial<InsertCostCenter>): Promise<CostCenter>;
+  getCostCenterBudgets(costCenterId?: string): Promise<CostCenterBudget[]>;
+  getCostCenterBudget(id: string): Promise<CostCenterBudget | undefined>;
+  createCostCenterBudget(budget: InsertCostCenterBudget): Promise<CostCenterBudget>;
+  updateCostCenterBudget(id: string, budget: Partial<InsertCostCenterBudget>): Promise<CostCenterBudget>;
+  deleteCostCenterBudget(id: string): Promise<void>;
+  getBudgetEntries(filters?: { costCenterId?: string; quotationRequestId?: string }): Promise<BudgetEntry[]>;
+  createBudgetEntry(entry: InsertBudgetEntry): Promise<BudgetEntry>;
+
   // Purchase Order operations
   getPurchaseOrders(): Promise<PurchaseOrder[]>;
   getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
   createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder>;
-  updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>, userId?: string): Promise<PurchaseOrder>;
+
+  // Purchase Order Item operations
+  getPurchaseOrderItems(purchaseOrderId: string): Promise<PurchaseOrderItem[]>;
+  createPurchaseOrderItem(item: InsertPurchaseOrderItem): Promise<PurchaseOrderItem>;
+
+  // Goods Receipt operations
+  getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]>;
+  createGoodsReceipt(receipt: InsertGoodsReceipt): Promise<GoodsReceipt>;
+  getGoodsReceiptItems(goodsReceiptId: string): Promise<GoodsReceiptItem[]>;
+  createGoodsReceiptItem(item: InsertGoodsReceiptItem): Promise<GoodsReceiptItem>;
+  // Checks the outstanding quantity of each line and writes the receipt in one transaction
+  recordGoodsReceipt(record: GoodsReceiptRecord): Promise<{ receipt: GoodsReceipt; items: GoodsReceiptItem[] }>;
+
+  // Supplier Invoice operations
+  getSupplierInvoices(filters?: { purchaseOrderId?: string; status?: InvoiceStatus }): Promise<SupplierInvoice[]>;
+  getSupplierInvoice(id: string): Promise<SupplierInvoice | undefined>;
+  createSupplierInvoice(invoice: InsertSupplierInvoice): Promise<SupplierInvoice>;
+  updateSupplierInvoice(id: string, invoice: Partial<InsertSupplierInvoice>, userId?: string): Promise<SupplierInvoice>;
+  getSupplierInvoiceItems(invoiceId: string): Promise<SupplierInvoiceItem[]>;
+  createSupplierInvoiceItem(item: InsertSupplierInvoiceItem): Promise<SupplierInvoiceItem>;
+
+  // Invoice Match Tolerance operations
+  getInvoiceMatchTolerances(): Promise<InvoiceMatchTolerance[]>;
+  getInvoiceMatchTolerance(id: string): Promise<InvoiceMatchTolerance | undefined>;
+  createInvoiceMatchTolerance(tolerance: InsertInvoiceMatchTolerance): Promise<InvoiceMatchTolerance>;
+  updateInvoiceMatchTolerance(id: string, tolerance: Partial<InsertInvoiceMatchTolerance>): Promise<InvoiceMatchTolerance>;
+
+  // Supplier Incident operations
+  getSupplierIncidents(supplierId: string): Promise<SupplierIncident[]>;
+  createSupplierIncident(incident: InsertSupplierIncident): Promise<SupplierIncident>;
+
+  // Supplier Score Weight operations
+  getSupplierScoreWeights(): Promise<SupplierScoreWeights | undefined>;
+  saveSupplierScoreWeights(weights: InsertSupplierScoreWeights): Promise<SupplierScoreWeights>;
+
+  // Supplier Document operations
+  getSupplierDocumentTypes(): Promise<SupplierDocumentType[]>;
+  getSupplierDocumentType(id: string): Promise<SupplierDocumentType | undefined>;
+  createSupplierDocumentType(documentType: InsertSupplierDocumentType): Promise<SupplierDocumentType>;
+  updateSupplierDocumentType(id: string, documentType: Partial<InsertSupplierDocumentType>): Promise<SupplierDocumentType>;
+  getSupplierDocuments(supplierId?: string): Promise<SupplierDocumentSummary[]>;
+  getSupplierDocument(id: string): Promise<SupplierDocument | undefined>;
+  createSupplierDocument(document: InsertSupplierDocument): Promise<SupplierDocument>;
+  updateSupplierDocument(id: string, document: Partial<InsertSupplierDocument>): Promise<SupplierDocument>;
+
+  // Supplier Category operations
+  getSupplierCategories(supplierId: string): Promise<SupplierCategory[]>;
+  setSupplierCategories(supplierId: string, categoryIds: string[]): Promise<SupplierCategory[]>;
+  getSupplierCategoriesByCategory(categoryIds: string[]): Promise<SupplierCategory[]>;
+
+  // Supplier Onboarding operations
+  getSupplierOnboarding(id: string): Promise<SupplierOnboarding | undefined>;
+  getSupplierOnboardingBySupplier(supplierId: string): Promise<SupplierOnboarding | undefined>;
+  getSupplierOnboardingByTokenHash(tokenHash: string): Promise<SupplierOnboarding | undefined>;
+  createSupplierOnboarding(onboarding: InsertSupplierOnboarding): Promise<SupplierOnboarding>;
+  updateSupplierOnboarding(id: string, onboarding: Partial<InsertSupplierOnboarding>): Promise<SupplierOnboarding>;
+
+  // Product Price History operations
+  getProductPriceHistory(filters?: { productId?: string; supplierId?: string; from?: Date; to?: Date }): Promise<ProductPriceHistory[]>;
+  getProductPriceHistoryBySupplierQuotationItem(supplierQuotationItemId: string): Promise<ProductPriceHistory | undefined>;
+  getProductPriceHistoryByPurchaseOrderItem(purchaseOrderItemId: string): Promise<ProductPriceHistory | undefined>;
+  createProductPriceHistory(entry: InsertProductPriceHistory): Promise<ProductPriceHistory>;
+  deleteProductPriceHistory(id: string): Promise<void>;
+
+  // Spreadsheet imports: every entry is written, or none is
+  importQuotationRequests(entries: QuotationRequestImport[]): Promise<QuotationRequest[]>;
+  importSupplierQuotations(entries: SupplierQuotationImport[]): Promise<SupplierQuotation[]>;
+
+  // Import Mapping Profile operations
+  getImportMappingProfiles(importType?: string): Promise<ImportMappingProfile[]>;
+  getImportMappingProfile(id: string): Promise<ImportMappingProfile | undefined>;
+  createImportMappingProfile(profile: InsertImportMappingProfile): Promise<ImportMappingProfile>;
+  updateImportMappingProfile(id: string, profile: Partial<InsertImportMappingProfile>): Promise<ImportMappingProfile>;
+  deleteImportMappingProfile(id: string): Promise<void>;
 
   // Audit Log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
@@ -130,6 +372,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.firstName);
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -160,6 +406,15 @@ export class DatabaseStorage implements IStorage {
     return supplier;
   }
 
+  async getSupplierByCnpj(cnpj: string): Promise<Supplier | undefined> {
+    // Compare digits only, so rows saved before normalization still match
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(sql`regexp_replace(${suppliers.cnpj}, '\\D', '', 'g') = ${onlyDigits(cnpj)}`);
+    return supplier;
+  }
+
   async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
     const [newSupplier] = await db.insert(suppliers).values(supplier).returning();
     return newSupplier;
@@ -185,7 +440,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         or(
           like(suppliers.name, `%${query}%`),
-          like(suppliers.cnpj, `%${query}%`),
+          like(suppliers.cnpj, `%${onlyDigits(query) || query}%`),
           like(suppliers.email, `%${query}%`)
         )
       );
@@ -201,6 +456,11 @@ export class DatabaseStorage implements IStorage {
     return product;
   }
 
+  async getProductByCode(code: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.code, code));
+    return product;
+  }
+
   async createProduct(product: InsertProduct): Promise<Product> {
     const [newProduct] = await db.insert(products).values(product).returning();
     return newProduct;
@@ -226,6 +486,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         or(
           like(products.name, `%${query}%`),
+          like(products.code, `%${query}%`),
           like(products.description, `%${query}%`)
         )
       );
@@ -277,10 +538,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createQuotationRequest(request: InsertQuotationRequest): Promise<QuotationRequest> {
-    // Generate request number
+    const requestNumber = await this.nextRequestNumber(db);
+
+    const [newRequest] = await db
+      .insert(quotationRequests)
+      .values({
+        ...request,
+        requestNumber,
+        status: "rascunho",
+      })
+      .returning();
+    return newRequest;
+  }
+
+  // REQ-YYYYMM-NNN, sequential within the month; takes the transaction when called inside one
+  private async nextRequestNumber(executor: Database | Transaction): Promise<string> {
     const today = new Date();
     const yearMonth = today.getFullYear().toString() + (today.getMonth() + 1).toString().padStart(2, '0');
-    const [lastRequest] = await db
+    const [lastRequest] = await executor
       .select({ requestNumber: quotationRequests.requestNumber })
       .from(quotationRequests)
       .where(like(quotationRequests.requestNumber, `REQ-${yearMonth}%`))
@@ -293,24 +568,46 @@ export class DatabaseStorage implements IStorage {
       sequence = lastSequence + 1;
     }
 
-    const requestNumber = `REQ-${yearMonth}-${sequence.toString().padStart(3, '0')}`;
-
-    const [newRequest] = await db
-      .insert(quotationRequests)
-      .values({
-        ...request,
-        requestNumber,
-      })
-      .returning();
-    return newRequest;
+    return `REQ-${yearMonth}-${sequence.toString().padStart(3, '0')}`;
   }
 
-  async updateQuotationRequest(id: string, request: Partial<InsertQuotationRequest>): Promise<QuotationRequest> {
+  async updateQuotationRequest(id: string, request: Partial<InsertQuotationRequest>, userId?: string): Promise<QuotationRequest> {
+    const existing = await this.getQuotationRequest(id);
+    if (!existing) throw new Error("Quotation request not found");
+
+    const fromStatus = existing.status ?? "rascunho";
+    const statusChanged = request.status !== undefined && request.status !== null && request.status !== fromStatus;
+    if (statusChanged) {
+      assertQuotationTransition(fromStatus, request.status!);
+    }
+
+    // Guard on the current status so concurrent transitions cannot both succeed
     const [updatedRequest] = await db
       .update(quotationRequests)
       .set({ ...request, updatedAt: new Date() })
-      .where(eq(quotationRequests.id, id))
+      .where(
+        statusChanged
+          ? and(eq(quotationRequests.id, id), eq(quotationRequests.status, fromStatus))
+          : eq(quotationRequests.id, id)
+      )
       .returning();
+
+    if (!updatedRequest) {
+      const current = await this.getQuotationRequest(id);
+      const currentStatus = current?.status ?? fromStatus;
+      throw new InvalidStatusTransitionError(currentStatus, request.status!, getAllowedQuotationTransitions(currentStatus));
+    }
+
+    if (statusChanged) {
+      await this.createAuditLog({
+        userId,
+        action: 'status_change',
+        entityType: 'quotation_request',
+        entityId: id,
+        changes: { from: fromStatus, to: request.status },
+      });
+    }
+
     return updatedRequest;
   }
 
@@ -327,13 +624,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getQuotationRequestsForApproval(approverId: string): Promise<QuotationRequest[]> {
+    // Include requests assigned to approvers who delegated to this user
+    const delegations = await this.getActiveDelegationsForDelegate(approverId);
+    const approverIds = [approverId, ...delegations.map(d => d.delegatorId)];
+
     return await db
       .select()
       .from(quotationRequests)
       .where(
         and(
           eq(quotationRequests.status, "aguardando_aprovacao"),
-          eq(quotationRequests.approverId, approverId)
+          inArray(quotationRequests.approverId, approverIds)
         )
       )
       .orderBy(desc(quotationRequests.createdAt));
@@ -391,6 +692,10 @@ export class DatabaseStorage implements IStorage {
     return quotation;
   }
 
+  async getSupplierQuotationsBySupplier(supplierId: string): Promise<SupplierQuotation[]> {
+    return await db.select().from(supplierQuotations).where(eq(supplierQuotations.supplierId, supplierId));
+  }
+
   async createSupplierQuotation(quotation: InsertSupplierQuotation): Promise<SupplierQuotation> {
     const [newQuotation] = await db.insert(supplierQuotations).values(quotation).returning();
     return newQuotation;
@@ -417,6 +722,19 @@ export class DatabaseStorage implements IStorage {
       .where(eq(supplierQuotationItems.supplierQuotationId, supplierQuotationId));
   }
 
+  async getQuotationBids(quotationRequestIds: string[]): Promise<QuotationBid[]> {
+    if (quotationRequestIds.length === 0) return [];
+    return await db
+      .select({
+        supplierId: supplierQuotations.supplierId,
+        quotationRequestItemId: supplierQuotationItems.quotationRequestItemId,
+        unitPrice: supplierQuotationItems.unitPrice,
+      })
+      .from(supplierQuotationItems)
+      .innerJoin(supplierQuotations, eq(supplierQuotationItems.supplierQuotationId, supplierQuotations.id))
+      .where(inArray(supplierQuotations.quotationRequestId, quotationRequestIds));
+  }
+
   async createSupplierQuotationItem(item: InsertSupplierQuotationItem): Promise<SupplierQuotationItem> {
     const [newItem] = await db.insert(supplierQuotationItems).values(item).returning();
     return newItem;
@@ -428,59 +746,771 @@ export class DatabaseStorage implements IStorage {
       .set(item)
       .where(eq(supplierQuotationItems.id, id))
       .returning();
-    return updatedItem;
+    return updatedItem;
+  }
+
+  async deleteSupplierQuotationItem(id: string): Promise<void> {
+    await db.delete(supplierQuotationItems).where(eq(supplierQuotationItems.id, id));
+  }
+
+  // Supplier Portal Link operations
+  async getSupplierPortalLinks(quotationRequestId: string): Promise<SupplierPortalLink[]> {
+    return await db
+      .select()
+      .from(supplierPortalLinks)
+      .where(eq(supplierPortalLinks.quotationRequestId, quotationRequestId))
+      .orderBy(desc(supplierPortalLinks.createdAt));
+  }
+
+  async getSupplierInvitations(supplierId: string): Promise<SupplierInvitation[]> {
+    return await db
+      .select({
+        link: supplierPortalLinks,
+        request: {
+          status: quotationRequests.status,
+          responseDeadline: quotationRequests.responseDeadline,
+        },
+      })
+      .from(supplierPortalLinks)
+      .innerJoin(quotationRequests, eq(supplierPortalLinks.quotationRequestId, quotationRequests.id))
+      .where(eq(supplierPortalLinks.supplierId, supplierId));
+  }
+
+  async getSupplierPortalLink(id: string): Promise<SupplierPortalLink | undefined> {
+    const [link] = await db.select().from(supplierPortalLinks).where(eq(supplierPortalLinks.id, id));
+    return link;
+  }
+
+  async getSupplierPortalLinkByTokenHash(tokenHash: string): Promise<SupplierPortalLink | undefined> {
+    const [link] = await db.select().from(supplierPortalLinks).where(eq(supplierPortalLinks.tokenHash, tokenHash));
+    return link;
+  }
+
+  async createSupplierPortalLink(link: InsertSupplierPortalLink): Promise<SupplierPortalLink> {
+    const [newLink] = await db.insert(supplierPortalLinks).values(link).returning();
+    return newLink;
+  }
+
+  async updateSupplierPortalLink(id: string, link: Partial<InsertSupplierPortalLink>): Promise<SupplierPortalLink> {
+    const [updatedLink] = await db
+      .update(supplierPortalLinks)
+      .set(link)
+      .where(eq(supplierPortalLinks.id, id))
+      .returning();
+    return updatedLink;
+  }
+
+  // Approval Policy operations
+  async getApprovalPolicies(): Promise<ApprovalPolicy[]> {
+    return await db.select().from(approvalPolicies).orderBy(approvalPolicies.stepOrder);
+  }
+
+  async getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined> {
+    const [policy] = await db.select().from(approvalPolicies).where(eq(approvalPolicies.id, id));
+    return policy;
+  }
+
+  async createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy> {
+    const [newPolicy] = await db.insert(approvalPolicies).values(policy).returning();
+    return newPolicy;
+  }
+
+  async updateApprovalPolicy(id: string, policy: Partial<InsertApprovalPolicy>): Promise<ApprovalPolicy> {
+    const [updatedPolicy] = await db
+      .update(approvalPolicies)
+      .set({ ...policy, updatedAt: new Date() })
+      .where(eq(approvalPolicies.id, id))
+      .returning();
+    return updatedPolicy;
+  }
+
+  async deleteApprovalPolicy(id: string): Promise<void> {
+    await db.delete(approvalPolicies).where(eq(approvalPolicies.id, id));
+  }
+
+  // Approval Step operations
+  async getApprovalSteps(quotationRequestId: string): Promise<QuotationApprovalStep[]> {
+    return await db
+      .select()
+      .from(quotationApprovalSteps)
+      .where(eq(quotationApprovalSteps.quotationRequestId, quotationRequestId))
+      .orderBy(quotationApprovalSteps.stepOrder, quotationApprovalSteps.createdAt);
+  }
+
+  async getPendingApprovalSteps(): Promise<QuotationApprovalStep[]> {
+    return await db
+      .select()
+      .from(quotationApprovalSteps)
+      .where(eq(quotationApprovalSteps.status, "pendente"))
+      .orderBy(quotationApprovalSteps.stepOrder);
+  }
+
+  async createApprovalStep(step: InsertQuotationApprovalStep): Promise<QuotationApprovalStep> {
+    const [newStep] = await db.insert(quotationApprovalSteps).values(step).returning();
+    return newStep;
+  }
+
+  async updateApprovalStep(id: string, step: Partial<InsertQuotationApprovalStep>): Promise<QuotationApprovalStep> {
+    const [updatedStep] = await db
+      .update(quotationApprovalSteps)
+      .set(step)
+      .where(eq(quotationApprovalSteps.id, id))
+      .returning();
+    return updatedStep;
+  }
+
+  // Approval Delegation operations
+  async getApprovalDelegations(userId?: string): Promise<ApprovalDelegation[]> {
+    const query = db.select().from(approvalDelegations).orderBy(desc(approvalDelegations.startDate));
+
+    if (userId) {
+      return await query.where(
+        or(
+          eq(approvalDelegations.delegatorId, userId),
+          eq(approvalDelegations.delegateId, userId)
+        )
+      );
+    }
+
+    return await query;
+  }
+
+  async getApprovalDelegation(id: string): Promise<ApprovalDelegation | undefined> {
+    const [delegation] = await db.select().from(approvalDelegations).where(eq(approvalDelegations.id, id));
+    return delegation;
+  }
+
+  async getActiveDelegationsForDelegate(delegateId: string, at: Date = new Date()): Promise<ApprovalDelegation[]> {
+    return await db
+      .select()
+      .from(approvalDelegations)
+      .where(
+        and(
+          eq(approvalDelegations.delegateId, delegateId),
+          eq(approvalDelegations.isActive, true),
+          lte(approvalDelegations.startDate, at),
+          gte(approvalDelegations.endDate, at)
+        )
+      );
+  }
+
+  async createApprovalDelegation(delegation: InsertApprovalDelegation): Promise<ApprovalDelegation> {
+    const [newDelegation] = await db.insert(approvalDelegations).values(delegation).returning();
+    return newDelegation;
+  }
+
+  async updateApprovalDelegation(id: string, delegation: Partial<InsertApprovalDelegation>): Promise<ApprovalDelegation> {
+    const [updatedDelegation] = await db
+      .update(approvalDelegations)
+      .set(delegation)
+      .where(eq(approvalDelegations.id, id))
+      .returning();
+    return updatedDelegation;
+  }
+
+  // Cost Center and Budget operations
+  async getCostCenters(): Promise<CostCenter[]> {
+    return await db.select().from(costCenters).orderBy(costCenters.code);
+  }
+
+  async getCostCenter(id: string): Promise<CostCenter | undefined> {
+    const [costCenter] = await db.select().from(costCenters).where(eq(costCenters.id, id));
+    return costCenter;
+  }
+
+  async getCostCenterByCode(code: string): Promise<CostCenter | undefined> {
+    const [costCenter] = await db.select().from(costCenters).where(eq(costCenters.code, code));
+    return costCenter;
+  }
+
+  async createCostCenter(costCenter: InsertCostCenter): Promise<CostCenter> {
+    const [newCostCenter] = await db.insert(costCenters).values(costCenter).returning();
+    return newCostCenter;
+  }
+
+  async updateCostCenter(id: string, costCenter: Partial<InsertCostCenter>): Promise<CostCenter> {
+    const [updatedCostCenter] = await db
+      .update(costCenters)
+      .set({ ...costCenter, updatedAt: new Date() })
+      .where(eq(costCenters.id, id))
+      .returning();
+    return updatedCostCenter;
+  }
+
+  async getCostCenterBudgets(costCenterId?: string): Promise<CostCenterBudget[]> {
+    const query = db
+      .select()
+      .from(costCenterBudgets)
+      .orderBy(desc(costCenterBudgets.year), costCenterBudgets.month);
+
+    if (costCenterId) {
+      return await query.where(eq(costCenterBudgets.costCenterId, costCenterId));
+    }
+
+    return await query;
+  }
+
+  async getCostCenterBudget(id: string): Promise<CostCenterBudget | undefined> {
+    const [budget] = await db.select().from(costCenterBudgets).where(eq(costCenterBudgets.id, id));
+    return budget;
+  }
+
+  async createCostCenterBudget(budget: InsertCostCenterBudget): Promise<CostCenterBudget> {
+    const [newBudget] = await db.insert(costCenterBudgets).values(budget).returning();
+    return newBudget;
+  }
+
+  async updateCostCenterBudget(id: string, budget: Partial<InsertCostCenterBudget>): Promise<CostCenterBudget> {
+    const [updatedBudget] = await db
+      .update(costCenterBudgets)
+      .set({ ...budget, updatedAt: new Date() })
+      .where(eq(costCenterBudgets.id, id))
+      .returning();
+    return updatedBudget;
+  }
+
+  async deleteCostCenterBudget(id: string): Promise<void> {
+    await db.delete(costCenterBudgets).where(eq(costCenterBudgets.id, id));
+  }
+
+  async getBudgetEntries(filters: { costCenterId?: string; quotationRequestId?: string } = {}): Promise<BudgetEntry[]> {
+    const conditions = [];
+    if (filters.costCenterId) conditions.push(eq(budgetEntries.costCenterId, filters.costCenterId));
+    if (filters.quotationRequestId) conditions.push(eq(budgetEntries.quotationRequestId, filters.quotationRequestId));
+
+    return await db
+      .select()
+      .from(budgetEntries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(budgetEntries.createdAt));
+  }
+
+  async createBudgetEntry(entry: InsertBudgetEntry): Promise<BudgetEntry> {
+    const [newEntry] = await db.insert(budgetEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  // Purchase Order operations
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    return await db.select().from(purchaseOrders).orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order;
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    // Generate order number
+    const today = new Date();
+    const yearMonth = today.getFullYear().toString() + (today.getMonth() + 1).toString().padStart(2, '0');
+    const [lastOrder] = await db
+      .select({ orderNumber: purchaseOrders.orderNumber })
+      .from(purchaseOrders)
+      .where(like(purchaseOrders.orderNumber, `PO-${yearMonth}%`))
+      .orderBy(desc(purchaseOrders.orderNumber))
+      .limit(1);
+
+    let sequence = 1;
+    if (lastOrder) {
+      const lastSequence = parseInt(lastOrder.orderNumber.split('-')[2]);
+      sequence = lastSequence + 1;
+    }
+
+    const orderNumber = `PO-${yearMonth}-${sequence.toString().padStart(3, '0')}`;
+
+    const [newOrder] = await db
+      .insert(purchaseOrders)
+      .values({
+        ...order,
+        orderNumber,
+      })
+      .returning();
+    return newOrder;
+  }
+
+  async updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>, userId?: string): Promise<PurchaseOrder> {
+    const existing = await this.getPurchaseOrder(id);
+    if (!existing) throw new Error("Purchase order not found");
+
+    const fromStatus = existing.status ?? "pendente";
+    const statusChanged = order.status !== undefined && order.status !== null && order.status !== fromStatus;
+    if (statusChanged) {
+      assertPurchaseOrderTransition(fromStatus, order.status!);
+    }
+
+    // Guard on the current status so concurrent transitions cannot both succeed
+    const [updatedOrder] = await db
+      .update(purchaseOrders)
+      .set({ ...order, updatedAt: new Date() })
+      .where(
+        statusChanged
+          ? and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, fromStatus))
+          : eq(purchaseOrders.id, id)
+      )
+      .returning();
+
+    if (!updatedOrder) {
+      const current = await this.getPurchaseOrder(id);
+      const currentStatus = current?.status ?? fromStatus;
+      throw new InvalidStatusTransitionError(currentStatus, order.status!, getAllowedPurchaseOrderTransitions(currentStatus));
+    }
+
+    if (statusChanged) {
+      await this.createAuditLog({
+        userId,
+        action: 'status_change',
+        entityType: 'purchase_order',
+        entityId: id,
+        changes: { from: fromStatus, to: order.status },
+      });
+    }
+
+    return updatedOrder;
+  }
+
+  // Purchase Order Item operations
+  async getPurchaseOrderItems(purchaseOrderId: string): Promise<PurchaseOrderItem[]> {
+    return await db
+      .select()
+      .from(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+      .orderBy(purchaseOrderItems.createdAt);
+  }
+
+  async createPurchaseOrderItem(item: InsertPurchaseOrderItem): Promise<PurchaseOrderItem> {
+    const [newItem] = await db.insert(purchaseOrderItems).values(item).returning();
+    return newItem;
+  }
+
+  // Goods Receipt operations
+  async getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]> {
+    return await db
+      .select()
+      .from(goodsReceipts)
+      .where(eq(goodsReceipts.purchaseOrderId, purchaseOrderId))
+      .orderBy(goodsReceipts.receivedAt);
+  }
+
+  async createGoodsReceipt(receipt: InsertGoodsReceipt): Promise<GoodsReceipt> {
+    const [newReceipt] = await db.insert(goodsReceipts).values(receipt).returning();
+    return newReceipt;
+  }
+
+  async getGoodsReceiptItems(goodsReceiptId: string): Promise<GoodsReceiptItem[]> {
+    return await db.select().from(goodsReceiptItems).where(eq(goodsReceiptItems.goodsReceiptId, goodsReceiptId));
+  }
+
+  async createGoodsReceiptItem(item: InsertGoodsReceiptItem): Promise<GoodsReceiptItem> {
+    const [newItem] = await db.insert(goodsReceiptItems).values(item).returning();
+    return newItem;
+  }
+
+  async recordGoodsReceipt(record: GoodsReceiptRecord): Promise<{ receipt: GoodsReceipt; items: GoodsReceiptItem[] }> {
+    const purchaseOrderId = record.receipt.purchaseOrderId;
+    return await db.transaction(async (tx: Transaction) => {
+      // Locks the order so concurrent receipts for it are checked one after the other
+      await tx.select({ id: purchaseOrders.id }).from(purchaseOrders).where(eq(purchaseOrders.id, purchaseOrderId)).for("update");
+
+      const lines = await tx
+        .select({ id: purchaseOrderItems.id, quantity: purchaseOrderItems.quantity })
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+      const received = await tx
+        .select({ purchaseOrderItemId: goodsReceiptItems.purchaseOrderItemId, quantity: sum(goodsReceiptItems.quantityReceived) })
+        .from(goodsReceiptItems)
+        .innerJoin(goodsReceipts, eq(goodsReceiptItems.goodsReceiptId, goodsReceipts.id))
+        .where(eq(goodsReceipts.purchaseOrderId, purchaseOrderId))
+        .groupBy(goodsReceiptItems.purchaseOrderItemId);
+      const receivedByLine = new Map(received.map(row => [row.purchaseOrderItemId, Number(row.quantity ?? 0)]));
+
+      for (const item of record.items) {
+        const line = lines.find(candidate => candidate.id === item.purchaseOrderItemId);
+        const outstanding = line ? Number(line.quantity) - (receivedByLine.get(item.purchaseOrderItemId) ?? 0) : 0;
+        if (Number(item.quantityReceived) > outstanding + 1e-9) {
+          throw new OverReceiptError(item.purchaseOrderItemId, outstanding);
+        }
+      }
+
+      const [receipt] = await tx.insert(goodsReceipts).values(record.receipt).returning();
+      const items = record.items.length > 0
+        ? await tx.insert(goodsReceiptItems).values(record.items.map(item => ({ ...item, goodsReceiptId: receipt.id }))).returning()
+        : [];
+      return { receipt, items };
+    });
+  }
+
+  // Supplier Invoice operations
+  async getSupplierInvoices(filters?: { purchaseOrderId?: string; status?: InvoiceStatus }): Promise<SupplierInvoice[]> {
+    const conditions = [];
+    if (filters?.purchaseOrderId) conditions.push(eq(supplierInvoices.purchaseOrderId, filters.purchaseOrderId));
+    if (filters?.status) conditions.push(eq(supplierInvoices.status, filters.status));
+
+    return await db
+      .select()
+      .from(supplierInvoices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(supplierInvoices.createdAt));
+  }
+
+  async getSupplierInvoice(id: string): Promise<SupplierInvoice | undefined> {
+    const [invoice] = await db.select().from(supplierInvoices).where(eq(supplierInvoices.id, id));
+    return invoice;
+  }
+
+  async createSupplierInvoice(invoice: InsertSupplierInvoice): Promise<SupplierInvoice> {
+    const [newInvoice] = await db.insert(supplierInvoices).values(invoice).returning();
+    return newInvoice;
+  }
+
+  async updateSupplierInvoice(id: string, invoice: Partial<InsertSupplierInvoice>, userId?: string): Promise<SupplierInvoice> {
+    const existing = await this.getSupplierInvoice(id);
+    if (!existing) throw new Error("Invoice not found");
+
+    const fromStatus = existing.status ?? "divergente";
+    const statusChanged = invoice.status !== undefined && invoice.status !== null && invoice.status !== fromStatus;
+    if (statusChanged) {
+      assertInvoiceTransition(fromStatus, invoice.status!);
+    }
+
+    // Guard on the current status so concurrent transitions cannot both succeed
+    const [updatedInvoice] = await db
+      .update(supplierInvoices)
+      .set({ ...invoice, updatedAt: new Date() })
+      .where(
+        statusChanged
+          ? and(eq(supplierInvoices.id, id), eq(supplierInvoices.status, fromStatus))
+          : eq(supplierInvoices.id, id)
+      )
+      .returning();
+
+    if (!updatedInvoice) {
+      const current = await this.getSupplierInvoice(id);
+      const currentStatus = current?.status ?? fromStatus;
+      throw new InvalidStatusTransitionError(currentStatus, invoice.status!, getAllowedInvoiceTransitions(currentStatus));
+    }
+
+    if (statusChanged) {
+      await this.createAuditLog({
+        userId,
+        action: 'status_change',
+        entityType: 'invoice',
+        entityId: id,
+        changes: { from: fromStatus, to: invoice.status },
+      });
+    }
+
+    return updatedInvoice;
+  }
+
+  async getSupplierInvoiceItems(invoiceId: string): Promise<SupplierInvoiceItem[]> {
+    return await db.select().from(supplierInvoiceItems).where(eq(supplierInvoiceItems.invoiceId, invoiceId));
+  }
+
+  async createSupplierInvoiceItem(item: InsertSupplierInvoiceItem): Promise<SupplierInvoiceItem> {
+    const [newItem] = await db.insert(supplierInvoiceItems).values(item).returning();
+    return newItem;
+  }
+
+  // Invoice Match Tolerance operations
+  async getInvoiceMatchTolerances(): Promise<InvoiceMatchTolerance[]> {
+    return await db.select().from(invoiceMatchTolerances).orderBy(invoiceMatchTolerances.createdAt);
+  }
+
+  async getInvoiceMatchTolerance(id: string): Promise<InvoiceMatchTolerance | undefined> {
+    const [tolerance] = await db.select().from(invoiceMatchTolerances).where(eq(invoiceMatchTolerances.id, id));
+    return tolerance;
+  }
+
+  async createInvoiceMatchTolerance(tolerance: InsertInvoiceMatchTolerance): Promise<InvoiceMatchTolerance> {
+    const [newTolerance] = await db.insert(invoiceMatchTolerances).values(tolerance).returning();
+    return newTolerance;
+  }
+
+  async updateInvoiceMatchTolerance(id: string, tolerance: Partial<InsertInvoiceMatchTolerance>): Promise<InvoiceMatchTolerance> {
+    const [updatedTolerance] = await db
+      .update(invoiceMatchTolerances)
+      .set({ ...tolerance, updatedAt: new Date() })
+      .where(eq(invoiceMatchTolerances.id, id))
+      .returning();
+    return updatedTolerance;
+  }
+
+  // Supplier Incident operations
+  async getSupplierIncidents(supplierId: string): Promise<SupplierIncident[]> {
+    return await db
+      .select()
+      .from(supplierIncidents)
+      .where(eq(supplierIncidents.supplierId, supplierId))
+      .orderBy(desc(supplierIncidents.occurredAt));
+  }
+
+  async createSupplierIncident(incident: InsertSupplierIncident): Promise<SupplierIncident> {
+    const [newIncident] = await db.insert(supplierIncidents).values(incident).returning();
+    return newIncident;
+  }
+
+  // Supplier Score Weight operations
+  async getSupplierScoreWeights(): Promise<SupplierScoreWeights | undefined> {
+    const [weights] = await db.select().from(supplierScoreWeights).limit(1);
+    return weights;
+  }
+
+  async saveSupplierScoreWeights(weights: InsertSupplierScoreWeights): Promise<SupplierScoreWeights> {
+    const existing = await this.getSupplierScoreWeights();
+    if (!existing) {
+      const [created] = await db.insert(supplierScoreWeights).values(weights).returning();
+      return created;
+    }
+    const [updated] = await db
+      .update(supplierScoreWeights)
+      .set({ ...weights, updatedAt: new Date() })
+      .where(eq(supplierScoreWeights.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  // Supplier Document operations
+  async getSupplierDocumentTypes(): Promise<SupplierDocumentType[]> {
+    return await db.select().from(supplierDocumentTypes).orderBy(supplierDocumentTypes.name);
+  }
+
+  async getSupplierDocumentType(id: string): Promise<SupplierDocumentType | undefined> {
+    const [documentType] = await db.select().from(supplierDocumentTypes).where(eq(supplierDocumentTypes.id, id));
+    return documentType;
+  }
+
+  async createSupplierDocumentType(documentType: InsertSupplierDocumentType): Promise<SupplierDocumentType> {
+    const [newDocumentType] = await db.insert(supplierDocumentTypes).values(documentType).returning();
+    return newDocumentType;
+  }
+
+  async updateSupplierDocumentType(id: string, documentType: Partial<InsertSupplierDocumentType>): Promise<SupplierDocumentType> {
+    const [updatedDocumentType] = await db
+      .update(supplierDocumentTypes)
+      .set({ ...documentType, updatedAt: new Date() })
+      .where(eq(supplierDocumentTypes.id, id))
+      .returning();
+    return updatedDocumentType;
+  }
+
+  async getSupplierDocuments(supplierId?: string): Promise<SupplierDocumentSummary[]> {
+    const { fileContent, ...columns } = getTableColumns(supplierDocuments);
+    const query = db.select(columns).from(supplierDocuments).orderBy(desc(supplierDocuments.createdAt));
+    if (supplierId) {
+      return await query.where(eq(supplierDocuments.supplierId, supplierId));
+    }
+    return await query;
+  }
+
+  async getSupplierDocument(id: string): Promise<SupplierDocument | undefined> {
+    const [document] = await db.select().from(supplierDocuments).where(eq(supplierDocuments.id, id));
+    return document;
+  }
+
+  async createSupplierDocument(document: InsertSupplierDocument): Promise<SupplierDocument> {
+    const [newDocument] = await db.insert(supplierDocuments).values(document).returning();
+    return newDocument;
+  }
+
+  async updateSupplierDocument(id: string, document: Partial<InsertSupplierDocument>): Promise<SupplierDocument> {
+    const [updatedDocument] = await db
+      .update(supplierDocuments)
+      .set(document)
+      .where(eq(supplierDocuments.id, id))
+      .returning();
+    return updatedDocument;
+  }
+
+  // Supplier Category operations
+  async getSupplierCategories(supplierId: string): Promise<SupplierCategory[]> {
+    return await db.select().from(supplierCategories).where(eq(supplierCategories.supplierId, supplierId));
+  }
+
+  async setSupplierCategories(supplierId: string, categoryIds: string[]): Promise<SupplierCategory[]> {
+    return await db.transaction(async (tx: Transaction) => {
+      await tx.delete(supplierCategories).where(eq(supplierCategories.supplierId, supplierId));
+      if (categoryIds.length === 0) return [];
+      return await tx
+        .insert(supplierCategories)
+        .values(categoryIds.map(categoryId => ({ supplierId, categoryId })))
+        .returning();
+    });
+  }
+
+  async getSupplierCategoriesByCategory(categoryIds: string[]): Promise<SupplierCategory[]> {
+    if (categoryIds.length === 0) return [];
+    return await db.select().from(supplierCategories).where(inArray(supplierCategories.categoryId, categoryIds));
+  }
+
+  // Supplier Onboarding operations
+  async getSupplierOnboarding(id: string): Promise<SupplierOnboarding | undefined> {
+    const [onboarding] = await db.select().from(supplierOnboardings).where(eq(supplierOnboardings.id, id));
+    return onboarding;
+  }
+
+  async getSupplierOnboardingBySupplier(supplierId: string): Promise<SupplierOnboarding | undefined> {
+    const [onboarding] = await db.select().from(supplierOnboardings).where(eq(supplierOnboardings.supplierId, supplierId));
+    return onboarding;
+  }
+
+  async getSupplierOnboardingByTokenHash(tokenHash: string): Promise<SupplierOnboarding | undefined> {
+    const [onboarding] = await db.select().from(supplierOnboardings).where(eq(supplierOnboardings.tokenHash, tokenHash));
+    return onboarding;
+  }
+
+  async createSupplierOnboarding(onboarding: InsertSupplierOnboarding): Promise<SupplierOnboarding> {
+    const [newOnboarding] = await db.insert(supplierOnboardings).values(onboarding).returning();
+    return newOnboarding;
+  }
+
+  async updateSupplierOnboarding(id: string, onboarding: Partial<InsertSupplierOnboarding>): Promise<SupplierOnboarding> {
+    const [updatedOnboarding] = await db
+      .update(supplierOnboardings)
+      .set({ ...onboarding, updatedAt: new Date() })
+      .where(eq(supplierOnboardings.id, id))
+      .returning();
+    return updatedOnboarding;
   }
 
-  async deleteSupplierQuotationItem(id: string): Promise<void> {
-    await db.delete(supplierQuotationItems).where(eq(supplierQuotationItems.id, id));
+  // Product Price History operations
+  async getProductPriceHistory(filters: { productId?: string; supplierId?: string; from?: Date; to?: Date } = {}): Promise<ProductPriceHistory[]> {
+    const conditions = [];
+    if (filters.productId) conditions.push(eq(productPriceHistory.productId, filters.productId));
+    if (filters.supplierId) conditions.push(eq(productPriceHistory.supplierId, filters.supplierId));
+    if (filters.from) conditions.push(gte(productPriceHistory.recordedAt, filters.from));
+    if (filters.to) conditions.push(lte(productPriceHistory.recordedAt, filters.to));
+
+    return await db
+      .select()
+      .from(productPriceHistory)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(productPriceHistory.recordedAt);
   }
 
-  // Purchase Order operations
-  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
-    return await db.select().from(purchaseOrders).orderBy(desc(purchaseOrders.createdAt));
+  async getProductPriceHistoryBySupplierQuotationItem(supplierQuotationItemId: string): Promise<ProductPriceHistory | undefined> {
+    const [entry] = await db
+      .select()
+      .from(productPriceHistory)
+      .where(eq(productPriceHistory.supplierQuotationItemId, supplierQuotationItemId));
+    return entry;
   }
 
-  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
-    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
-    return order;
+  async getProductPriceHistoryByPurchaseOrderItem(purchaseOrderItemId: string): Promise<ProductPriceHistory | undefined> {
+    const [entry] = await db
+      .select()
+      .from(productPriceHistory)
+      .where(eq(productPriceHistory.purchaseOrderItemId, purchaseOrderItemId));
+    return entry;
+  }
+
+  async createProductPriceHistory(entry: InsertProductPriceHistory): Promise<ProductPriceHistory> {
+    const [newEntry] = await db.insert(productPriceHistory).values(entry).returning();
+    return newEntry;
+  }
+
+  async deleteProductPriceHistory(id: string): Promise<void> {
+    await db.delete(productPriceHistory).where(eq(productPriceHistory.id, id));
+  }
+
+  // Spreadsheet imports
+  async importQuotationRequests(entries: QuotationRequestImport[]): Promise<QuotationRequest[]> {
+    return await db.transaction(async (tx: Transaction) => {
+      const created: QuotationRequest[] = [];
+      for (const entry of entries) {
+        const requestNumber = await this.nextRequestNumber(tx);
+        const [newRequest] = await tx
+          .insert(quotationRequests)
+          .values({ ...entry.request, requestNumber, status: "rascunho" })
+          .returning();
+        if (entry.items.length > 0) {
+          await tx
+            .insert(quotationRequestItems)
+            .values(entry.items.map(item => ({ ...item, quotationRequestId: newRequest.id })));
+        }
+        created.push(newRequest);
+      }
+      return created;
+    });
+  }
+
+  async importSupplierQuotations(entries: SupplierQuotationImport[]): Promise<SupplierQuotation[]> {
+    return await db.transaction(async (tx: Transaction) => {
+      const newSupplierIds = new Map<string, string>();
+      const saved: SupplierQuotation[] = [];
+      for (const entry of entries) {
+        let supplierId = entry.supplierId;
+        if (!supplierId && entry.newSupplier) {
+          supplierId = newSupplierIds.get(entry.newSupplier.cnpj);
+          if (!supplierId) {
+            const [newSupplier] = await tx.insert(suppliers).values(entry.newSupplier).returning();
+            supplierId = newSupplier.id;
+            newSupplierIds.set(entry.newSupplier.cnpj, supplierId);
+          }
+        }
+        if (!supplierId) throw new Error("Supplier missing in import entry");
+
+        const [quotation] = entry.existingQuotationId
+          ? await tx
+              .update(supplierQuotations)
+              .set(entry.quotation)
+              .where(eq(supplierQuotations.id, entry.existingQuotationId))
+              .returning()
+          : await tx
+              .insert(supplierQuotations)
+              .values({ ...entry.quotation, supplierId })
+              .returning();
+        if (entry.items.length > 0) {
+          if (entry.existingQuotationId) {
+            await tx
+              .delete(supplierQuotationItems)
+              .where(and(
+                eq(supplierQuotationItems.supplierQuotationId, quotation.id),
+                inArray(supplierQuotationItems.quotationRequestItemId, entry.items.map(item => item.quotationRequestItemId))
+              ));
+          }
+          await tx
+            .insert(supplierQuotationItems)
+            .values(entry.items.map(item => ({ ...item, supplierQuotationId: quotation.id })));
+        }
+        saved.push(quotation);
+      }
+      return saved;
+    });
   }
 
-  async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> {
-    // Generate order number
-    const today = new Date();
-    const yearMonth = today.getFullYear().toString() + (today.getMonth() + 1).toString().padStart(2, '0');
-    const [lastOrder] = await db
-      .select({ orderNumber: purchaseOrders.orderNumber })
-      .from(purchaseOrders)
-      .where(like(purchaseOrders.orderNumber, `PO-${yearMonth}%`))
-      .orderBy(desc(purchaseOrders.orderNumber))
-      .limit(1);
+  // Import Mapping Profile operations
+  async getImportMappingProfiles(importType?: string): Promise<ImportMappingProfile[]> {
+    const query = db.select().from(importMappingProfiles).orderBy(importMappingProfiles.name);
 
-    let sequence = 1;
-    if (lastOrder) {
-      const lastSequence = parseInt(lastOrder.orderNumber.split('-')[2]);
-      sequence = lastSequence + 1;
+    if (importType) {
+      return await query.where(eq(importMappingProfiles.importType, importType));
     }
 
-    const orderNumber = `PO-${yearMonth}-${sequence.toString().padStart(3, '0')}`;
+    return await query;
+  }
 
-    const [newOrder] = await db
-      .insert(purchaseOrders)
-      .values({
-        ...order,
-        orderNumber,
-      })
-      .returning();
-    return newOrder;
+  async getImportMappingProfile(id: string): Promise<ImportMappingProfile | undefined> {
+    const [profile] = await db.select().from(importMappingProfiles).where(eq(importMappingProfiles.id, id));
+    return profile;
   }
 
-  async updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder> {
-    const [updatedOrder] = await db
-      .update(purchaseOrders)
-      .set({ ...order, updatedAt: new Date() })
-      .where(eq(purchaseOrders.id, id))
+  async createImportMappingProfile(profile: InsertImportMappingProfile): Promise<ImportMappingProfile> {
+    const [newProfile] = await db.insert(importMappingProfiles).values(profile).returning();
+    return newProfile;
+  }
+
+  async updateImportMappingProfile(id: string, profile: Partial<InsertImportMappingProfile>): Promise<ImportMappingProfile> {
+    const [updatedProfile] = await db
+      .update(importMappingProfiles)
+      .set({ ...profile, updatedAt: new Date() })
+      .where(eq(importMappingProfiles.id, id))
       .returning();
-    return updatedOrder;
+    return updatedProfile;
+  }
+
+  async deleteImportMappingProfile(id: string): Promise<void> {
+    await db.delete(importMappingProfiles).where(eq(importMappingProfiles.id, id));
   }
 
   // Audit Log operations
@@ -640,8 +1670,29 @@ class MemStorage implements IStorage {
   private supplierQuotations = new Map<string, SupplierQuotation>();
   private supplierQuotationItems = new Map<string, SupplierQuotationItem>();
   private purchaseOrders = new Map<string, PurchaseOrder>();
+  private purchaseOrderItems = new Map<string, PurchaseOrderItem>();
+  private goodsReceipts = new Map<string, GoodsReceipt>();
+  private goodsReceiptItems = new Map<string, GoodsReceiptItem>();
+  private supplierInvoices = new Map<string, SupplierInvoice>();
+  private supplierInvoiceItems = new Map<string, SupplierInvoiceItem>();
+  private invoiceMatchTolerances = new Map<string, InvoiceMatchTolerance>();
+  private supplierIncidents = new Map<string, SupplierIncident>();
+  private scoreWeights: SupplierScoreWeights | undefined;
+  private supplierDocumentTypes = new Map<string, SupplierDocumentType>();
+  private supplierDocuments = new Map<string, SupplierDocument>();
+  private supplierCategories = new Map<string, SupplierCategory>();
+  private supplierOnboardings = new Map<string, SupplierOnboarding>();
+  private productPriceHistory = new Map<string, ProductPriceHistory>();
+  private importMappingProfiles = new Map<string, ImportMappingProfile>();
   private auditLogs = new Map<string, AuditLog>();
   private aiAnalyses = new Map<string, AiAnalysis>();
+  private approvalPolicies = new Map<string, ApprovalPolicy>();
+  private approvalSteps = new Map<string, QuotationApprovalStep>();
+  private approvalDelegations = new Map<string, ApprovalDelegation>();
+  private supplierPortalLinks = new Map<string, SupplierPortalLink>();
+  private costCenters = new Map<string, CostCenter>();
+  private costCenterBudgets = new Map<string, CostCenterBudget>();
+  private budgetEntries = new Map<string, BudgetEntry>();
 
   constructor() {
     this.seedData();
@@ -696,6 +1747,10 @@ class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => (a.firstName ?? "").localeCompare(b.firstName ?? ""));
+  }
+
   async upsertUser(user: UpsertUser): Promise<User> {
     const existingUser = Array.from(this.users.values()).find(u => u.email === user.email);
     
@@ -737,11 +1792,32 @@ class MemStorage implements IStorage {
     return undefined;
   }
 
+  async getSupplierByCnpj(cnpj: string): Promise<Supplier | undefined> {
+    const digits = onlyDigits(cnpj);
+    return Array.from(this.suppliers.values()).find(supplier =>
+      !!supplier.cnpj && onlyDigits(supplier.cnpj) === digits
+    );
+  }
+
   async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
     const newSupplier: Supplier = {
       ...supplier,
       id: this.generateId(),
-      status: supplier.status || "ativo",
+      cnpj: supplier.cnpj ?? null,
+      tradeName: supplier.tradeName ?? null,
+      cnae: supplier.cnae ?? null,
+      registrationStatus: supplier.registrationStatus ?? null,
+      registryCheckedAt: supplier.registryCheckedAt ?? null,
+      scoreBreakdown: supplier.scoreBreakdown ?? null,
+      scoreUpdatedAt: supplier.scoreUpdatedAt ?? null,
+      complianceBlockedAt: supplier.complianceBlockedAt ?? null,
+      bankName: supplier.bankName ?? null,
+      bankCode: supplier.bankCode ?? null,
+      bankBranch: supplier.bankBranch ?? null,
+      bankAccount: supplier.bankAccount ?? null,
+      bankAccountType: supplier.bankAccountType ?? null,
+      pixKey: supplier.pixKey ?? null,
+      status: supplier.status || "pendente",
       score: supplier.score || "0.00",
       totalQuotations: 0,
       createdAt: new Date(),
@@ -768,7 +1844,7 @@ class MemStorage implements IStorage {
     const lowerQuery = query.toLowerCase();
     return Array.from(this.suppliers.values()).filter(supplier =>
       supplier.name.toLowerCase().includes(lowerQuery) ||
-      supplier.cnpj?.toLowerCase().includes(lowerQuery) ||
+      supplier.cnpj?.includes(onlyDigits(query) || lowerQuery) ||
       supplier.email?.toLowerCase().includes(lowerQuery)
     );
   }
@@ -783,10 +1859,14 @@ class MemStorage implements IStorage {
   async getProduct(id: string): Promise<Product | undefined> {
     return this.products.get(id);
   }
+  async getProductByCode(code: string): Promise<Product | undefined> {
+    return Array.from(this.products.values()).find(product => product.code === code);
+  }
 
   async createProduct(product: InsertProduct): Promise<Product> {
     const newProduct: Product = {
       ...product,
+      code: product.code ?? null,
       id: this.generateId(),
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -812,6 +1892,7 @@ class MemStorage implements IStorage {
     const lowerQuery = query.toLowerCase();
     return Array.from(this.products.values()).filter(product =>
       product.name.toLowerCase().includes(lowerQuery) ||
+      product.code?.toLowerCase().includes(lowerQuery) ||
       product.description?.toLowerCase().includes(lowerQuery)
     );
   }
@@ -870,7 +1951,7 @@ class MemStorage implements IStorage {
       ...request,
       id: this.generateId(),
       requestNumber,
-      status: request.status || "rascunho",
+      status: "rascunho",
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -878,12 +1959,29 @@ class MemStorage implements IStorage {
     return newRequest;
   }
 
-  async updateQuotationRequest(id: string, request: Partial<InsertQuotationRequest>): Promise<QuotationRequest> {
+  async updateQuotationRequest(id: string, request: Partial<InsertQuotationRequest>, userId?: string): Promise<QuotationRequest> {
     const existing = this.quotationRequests.get(id);
     if (!existing) throw new Error("Quotation request not found");
+
+    const fromStatus = existing.status ?? "rascunho";
+    const statusChanged = request.status !== undefined && request.status !== null && request.status !== fromStatus;
+    if (statusChanged) {
+      assertQuotationTransition(fromStatus, request.status!);
+    }
     
     const updated = { ...existing, ...request, updatedAt: new Date() };
     this.quotationRequests.set(id, updated);
+
+    if (statusChanged) {
+      await this.createAuditLog({
+        userId,
+        action: 'status_change',
+        entityType: 'quotation_request',
+        entityId: id,
+        changes: { from: fromStatus, to: request.status },
+      });
+    }
+
     return updated;
   }
 
@@ -898,8 +1996,10 @@ class MemStorage implements IStorage {
   }
 
   async getQuotationRequestsForApproval(approverId: string): Promise<QuotationRequest[]> {
+    const delegations = await this.getActiveDelegationsForDelegate(approverId);
+    const approverIds = [approverId, ...delegations.map(d => d.delegatorId)];
     return Array.from(this.quotationRequests.values())
-      .filter(req => req.approverId === approverId && req.status === "aguardando_aprovacao")
+      .filter(req => !!req.approverId && approverIds.includes(req.approverId) && req.status === "aguardando_aprovacao")
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
@@ -941,7 +2041,9 @@ class MemStorage implements IStorage {
   }
   async deleteQuotationRequestItem(id: string): Promise<void> { this.quotationRequestItems.delete(id); }
 
-  async getSupplierQuotations(requestId?: string): Promise<SupplierQuotation[]> { return []; }
+  async getSupplierQuotations(requestId?: string): Promise<SupplierQuotation[]> {
+    return Array.from(this.supplierQuotations.values()).filter(q => !requestId || q.quotationRequestId === requestId);
+  }
   async getSupplierQuotation(id: string): Promise<SupplierQuotation | undefined> { return this.supplierQuotations.get(id); }
   async getSupplierQuotationByRequestAndSupplier(quotationRequestId: string, supplierId: string): Promise<SupplierQuotation | undefined> {
     for (const quotation of this.supplierQuotations.values()) {
@@ -951,6 +2053,9 @@ class MemStorage implements IStorage {
     }
     return undefined;
   }
+  async getSupplierQuotationsBySupplier(supplierId: string): Promise<SupplierQuotation[]> {
+    return Array.from(this.supplierQuotations.values()).filter(quotation => quotation.supplierId === supplierId);
+  }
   async createSupplierQuotation(quotation: InsertSupplierQuotation): Promise<SupplierQuotation> { 
     const newQuotation: SupplierQuotation = { 
       ...quotation, 
@@ -971,9 +2076,29 @@ class MemStorage implements IStorage {
   }
   async deleteSupplierQuotation(id: string): Promise<void> { this.supplierQuotations.delete(id); }
 
-  async getSupplierQuotationItems(quotationId: string): Promise<SupplierQuotationItem[]> { return []; }
+  async getSupplierQuotationItems(quotationId: string): Promise<SupplierQuotationItem[]> {
+    return Array.from(this.supplierQuotationItems.values()).filter(item => item.supplierQuotationId === quotationId);
+  }
+  async getQuotationBids(quotationRequestIds: string[]): Promise<QuotationBid[]> {
+    const bids: QuotationBid[] = [];
+    for (const item of Array.from(this.supplierQuotationItems.values())) {
+      const quotation = this.supplierQuotations.get(item.supplierQuotationId);
+      if (!quotation || !quotationRequestIds.includes(quotation.quotationRequestId)) continue;
+      bids.push({ supplierId: quotation.supplierId, quotationRequestItemId: item.quotationRequestItemId, unitPrice: item.unitPrice });
+    }
+    return bids;
+  }
   async createSupplierQuotationItem(item: InsertSupplierQuotationItem): Promise<SupplierQuotationItem> { 
-    const newItem: SupplierQuotationItem = { ...item, id: this.generateId() };
+    const newItem: SupplierQuotationItem = {
+      ...item,
+      brand: item.brand ?? null,
+      model: item.model ?? null,
+      specifications: item.specifications ?? null,
+      isAwarded: item.isAwarded ?? false,
+      priceFlag: item.priceFlag ?? null,
+      priceFlagDetails: item.priceFlagDetails ?? null,
+      id: this.generateId(),
+    };
     this.supplierQuotationItems.set(newItem.id, newItem);
     return newItem;
   }
@@ -986,7 +2111,234 @@ class MemStorage implements IStorage {
   }
   async deleteSupplierQuotationItem(id: string): Promise<void> { this.supplierQuotationItems.delete(id); }
 
-  async getPurchaseOrders(): Promise<PurchaseOrder[]> { return []; }
+  async getSupplierPortalLinks(quotationRequestId: string): Promise<SupplierPortalLink[]> {
+    return Array.from(this.supplierPortalLinks.values())
+      .filter(link => link.quotationRequestId === quotationRequestId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+  async getSupplierInvitations(supplierId: string): Promise<SupplierInvitation[]> {
+    const invitations: SupplierInvitation[] = [];
+    for (const link of Array.from(this.supplierPortalLinks.values())) {
+      const request = this.quotationRequests.get(link.quotationRequestId);
+      if (link.supplierId !== supplierId || !request) continue;
+      invitations.push({ link, request: { status: request.status, responseDeadline: request.responseDeadline } });
+    }
+    return invitations;
+  }
+  async getSupplierPortalLink(id: string): Promise<SupplierPortalLink | undefined> { return this.supplierPortalLinks.get(id); }
+  async getSupplierPortalLinkByTokenHash(tokenHash: string): Promise<SupplierPortalLink | undefined> {
+    return Array.from(this.supplierPortalLinks.values()).find(link => link.tokenHash === tokenHash);
+  }
+  async createSupplierPortalLink(link: InsertSupplierPortalLink): Promise<SupplierPortalLink> {
+    const newLink: SupplierPortalLink = {
+      id: this.generateId(),
+      quotationRequestId: link.quotationRequestId,
+      supplierId: link.supplierId,
+      tokenHash: link.tokenHash,
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt ?? null,
+      lastAccessedAt: link.lastAccessedAt ?? null,
+      reminderSentAt: link.reminderSentAt ?? null,
+      submittedAt: link.submittedAt ?? null,
+      supplierQuotationId: link.supplierQuotationId ?? null,
+      createdById: link.createdById ?? null,
+      createdAt: new Date(),
+    };
+    this.supplierPortalLinks.set(newLink.id, newLink);
+    return newLink;
+  }
+  async updateSupplierPortalLink(id: string, link: Partial<InsertSupplierPortalLink>): Promise<SupplierPortalLink> {
+    const existing = this.supplierPortalLinks.get(id);
+    if (!existing) throw new Error("Supplier portal link not found");
+    const updated = { ...existing, ...link };
+    this.supplierPortalLinks.set(id, updated);
+    return updated;
+  }
+
+  async getApprovalPolicies(): Promise<ApprovalPolicy[]> {
+    return Array.from(this.approvalPolicies.values()).sort((a, b) => a.stepOrder - b.stepOrder);
+  }
+  async getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined> { return this.approvalPolicies.get(id); }
+  async createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy> {
+    const newPolicy: ApprovalPolicy = {
+      id: this.generateId(),
+      name: policy.name,
+      stepOrder: policy.stepOrder,
+      minAmount: policy.minAmount ?? "0.00",
+      maxAmount: policy.maxAmount ?? null,
+      costCenter: policy.costCenter ?? null,
+      department: policy.department ?? null,
+      categoryId: policy.categoryId ?? null,
+      approverId: policy.approverId ?? null,
+      approverRole: policy.approverRole ?? "aprovador",
+      isActive: policy.isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.approvalPolicies.set(newPolicy.id, newPolicy);
+    return newPolicy;
+  }
+  async updateApprovalPolicy(id: string, policy: Partial<InsertApprovalPolicy>): Promise<ApprovalPolicy> {
+    const existing = this.approvalPolicies.get(id);
+    if (!existing) throw new Error("Approval policy not found");
+    const updated = { ...existing, ...policy, updatedAt: new Date() };
+    this.approvalPolicies.set(id, updated);
+    return updated;
+  }
+  async deleteApprovalPolicy(id: string): Promise<void> { this.approvalPolicies.delete(id); }
+
+  async getApprovalSteps(quotationRequestId: string): Promise<QuotationApprovalStep[]> {
+    return Array.from(this.approvalSteps.values())
+      .filter(step => step.quotationRequestId === quotationRequestId)
+      .sort((a, b) => a.stepOrder - b.stepOrder);
+  }
+  async getPendingApprovalSteps(): Promise<QuotationApprovalStep[]> {
+    return Array.from(this.approvalSteps.values())
+      .filter(step => step.status === "pendente")
+      .sort((a, b) => a.stepOrder - b.stepOrder);
+  }
+  async createApprovalStep(step: InsertQuotationApprovalStep): Promise<QuotationApprovalStep> {
+    const newStep: QuotationApprovalStep = {
+      id: this.generateId(),
+      quotationRequestId: step.quotationRequestId,
+      policyId: step.policyId ?? null,
+      stepOrder: step.stepOrder,
+      name: step.name,
+      approverId: step.approverId ?? null,
+      approverRole: step.approverRole ?? "aprovador",
+      status: step.status ?? "pendente",
+      decidedById: step.decidedById ?? null,
+      onBehalfOfId: step.onBehalfOfId ?? null,
+      decidedAt: step.decidedAt ?? null,
+      comments: step.comments ?? null,
+      createdAt: new Date(),
+    };
+    this.approvalSteps.set(newStep.id, newStep);
+    return newStep;
+  }
+  async updateApprovalStep(id: string, step: Partial<InsertQuotationApprovalStep>): Promise<QuotationApprovalStep> {
+    const existing = this.approvalSteps.get(id);
+    if (!existing) throw new Error("Approval step not found");
+    const updated = { ...existing, ...step };
+    this.approvalSteps.set(id, updated);
+    return updated;
+  }
+
+  async getApprovalDelegations(userId?: string): Promise<ApprovalDelegation[]> {
+    return Array.from(this.approvalDelegations.values())
+      .filter(d => !userId || d.delegatorId === userId || d.delegateId === userId)
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+  }
+  async getApprovalDelegation(id: string): Promise<ApprovalDelegation | undefined> { return this.approvalDelegations.get(id); }
+  async getActiveDelegationsForDelegate(delegateId: string, at: Date = new Date()): Promise<ApprovalDelegation[]> {
+    return Array.from(this.approvalDelegations.values()).filter(d =>
+      d.delegateId === delegateId && d.isActive && d.startDate <= at && d.endDate >= at
+    );
+  }
+  async createApprovalDelegation(delegation: InsertApprovalDelegation): Promise<ApprovalDelegation> {
+    const newDelegation: ApprovalDelegation = {
+      id: this.generateId(),
+      delegatorId: delegation.delegatorId,
+      delegateId: delegation.delegateId,
+      startDate: delegation.startDate,
+      endDate: delegation.endDate,
+      reason: delegation.reason ?? null,
+      isActive: delegation.isActive ?? true,
+      createdAt: new Date(),
+    };
+    this.approvalDelegations.set(newDelegation.id, newDelegation);
+    return newDelegation;
+  }
+  async updateApprovalDelegation(id: string, delegation: Partial<InsertApprovalDelegation>): Promise<ApprovalDelegation> {
+    const existing = this.approvalDelegations.get(id);
+    if (!existing) throw new Error("Approval delegation not found");
+    const updated = { ...existing, ...delegation };
+    this.approvalDelegations.set(id, updated);
+    return updated;
+  }
+
+  async getCostCenters(): Promise<CostCenter[]> {
+    return Array.from(this.costCenters.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
+  async getCostCenter(id: string): Promise<CostCenter | undefined> { return this.costCenters.get(id); }
+  async getCostCenterByCode(code: string): Promise<CostCenter | undefined> {
+    return Array.from(this.costCenters.values()).find(costCenter => costCenter.code === code);
+  }
+  async createCostCenter(costCenter: InsertCostCenter): Promise<CostCenter> {
+    const newCostCenter: CostCenter = {
+      id: this.generateId(),
+      code: costCenter.code,
+      name: costCenter.name,
+      department: costCenter.department ?? null,
+      blockOverBudget: costCenter.blockOverBudget ?? false,
+      isActive: costCenter.isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.costCenters.set(newCostCenter.id, newCostCenter);
+    return newCostCenter;
+  }
+  async updateCostCenter(id: string, costCenter: Partial<InsertCostCenter>): Promise<CostCenter> {
+    const existing = this.costCenters.get(id);
+    if (!existing) throw new Error("Cost center not found");
+    const updated = { ...existing, ...costCenter, updatedAt: new Date() };
+    this.costCenters.set(id, updated);
+    return updated;
+  }
+
+  async getCostCenterBudgets(costCenterId?: string): Promise<CostCenterBudget[]> {
+    return Array.from(this.costCenterBudgets.values())
+      .filter(budget => !costCenterId || budget.costCenterId === costCenterId)
+      .sort((a, b) => b.year - a.year || (a.month ?? 0) - (b.month ?? 0));
+  }
+  async getCostCenterBudget(id: string): Promise<CostCenterBudget | undefined> { return this.costCenterBudgets.get(id); }
+  async createCostCenterBudget(budget: InsertCostCenterBudget): Promise<CostCenterBudget> {
+    const newBudget: CostCenterBudget = {
+      id: this.generateId(),
+      costCenterId: budget.costCenterId,
+      year: budget.year,
+      month: budget.month ?? null,
+      amount: budget.amount,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.costCenterBudgets.set(newBudget.id, newBudget);
+    return newBudget;
+  }
+  async updateCostCenterBudget(id: string, budget: Partial<InsertCostCenterBudget>): Promise<CostCenterBudget> {
+    const existing = this.costCenterBudgets.get(id);
+    if (!existing) throw new Error("Cost center budget not found");
+    const updated = { ...existing, ...budget, updatedAt: new Date() };
+    this.costCenterBudgets.set(id, updated);
+    return updated;
+  }
+  async deleteCostCenterBudget(id: string): Promise<void> { this.costCenterBudgets.delete(id); }
+
+  async getBudgetEntries(filters: { costCenterId?: string; quotationRequestId?: string } = {}): Promise<BudgetEntry[]> {
+    return Array.from(this.budgetEntries.values())
+      .filter(entry => !filters.costCenterId || entry.costCenterId === filters.costCenterId)
+      .filter(entry => !filters.quotationRequestId || entry.quotationRequestId === filters.quotationRequestId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+  async createBudgetEntry(entry: InsertBudgetEntry): Promise<BudgetEntry> {
+    const newEntry: BudgetEntry = {
+      id: this.generateId(),
+      costCenterId: entry.costCenterId,
+      quotationRequestId: entry.quotationRequestId ?? null,
+      purchaseOrderId: entry.purchaseOrderId ?? null,
+      type: entry.type,
+      amount: entry.amount,
+      referenceDate: entry.referenceDate,
+      createdById: entry.createdById ?? null,
+      createdAt: new Date(),
+    };
+    this.budgetEntries.set(newEntry.id, newEntry);
+    return newEntry;
+  }
+
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values()).sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
   async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> { return this.purchaseOrders.get(id); }
   async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> { 
     const newOrder: PurchaseOrder = { 
@@ -999,21 +2351,490 @@ class MemStorage implements IStorage {
     this.purchaseOrders.set(newOrder.id, newOrder);
     return newOrder;
   }
-  async updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder> { 
+  async updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>, userId?: string): Promise<PurchaseOrder> {
     const existing = this.purchaseOrders.get(id);
     if (!existing) throw new Error("Purchase order not found");
+
+    const fromStatus = existing.status ?? "pendente";
+    const statusChanged = order.status !== undefined && order.status !== null && order.status !== fromStatus;
+    if (statusChanged) {
+      assertPurchaseOrderTransition(fromStatus, order.status!);
+    }
+
     const updated = { ...existing, ...order, updatedAt: new Date() };
     this.purchaseOrders.set(id, updated);
+
+    if (statusChanged) {
+      await this.createAuditLog({
+        userId,
+        action: 'status_change',
+        entityType: 'purchase_order',
+        entityId: id,
+        changes: { from: fromStatus, to: order.status },
+      });
+    }
+
     return updated;
   }
   async deletePurchaseOrder(id: string): Promise<void> { this.purchaseOrders.delete(id); }
 
-  async getAuditLogs(entityId?: string, entityType?: string): Promise<AuditLog[]> { return []; }
+  async getPurchaseOrderItems(purchaseOrderId: string): Promise<PurchaseOrderItem[]> {
+    return Array.from(this.purchaseOrderItems.values()).filter(item => item.purchaseOrderId === purchaseOrderId);
+  }
+  async createPurchaseOrderItem(item: InsertPurchaseOrderItem): Promise<PurchaseOrderItem> {
+    const newItem: PurchaseOrderItem = {
+      id: this.generateId(),
+      purchaseOrderId: item.purchaseOrderId,
+      quotationRequestItemId: item.quotationRequestItemId ?? null,
+      supplierQuotationItemId: item.supplierQuotationItemId ?? null,
+      productId: item.productId ?? null,
+      productName: item.productName,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      brand: item.brand ?? null,
+      model: item.model ?? null,
+      specifications: item.specifications ?? null,
+      createdAt: new Date(),
+    };
+    this.purchaseOrderItems.set(newItem.id, newItem);
+    return newItem;
+  }
+
+  async getGoodsReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]> {
+    return Array.from(this.goodsReceipts.values())
+      .filter(receipt => receipt.purchaseOrderId === purchaseOrderId)
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+  }
+  async createGoodsReceipt(receipt: InsertGoodsReceipt): Promise<GoodsReceipt> {
+    const newReceipt: GoodsReceipt = {
+      id: this.generateId(),
+      purchaseOrderId: receipt.purchaseOrderId,
+      receivedAt: receipt.receivedAt,
+      receivedById: receipt.receivedById ?? null,
+      notes: receipt.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.goodsReceipts.set(newReceipt.id, newReceipt);
+    return newReceipt;
+  }
+  async getGoodsReceiptItems(goodsReceiptId: string): Promise<GoodsReceiptItem[]> {
+    return Array.from(this.goodsReceiptItems.values()).filter(item => item.goodsReceiptId === goodsReceiptId);
+  }
+  async createGoodsReceiptItem(item: InsertGoodsReceiptItem): Promise<GoodsReceiptItem> {
+    const newItem: GoodsReceiptItem = {
+      id: this.generateId(),
+      goodsReceiptId: item.goodsReceiptId,
+      purchaseOrderItemId: item.purchaseOrderItemId,
+      quantityReceived: item.quantityReceived,
+      divergenceNotes: item.divergenceNotes ?? null,
+    };
+    this.goodsReceiptItems.set(newItem.id, newItem);
+    return newItem;
+  }
+  // Single-threaded: nothing can write between the check and the inserts
+  async recordGoodsReceipt(record: GoodsReceiptRecord): Promise<{ receipt: GoodsReceipt; items: GoodsReceiptItem[] }> {
+    const receiptIds = new Set(Array.from(this.goodsReceipts.values())
+      .filter(receipt => receipt.purchaseOrderId === record.receipt.purchaseOrderId)
+      .map(receipt => receipt.id));
+    for (const item of record.items) {
+      const line = this.purchaseOrderItems.get(item.purchaseOrderItemId);
+      const received = Array.from(this.goodsReceiptItems.values())
+        .filter(existing => receiptIds.has(existing.goodsReceiptId) && existing.purchaseOrderItemId === item.purchaseOrderItemId)
+        .reduce((total, existing) => total + Number(existing.quantityReceived), 0);
+      const outstanding = line && line.purchaseOrderId === record.receipt.purchaseOrderId ? Number(line.quantity) - received : 0;
+      if (Number(item.quantityReceived) > outstanding + 1e-9) {
+        throw new OverReceiptError(item.purchaseOrderItemId, outstanding);
+      }
+    }
+
+    const receipt = await this.createGoodsReceipt(record.receipt);
+    const items: GoodsReceiptItem[] = [];
+    for (const item of record.items) {
+      items.push(await this.createGoodsReceiptItem({ ...item, goodsReceiptId: receipt.id }));
+    }
+    return { receipt, items };
+  }
+
+  async getSupplierInvoices(filters?: { purchaseOrderId?: string; status?: InvoiceStatus }): Promise<SupplierInvoice[]> {
+    return Array.from(this.supplierInvoices.values())
+      .filter(invoice => !filters?.purchaseOrderId || invoice.purchaseOrderId === filters.purchaseOrderId)
+      .filter(invoice => !filters?.status || invoice.status === filters.status)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+  async getSupplierInvoice(id: string): Promise<SupplierInvoice | undefined> { return this.supplierInvoices.get(id); }
+  async createSupplierInvoice(invoice: InsertSupplierInvoice): Promise<SupplierInvoice> {
+    const newInvoice: SupplierInvoice = {
+      id: this.generateId(),
+      purchaseOrderId: invoice.purchaseOrderId,
+      supplierId: invoice.supplierId,
+      invoiceNumber: invoice.invoiceNumber,
+      series: invoice.series ?? null,
+      accessKey: invoice.accessKey ?? null,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate ?? null,
+      totalAmount: invoice.totalAmount,
+      additionalCharges: invoice.additionalCharges ?? "0.00",
+      icmsAmount: invoice.icmsAmount ?? null,
+      ipiAmount: invoice.ipiAmount ?? null,
+      status: invoice.status ?? "divergente",
+      matchIssues: invoice.matchIssues ?? null,
+      matchedAt: invoice.matchedAt ?? null,
+      exceptionApprovedById: invoice.exceptionApprovedById ?? null,
+      exceptionApprovedAt: invoice.exceptionApprovedAt ?? null,
+      exceptionNotes: invoice.exceptionNotes ?? null,
+      paidAt: invoice.paidAt ?? null,
+      createdById: invoice.createdById ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.supplierInvoices.set(newInvoice.id, newInvoice);
+    return newInvoice;
+  }
+  async updateSupplierInvoice(id: string, invoice: Partial<InsertSupplierInvoice>, userId?: string): Promise<SupplierInvoice> {
+    const existing = this.supplierInvoices.get(id);
+    if (!existing) throw new Error("Invoice not found");
+
+    const fromStatus = existing.status ?? "divergente";
+    const statusChanged = invoice.status !== undefined && invoice.status !== null && invoice.status !== fromStatus;
+    if (statusChanged) {
+      assertInvoiceTransition(fromStatus, invoice.status!);
+    }
+
+    const updated = { ...existing, ...invoice, updatedAt: new Date() };
+    this.supplierInvoices.set(id, updated);
+
+    if (statusChanged) {
+      await this.createAuditLog({
+        userId,
+        action: 'status_change',
+        entityType: 'invoice',
+        entityId: id,
+        changes: { from: fromStatus, to: invoice.status },
+      });
+    }
+
+    return updated;
+  }
+  async getSupplierInvoiceItems(invoiceId: string): Promise<SupplierInvoiceItem[]> {
+    return Array.from(this.supplierInvoiceItems.values()).filter(item => item.invoiceId === invoiceId);
+  }
+  async createSupplierInvoiceItem(item: InsertSupplierInvoiceItem): Promise<SupplierInvoiceItem> {
+    const newItem: SupplierInvoiceItem = {
+      id: this.generateId(),
+      invoiceId: item.invoiceId,
+      purchaseOrderItemId: item.purchaseOrderItemId ?? null,
+      description: item.description,
+      productCode: item.productCode ?? null,
+      ncm: item.ncm ?? null,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      icmsAmount: item.icmsAmount ?? null,
+      ipiAmount: item.ipiAmount ?? null,
+    };
+    this.supplierInvoiceItems.set(newItem.id, newItem);
+    return newItem;
+  }
+
+  async getInvoiceMatchTolerances(): Promise<InvoiceMatchTolerance[]> {
+    return Array.from(this.invoiceMatchTolerances.values());
+  }
+  async getInvoiceMatchTolerance(id: string): Promise<InvoiceMatchTolerance | undefined> { return this.invoiceMatchTolerances.get(id); }
+  async createInvoiceMatchTolerance(tolerance: InsertInvoiceMatchTolerance): Promise<InvoiceMatchTolerance> {
+    const newTolerance: InvoiceMatchTolerance = {
+      id: this.generateId(),
+      supplierId: tolerance.supplierId ?? null,
+      priceTolerancePercent: tolerance.priceTolerancePercent ?? "0.00",
+      quantityTolerancePercent: tolerance.quantityTolerancePercent ?? "0.00",
+      amountTolerance: tolerance.amountTolerance ?? "0.00",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.invoiceMatchTolerances.set(newTolerance.id, newTolerance);
+    return newTolerance;
+  }
+  async updateInvoiceMatchTolerance(id: string, tolerance: Partial<InsertInvoiceMatchTolerance>): Promise<InvoiceMatchTolerance> {
+    const existing = this.invoiceMatchTolerances.get(id);
+    if (!existing) throw new Error("Tolerance not found");
+    const updated = { ...existing, ...tolerance, updatedAt: new Date() };
+    this.invoiceMatchTolerances.set(id, updated);
+    return updated;
+  }
+
+  async getSupplierIncidents(supplierId: string): Promise<SupplierIncident[]> {
+    return Array.from(this.supplierIncidents.values())
+      .filter(incident => incident.supplierId === supplierId)
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+  }
+  async createSupplierIncident(incident: InsertSupplierIncident): Promise<SupplierIncident> {
+    const newIncident: SupplierIncident = {
+      id: this.generateId(),
+      supplierId: incident.supplierId,
+      purchaseOrderId: incident.purchaseOrderId ?? null,
+      goodsReceiptId: incident.goodsReceiptId ?? null,
+      severity: incident.severity ?? "media",
+      description: incident.description,
+      occurredAt: incident.occurredAt,
+      createdById: incident.createdById ?? null,
+      createdAt: new Date(),
+    };
+    this.supplierIncidents.set(newIncident.id, newIncident);
+    return newIncident;
+  }
+
+  async getSupplierScoreWeights(): Promise<SupplierScoreWeights | undefined> {
+    return this.scoreWeights;
+  }
+  async saveSupplierScoreWeights(weights: InsertSupplierScoreWeights): Promise<SupplierScoreWeights> {
+    this.scoreWeights = {
+      id: this.scoreWeights?.id ?? this.generateId(),
+      responseRate: weights.responseRate,
+      priceCompetitiveness: weights.priceCompetitiveness,
+      onTimeDelivery: weights.onTimeDelivery,
+      quality: weights.quality,
+      updatedById: weights.updatedById ?? null,
+      createdAt: this.scoreWeights?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    return this.scoreWeights;
+  }
+
+  async getSupplierDocumentTypes(): Promise<SupplierDocumentType[]> {
+    return Array.from(this.supplierDocumentTypes.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  async getSupplierDocumentType(id: string): Promise<SupplierDocumentType | undefined> {
+    return this.supplierDocumentTypes.get(id);
+  }
+  async createSupplierDocumentType(documentType: InsertSupplierDocumentType): Promise<SupplierDocumentType> {
+    const newDocumentType: SupplierDocumentType = {
+      id: this.generateId(),
+      name: documentType.name,
+      description: documentType.description ?? null,
+      isMandatory: documentType.isMandatory ?? false,
+      alertDaysBefore: documentType.alertDaysBefore ?? 30,
+      isActive: documentType.isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.supplierDocumentTypes.set(newDocumentType.id, newDocumentType);
+    return newDocumentType;
+  }
+  async updateSupplierDocumentType(id: string, documentType: Partial<InsertSupplierDocumentType>): Promise<SupplierDocumentType> {
+    const existing = this.supplierDocumentTypes.get(id);
+    if (!existing) throw new Error("Document type not found");
+    const updated = { ...existing, ...documentType, updatedAt: new Date() };
+    this.supplierDocumentTypes.set(id, updated);
+    return updated;
+  }
+
+  async getSupplierDocuments(supplierId?: string): Promise<SupplierDocumentSummary[]> {
+    return Array.from(this.supplierDocuments.values())
+      .filter(document => !supplierId || document.supplierId === supplierId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .map(({ fileContent, ...document }) => document);
+  }
+  async getSupplierDocument(id: string): Promise<SupplierDocument | undefined> {
+    return this.supplierDocuments.get(id);
+  }
+  async createSupplierDocument(document: InsertSupplierDocument): Promise<SupplierDocument> {
+    const newDocument: SupplierDocument = {
+      id: this.generateId(),
+      supplierId: document.supplierId,
+      documentTypeId: document.documentTypeId,
+      fileName: document.fileName,
+      mimeType: document.mimeType ?? null,
+      fileContent: document.fileContent,
+      issueDate: document.issueDate,
+      expiryDate: document.expiryDate ?? null,
+      expiryAlertSentAt: document.expiryAlertSentAt ?? null,
+      uploadedById: document.uploadedById ?? null,
+      createdAt: new Date(),
+    };
+    this.supplierDocuments.set(newDocument.id, newDocument);
+    return newDocument;
+  }
+  async updateSupplierDocument(id: string, document: Partial<InsertSupplierDocument>): Promise<SupplierDocument> {
+    const existing = this.supplierDocuments.get(id);
+    if (!existing) throw new Error("Document not found");
+    const updated = { ...existing, ...document };
+    this.supplierDocuments.set(id, updated);
+    return updated;
+  }
+
+  async getSupplierCategories(supplierId: string): Promise<SupplierCategory[]> {
+    return Array.from(this.supplierCategories.values()).filter(link => link.supplierId === supplierId);
+  }
+  async setSupplierCategories(supplierId: string, categoryIds: string[]): Promise<SupplierCategory[]> {
+    for (const link of await this.getSupplierCategories(supplierId)) {
+      this.supplierCategories.delete(link.id);
+    }
+    return categoryIds.map(categoryId => {
+      const link: SupplierCategory = { id: this.generateId(), supplierId, categoryId, createdAt: new Date() };
+      this.supplierCategories.set(link.id, link);
+      return link;
+    });
+  }
+  async getSupplierCategoriesByCategory(categoryIds: string[]): Promise<SupplierCategory[]> {
+    return Array.from(this.supplierCategories.values()).filter(link => categoryIds.includes(link.categoryId));
+  }
+
+  async getSupplierOnboarding(id: string): Promise<SupplierOnboarding | undefined> {
+    return this.supplierOnboardings.get(id);
+  }
+  async getSupplierOnboardingBySupplier(supplierId: string): Promise<SupplierOnboarding | undefined> {
+    return Array.from(this.supplierOnboardings.values()).find(onboarding => onboarding.supplierId === supplierId);
+  }
+  async getSupplierOnboardingByTokenHash(tokenHash: string): Promise<SupplierOnboarding | undefined> {
+    return Array.from(this.supplierOnboardings.values()).find(onboarding => onboarding.tokenHash === tokenHash);
+  }
+  async createSupplierOnboarding(onboarding: InsertSupplierOnboarding): Promise<SupplierOnboarding> {
+    const newOnboarding: SupplierOnboarding = {
+      id: this.generateId(),
+      supplierId: onboarding.supplierId,
+      status: onboarding.status ?? "rascunho",
+      tokenHash: onboarding.tokenHash,
+      tokenExpiresAt: onboarding.tokenExpiresAt,
+      sectionReviews: onboarding.sectionReviews ?? null,
+      rejectionReason: onboarding.rejectionReason ?? null,
+      submittedAt: onboarding.submittedAt ?? null,
+      reviewedById: onboarding.reviewedById ?? null,
+      reviewedAt: onboarding.reviewedAt ?? null,
+      createdById: onboarding.createdById ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.supplierOnboardings.set(newOnboarding.id, newOnboarding);
+    return newOnboarding;
+  }
+  async updateSupplierOnboarding(id: string, onboarding: Partial<InsertSupplierOnboarding>): Promise<SupplierOnboarding> {
+    const existing = this.supplierOnboardings.get(id);
+    if (!existing) throw new Error("Onboarding not found");
+    const updated = { ...existing, ...onboarding, updatedAt: new Date() };
+    this.supplierOnboardings.set(id, updated);
+    return updated;
+  }
+
+  async getProductPriceHistory(filters: { productId?: string; supplierId?: string; from?: Date; to?: Date } = {}): Promise<ProductPriceHistory[]> {
+    return Array.from(this.productPriceHistory.values())
+      .filter(entry => !filters.productId || entry.productId === filters.productId)
+      .filter(entry => !filters.supplierId || entry.supplierId === filters.supplierId)
+      .filter(entry => !filters.from || entry.recordedAt.getTime() >= filters.from.getTime())
+      .filter(entry => !filters.to || entry.recordedAt.getTime() <= filters.to.getTime())
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+  async getProductPriceHistoryBySupplierQuotationItem(supplierQuotationItemId: string): Promise<ProductPriceHistory | undefined> {
+    return Array.from(this.productPriceHistory.values()).find(entry => entry.supplierQuotationItemId === supplierQuotationItemId);
+  }
+  async getProductPriceHistoryByPurchaseOrderItem(purchaseOrderItemId: string): Promise<ProductPriceHistory | undefined> {
+    return Array.from(this.productPriceHistory.values()).find(entry => entry.purchaseOrderItemId === purchaseOrderItemId);
+  }
+  async createProductPriceHistory(entry: InsertProductPriceHistory): Promise<ProductPriceHistory> {
+    const newEntry: ProductPriceHistory = {
+      id: this.generateId(),
+      productId: entry.productId,
+      supplierId: entry.supplierId,
+      source: entry.source,
+      supplierQuotationItemId: entry.supplierQuotationItemId ?? null,
+      purchaseOrderItemId: entry.purchaseOrderItemId ?? null,
+      unitPrice: entry.unitPrice,
+      quantity: entry.quantity,
+      unit: entry.unit,
+      recordedAt: entry.recordedAt,
+      createdAt: new Date(),
+    };
+    this.productPriceHistory.set(newEntry.id, newEntry);
+    return newEntry;
+  }
+  async deleteProductPriceHistory(id: string): Promise<void> {
+    this.productPriceHistory.delete(id);
+  }
+
+  // Entries are validated before they get here, so writing them one by one cannot fail halfway
+  async importQuotationRequests(entries: QuotationRequestImport[]): Promise<QuotationRequest[]> {
+    const created: QuotationRequest[] = [];
+    for (const entry of entries) {
+      const request = await this.createQuotationRequest(entry.request);
+      for (const item of entry.items) {
+        await this.createQuotationRequestItem({ ...item, quotationRequestId: request.id });
+      }
+      created.push(request);
+    }
+    return created;
+  }
+  async importSupplierQuotations(entries: SupplierQuotationImport[]): Promise<SupplierQuotation[]> {
+    const newSupplierIds = new Map<string, string>();
+    const saved: SupplierQuotation[] = [];
+    for (const entry of entries) {
+      let supplierId = entry.supplierId;
+      if (!supplierId && entry.newSupplier) {
+        supplierId = newSupplierIds.get(entry.newSupplier.cnpj) ?? (await this.createSupplier(entry.newSupplier)).id;
+        newSupplierIds.set(entry.newSupplier.cnpj, supplierId);
+      }
+      if (!supplierId) throw new Error("Supplier missing in import entry");
+
+      const quotation = entry.existingQuotationId
+        ? await this.updateSupplierQuotation(entry.existingQuotationId, entry.quotation)
+        : await this.createSupplierQuotation({ ...entry.quotation, supplierId });
+      const replaced = new Set(entry.items.map(item => item.quotationRequestItemId));
+      for (const line of await this.getSupplierQuotationItems(quotation.id)) {
+        if (replaced.has(line.quotationRequestItemId)) this.supplierQuotationItems.delete(line.id);
+      }
+      for (const item of entry.items) {
+        await this.createSupplierQuotationItem({ ...item, supplierQuotationId: quotation.id });
+      }
+      saved.push(quotation);
+    }
+    return saved;
+  }
+
+  async getImportMappingProfiles(importType?: string): Promise<ImportMappingProfile[]> {
+    return Array.from(this.importMappingProfiles.values())
+      .filter(profile => !importType || profile.importType === importType)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  async getImportMappingProfile(id: string): Promise<ImportMappingProfile | undefined> {
+    return this.importMappingProfiles.get(id);
+  }
+  async createImportMappingProfile(profile: InsertImportMappingProfile): Promise<ImportMappingProfile> {
+    const newProfile: ImportMappingProfile = {
+      id: this.generateId(),
+      name: profile.name,
+      importType: profile.importType,
+      supplierId: profile.supplierId ?? null,
+      department: profile.department ?? null,
+      headerRow: profile.headerRow ?? 1,
+      columns: profile.columns,
+      defaults: profile.defaults ?? null,
+      createdById: profile.createdById ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.importMappingProfiles.set(newProfile.id, newProfile);
+    return newProfile;
+  }
+  async updateImportMappingProfile(id: string, profile: Partial<InsertImportMappingProfile>): Promise<ImportMappingProfile> {
+    const existing = this.importMappingProfiles.get(id);
+    if (!existing) throw new Error("Import mapping profile not found");
+    const updated = { ...existing, ...profile, updatedAt: new Date() };
+    this.importMappingProfiles.set(id, updated);
+    return updated;
+  }
+  async deleteImportMappingProfile(id: string): Promise<void> {
+    this.importMappingProfiles.delete(id);
+  }
+
+  async getAuditLogs(entityId?: string): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values())
+      .filter(log => !entityId || log.entityId === entityId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> { 
     const newLog: AuditLog = { 
       ...log, 
       id: this.generateId(),
-      timestamp: new Date()
+      createdAt: new Date()
     };
     this.auditLogs.set(newLog.id, newLog);
     return newLog;
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+// Brazilian taxpayer documents: CNPJ (14 digits) for companies and
+// CPF (11 digits) for individual suppliers. Stored as digits only.
+
+export const onlyDigits = (value: unknown) => String(value ?? "").replace(/\D/g, "");
+
+// Only the punctuation used when formatting a CNPJ/CPF may be stripped; any other
+// character means the value was mistyped rather than formatted
+const TAX_ID_CHARACTERS = /^[\d./\-\s]*$/;
+
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+}
+
+export function isValidCnpj(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+}
+
+export function isValidCpf(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) return false;
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+}
+
+export function isValidTaxId(value: string): boolean {
+  return isValidCnpj(value) || isValidCpf(value);
+}
+
+// Canonical (digits only) form of a valid CNPJ/CPF, or null when invalid
+export function normalizeTaxId(value: unknown): string | null {
+  if (!TAX_ID_CHARACTERS.test(String(value ?? ""))) return null;
+  const digits = onlyDigits(value);
+  return isValidTaxId(digits) ? digits : null;
+}
+
+export function formatTaxId(value: string | null | undefined): string {
+  const digits = onlyDigits(value);
+  if (digits.length === 14) {
+    return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5");
+  }
+  if (digits.length === 11) {
+    return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4");
+  }
+  return value ?? "";
+}
+
+// Accepts formatted or bare CNPJ/CPF and outputs the canonical digits
+export const taxIdSchema = z
+  .string()
+  .refine(value => TAX_ID_CHARACTERS.test(value) && isValidTaxId(value), "CNPJ ou CPF inválido")
+  .transform(onlyDigits);
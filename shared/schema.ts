@@ -13,6 +13,7 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { taxIdSchema } from "./documents";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -30,12 +31,28 @@ export const userRoleEnum = pgEnum("user_role", ["admin", "requisitante", "cotad
 export const quotationStatusEnum = pgEnum("quotation_status", [
   "rascunho",
   "em_cotacao",
+  "cotacao_encerrada",
   "aguardando_aprovacao",
   "aprovado",
   "rejeitado",
   "cancelado"
 ]);
 export const supplierStatusEnum = pgEnum("supplier_status", ["ativo", "inativo", "pendente", "bloqueado"]);
+export const approvalStepStatusEnum = pgEnum("approval_step_status", ["pendente", "aprovado", "rejeitado", "cancelado"]);
+export const budgetEntryTypeEnum = pgEnum("budget_entry_type", ["compromisso", "consumo", "estorno"]);
+export const purchaseOrderStatusEnum = pgEnum("purchase_order_status", [
+  "pendente",
+  "enviado",
+  "confirmado",
+  "parcialmente_entregue",
+  "entregue",
+  "cancelado"
+]);
+export const invoiceStatusEnum = pgEnum("invoice_status", ["divergente", "a_pagar", "pago", "cancelado"]);
+export const incidentSeverityEnum = pgEnum("incident_severity", ["baixa", "media", "alta"]);
+export const onboardingStatusEnum = pgEnum("onboarding_status", ["rascunho", "enviado", "aprovado", "rejeitado"]);
+export const priceHistorySourceEnum = pgEnum("price_history_source", ["cotacao", "pedido"]);
+export const priceFlagEnum = pgEnum("price_flag", ["suspeito_alto", "suspeito_baixo"]);
 
 // User storage table (required for Replit Auth)
 export const users = pgTable("users", {
@@ -55,13 +72,26 @@ export const users = pgTable("users", {
 export const suppliers = pgTable("suppliers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
-  cnpj: varchar("cnpj").unique(),
+  cnpj: varchar("cnpj").unique(), // CNPJ or CPF, digits only
+  tradeName: varchar("trade_name"),
+  cnae: varchar("cnae"), // main economic activity code
+  registrationStatus: varchar("registration_status"), // Receita Federal status, e.g. ATIVA, BAIXADA
+  registryCheckedAt: timestamp("registry_checked_at"),
   email: varchar("email"),
   phone: varchar("phone"),
   address: text("address"),
   contactPerson: varchar("contact_person"),
-  status: supplierStatusEnum("status").default("ativo"),
+  bankName: varchar("bank_name"),
+  bankCode: varchar("bank_code"), // COMPE code, e.g. 341
+  bankBranch: varchar("bank_branch"),
+  bankAccount: varchar("bank_account"),
+  bankAccountType: varchar("bank_account_type"), // corrente, poupanca
+  pixKey: varchar("pix_key"),
+  status: supplierStatusEnum("status").default("pendente"), // new suppliers go through onboarding
   score: decimal("score", { precision: 3, scale: 2 }).default("0.00"),
+  scoreBreakdown: jsonb("score_breakdown"), // per-criterion results of the last score calculation
+  scoreUpdatedAt: timestamp("score_updated_at"),
+  complianceBlockedAt: timestamp("compliance_blocked_at"), // set while blocked for a lapsed mandatory document
   totalQuotations: integer("total_quotations").default(0),
   averageDeliveryTime: integer("average_delivery_time"), // in days
   notes: text("notes"),
@@ -82,6 +112,7 @@ export const categories = pgTable("categories", {
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
+  code: varchar("code").unique(), // internal/ERP product code, matched by spreadsheet imports
   description: text("description"),
   unit: varchar("unit").notNull(), // un, kg, m, etc.
   categoryId: varchar("category_id").references(() => categories.id),
@@ -93,6 +124,31 @@ export const products = pgTable("products", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Categories each supplier serves
+export const supplierCategories = pgTable("supplier_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  categoryId: varchar("category_id").references(() => categories.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Supplier onboarding (the supplier fills its registration through a tokenized link, then an admin reviews it)
+export const supplierOnboardings = pgTable("supplier_onboardings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull().unique(),
+  status: onboardingStatusEnum("status").default("rascunho"),
+  tokenHash: varchar("token_hash").notNull().unique(), // sha256 of the token sent to the supplier
+  tokenExpiresAt: timestamp("token_expires_at").notNull(),
+  sectionReviews: jsonb("section_reviews"), // review of each form section (bank, documents, categories)
+  rejectionReason: text("rejection_reason"),
+  submittedAt: timestamp("submitted_at"),
+  reviewedById: varchar("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Quotation requests
 export const quotationRequests = pgTable("quotation_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -104,6 +160,7 @@ export const quotationRequests = pgTable("quotation_requests", {
   costCenter: varchar("cost_center"),
   urgency: varchar("urgency").default("normal"), // baixa, normal, alta, critica
   expectedDeliveryDate: timestamp("expected_delivery_date"),
+  responseDeadline: timestamp("response_deadline"), // suppliers can no longer quote after this; the round closes automatically
   status: quotationStatusEnum("status").default("rascunho"),
   totalBudget: decimal("total_budget", { precision: 12, scale: 2 }),
   approvedAmount: decimal("approved_amount", { precision: 12, scale: 2 }),
@@ -152,6 +209,71 @@ export const supplierQuotationItems = pgTable("supplier_quotation_items", {
   brand: varchar("brand"),
   model: varchar("model"),
   specifications: text("specifications"),
+  isAwarded: boolean("is_awarded").default(false), // item awarded to this supplier (awards can be split across suppliers)
+  priceFlag: priceFlagEnum("price_flag"), // outlier against the price history and the other bids; null = not flagged
+  priceFlagDetails: jsonb("price_flag_details"), // reference statistics of the last check
+});
+
+// Supplier portal links (tokenized access for one supplier to answer one quotation request)
+export const supplierPortalLinks = pgTable("supplier_portal_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationRequestId: varchar("quotation_request_id").references(() => quotationRequests.id).notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  tokenHash: varchar("token_hash").unique().notNull(), // sha256 of the token sent by email; the token itself is never stored
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  reminderSentAt: timestamp("reminder_sent_at"),
+  submittedAt: timestamp("submitted_at"),
+  supplierQuotationId: varchar("supplier_quotation_id").references(() => supplierQuotations.id),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Approval policies (which approval steps a request needs based on amount, cost center, department and category)
+export const approvalPolicies = pgTable("approval_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(), // e.g. Chefe de Departamento, Controller, Diretoria
+  stepOrder: integer("step_order").notNull(), // lower steps sign off first
+  minAmount: decimal("min_amount", { precision: 12, scale: 2 }).default("0.00"),
+  maxAmount: decimal("max_amount", { precision: 12, scale: 2 }), // null = no upper limit
+  costCenter: varchar("cost_center"), // null = any cost center
+  department: varchar("department"), // null = any department
+  categoryId: varchar("category_id").references(() => categories.id), // null = any category
+  approverId: varchar("approver_id").references(() => users.id), // specific approver, if any
+  approverRole: userRoleEnum("approver_role").default("aprovador"), // used when no specific approver is set
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Approval steps required for a specific quotation request
+export const quotationApprovalSteps = pgTable("quotation_approval_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationRequestId: varchar("quotation_request_id").references(() => quotationRequests.id).notNull(),
+  policyId: varchar("policy_id").references(() => approvalPolicies.id),
+  stepOrder: integer("step_order").notNull(),
+  name: varchar("name").notNull(),
+  approverId: varchar("approver_id").references(() => users.id),
+  approverRole: userRoleEnum("approver_role").default("aprovador"),
+  status: approvalStepStatusEnum("status").default("pendente"),
+  decidedById: varchar("decided_by_id").references(() => users.id),
+  onBehalfOfId: varchar("on_behalf_of_id").references(() => users.id), // set when decided by a delegate
+  decidedAt: timestamp("decided_at"),
+  comments: text("comments"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Approval delegations (approver hands their approval authority to another user for a date range)
+export const approvalDelegations = pgTable("approval_delegations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  delegatorId: varchar("delegator_id").references(() => users.id).notNull(),
+  delegateId: varchar("delegate_id").references(() => users.id).notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  isActive: boolean("is_active").default(true), // false once revoked
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Purchase orders
@@ -163,11 +285,207 @@ export const purchaseOrders = pgTable("purchase_orders", {
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
   deliveryAddress: text("delivery_address"),
   expectedDeliveryDate: timestamp("expected_delivery_date"),
-  status: varchar("status").default("pendente"), // pendente, confirmado, entregue, cancelado
+  status: purchaseOrderStatusEnum("status").default("pendente"),
+  sentAt: timestamp("sent_at"),
+  confirmedAt: timestamp("confirmed_at"),
+  closedAt: timestamp("closed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Purchase order lines (copied from the awarded supplier quotation items)
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  quotationRequestItemId: varchar("quotation_request_item_id").references(() => quotationRequestItems.id),
+  supplierQuotationItemId: varchar("supplier_quotation_item_id").references(() => supplierQuotationItems.id),
+  productId: varchar("product_id").references(() => products.id),
+  productName: varchar("product_name").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unit: varchar("unit").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull(),
+  brand: varchar("brand"),
+  model: varchar("model"),
+  specifications: text("specifications"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Goods receipts (one per delivery; a PO line can be received across several receipts)
+export const goodsReceipts = pgTable("goods_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  receivedAt: timestamp("received_at").notNull(),
+  receivedById: varchar("received_by_id").references(() => users.id),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const goodsReceiptItems = pgTable("goods_receipt_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goodsReceiptId: varchar("goods_receipt_id").references(() => goodsReceipts.id).notNull(),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id).notNull(),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 3 }).notNull(),
+  divergenceNotes: text("divergence_notes"), // damage, wrong item, missing parts...
+});
+
+// Supplier invoices (matched against the purchase order and its goods receipts before payment)
+export const supplierInvoices = pgTable("supplier_invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  invoiceNumber: varchar("invoice_number").notNull(),
+  series: varchar("series"),
+  accessKey: varchar("access_key").unique(), // 44-digit NF-e chave de acesso, when imported from XML
+  issueDate: timestamp("issue_date").notNull(),
+  dueDate: timestamp("due_date"),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  additionalCharges: decimal("additional_charges", { precision: 12, scale: 2 }).default("0.00"), // IPI, ST, freight... billed on top of the lines
+  icmsAmount: decimal("icms_amount", { precision: 12, scale: 2 }),
+  ipiAmount: decimal("ipi_amount", { precision: 12, scale: 2 }),
+  status: invoiceStatusEnum("status").default("divergente"),
+  matchIssues: jsonb("match_issues"), // three-way match findings, empty when the invoice matches
+  matchedAt: timestamp("matched_at"),
+  exceptionApprovedById: varchar("exception_approved_by_id").references(() => users.id),
+  exceptionApprovedAt: timestamp("exception_approved_at"),
+  exceptionNotes: text("exception_notes"),
+  paidAt: timestamp("paid_at"),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const supplierInvoiceItems = pgTable("supplier_invoice_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").references(() => supplierInvoices.id).notNull(),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id), // null = not on the order
+  description: varchar("description").notNull(),
+  productCode: varchar("product_code"), // supplier's own code (NF-e cProd)
+  ncm: varchar("ncm"),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull(),
+  icmsAmount: decimal("icms_amount", { precision: 12, scale: 2 }),
+  ipiAmount: decimal("ipi_amount", { precision: 12, scale: 2 }),
+});
+
+// Three-way match tolerances; supplierId null = default for every supplier
+export const invoiceMatchTolerances = pgTable("invoice_match_tolerances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).unique(),
+  priceTolerancePercent: decimal("price_tolerance_percent", { precision: 5, scale: 2 }).default("0.00"),
+  quantityTolerancePercent: decimal("quantity_tolerance_percent", { precision: 5, scale: 2 }).default("0.00"),
+  amountTolerance: decimal("amount_tolerance", { precision: 12, scale: 2 }).default("0.00"), // invoice total vs sum of its lines
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Quality incidents (damaged goods, wrong items, out of spec...) counted against the supplier score
+export const supplierIncidents = pgTable("supplier_incidents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  goodsReceiptId: varchar("goods_receipt_id").references(() => goodsReceipts.id),
+  severity: incidentSeverityEnum("severity").default("media"),
+  description: text("description").notNull(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Weights of each criterion in the supplier score (a single row; defaults apply while it doesn't exist)
+export const supplierScoreWeights = pgTable("supplier_score_weights", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  responseRate: decimal("response_rate", { precision: 5, scale: 2 }).notNull(),
+  priceCompetitiveness: decimal("price_competitiveness", { precision: 5, scale: 2 }).notNull(),
+  onTimeDelivery: decimal("on_time_delivery", { precision: 5, scale: 2 }).notNull(),
+  quality: decimal("quality", { precision: 5, scale: 2 }).notNull(),
+  updatedById: varchar("updated_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Document types required from suppliers (CND, FGTS regularity, insurance...)
+export const supplierDocumentTypes = pgTable("supplier_document_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  isMandatory: boolean("is_mandatory").default(false), // suppliers are blocked when it lapses
+  alertDaysBefore: integer("alert_days_before").default(30),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Supplier documents; the most recent upload of each type is the one in force
+export const supplierDocuments = pgTable("supplier_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  documentTypeId: varchar("document_type_id").references(() => supplierDocumentTypes.id).notNull(),
+  fileName: varchar("file_name").notNull(),
+  mimeType: varchar("mime_type"),
+  fileContent: text("file_content").notNull(), // base64
+  issueDate: timestamp("issue_date").notNull(),
+  expiryDate: timestamp("expiry_date"), // null = does not expire
+  expiryAlertSentAt: timestamp("expiry_alert_sent_at"),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Prices actually paid or awarded for a product: one entry per awarded quotation line, superseded by
+// the purchase order line generated from it
+export const productPriceHistory = pgTable("product_price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  source: priceHistorySourceEnum("source").notNull(),
+  supplierQuotationItemId: varchar("supplier_quotation_item_id").references(() => supplierQuotationItems.id).unique(),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id).unique(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unit: varchar("unit").notNull(),
+  recordedAt: timestamp("recorded_at").notNull(), // date of the quotation or of the order
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Cost centers (quotationRequests.costCenter refers to the code)
+export const costCenters = pgTable("cost_centers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").unique().notNull(),
+  name: varchar("name").notNull(),
+  department: varchar("department"),
+  blockOverBudget: boolean("block_over_budget").default(false), // false only warns when an approval exceeds the budget
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Budget amounts per cost center; month is null for an annual budget
+export const costCenterBudgets = pgTable("cost_center_budgets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  costCenterId: varchar("cost_center_id").references(() => costCenters.id).notNull(),
+  year: integer("year").notNull(),
+  month: integer("month"), // 1-12
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Budget ledger: commitments on approval, consumption on purchase order, reversals of commitments
+export const budgetEntries = pgTable("budget_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  costCenterId: varchar("cost_center_id").references(() => costCenters.id).notNull(),
+  quotationRequestId: varchar("quotation_request_id").references(() => quotationRequests.id),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  type: budgetEntryTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  referenceDate: timestamp("reference_date").notNull(), // budget period the entry counts against
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Audit logs
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -192,6 +510,21 @@ export const aiAnalyses = pgTable("ai_analyses", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Saved column mappings for spreadsheet imports, reusable per supplier or per department
+export const importMappingProfiles = pgTable("import_mapping_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  importType: varchar("import_type").notNull(), // quotation_requests, supplier_quotations
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  department: varchar("department"),
+  headerRow: integer("header_row").notNull().default(1), // 1-based spreadsheet row holding the column names
+  columns: jsonb("columns").notNull(), // import field -> spreadsheet column name
+  defaults: jsonb("defaults"), // import field -> value used when the column is not mapped or empty
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   quotationRequests: many(quotationRequests),
@@ -202,10 +535,14 @@ export const usersRelations = relations(users, ({ many }) => ({
 export const suppliersRelations = relations(suppliers, ({ many }) => ({
   quotations: many(supplierQuotations),
   purchaseOrders: many(purchaseOrders),
+  incidents: many(supplierIncidents),
+  documents: many(supplierDocuments),
+  categories: many(supplierCategories),
 }));
 
 export const categoriesRelations = relations(categories, ({ many, one }) => ({
   products: many(products),
+  suppliers: many(supplierCategories),
   parent: one(categories, {
     fields: [categories.parentId],
     references: [categories.id],
@@ -213,12 +550,39 @@ export const categoriesRelations = relations(categories, ({ many, one }) => ({
   children: many(categories, { relationName: "parent" }),
 }));
 
+export const supplierCategoriesRelations = relations(supplierCategories, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierCategories.supplierId],
+    references: [suppliers.id],
+  }),
+  category: one(categories, {
+    fields: [supplierCategories.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const supplierOnboardingsRelations = relations(supplierOnboardings, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierOnboardings.supplierId],
+    references: [suppliers.id],
+  }),
+  reviewedBy: one(users, {
+    fields: [supplierOnboardings.reviewedById],
+    references: [users.id],
+  }),
+  createdBy: one(users, {
+    fields: [supplierOnboardings.createdById],
+    references: [users.id],
+  }),
+}));
+
 export const productsRelations = relations(products, ({ one, many }) => ({
   category: one(categories, {
     fields: [products.categoryId],
     references: [categories.id],
   }),
   quotationItems: many(quotationRequestItems),
+  priceHistory: many(productPriceHistory),
 }));
 
 export const quotationRequestsRelations = relations(quotationRequests, ({ one, many }) => ({
@@ -233,6 +597,7 @@ export const quotationRequestsRelations = relations(quotationRequests, ({ one, m
   }),
   items: many(quotationRequestItems),
   supplierQuotations: many(supplierQuotations),
+  approvalSteps: many(quotationApprovalSteps),
   purchaseOrder: many(purchaseOrders),
 }));
 
@@ -271,7 +636,59 @@ export const supplierQuotationItemsRelations = relations(supplierQuotationItems,
   }),
 }));
 
-export const purchaseOrdersRelations = relations(purchaseOrders, ({ one }) => ({
+export const supplierPortalLinksRelations = relations(supplierPortalLinks, ({ one }) => ({
+  quotationRequest: one(quotationRequests, {
+    fields: [supplierPortalLinks.quotationRequestId],
+    references: [quotationRequests.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [supplierPortalLinks.supplierId],
+    references: [suppliers.id],
+  }),
+  supplierQuotation: one(supplierQuotations, {
+    fields: [supplierPortalLinks.supplierQuotationId],
+    references: [supplierQuotations.id],
+  }),
+}));
+
+export const approvalPoliciesRelations = relations(approvalPolicies, ({ one }) => ({
+  category: one(categories, {
+    fields: [approvalPolicies.categoryId],
+    references: [categories.id],
+  }),
+  approver: one(users, {
+    fields: [approvalPolicies.approverId],
+    references: [users.id],
+  }),
+}));
+
+export const quotationApprovalStepsRelations = relations(quotationApprovalSteps, ({ one }) => ({
+  quotationRequest: one(quotationRequests, {
+    fields: [quotationApprovalSteps.quotationRequestId],
+    references: [quotationRequests.id],
+  }),
+  policy: one(approvalPolicies, {
+    fields: [quotationApprovalSteps.policyId],
+    references: [approvalPolicies.id],
+  }),
+  approver: one(users, {
+    fields: [quotationApprovalSteps.approverId],
+    references: [users.id],
+  }),
+}));
+
+export const approvalDelegationsRelations = relations(approvalDelegations, ({ one }) => ({
+  delegator: one(users, {
+    fields: [approvalDelegations.delegatorId],
+    references: [users.id],
+  }),
+  delegate: one(users, {
+    fields: [approvalDelegations.delegateId],
+    references: [users.id],
+  }),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
   quotationRequest: one(quotationRequests, {
     fields: [purchaseOrders.quotationRequestId],
     references: [quotationRequests.id],
@@ -280,6 +697,169 @@ export const purchaseOrdersRelations = relations(purchaseOrders, ({ one }) => ({
     fields: [purchaseOrders.supplierId],
     references: [suppliers.id],
   }),
+  items: many(purchaseOrderItems),
+  receipts: many(goodsReceipts),
+  invoices: many(supplierInvoices),
+}));
+
+export const goodsReceiptsRelations = relations(goodsReceipts, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [goodsReceipts.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  receivedBy: one(users, {
+    fields: [goodsReceipts.receivedById],
+    references: [users.id],
+  }),
+  items: many(goodsReceiptItems),
+}));
+
+export const goodsReceiptItemsRelations = relations(goodsReceiptItems, ({ one }) => ({
+  goodsReceipt: one(goodsReceipts, {
+    fields: [goodsReceiptItems.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
+  purchaseOrderItem: one(purchaseOrderItems, {
+    fields: [goodsReceiptItems.purchaseOrderItemId],
+    references: [purchaseOrderItems.id],
+  }),
+}));
+
+export const supplierInvoicesRelations = relations(supplierInvoices, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [supplierInvoices.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [supplierInvoices.supplierId],
+    references: [suppliers.id],
+  }),
+  exceptionApprovedBy: one(users, {
+    fields: [supplierInvoices.exceptionApprovedById],
+    references: [users.id],
+  }),
+  items: many(supplierInvoiceItems),
+}));
+
+export const supplierInvoiceItemsRelations = relations(supplierInvoiceItems, ({ one }) => ({
+  invoice: one(supplierInvoices, {
+    fields: [supplierInvoiceItems.invoiceId],
+    references: [supplierInvoices.id],
+  }),
+  purchaseOrderItem: one(purchaseOrderItems, {
+    fields: [supplierInvoiceItems.purchaseOrderItemId],
+    references: [purchaseOrderItems.id],
+  }),
+}));
+
+export const invoiceMatchTolerancesRelations = relations(invoiceMatchTolerances, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [invoiceMatchTolerances.supplierId],
+    references: [suppliers.id],
+  }),
+}));
+
+export const supplierIncidentsRelations = relations(supplierIncidents, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierIncidents.supplierId],
+    references: [suppliers.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [supplierIncidents.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  goodsReceipt: one(goodsReceipts, {
+    fields: [supplierIncidents.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
+  createdBy: one(users, {
+    fields: [supplierIncidents.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const supplierDocumentTypesRelations = relations(supplierDocumentTypes, ({ many }) => ({
+  documents: many(supplierDocuments),
+}));
+
+export const supplierDocumentsRelations = relations(supplierDocuments, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierDocuments.supplierId],
+    references: [suppliers.id],
+  }),
+  documentType: one(supplierDocumentTypes, {
+    fields: [supplierDocuments.documentTypeId],
+    references: [supplierDocumentTypes.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [supplierDocuments.uploadedById],
+    references: [users.id],
+  }),
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  quotationRequestItem: one(quotationRequestItems, {
+    fields: [purchaseOrderItems.quotationRequestItemId],
+    references: [quotationRequestItems.id],
+  }),
+  supplierQuotationItem: one(supplierQuotationItems, {
+    fields: [purchaseOrderItems.supplierQuotationItemId],
+    references: [supplierQuotationItems.id],
+  }),
+  product: one(products, {
+    fields: [purchaseOrderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productPriceHistoryRelations = relations(productPriceHistory, ({ one }) => ({
+  product: one(products, {
+    fields: [productPriceHistory.productId],
+    references: [products.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [productPriceHistory.supplierId],
+    references: [suppliers.id],
+  }),
+  supplierQuotationItem: one(supplierQuotationItems, {
+    fields: [productPriceHistory.supplierQuotationItemId],
+    references: [supplierQuotationItems.id],
+  }),
+  purchaseOrderItem: one(purchaseOrderItems, {
+    fields: [productPriceHistory.purchaseOrderItemId],
+    references: [purchaseOrderItems.id],
+  }),
+}));
+
+export const costCentersRelations = relations(costCenters, ({ many }) => ({
+  budgets: many(costCenterBudgets),
+  entries: many(budgetEntries),
+}));
+
+export const costCenterBudgetsRelations = relations(costCenterBudgets, ({ one }) => ({
+  costCenter: one(costCenters, {
+    fields: [costCenterBudgets.costCenterId],
+    references: [costCenters.id],
+  }),
+}));
+
+export const budgetEntriesRelations = relations(budgetEntries, ({ one }) => ({
+  costCenter: one(costCenters, {
+    fields: [budgetEntries.costCenterId],
+    references: [costCenters.id],
+  }),
+  quotationRequest: one(quotationRequests, {
+    fields: [budgetEntries.quotationRequestId],
+    references: [quotationRequests.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [budgetEntries.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
 }));
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
@@ -289,6 +869,17 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   }),
 }));
 
+export const importMappingProfilesRelations = relations(importMappingProfiles, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [importMappingProfiles.supplierId],
+    references: [suppliers.id],
+  }),
+  createdBy: one(users, {
+    fields: [importMappingProfiles.createdById],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -300,12 +891,29 @@ export const insertSupplierSchema = createInsertSchema(suppliers).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // CNPJ, or CPF for individual suppliers, stored as digits only
+  cnpj: taxIdSchema.nullish().or(z.literal("").transform(() => null)),
+});
+
+export const insertSupplierCategorySchema = createInsertSchema(supplierCategories).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSupplierOnboardingSchema = createInsertSchema(supplierOnboardings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // Blank codes are stored as null so that the unique constraint only applies to real codes
+  code: z.string().trim().nullish().transform(code => code || null),
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
@@ -334,6 +942,27 @@ export const insertSupplierQuotationItemSchema = createInsertSchema(supplierQuot
   id: true,
 });
 
+export const insertSupplierPortalLinkSchema = createInsertSchema(supplierPortalLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertApprovalPolicySchema = createInsertSchema(approvalPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuotationApprovalStepSchema = createInsertSchema(quotationApprovalSteps).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertApprovalDelegationSchema = createInsertSchema(approvalDelegations).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
   id: true,
   orderNumber: true,
@@ -341,6 +970,80 @@ export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit
   updatedAt: true,
 });
 
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGoodsReceiptSchema = createInsertSchema(goodsReceipts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGoodsReceiptItemSchema = createInsertSchema(goodsReceiptItems).omit({
+  id: true,
+});
+
+export const insertSupplierInvoiceSchema = createInsertSchema(supplierInvoices).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSupplierInvoiceItemSchema = createInsertSchema(supplierInvoiceItems).omit({
+  id: true,
+});
+
+export const insertInvoiceMatchToleranceSchema = createInsertSchema(invoiceMatchTolerances).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSupplierIncidentSchema = createInsertSchema(supplierIncidents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSupplierScoreWeightsSchema = createInsertSchema(supplierScoreWeights).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSupplierDocumentTypeSchema = createInsertSchema(supplierDocumentTypes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSupplierDocumentSchema = createInsertSchema(supplierDocuments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProductPriceHistorySchema = createInsertSchema(productPriceHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCostCenterSchema = createInsertSchema(costCenters).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCostCenterBudgetSchema = createInsertSchema(costCenterBudgets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBudgetEntrySchema = createInsertSchema(budgetEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   createdAt: true,
@@ -351,6 +1054,12 @@ export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses).omit({
   createdAt: true,
 });
 
+export const insertImportMappingProfileSchema = createInsertSchema(importMappingProfiles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -359,6 +1068,12 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Supplier = typeof suppliers.$inferSelect;
 export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
 
+export type SupplierCategory = typeof supplierCategories.$inferSelect;
+export type InsertSupplierCategory = z.infer<typeof insertSupplierCategorySchema>;
+
+export type SupplierOnboarding = typeof supplierOnboardings.$inferSelect;
+export type InsertSupplierOnboarding = z.infer<typeof insertSupplierOnboardingSchema>;
+
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
@@ -377,11 +1092,68 @@ export type InsertSupplierQuotation = z.infer<typeof insertSupplierQuotationSche
 export type SupplierQuotationItem = typeof supplierQuotationItems.$inferSelect;
 export type InsertSupplierQuotationItem = z.infer<typeof insertSupplierQuotationItemSchema>;
 
+export type SupplierPortalLink = typeof supplierPortalLinks.$inferSelect;
+export type InsertSupplierPortalLink = z.infer<typeof insertSupplierPortalLinkSchema>;
+
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+export type InsertApprovalPolicy = z.infer<typeof insertApprovalPolicySchema>;
+
+export type QuotationApprovalStep = typeof quotationApprovalSteps.$inferSelect;
+export type InsertQuotationApprovalStep = z.infer<typeof insertQuotationApprovalStepSchema>;
+
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+export type InsertApprovalDelegation = z.infer<typeof insertApprovalDelegationSchema>;
+
 export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
 export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
 
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+export type InsertGoodsReceipt = z.infer<typeof insertGoodsReceiptSchema>;
+
+export type GoodsReceiptItem = typeof goodsReceiptItems.$inferSelect;
+export type InsertGoodsReceiptItem = z.infer<typeof insertGoodsReceiptItemSchema>;
+
+export type SupplierInvoice = typeof supplierInvoices.$inferSelect;
+export type InsertSupplierInvoice = z.infer<typeof insertSupplierInvoiceSchema>;
+
+export type SupplierInvoiceItem = typeof supplierInvoiceItems.$inferSelect;
+export type InsertSupplierInvoiceItem = z.infer<typeof insertSupplierInvoiceItemSchema>;
+
+export type InvoiceMatchTolerance = typeof invoiceMatchTolerances.$inferSelect;
+export type InsertInvoiceMatchTolerance = z.infer<typeof insertInvoiceMatchToleranceSchema>;
+
+export type SupplierIncident = typeof supplierIncidents.$inferSelect;
+export type InsertSupplierIncident = z.infer<typeof insertSupplierIncidentSchema>;
+
+export type SupplierScoreWeights = typeof supplierScoreWeights.$inferSelect;
+export type InsertSupplierScoreWeights = z.infer<typeof insertSupplierScoreWeightsSchema>;
+
+export type SupplierDocumentType = typeof supplierDocumentTypes.$inferSelect;
+export type InsertSupplierDocumentType = z.infer<typeof insertSupplierDocumentTypeSchema>;
+
+export type SupplierDocument = typeof supplierDocuments.$inferSelect;
+export type InsertSupplierDocument = z.infer<typeof insertSupplierDocumentSchema>;
+
+export type ProductPriceHistory = typeof productPriceHistory.$inferSelect;
+export type InsertProductPriceHistory = z.infer<typeof insertProductPriceHistorySchema>;
+
+export type CostCenter = typeof costCenters.$inferSelect;
+export type InsertCostCenter = z.infer<typeof insertCostCenterSchema>;
+
+export type CostCenterBudget = typeof costCenterBudgets.$inferSelect;
+export type InsertCostCenterBudget = z.infer<typeof insertCostCenterBudgetSchema>;
+
+export type BudgetEntry = typeof budgetEntries.$inferSelect;
+export type InsertBudgetEntry = z.infer<typeof insertBudgetEntrySchema>;
+
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
 export type AiAnalysis = typeof aiAnalyses.$inferSelect;
 export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
+
+export type ImportMappingProfile = typeof importMappingProfiles.$inferSelect;
+export type InsertImportMappingProfile = z.infer<typeof insertImportMappingProfileSchema>;
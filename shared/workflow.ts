@@ -0,0 +1,115 @@
+import type { PurchaseOrder, QuotationRequest, SupplierInvoice } from "./schema";
+
+export type QuotationStatus = NonNullable<QuotationRequest["status"]>;
+export type PurchaseOrderStatus = NonNullable<PurchaseOrder["status"]>;
+export type InvoiceStatus = NonNullable<SupplierInvoice["status"]>;
+
+// Allowed status transitions for quotation requests.
+// Final states (aprovado, rejeitado, cancelado) have no outgoing transitions.
+export const quotationStatusTransitions: Record<QuotationStatus, QuotationStatus[]> = {
+  rascunho: ["em_cotacao", "cancelado"],
+  em_cotacao: ["cotacao_encerrada", "aguardando_aprovacao", "cancelado"],
+  // Closed for bids: the buyer compares quotations, or reopens the round with a new deadline
+  cotacao_encerrada: ["em_cotacao", "aguardando_aprovacao", "cancelado"],
+  aguardando_aprovacao: ["aprovado", "rejeitado", "cancelado"],
+  aprovado: [],
+  rejeitado: [],
+  cancelado: [],
+};
+
+export function getAllowedQuotationTransitions(from: QuotationStatus): QuotationStatus[] {
+  return quotationStatusTransitions[from] ?? [];
+}
+
+export function canTransitionQuotation(from: QuotationStatus, to: QuotationStatus): boolean {
+  return getAllowedQuotationTransitions(from).includes(to);
+}
+
+export function isFinalQuotationStatus(status: QuotationStatus): boolean {
+  return getAllowedQuotationTransitions(status).length === 0;
+}
+
+// Allowed status transitions for purchase orders.
+// Deliveries move a confirmed order forward; closing a partially delivered order marks it "entregue".
+export const purchaseOrderStatusTransitions: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  pendente: ["enviado", "confirmado", "cancelado"],
+  enviado: ["confirmado", "cancelado"],
+  confirmado: ["parcialmente_entregue", "entregue", "cancelado"],
+  parcialmente_entregue: ["entregue"],
+  entregue: [],
+  cancelado: [],
+};
+
+export function getAllowedPurchaseOrderTransitions(from: PurchaseOrderStatus): PurchaseOrderStatus[] {
+  return purchaseOrderStatusTransitions[from] ?? [];
+}
+
+export function canTransitionPurchaseOrder(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return getAllowedPurchaseOrderTransitions(from).includes(to);
+}
+
+// A divergent invoice only becomes payable once it matches or an approver accepts the exception
+export const invoiceStatusTransitions: Record<InvoiceStatus, InvoiceStatus[]> = {
+  divergente: ["a_pagar", "cancelado"],
+  a_pagar: ["pago", "cancelado"],
+  pago: [],
+  cancelado: [],
+};
+
+export function getAllowedInvoiceTransitions(from: InvoiceStatus): InvoiceStatus[] {
+  return invoiceStatusTransitions[from] ?? [];
+}
+
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return getAllowedInvoiceTransitions(from).includes(to);
+}
+
+// Statuses in which suppliers may still send or update quotations
+export const quotationOpenStatuses: QuotationStatus[] = ["rascunho", "em_cotacao"];
+
+export function isResponseDeadlinePassed(
+  request: Pick<QuotationRequest, "responseDeadline">,
+  at: Date = new Date(),
+): boolean {
+  return !!request.responseDeadline && new Date(request.responseDeadline).getTime() <= at.getTime();
+}
+
+export function isAcceptingQuotations(
+  request: Pick<QuotationRequest, "status" | "responseDeadline">,
+  at: Date = new Date(),
+): boolean {
+  return quotationOpenStatuses.includes(request.status ?? "rascunho") && !isResponseDeadlinePassed(request, at);
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    public readonly allowed: string[],
+  ) {
+    super(
+      allowed.length > 0
+        ? `Invalid status transition from "${from}" to "${to}". Allowed: ${allowed.join(', ')}`
+        : `Invalid status transition from "${from}" to "${to}". "${from}" is a final status`
+    );
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export function assertQuotationTransition(from: QuotationStatus, to: QuotationStatus): void {
+  if (!canTransitionQuotation(from, to)) {
+    throw new InvalidStatusTransitionError(from, to, getAllowedQuotationTransitions(from));
+  }
+}
+
+export function assertPurchaseOrderTransition(from: PurchaseOrderStatus, to: PurchaseOrderStatus): void {
+  if (!canTransitionPurchaseOrder(from, to)) {
+    throw new InvalidStatusTransitionError(from, to, getAllowedPurchaseOrderTransitions(from));
+  }
+}
+
+export function assertInvoiceTransition(from: InvoiceStatus, to: InvoiceStatus): void {
+  if (!canTransitionInvoice(from, to)) {
+    throw new InvalidStatusTransitionError(from, to, getAllowedInvoiceTransitions(from));
+  }
+}